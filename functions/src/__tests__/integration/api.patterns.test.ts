@@ -261,7 +261,8 @@ describe('Integration: /v1/patterns', () => {
     const args = (sendMock.mock.calls[0] || [])[0] as any;
     expect(Array.isArray(args.tokens)).toBe(true);
     expect(args.data.type).toBe('pattern.preview');
-    expect(() => JSON.parse(args.data.spec)).not.toThrow();
+    expect(args.data.spec).toBeUndefined();
+    expect(typeof args.data.specBinary).toBe('string');
     sendMock.mockRestore();
   });
 
@@ -5,6 +5,7 @@
 import { describe, test, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
 import { app } from '../../api/test';
 import request from 'supertest';
+import { db } from '../../core/firebase';
 
 describe('Rules API Integration Tests', () => {
   const testUserId = 'test-user-rules';
@@ -18,6 +19,11 @@ describe('Rules API Integration Tests', () => {
   beforeEach(async () => {
     // Очистка тестовых данных
     // В реальном тесте здесь была бы очистка Firestore
+
+    // Документы, на которые ссылаются правила: без них создание/обновление отклоняется проверкой ссылок
+    await db.collection('devices').doc('device123').set({ ownerId: testUserId, status: 'online' });
+    await db.collection('practices').doc('practice123').set({ title: 'Test practice', durationSec: 60 });
+    await db.collection('users').doc('partner123').set({ displayName: 'Partner' });
   });
 
   describe('GET /v1/rules', () => {
@@ -80,16 +86,13 @@ describe('Rules API Integration Tests', () => {
       const ruleData = {
         trigger: {
           type: 'time',
-          params: {
-            hour: 9,
-            minute: 0
-          }
+          params: {}
         },
         action: {
           type: 'notification',
           params: {
             title: 'Morning Practice',
-            message: 'Time for your daily meditation'
+            body: 'Time for your daily meditation'
           }
         },
         schedule: {
@@ -130,6 +133,23 @@ describe('Rules API Integration Tests', () => {
       expect(response.body.code).toBe('invalid_argument');
     });
 
+    test('should reject references to missing resources', async () => {
+      const response = await request(app)
+        .post('/v1/rules')
+        .set(testHeaders)
+        .send({
+          trigger: { type: 'device_gesture', params: { gesture: 'single_tap', deviceId: 'device123' } },
+          action: { type: 'start_practice', params: { practiceId: 'missing-practice' } },
+          enabled: true
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('invalid_argument');
+      expect(response.body.details.fieldErrors).toEqual([
+        { field: 'action.params.practiceId', message: 'Practice not found' }
+      ]);
+    });
+
     test('should require authentication', async () => {
       const ruleData = {
         trigger: { type: 'device_gesture', params: {} },
@@ -192,7 +212,8 @@ describe('Rules API Integration Tests', () => {
           type: 'send_hug',
           params: {
             toUserId: 'partner123',
-            emotion: { color: '#FF6B6B', patternId: 'calm' }
+            color: '#FF6B6B',
+            patternId: 'calm'
           }
         }
       };
@@ -0,0 +1,292 @@
+/**
+ * In-memory Firestore для юнит-тестов: документы хранятся в firestoreDocs по полному пути
+ * - подключение: jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+ * - FieldValue: jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+ * - сброс между тестами: resetFirestore() в beforeEach
+ * - транзакции и батчи пишут сразу в firestoreDocs; merge — неглубокий, как в прежних локальных заглушках
+ * - runTransaction выполняет транзакции по очереди: параллельные вызовы видят записи друг друга,
+ *   как после повтора транзакции при конфликте в Firestore
+ */
+
+import { jest } from '@jest/globals';
+
+export type DocData = Record<string, unknown>;
+export type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not-in' | 'array-contains';
+
+export interface FakeDocSnapshot {
+  id: string;
+  ref: FakeDocRef;
+  exists: boolean;
+  data(): DocData | undefined;
+}
+
+export interface FakeQuerySnapshot {
+  docs: FakeDocSnapshot[];
+  size: number;
+  empty: boolean;
+}
+
+export interface FakeQuery {
+  where(field: string, op: WhereOp, value: unknown): FakeQuery;
+  orderBy(field: string, direction?: 'asc' | 'desc'): FakeQuery;
+  limit(count: number): FakeQuery;
+  select(...fields: string[]): FakeQuery;
+  get(): Promise<FakeQuerySnapshot>;
+}
+
+export interface FakeCollection extends FakeQuery {
+  id: string;
+  path: string;
+  doc(id?: string): FakeDocRef;
+}
+
+export interface FakeDocRef {
+  id: string;
+  path: string;
+  get(): Promise<FakeDocSnapshot>;
+  set(data: DocData, options?: { merge?: boolean }): Promise<void>;
+  create(data: DocData): Promise<void>;
+  update(data: DocData): Promise<void>;
+  delete(): Promise<void>;
+  collection(name: string): FakeCollection;
+}
+
+export interface FakeWriter {
+  set(ref: FakeDocRef, data: DocData, options?: { merge?: boolean }): void;
+  create(ref: FakeDocRef, data: DocData): void;
+  update(ref: FakeDocRef, data: DocData): void;
+  delete(ref: FakeDocRef): void;
+}
+
+export interface FakeTransaction extends FakeWriter {
+  get(ref: FakeDocRef): Promise<FakeDocSnapshot>;
+  get(query: FakeQuery): Promise<FakeQuerySnapshot>;
+}
+
+export interface FakeBatch extends FakeWriter {
+  commit(): Promise<void>;
+}
+
+interface QueryState {
+  matchesPath: (path: string) => boolean;
+  filters: Array<[field: string, op: WhereOp, value: unknown]>;
+  order: Array<[field: string, direction: 'asc' | 'desc']>;
+  limit?: number;
+  fields?: string[];
+}
+
+interface IncrementSentinel {
+  __increment: number;
+}
+
+interface DeleteSentinel {
+  __delete: true;
+}
+
+export const firestoreDocs = new Map<string, DocData>();
+let autoIdCounter = 0;
+
+export function resetFirestore(): void {
+  firestoreDocs.clear();
+  autoIdCounter = 0;
+}
+
+// Sentinel-значения FieldValue, которые понимает applyWrite
+export const fieldValue = {
+  increment: (n: number): IncrementSentinel => ({ __increment: n }),
+  serverTimestamp: (): string => 'server-timestamp',
+  delete: (): DeleteSentinel => ({ __delete: true }),
+};
+
+function isIncrement(value: unknown): value is IncrementSentinel {
+  return typeof value === 'object' && value !== null && typeof (value as IncrementSentinel).__increment === 'number';
+}
+
+export function applyWrite(path: string, data: DocData, merge = false): void {
+  const next: DocData = merge ? { ...firestoreDocs.get(path) } : {};
+  for (const [key, value] of Object.entries(data)) {
+    if ((value as DeleteSentinel | null)?.__delete === true) delete next[key];
+    else next[key] = isIncrement(value) ? Number(next[key] ?? 0) + value.__increment : value;
+  }
+  firestoreDocs.set(path, next);
+}
+
+function createDoc(path: string, data: DocData): void {
+  if (firestoreDocs.has(path)) throw new Error(`Document already exists: ${path}`);
+  applyWrite(path, data);
+}
+
+function updateDoc(path: string, data: DocData): void {
+  if (!firestoreDocs.has(path)) throw new Error(`No document to update: ${path}`);
+  applyWrite(path, data, true);
+}
+
+function parentPath(path: string): string {
+  return path.split('/').slice(0, -1).join('/');
+}
+
+function lastSegment(path: string): string {
+  return path.split('/').pop() as string;
+}
+
+function fieldOf(data: DocData, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, key) => (value as DocData | undefined)?.[key], data);
+}
+
+// Date и Timestamp сравниваются по времени, остальные значения — как есть
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) return value.getTime();
+  const seconds = (value as { seconds?: unknown } | null)?.seconds;
+  if (typeof seconds === 'number') return seconds * 1000;
+  return value;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return (left as number) < (right as number) ? -1 : 1;
+}
+
+function matchesFilter(data: DocData, [field, op, value]: QueryState['filters'][number]): boolean {
+  const actual = fieldOf(data, field);
+  switch (op) {
+  case '==':
+    return comparable(actual) === comparable(value);
+  case '!=':
+    return actual !== undefined && comparable(actual) !== comparable(value);
+  case 'in':
+    return (value as unknown[]).some((item) => comparable(item) === comparable(actual));
+  case 'not-in':
+    return actual !== undefined && !(value as unknown[]).some((item) => comparable(item) === comparable(actual));
+  case 'array-contains':
+    return Array.isArray(actual) && actual.some((item) => comparable(item) === comparable(value));
+  default: {
+    // Диапазонные фильтры, как в Firestore, не совпадают со значениями другого типа
+    if (typeof comparable(actual) !== typeof comparable(value)) return false;
+    const order = compare(actual, value);
+    if (op === '<') return order < 0;
+    if (op === '<=') return order <= 0;
+    if (op === '>') return order > 0;
+    return order >= 0;
+  }
+  }
+}
+
+function project(data: DocData, fields?: string[]): DocData {
+  if (!fields) return data;
+  const result: DocData = {};
+  for (const field of fields) {
+    if (field in data) result[field] = data[field];
+  }
+  return result;
+}
+
+function snapshotOf(path: string, fields?: string[]): FakeDocSnapshot {
+  const data = firestoreDocs.get(path);
+  return {
+    id: lastSegment(path),
+    ref: makeDocRef(path),
+    exists: data !== undefined,
+    data: () => (data === undefined ? undefined : project(data, fields)),
+  };
+}
+
+function makeQuery(state: QueryState): FakeQuery {
+  return {
+    where: (field, op, value) => makeQuery({ ...state, filters: [...state.filters, [field, op, value]] }),
+    orderBy: (field, direction = 'asc') => makeQuery({ ...state, order: [...state.order, [field, direction]] }),
+    limit: (count) => makeQuery({ ...state, limit: count }),
+    select: (...fields) => makeQuery({ ...state, fields }),
+    get: async () => {
+      const paths = [...firestoreDocs.entries()]
+        .filter(([path, data]) => state.matchesPath(path) && state.filters.every((filter) => matchesFilter(data, filter)))
+        .sort(([pathA, a], [pathB, b]) => {
+          for (const [field, direction] of state.order) {
+            const order = compare(fieldOf(a, field), fieldOf(b, field));
+            if (order !== 0) return direction === 'asc' ? order : -order;
+          }
+          return pathA < pathB ? -1 : 1;
+        })
+        .slice(0, state.limit)
+        .map(([path]) => path);
+      const docs = paths.map((path) => snapshotOf(path, state.fields));
+      return { docs, size: docs.length, empty: docs.length === 0 };
+    },
+  };
+}
+
+export function makeCollection(path: string): FakeCollection {
+  return {
+    ...makeQuery({ matchesPath: (docPath) => parentPath(docPath) === path, filters: [], order: [] }),
+    id: lastSegment(path),
+    path,
+    doc: (id?: string) => makeDocRef(`${path}/${id ?? `auto-${++autoIdCounter}`}`),
+  };
+}
+
+export function makeDocRef(path: string): FakeDocRef {
+  return {
+    id: lastSegment(path),
+    path,
+    get: async () => snapshotOf(path),
+    set: async (data, options) => applyWrite(path, data, options?.merge),
+    create: async (data) => createDoc(path, data),
+    update: async (data) => updateDoc(path, data),
+    delete: async () => {
+      firestoreDocs.delete(path);
+    },
+    collection: (name) => makeCollection(`${path}/${name}`),
+  };
+}
+
+// Записи транзакции и батча применяются через те же функции, что и записи через ref
+const writer: FakeWriter = {
+  set: (ref, data, options) => applyWrite(ref.path, data, options?.merge),
+  create: (ref, data) => createDoc(ref.path, data),
+  update: (ref, data) => updateDoc(ref.path, data),
+  delete: (ref) => {
+    firestoreDocs.delete(ref.path);
+  },
+};
+
+export function makeTransaction(): FakeTransaction {
+  return {
+    ...writer,
+    get: ((target: FakeDocRef | FakeQuery) => target.get()) as FakeTransaction['get'],
+  };
+}
+
+function makeBatch(): FakeBatch {
+  const writes: Array<() => void> = [];
+  return {
+    set: (ref, data, options) => writes.push(() => writer.set(ref, data, options)),
+    create: (ref, data) => writes.push(() => writer.create(ref, data)),
+    update: (ref, data) => writes.push(() => writer.update(ref, data)),
+    delete: (ref) => writes.push(() => writer.delete(ref)),
+    commit: async () => writes.forEach((write) => write()),
+  };
+}
+
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+function runSerialized<T>(fn: (tx: FakeTransaction) => Promise<T> | T): Promise<T> {
+  const result = transactionQueue.then(() => fn(makeTransaction()));
+  transactionQueue = result.catch(() => undefined);
+  return result;
+}
+
+export const db = {
+  collection: jest.fn((name: string) => makeCollection(name)),
+  collectionGroup: jest.fn((name: string) =>
+    makeQuery({ matchesPath: (path) => lastSegment(parentPath(path)) === name, filters: [], order: [] })),
+  doc: jest.fn((path: string) => makeDocRef(path)),
+  runTransaction: jest.fn(<T>(fn: (tx: FakeTransaction) => Promise<T> | T): Promise<T> => runSerialized(fn)),
+  batch: jest.fn(() => makeBatch()),
+};
+
+export function firebaseModule(): { db: typeof db } {
+  return { db };
+}
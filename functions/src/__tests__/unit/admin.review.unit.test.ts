@@ -0,0 +1,103 @@
+/**
+ * Unit тесты для модерации паттернов: ожидающие ревизии, снятие с каталога, конкурентные правки
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { Request, Response } from 'express';
+import { adminRouter } from '../../api/admin';
+import { invalidatePatternPreviews } from '../../core/patternPreview';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('../../core/patternPreview', () => ({
+  invalidatePatternPreviews: jest.fn(async () => undefined),
+}));
+
+function review(patternId: string, body: Record<string, unknown>) {
+  const layer = adminRouter.stack.find((l: any) => l.route?.path === '/admin/patterns/:id/review');
+  const stack = layer?.route?.stack ?? [];
+  const handler = stack[stack.length - 1].handle as (req: Request, res: Response) => Promise<unknown>;
+  const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+  const req = { auth: { user: { uid: 'admin-1' } }, params: { id: patternId }, body, headers: {} } as unknown as Request;
+  return handler(req, res).then(() => ({
+    status: (res.status as jest.Mock).mock.calls[0]?.[0],
+    body: (res.json as jest.Mock).mock.calls[0]?.[0] as any,
+  }));
+}
+
+const liveSpec = { type: 'breathing', hardwareVersion: 200, duration: 1000, elements: [] };
+const editedSpec = { ...liveSpec, duration: 2000 };
+
+describe('Admin pattern review', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    docs.set('patterns/p1', {
+      id: 'p1',
+      public: true,
+      reviewStatus: 'approved',
+      spec: liveSpec,
+      currentRevision: 1,
+      latestRevision: 2,
+      pendingRevision: 2,
+      hasPendingRevision: true,
+    });
+    docs.set('patterns/p1/revisions/2', { spec: editedSpec, hardwareVersion: 200 });
+  });
+
+  test('should apply the pending revision it was asked to review', async () => {
+    const result = await review('p1', { action: 'approve', revision: 2 });
+
+    expect(result.status).toBe(200);
+    expect(docs.get('patterns/p1')).toMatchObject({
+      reviewStatus: 'approved',
+      spec: editedSpec,
+      currentRevision: 2,
+      pendingRevision: null,
+      hasPendingRevision: false,
+      reviewerId: 'admin-1',
+    });
+    expect(invalidatePatternPreviews).toHaveBeenCalledWith('p1');
+  });
+
+  test('should refuse a stale revision number and keep the newer pending edit', async () => {
+    docs.set('patterns/p1', { ...docs.get('patterns/p1'), latestRevision: 3, pendingRevision: 3 });
+
+    const result = await review('p1', { action: 'reject', revision: 2 });
+
+    expect(result).toMatchObject({ status: 412, body: { message: 'Pending revision has changed' } });
+    expect(docs.get('patterns/p1')).toMatchObject({ pendingRevision: 3, hasPendingRevision: true });
+  });
+
+  test('should take down the live pattern while a revision is pending', async () => {
+    const result = await review('p1', { action: 'reject', target: 'pattern', reason: 'Abuse' });
+
+    expect(result.status).toBe(200);
+    expect(docs.get('patterns/p1')).toMatchObject({
+      reviewStatus: 'rejected',
+      reviewReason: 'Abuse',
+      spec: liveSpec,
+      pendingRevision: null,
+      hasPendingRevision: false,
+    });
+    expect(invalidatePatternPreviews).not.toHaveBeenCalled();
+    expect((await review('missing', { action: 'approve' })).status).toBe(404);
+  });
+
+  test('should initialise popularity fields when a pattern is approved', async () => {
+    docs.set('patterns/p2', { id: 'p2', public: true, reviewStatus: 'pending', spec: liveSpec, usageCount: 4 });
+
+    expect((await review('p2', { action: 'approve' })).status).toBe(200);
+
+    expect(docs.get('patterns/p2')).toMatchObject({
+      reviewStatus: 'approved',
+      usageCount: 4,
+      likeCount: 0,
+      ratingCount: 0,
+      ratingAverage: null,
+      ratingScore: 3,
+      trendingScore: 0,
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit тесты для планировщика calendar-правил на событиях из локального ICS-фикстура
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { parseIcs } from '../../core/ics';
+import { calendarFireAt, processCalendarRules } from '../../background/calendarScheduler';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/remoteConfig', () => ({
+  getRuleSchedulerCatchUpMinutes: jest.fn(async () => 10),
+}));
+
+jest.mock('../../core/ruleEngine', () => ({
+  ...(jest.requireActual('../../core/ruleEngine') as object),
+  fireRule: jest.fn(),
+}));
+
+const fixture = fs.readFileSync(path.join(__dirname, '../fixtures/calendar.ics'), 'utf8');
+
+function seedRules(...items: Array<{ id: string }>) {
+  for (const rule of items) docs.set(`rules/${rule.id}`, rule);
+}
+
+function calendarRule(id: string, params: Record<string, unknown>) {
+  return {
+    id,
+    ownerId: 'owner-1',
+    trigger: { type: 'calendar', params },
+    action: { type: 'notification', params: { body: 'Calendar' } },
+    enabled: true,
+  };
+}
+
+describe('background: calendarScheduler', () => {
+  let fireRule: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    parseIcs(fixture, { from: new Date('2025-03-09T00:00:00Z'), to: new Date('2025-03-31T00:00:00Z') })
+      .forEach((e, i) => docs.set(`calendarEvents/cal-1_${i}`, { ...e, id: `cal-1_${i}`, ownerId: 'owner-1', calendarId: 'cal-1' }));
+    fireRule = require('../../core/ruleEngine').fireRule as jest.Mock;
+    fireRule.mockResolvedValue({ runId: 'run-1', status: 'succeeded' } as never);
+  });
+
+  test('should compute fire time before start or after end', () => {
+    const event = { startAt: new Date('2025-03-11T15:00:00Z'), endAt: new Date('2025-03-11T16:00:00Z') };
+    expect(calendarFireAt({ minutesBefore: 15 }, event).toISOString()).toBe('2025-03-11T14:45:00.000Z');
+    expect(calendarFireAt({ minutesAfter: 5 }, event).toISOString()).toBe('2025-03-11T16:05:00.000Z');
+    expect(calendarFireAt({}, event).toISOString()).toBe('2025-03-11T15:00:00.000Z');
+  });
+
+  test('should fire matching rule once per event', async () => {
+    seedRules(calendarRule('rule-dentist', { eventTitle: 'dentist', minutesBefore: 15 }));
+    const now = new Date('2025-03-11T14:46:00Z');
+
+    const first = await processCalendarRules(now);
+    const second = await processCalendarRules(now);
+
+    expect(first).toEqual({ rules: 1, fired: 1, errors: 0 });
+    expect(second).toEqual({ rules: 1, fired: 0, errors: 0 });
+    expect(fireRule).toHaveBeenCalledTimes(1);
+    expect(fireRule).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'rule-dentist' }),
+      expect.objectContaining({
+        triggerType: 'calendar',
+        payload: expect.objectContaining({
+          title: 'Dentist appointment',
+          startAt: '2025-03-11T15:00:00.000Z',
+          fireAt: '2025-03-11T14:45:00.000Z',
+        }),
+      }),
+      expect.arrayContaining([
+        expect.objectContaining({ condition: 'trigger.params.eventTitle', matched: true }),
+      ])
+    );
+    const firing = [...docs.entries()].find(([key]) => key.startsWith('calendarFirings/rule-dentist_'));
+    expect(firing?.[1]).toMatchObject({ ruleId: 'rule-dentist', runId: 'run-1' });
+  });
+
+  test('should filter by location and use event end for minutesAfter', async () => {
+    seedRules(
+      calendarRule('rule-zoom', { location: 'ZOOM', minutesAfter: 5 }),
+      calendarRule('rule-office', { location: 'Office', minutesAfter: 5 }),
+    );
+
+    const stats = await processCalendarRules(new Date('2025-03-10T07:20:00Z'));
+
+    expect(stats.fired).toBe(1);
+    expect(fireRule).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'rule-zoom' }),
+      expect.objectContaining({ payload: expect.objectContaining({ title: 'Team standup' }) }),
+      expect.any(Array)
+    );
+  });
+
+  test('should not fire outside the catch-up window', async () => {
+    seedRules(calendarRule('rule-dentist', { eventTitle: 'Dentist' }));
+
+    const early = await processCalendarRules(new Date('2025-03-11T14:59:00Z'));
+    const late = await processCalendarRules(new Date('2025-03-11T15:30:00Z'));
+
+    expect(early.fired + late.fired).toBe(0);
+    expect(fireRule).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { db } from '../../core/firebase';
+import { processDueTimeRules } from '../../background/ruleScheduler';
+import { resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/remoteConfig', () => ({
+  ...(jest.requireActual('../../core/remoteConfig') as object),
+  getRuleSchedulerBatchSize: jest.fn(async () => 100),
+  getRuleSchedulerCatchUpMinutes: jest.fn(async () => 60),
+}));
+
+describe('background: ruleScheduler', () => {
+  const ownerId = 'u_rule_owner';
+
+  async function createTimeRule(id: string, cron: string, nextRunAt: Date) {
+    await db.collection('rules').doc(id).set({
+      id,
+      ownerId,
+      trigger: { type: 'time', params: {} },
+      action: { type: 'smart_home', params: { provider: 'hue', command: 'lights_on' } },
+      enabled: true,
+      schedule: { timezone: 'UTC', cron },
+      nextRunAt,
+      triggerCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  beforeEach(async () => {
+    resetFirestore();
+    await db.collection('users').doc(ownerId).set({ id: ownerId, createdAt: new Date() });
+  });
+
+  it('fires due rule once and advances nextRunAt', async () => {
+    const now = new Date('2025-03-10T09:00:30Z');
+    await createTimeRule('rule_due', '0 9 * * *', new Date('2025-03-10T09:00:00Z'));
+
+    const stats = await processDueTimeRules(now);
+    expect(stats.fired).toBe(1);
+
+    const snap = await db.collection('rules').doc('rule_due').get();
+    expect(snap.data()?.triggerCount).toBe(1);
+    expect(snap.data()?.nextRunAt.toISOString()).toBe('2025-03-11T09:00:00.000Z');
+    expect(snap.data()?.schedulerLock).toBeUndefined();
+
+    const runs = await db.collection('rules').doc('rule_due').collection('runs').get();
+    expect(runs.size).toBe(1);
+    const run = runs.docs[0].data();
+    expect(run.status).toBe('skipped'); // smart_home провайдер не настроен
+    expect(run.triggerType).toBe('time');
+    expect(run.triggerPayload).toEqual({ scheduledFor: '2025-03-10T09:00:00.000Z', missedRuns: 0 });
+    expect(run.matchedConditions[0]).toMatchObject({ condition: 'schedule.cron', matched: true });
+    expect(typeof run.latencyMs).toBe('number');
+  });
+
+  it('does not fire the same rule twice for overlapping runs', async () => {
+    const now = new Date('2025-03-10T09:00:30Z');
+    await createTimeRule('rule_overlap', '0 9 * * *', new Date('2025-03-10T09:00:00Z'));
+
+    const [first, second] = await Promise.all([processDueTimeRules(now), processDueTimeRules(now)]);
+    expect(first.fired + second.fired).toBe(1);
+
+    const snap = await db.collection('rules').doc('rule_overlap').get();
+    expect(snap.data()?.triggerCount).toBe(1);
+  });
+
+  it('coalesces missed windows inside the catch-up limit', async () => {
+    const now = new Date('2025-03-10T10:05:00Z');
+    await createTimeRule('rule_catchup', '*/15 * * * *', new Date('2025-03-10T09:15:00Z'));
+
+    const stats = await processDueTimeRules(now);
+    expect(stats.fired).toBe(1);
+
+    const snap = await db.collection('rules').doc('rule_catchup').get();
+    expect(snap.data()?.triggerCount).toBe(1);
+    expect(snap.data()?.nextRunAt.toISOString()).toBe('2025-03-10T10:15:00.000Z');
+  });
+
+  it('skips windows older than the catch-up limit but reschedules the rule', async () => {
+    const now = new Date('2025-03-10T15:00:00Z');
+    await createTimeRule('rule_stale', '0 9 * * *', new Date('2025-03-10T09:00:00Z'));
+
+    const stats = await processDueTimeRules(now);
+    expect(stats.fired).toBe(0);
+    expect(stats.skipped).toBe(1);
+
+    const snap = await db.collection('rules').doc('rule_stale').get();
+    expect(snap.data()?.triggerCount).toBe(0);
+    expect(snap.data()?.nextRunAt.toISOString()).toBe('2025-03-11T09:00:00.000Z');
+
+    const runs = await db.collection('rules').doc('rule_stale').collection('runs').get();
+    expect(runs.size).toBe(1);
+    expect(runs.docs[0].data()).toMatchObject({
+      status: 'skipped',
+      error: { code: 'deadline_exceeded' },
+    });
+  });
+});
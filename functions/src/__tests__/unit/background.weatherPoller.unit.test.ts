@@ -0,0 +1,120 @@
+/**
+ * Unit тесты для опроса погоды: локальный stub-провайдер, пороги и срабатывание при смене условия
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { processWeatherRules } from '../../background/weatherPoller';
+import { conditionFromWmoCode, getWeatherProvider, registerWeatherProvider, StubWeatherProvider } from '../../core/weather';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/remoteConfig', () => ({
+  getWeatherProviderName: jest.fn(async () => 'stub'),
+}));
+
+jest.mock('../../core/ruleEngine', () => ({
+  ...(jest.requireActual('../../core/ruleEngine') as object),
+  fireRule: jest.fn(),
+}));
+
+const HOME = { lat: 55.75, lng: 37.62 };
+
+function seedRules(...items: Array<{ id: string }>) {
+  for (const rule of items) docs.set(`rules/${rule.id}`, rule);
+}
+
+function weatherRule(id: string, params: Record<string, unknown>, ownerId = 'owner-1') {
+  return {
+    id,
+    ownerId,
+    trigger: { type: 'weather', params },
+    action: { type: 'notification', params: { body: 'Weather' } },
+    enabled: true,
+  };
+}
+
+describe('background: weatherPoller', () => {
+  let fireRule: jest.Mock;
+  let stub: StubWeatherProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    docs.set('users/owner-1', { id: 'owner-1', weatherLocation: HOME });
+    stub = new StubWeatherProvider();
+    registerWeatherProvider(stub);
+    fireRule = require('../../core/ruleEngine').fireRule as jest.Mock;
+    fireRule.mockResolvedValue({ runId: 'run-1', status: 'succeeded' } as never);
+  });
+
+  test('should map WMO weather codes and use provider from Remote Config', async () => {
+    expect([0, 2, 45, 61, 73, 95].map(conditionFromWmoCode)).toEqual(['clear', 'clouds', 'fog', 'rain', 'snow', 'storm']);
+    expect(await getWeatherProvider()).toBe(stub);
+  });
+
+  test('should fire once when precipitation starts and again after it stops and restarts', async () => {
+    seedRules(weatherRule('rule-rain', { precipitation: true }));
+
+    stub.setConditions({ condition: 'clear', precipitation: false });
+    await processWeatherRules();
+    stub.setConditions({ condition: 'rain', precipitation: true });
+    const started = await processWeatherRules();
+    const stillRaining = await processWeatherRules();
+    stub.setConditions({ condition: 'clouds', precipitation: false });
+    await processWeatherRules();
+    stub.setConditions({ condition: 'rain', precipitation: true });
+    const restarted = await processWeatherRules();
+
+    expect(started.fired).toBe(1);
+    expect(stillRaining.fired).toBe(0);
+    expect(restarted.fired).toBe(1);
+    expect(fireRule).toHaveBeenCalledTimes(2);
+    expect(fireRule).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'rule-rain' }),
+      expect.objectContaining({
+        triggerType: 'weather',
+        payload: expect.objectContaining({ condition: 'rain', precipitation: true, provider: 'stub' }),
+      }),
+      [expect.objectContaining({ condition: 'trigger.params.precipitation', matched: true })]
+    );
+  });
+
+  test('should evaluate temperature and AQI thresholds', async () => {
+    seedRules(
+      weatherRule('rule-hot', { temperatureAbove: 30 }),
+      weatherRule('rule-cold', { temperatureBelow: 0 }),
+      weatherRule('rule-smog', { aqiAbove: 150 }),
+    );
+    stub.setConditions({ temperatureC: 32, aqi: 180 }, HOME);
+
+    const stats = await processWeatherRules();
+
+    expect(stats).toEqual({ rules: 3, fired: 2, skipped: 0, errors: 0 });
+    expect(fireRule.mock.calls.map((call) => (call[0] as { id: string }).id)).toEqual(['rule-hot', 'rule-smog']);
+    expect(docs.get('weatherStates/rule-cold')).toMatchObject({ matched: false });
+  });
+
+  test('should reset state when rule params change', async () => {
+    seedRules(weatherRule('rule-hot', { temperatureAbove: 30 }));
+    stub.setConditions({ temperatureC: 32 });
+    await processWeatherRules();
+
+    seedRules(weatherRule('rule-hot', { temperatureAbove: 25 }));
+    const stats = await processWeatherRules();
+
+    expect(stats.fired).toBe(1);
+    expect(fireRule).toHaveBeenCalledTimes(2);
+  });
+
+  test('should skip owners without saved location', async () => {
+    seedRules(weatherRule('rule-other', { condition: 'clear' }, 'owner-2'));
+
+    const stats = await processWeatherRules();
+
+    expect(stats).toEqual({ rules: 1, fired: 0, skipped: 1, errors: 0 });
+    expect(fireRule).not.toHaveBeenCalled();
+  });
+});
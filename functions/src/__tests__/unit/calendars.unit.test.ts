@@ -0,0 +1,91 @@
+/**
+ * Unit тесты для загрузки ICS-фидов: проверка редиректов и ограничение размера
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { lookup } from 'dns/promises';
+import { CalendarSyncError, fetchIcsFeed, MAX_ICS_BYTES } from '../../core/calendars';
+import { publicHttpsFetch, PublicHttpsTarget } from '../../core/publicHttps';
+
+jest.mock('../../core/firebase', () => ({ db: {} }));
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+jest.mock('../../core/publicHttps', () => ({
+  ...jest.requireActual<object>('../../core/publicHttps'),
+  publicHttpsFetch: jest.fn(),
+}));
+
+const lookupMock = lookup as unknown as jest.Mock<(host: string) => Promise<Array<{ address: string; family: number }>>>;
+const fetchMock = publicHttpsFetch as jest.MockedFunction<typeof publicHttpsFetch>;
+
+const ICS = 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n';
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { Location: location } });
+}
+
+// Тело без content-length, отдаётся частями; pulled — сколько частей прочитано
+function chunkedBody(chunkSize: number, chunks: number) {
+  let sent = 0;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent >= chunks) return controller.close();
+      sent++;
+      controller.enqueue(new Uint8Array(chunkSize).fill(65));
+    },
+  });
+  return { response: new Response(stream, { status: 200 }), pulled: () => sent };
+}
+
+describe('ICS feed fetch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lookupMock.mockImplementation(async (host) => [{ address: host === 'internal.example.com' ? '10.0.0.8' : '93.184.216.34', family: 4 }]);
+  });
+
+  test('should follow redirects to public https hosts manually', async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirect('/calendar.ics'))
+      .mockResolvedValueOnce(new Response(ICS, { status: 200 }));
+
+    await expect(fetchIcsFeed('webcal://calendar.example.com/feed')).resolves.toBe(ICS);
+
+    expect(fetchMock.mock.calls.map(([target]) => (target as PublicHttpsTarget).url.toString())).toEqual([
+      'https://calendar.example.com/feed',
+      'https://calendar.example.com/calendar.ics',
+    ]);
+    expect(lookupMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('should reject redirects to internal addresses', async () => {
+    fetchMock.mockResolvedValueOnce(redirect('http://169.254.169.254/latest/meta-data/'));
+
+    await expect(fetchIcsFeed('https://calendar.example.com/feed')).rejects.toMatchObject({ code: 'invalid_url' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject feeds and redirects to hosts that resolve to private addresses', async () => {
+    await expect(fetchIcsFeed('https://internal.example.com/feed')).rejects.toMatchObject({
+      code: 'invalid_url',
+      message: 'internal.example.com resolves to a non-public address',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValueOnce(redirect('https://internal.example.com/calendar.ics'));
+    await expect(fetchIcsFeed('https://calendar.example.com/feed')).rejects.toMatchObject({ code: 'invalid_url' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop reading a chunked body once it exceeds the limit', async () => {
+    const chunkSize = 64 * 1024;
+    const body = chunkedBody(chunkSize, 100);
+    fetchMock.mockResolvedValueOnce(body.response);
+
+    const error = await fetchIcsFeed('https://calendar.example.com/feed').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CalendarSyncError);
+    expect((error as CalendarSyncError).code).toBe('too_large');
+    expect(body.pulled()).toBeLessThanOrEqual(MAX_ICS_BYTES / chunkSize + 2);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit тесты для разбора и вычисления cron-выражений
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseCron,
+  isValidCron,
+  isValidTimeZone,
+  cronMatches,
+  nextCronOccurrence,
+  cronOccurrencesBetween,
+} from '../../core/cron';
+
+describe('core/cron', () => {
+  describe('parseCron', () => {
+    test('should parse lists, ranges and steps', () => {
+      const spec = parseCron('0,30 9-17/2 * * mon-fri');
+      expect([...spec.minutes]).toEqual([0, 30]);
+      expect([...spec.hours]).toEqual([9, 11, 13, 15, 17]);
+      expect([...spec.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(spec.domRestricted).toBe(false);
+      expect(spec.dowRestricted).toBe(true);
+    });
+
+    test('should normalize Sunday 7 to 0 and support macros', () => {
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+      expect([...parseCron('@hourly').minutes]).toEqual([0]);
+    });
+
+    test('should reject invalid expressions', () => {
+      expect(isValidCron('* * * *')).toBe(false);
+      expect(isValidCron('60 * * * *')).toBe(false);
+      expect(isValidCron('*/0 * * * *')).toBe(false);
+      expect(isValidCron('5-1 * * * *')).toBe(false);
+      expect(isValidCron('*/15 * * * *')).toBe(true);
+    });
+  });
+
+  describe('timezones', () => {
+    test('should validate IANA timezone names', () => {
+      expect(isValidTimeZone('Europe/Moscow')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+
+    test('should match cron in the rule timezone', () => {
+      const spec = parseCron('0 9 * * *');
+      // 06:00 UTC = 09:00 в Москве (UTC+3)
+      expect(cronMatches(spec, new Date('2025-03-10T06:00:00Z'), 'Europe/Moscow')).toBe(true);
+      expect(cronMatches(spec, new Date('2025-03-10T09:00:00Z'), 'Europe/Moscow')).toBe(false);
+    });
+  });
+
+  describe('nextCronOccurrence', () => {
+    test('should return the next occurrence strictly after the given time', () => {
+      const spec = parseCron('0 9 * * *');
+      const next = nextCronOccurrence(spec, new Date('2025-03-10T09:00:00Z'), 'UTC');
+      expect(next?.toISOString()).toBe('2025-03-11T09:00:00.000Z');
+    });
+
+    test('should respect DST transitions', () => {
+      const spec = parseCron('0 9 * * *');
+      // В Нью-Йорке переход на летнее время 9 марта 2025
+      expect(nextCronOccurrence(spec, new Date('2025-03-08T15:00:00Z'), 'America/New_York')?.toISOString())
+        .toBe('2025-03-09T13:00:00.000Z');
+      expect(nextCronOccurrence(spec, new Date('2025-03-07T15:00:00Z'), 'America/New_York')?.toISOString())
+        .toBe('2025-03-08T14:00:00.000Z');
+    });
+
+    test('should not skip midnight after a 23-hour DST day', () => {
+      // В Берлине 29 марта 2026 длится 23 часа, 25 октября — 25: полночь следующего дня не перепрыгивается
+      expect(nextCronOccurrence(parseCron('0 0 * * 1'), new Date('2026-03-28T23:30:00Z'), 'Europe/Berlin')?.toISOString())
+        .toBe('2026-03-29T22:00:00.000Z');
+      expect(nextCronOccurrence(parseCron('30 0 * * *'), new Date('2026-10-24T23:00:00Z'), 'Europe/Berlin')?.toISOString())
+        .toBe('2026-10-25T23:30:00.000Z');
+    });
+
+    test('should use OR semantics when both day fields are restricted', () => {
+      const spec = parseCron('0 0 13 * 5');
+      // 2025-06-13 — пятница и 13-е; следующее — ближайшая пятница 20-го
+      const next = nextCronOccurrence(spec, new Date('2025-06-13T00:00:00Z'), 'UTC');
+      expect(next?.toISOString()).toBe('2025-06-20T00:00:00.000Z');
+    });
+
+    test('should find rare yearly occurrences', () => {
+      const spec = parseCron('0 0 29 2 *');
+      const next = nextCronOccurrence(spec, new Date('2025-01-01T00:00:00Z'), 'UTC');
+      expect(next?.toISOString()).toBe('2028-02-29T00:00:00.000Z');
+    });
+  });
+
+  describe('cronOccurrencesBetween', () => {
+    test('should list missed occurrences within the window', () => {
+      const spec = parseCron('*/15 * * * *');
+      const list = cronOccurrencesBetween(
+        spec,
+        new Date('2025-03-10T10:00:00Z'),
+        new Date('2025-03-10T11:00:00Z'),
+        'UTC'
+      );
+      expect(list.map((d) => d.toISOString())).toEqual([
+        '2025-03-10T10:15:00.000Z',
+        '2025-03-10T10:30:00.000Z',
+        '2025-03-10T10:45:00.000Z',
+        '2025-03-10T11:00:00.000Z',
+      ]);
+    });
+  });
+});
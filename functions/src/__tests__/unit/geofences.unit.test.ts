@@ -0,0 +1,105 @@
+/**
+ * Unit тесты для геозон: расстояние, гистерезис, кулдаун и хранение событий
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { distanceMeters, processLocationReport } from '../../core/geofences';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/remoteConfig', () => ({
+  getGeofenceHysteresisMeters: jest.fn(async () => 30),
+  getGeofenceCooldownMinutes: jest.fn(async () => 5),
+  getLocationMaxAccuracyMeters: jest.fn(async () => 200),
+  getLocationEventRetentionHours: jest.fn(async () => 24),
+}));
+
+jest.mock('../../core/ruleEngine', () => ({
+  fireMatchingRules: jest.fn(),
+}));
+
+// Центр геозоны и точки на заданном расстоянии к северу (1° широты ≈ 111 195 м)
+const HOME = { lat: 55.75, lng: 37.62 };
+const north = (meters: number) => ({ lat: HOME.lat + meters / 111195, lng: HOME.lng });
+
+function report(overrides: Record<string, unknown>) {
+  return {
+    ownerId: 'owner-1',
+    event: 'enter' as const,
+    occurredAt: new Date('2025-03-10T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Geofences', () => {
+  let fireMatchingRules: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    docs.set('geofences/home', { id: 'home', ownerId: 'owner-1', name: 'Home', ...HOME, radiusM: 100 });
+    docs.set('geofences/alien', { id: 'alien', ownerId: 'owner-2', name: 'Alien', ...HOME, radiusM: 100 });
+    fireMatchingRules = require('../../core/ruleEngine').fireMatchingRules as jest.Mock;
+    fireMatchingRules.mockResolvedValue([{ ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' }] as never);
+  });
+
+  test('should compute distance in meters', () => {
+    expect(distanceMeters(HOME, north(1000))).toBeGreaterThan(995);
+    expect(distanceMeters(HOME, north(1000))).toBeLessThan(1005);
+  });
+
+  test('should fire geo rules on enter by coordinates only once', async () => {
+    const first = await processLocationReport(report({ ...north(50), accuracy: 10 }));
+    const second = await processLocationReport(report({ ...north(20), accuracy: 10 }));
+
+    expect(first).toMatchObject({ transitions: [{ geofenceId: 'home', status: 'fired' }] });
+    expect(second).toMatchObject({ transitions: [{ geofenceId: 'home', status: 'unchanged' }] });
+    expect(fireMatchingRules).toHaveBeenCalledTimes(1);
+    expect(fireMatchingRules).toHaveBeenCalledWith(
+      'owner-1',
+      'geo',
+      { geofenceId: 'home', event: 'enter' },
+      expect.objectContaining({ geofenceName: 'Home', distanceM: 50 })
+    );
+    expect(docs.get('locationEvents/auto-1')).toMatchObject({ source: 'coordinates', accuracy: 10 });
+    expect(docs.get('locationEvents/auto-1')?.expiresAt).toBeInstanceOf(Date);
+  });
+
+  test('should require leaving radius plus hysteresis to exit', async () => {
+    docs.set('geofenceStates/owner-1_home', { ownerId: 'owner-1', geofenceId: 'home', state: 'inside' });
+
+    const withinBand = await processLocationReport(report({ event: 'exit', ...north(120) }));
+    expect(withinBand).toMatchObject({ transitions: [] });
+
+    const outside = await processLocationReport(report({ event: 'exit', ...north(140) }));
+    expect(outside).toMatchObject({ transitions: [{ geofenceId: 'home', status: 'fired' }] });
+  });
+
+  test('should suppress rules during cooldown but keep state', async () => {
+    const recent = { toMillis: () => Date.now() - 60 * 1000 };
+    docs.set('geofenceStates/owner-1_home', { ownerId: 'owner-1', geofenceId: 'home', state: 'outside', lastFiredAt: recent });
+
+    const result = await processLocationReport(report({ geofenceId: 'home' }));
+
+    expect(result).toMatchObject({ transitions: [{ geofenceId: 'home', status: 'cooldown' }] });
+    expect(fireMatchingRules).not.toHaveBeenCalled();
+    expect(docs.get('geofenceStates/owner-1_home')).toMatchObject({ state: 'inside', lastFiredAt: recent });
+  });
+
+  test('should trust phone-reported exit without prior state', async () => {
+    const result = await processLocationReport(report({ event: 'exit', geofenceId: 'home' }));
+    expect(result).toMatchObject({ transitions: [{ geofenceId: 'home', status: 'fired' }] });
+  });
+
+  test('should ignore low accuracy fixes and foreign geofences', async () => {
+    const lowAccuracy = await processLocationReport(report({ ...north(10), accuracy: 500 }));
+    expect(lowAccuracy).toEqual({ eventId: null, transitions: [], ignored: 'low_accuracy' });
+    expect(docs.has('locationEvents/auto-1')).toBe(false);
+
+    const foreign = await processLocationReport(report({ geofenceId: 'alien' }));
+    expect(foreign).toEqual({ error: { code: 'not_found', message: 'Geofence not found' } });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit тесты для обработки жестов устройства
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { GESTURE_PROCESSING_TIMEOUT_MS, processDeviceGesture } from '../../core/gestures';
+import { db, firestoreDocs as docs, makeCollection, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/ruleEngine', () => ({
+  fireMatchingRules: jest.fn(),
+}));
+
+const input = {
+  ownerId: 'owner-1',
+  deviceId: 'dev-1',
+  eventId: 'evt-1',
+  gesture: 'double_tap' as const,
+  occurredAt: new Date('2025-03-10T10:00:00Z'),
+  gestures: { singleTap: 'none', doubleTap: 'practice-1' },
+};
+
+describe('Device gestures', () => {
+  let fireMatchingRules: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    fireMatchingRules = require('../../core/ruleEngine').fireMatchingRules as jest.Mock;
+    fireMatchingRules.mockResolvedValue([{ ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' }] as never);
+  });
+
+  test('should start mapped practice and fire gesture rules', async () => {
+    docs.set('practices/practice-1', { title: 'Calm' });
+
+    const result = await processDeviceGesture(input);
+
+    expect(result.duplicate).toBe(false);
+    expect(result.event).toMatchObject({
+      status: 'processed',
+      practiceId: 'practice-1',
+      sessionId: 'auto-1',
+      practiceError: null,
+      rules: [{ ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' }],
+    });
+    expect(docs.get('sessions/auto-1')).toMatchObject({ source: 'gesture', deviceId: 'dev-1', practiceId: 'practice-1' });
+    expect(fireMatchingRules).toHaveBeenCalledWith(
+      'owner-1',
+      'device_gesture',
+      { gesture: 'double_tap', deviceId: 'dev-1' },
+      expect.objectContaining({ eventId: 'evt-1', occurredAt: '2025-03-10T10:00:00.000Z' })
+    );
+  });
+
+  test('should skip practice for unmapped gesture and report missing practice', async () => {
+    const unmapped = await processDeviceGesture({ ...input, eventId: 'evt-2', gesture: 'single_tap' });
+    expect(unmapped.event).toMatchObject({ practiceId: null, sessionId: null });
+
+    const missing = await processDeviceGesture({ ...input, eventId: 'evt-3' });
+    expect(missing.event).toMatchObject({
+      practiceId: 'practice-1',
+      sessionId: null,
+      practiceError: { code: 'not_found', message: 'Practice not found' },
+    });
+  });
+
+  test('should return stored result for repeated eventId', async () => {
+    docs.set('practices/practice-1', { title: 'Calm' });
+
+    const first = await processDeviceGesture(input);
+    const second = await processDeviceGesture(input);
+
+    expect(second.duplicate).toBe(true);
+    expect(second.event).toEqual(first.event);
+    expect(fireMatchingRules).toHaveBeenCalledTimes(1);
+  });
+
+  test('should release the reservation when processing fails so a retry completes', async () => {
+    docs.set('practices/practice-1', { title: 'Calm' });
+    // Падает чтение практики после резерва eventId
+    db.collection.mockImplementationOnce(makeCollection).mockImplementationOnce(() => {
+      throw new Error('Firestore unavailable');
+    });
+
+    await expect(processDeviceGesture(input)).rejects.toThrow('Firestore unavailable');
+    expect(docs.get('devices/dev-1/gestureEvents/evt-1')).toMatchObject({ status: 'failed', error: 'Firestore unavailable' });
+
+    const retry = await processDeviceGesture(input);
+
+    expect(retry.duplicate).toBe(false);
+    expect(retry.event).toMatchObject({ status: 'processed', sessionId: 'auto-1', error: null });
+  });
+
+  test('should re-claim an event stuck in processing after the timeout', async () => {
+    const now = new Date('2025-03-10T10:05:00Z');
+    const updatedAt = (ms: number) => ({ seconds: ms / 1000, nanoseconds: 0 });
+    docs.set('devices/dev-1/gestureEvents/evt-1', { status: 'processing', updatedAt: updatedAt(now.getTime() - 30 * 1000) });
+
+    expect((await processDeviceGesture(input, now)).duplicate).toBe(true);
+    expect(fireMatchingRules).not.toHaveBeenCalled();
+
+    docs.set('devices/dev-1/gestureEvents/evt-1', {
+      status: 'processing',
+      updatedAt: updatedAt(now.getTime() - GESTURE_PROCESSING_TIMEOUT_MS),
+    });
+    const retry = await processDeviceGesture(input, now);
+
+    expect(retry.duplicate).toBe(false);
+    expect(retry.event).toMatchObject({ status: 'processed' });
+    expect(fireMatchingRules).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit тесты для парсера iCalendar на локальном фикстуре
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { IcsParseError, parseIcs } from '../../core/ics';
+
+const fixture = fs.readFileSync(path.join(__dirname, '../fixtures/calendar.ics'), 'utf8');
+
+const window = {
+  from: new Date('2025-03-09T00:00:00Z'),
+  to: new Date('2025-03-31T00:00:00Z'),
+  timeZone: 'Europe/Berlin',
+};
+
+describe('ICS parser', () => {
+  test('should expand weekly recurrence with EXDATE and overridden instance', () => {
+    const standups = parseIcs(fixture, window).filter((e) => e.uid === 'standup@example.com');
+
+    expect(standups.map((e) => [e.title, e.startAt.toISOString(), e.endAt.toISOString()])).toEqual([
+      ['Team standup', '2025-03-10T07:00:00.000Z', '2025-03-10T07:15:00.000Z'],
+      ['Team standup (moved)', '2025-03-17T09:00:00.000Z', '2025-03-17T09:15:00.000Z'],
+      ['Team standup', '2025-03-19T07:00:00.000Z', '2025-03-19T07:15:00.000Z'],
+    ]);
+  });
+
+  test('should unfold lines, unescape text and skip cancelled events', () => {
+    const events = parseIcs(fixture, window);
+
+    expect(events.find((e) => e.uid === 'dentist@example.com')).toMatchObject({
+      title: 'Dentist appointment',
+      location: 'Clinic, Main street 1, room204',
+      startAt: new Date('2025-03-11T15:00:00Z'),
+      endAt: new Date('2025-03-11T16:00:00Z'),
+      allDay: false,
+    });
+    expect(events.find((e) => e.uid === 'cancelled@example.com')).toBeUndefined();
+  });
+
+  test('should resolve floating times and all-day events in the default time zone', () => {
+    const events = parseIcs(fixture, window);
+
+    expect(events.find((e) => e.uid === 'yoga@example.com')).toMatchObject({
+      startAt: new Date('2025-03-20T08:00:00Z'),
+      endAt: new Date('2025-03-20T08:30:00Z'),
+      location: null,
+    });
+    expect(events.find((e) => e.uid === 'dayoff@example.com')).toMatchObject({
+      startAt: new Date('2025-03-13T23:00:00Z'),
+      endAt: new Date('2025-03-14T23:00:00Z'),
+      allDay: true,
+    });
+  });
+
+  test('should keep only events inside the window sorted by start', () => {
+    const events = parseIcs(fixture, { from: new Date('2025-03-11T00:00:00Z'), to: new Date('2025-03-15T00:00:00Z') });
+
+    expect(events.map((e) => e.uid)).toEqual(['dentist@example.com', 'dayoff@example.com']);
+  });
+
+  test('should expand recurrences that started long before the window', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:birthday@example.com',
+      'SUMMARY:Birthday',
+      'DTSTART;VALUE=DATE:19900615',
+      'RRULE:FREQ=YEARLY',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:sessions@example.com',
+      'SUMMARY:Sessions',
+      'DTSTART:19950102T090000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=1641',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const events = parseIcs(ics, { from: new Date('2026-06-01T00:00:00Z'), to: new Date('2026-06-30T00:00:00Z'), timeZone: 'Europe/Berlin' });
+
+    expect(events.find((e) => e.uid === 'birthday@example.com')).toMatchObject({
+      startAt: new Date('2026-06-14T22:00:00Z'),
+      endAt: new Date('2026-06-15T22:00:00Z'),
+      allDay: true,
+    });
+    // 1641-е вхождение — понедельник 2026-06-08: COUNT учитывает вхождения до окна
+    expect(events.filter((e) => e.uid === 'sessions@example.com').map((e) => e.startAt.toISOString())).toEqual([
+      '2026-06-01T09:00:00.000Z',
+      '2026-06-08T09:00:00.000Z',
+    ]);
+  });
+
+  test('should reject non-calendar input', () => {
+    expect(() => parseIcs('<html></html>', window)).toThrow(IcsParseError);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit тесты для API управления webhook-интеграциями
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { Request, Response } from 'express';
+import { integrationsRouter } from '../../api/integrations';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/quotas', () => ({
+  ...(jest.requireActual('../../core/quotas') as object),
+  runWithinQuota: jest.fn(async (_resource: unknown, _userId: unknown, write: any) =>
+    require('../support/firestore-fake').db.runTransaction(write)),
+}));
+
+function handlerFor(path: string, method: 'get' | 'post' | 'patch' | 'delete') {
+  const layer = integrationsRouter.stack.find((l: any) => l.route?.path === path && l.route?.methods?.[method]);
+  const stack = layer?.route?.stack ?? [];
+  return stack[stack.length - 1].handle as (req: Request, res: Response) => Promise<unknown>;
+}
+
+function call(path: string, method: 'get' | 'post' | 'patch' | 'delete', params: Record<string, string> = {}, body: unknown = {}, uid = 'owner-1') {
+  const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+  const req = { auth: { user: { uid } }, params, body, headers: {} } as unknown as Request;
+  return handlerFor(path, method)(req, res).then(() => ({
+    status: (res.status as jest.Mock).mock.calls[0]?.[0],
+    body: (res.json as jest.Mock).mock.calls[0]?.[0] as any,
+  }));
+}
+
+describe('Integrations API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+  });
+
+  test('should create integration with server-generated key and show secret once', async () => {
+    const created = await call('/integrations', 'post', {}, { name: 'Zapier' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.integration.integrationKey).toMatch(/^int_[0-9a-f]{32}$/);
+    expect(created.body.integration.secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(docs.get(`webhooks/${created.body.integration.integrationKey}`)).toMatchObject({
+      ownerId: 'owner-1',
+      isActive: true,
+      usageCount: 0,
+      legacySignatureEnabled: false,
+    });
+
+    const listed = await call('/integrations', 'get');
+    expect(listed.body.items).toEqual([
+      expect.objectContaining({ integrationKey: created.body.integration.integrationKey, name: 'Zapier', usageCount: 0 }),
+    ]);
+    expect(listed.body.items[0].secret).toBeUndefined();
+  });
+
+  test('should deactivate and rotate secret only for owner', async () => {
+    docs.set('webhooks/int_1', { integrationKey: 'int_1', ownerId: 'owner-1', secret: 'old', isActive: true, usageCount: 3 });
+
+    const foreign = await call('/integrations/:integrationKey', 'patch', { integrationKey: 'int_1' }, { isActive: false }, 'owner-2');
+    expect(foreign.status).toBe(403);
+
+    const deactivated = await call('/integrations/:integrationKey', 'patch', { integrationKey: 'int_1' }, { isActive: false });
+    expect(deactivated.body.integration).toMatchObject({ isActive: false, usageCount: 3 });
+
+    const rotated = await call('/integrations/:integrationKey/rotate', 'post', { integrationKey: 'int_1' });
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.integration.secret).not.toBe('old');
+    expect(docs.get('webhooks/int_1')?.secret).toBe(rotated.body.integration.secret);
+  });
+
+  test('should keep previous secret during rotation until completed', async () => {
+    docs.set('webhooks/int_1', { integrationKey: 'int_1', ownerId: 'owner-1', secret: 'old', secretVersion: 1, isActive: true });
+
+    const started = await call('/integrations/:integrationKey/rotate', 'post', { integrationKey: 'int_1' }, { graceHours: 2 });
+    expect(started.body.integration).toMatchObject({
+      secretVersion: 2,
+      rotation: { previousSecretVersion: 1 },
+    });
+    const expiresAt = docs.get('webhooks/int_1')?.previousSecretExpiresAt as Date;
+    expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(119 * 60 * 1000);
+    expect(docs.get('webhooks/int_1')?.previousSecret).toBe('old');
+
+    const again = await call('/integrations/:integrationKey/rotate', 'post', { integrationKey: 'int_1' });
+    expect(again.status).toBe(412);
+
+    const completed = await call('/integrations/:integrationKey/rotate/complete', 'post', { integrationKey: 'int_1' });
+    expect(completed.body.integration).toMatchObject({ secretVersion: 2, rotation: null });
+    expect(docs.get('webhooks/int_1')?.previousSecret).toBeNull();
+
+    const nothingToComplete = await call('/integrations/:integrationKey/rotate/complete', 'post', { integrationKey: 'int_1' });
+    expect(nothingToComplete.status).toBe(412);
+  });
+
+  test('should let only one of concurrent rotations start', async () => {
+    docs.set('webhooks/int_1', { integrationKey: 'int_1', ownerId: 'owner-1', secret: 'old', secretVersion: 1, isActive: true });
+
+    const results = await Promise.all([
+      call('/integrations/:integrationKey/rotate', 'post', { integrationKey: 'int_1' }),
+      call('/integrations/:integrationKey/rotate', 'post', { integrationKey: 'int_1' }),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual([200, 412]);
+    expect(docs.get('webhooks/int_1')).toMatchObject({ secretVersion: 2, previousSecret: 'old', previousSecretVersion: 1 });
+  });
+
+  test('should delete integration', async () => {
+    docs.set('webhooks/int_1', { integrationKey: 'int_1', ownerId: 'owner-1', secret: 's', isActive: true });
+
+    const missing = await call('/integrations/:integrationKey', 'delete', { integrationKey: 'int_2' });
+    const deleted = await call('/integrations/:integrationKey', 'delete', { integrationKey: 'int_1' });
+
+    expect(missing.status).toBe(404);
+    expect(deleted.body).toEqual({ ok: true });
+    expect(docs.has('webhooks/int_1')).toBe(false);
+  });
+
+  test('should expose webhook event status only to the integration owner', async () => {
+    docs.set('webhooks/int_1', { integrationKey: 'int_1', ownerId: 'owner-1', secret: 's', isActive: true });
+    docs.set('webhooks/int_2', { integrationKey: 'int_2', ownerId: 'owner-1', secret: 's', isActive: true });
+    docs.set('webhookEvents/whevt_1', {
+      id: 'whevt_1',
+      integrationKey: 'int_1',
+      ownerId: 'owner-1',
+      status: 'processed',
+      payload: { a: 1 },
+      signatureScheme: 'v2',
+      secretVersion: 1,
+      ruleRuns: [{ ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' }],
+      error: null,
+      receivedAt: 'server-timestamp',
+    });
+    const path = '/integrations/:integrationKey/events/:eventId';
+
+    const own = await call(path, 'get', { integrationKey: 'int_1', eventId: 'whevt_1' });
+    const otherIntegration = await call(path, 'get', { integrationKey: 'int_2', eventId: 'whevt_1' });
+    const stranger = await call(path, 'get', { integrationKey: 'int_1', eventId: 'whevt_1' }, {}, 'user-2');
+
+    expect(own.status).toBe(200);
+    expect(own.body.event).toMatchObject({ id: 'whevt_1', status: 'processed', ruleRuns: [{ ruleId: 'rule-1', status: 'succeeded' }] });
+    expect(otherIntegration.status).toBe(404);
+    expect(stranger.status).toBe(403);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit тесты для исходящих вебхуков: постановка в outbox, подпись, журнал доставок и автоотключение
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import { lookup } from 'dns/promises';
+import { deliverOutboundWebhook, emitOutboundEvent, OutboundDeliveryError } from '../../core/outboundWebhooks';
+import { PublicHttpsRequestInit, PublicHttpsTarget, publicHttpsFetch } from '../../core/publicHttps';
+import { deviceOutboundEvents } from '../../background/deviceEvents';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+jest.mock('../../core/publicHttps', () => ({
+  ...jest.requireActual<object>('../../core/publicHttps'),
+  publicHttpsFetch: jest.fn(),
+}));
+
+jest.mock('../../core/remoteConfig', () => ({
+  getWebhookTimeoutSeconds: jest.fn(async () => 5),
+  getOutboundWebhookMaxConsecutiveFailures: jest.fn(async () => 3),
+}));
+
+function subscription(overrides: Record<string, unknown> = {}) {
+  return {
+    ownerId: 'owner-1',
+    url: 'https://hooks.example.com/amulet',
+    eventTypes: ['hug.received'],
+    secret: 'whsec_test',
+    isActive: true,
+    consecutiveFailures: 0,
+    ...overrides,
+  };
+}
+
+const EVENT = { id: 'evt_1', type: 'hug.received' as const, createdAt: '2026-10-19T10:00:00.000Z', data: { hugId: 'hug-1' } };
+
+const lookupMock = lookup as unknown as jest.Mock<(host: string) => Promise<Array<{ address: string; family: number }>>>;
+const fetchMock = publicHttpsFetch as jest.MockedFunction<typeof publicHttpsFetch>;
+
+describe('Outbound webhooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    lookupMock.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  test('should enqueue one outbox record per active subscription to the event type', async () => {
+    docs.set('outboundWebhooks/sub-1', subscription());
+    docs.set('outboundWebhooks/sub-2', subscription({ eventTypes: ['device.offline'] }));
+    docs.set('outboundWebhooks/sub-3', subscription({ isActive: false }));
+    docs.set('outboundWebhooks/sub-4', subscription({ ownerId: 'owner-2' }));
+
+    const enqueued = await emitOutboundEvent('owner-1', 'hug.received', { hugId: 'hug-1' });
+
+    const outbox = [...docs.entries()].filter(([path]) => path.startsWith('outbox/'));
+    expect(enqueued).toBe(1);
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0][1]).toMatchObject({
+      type: 'webhook.delivery',
+      status: 'pending',
+      attempts: 0,
+      payload: { subscriptionId: 'sub-1', ownerId: 'owner-1', event: { type: 'hug.received', data: { hugId: 'hug-1' } } },
+    });
+  });
+
+  test('should sign delivery, log it and reset failure counter', async () => {
+    docs.set('outboundWebhooks/sub-1', subscription({ consecutiveFailures: 2 }));
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    const result = await deliverOutboundWebhook('evt_1_sub-1', { subscriptionId: 'sub-1', ownerId: 'owner-1', event: EVENT }, 1);
+
+    expect(result).toBe('delivered');
+    const [target, init] = fetchMock.mock.calls[0] as [PublicHttpsTarget, PublicHttpsRequestInit];
+    const headers = init.headers as Record<string, string>;
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`${headers['X-Timestamp']}.${init.body}`).digest('hex');
+    expect(target.url.toString()).toBe('https://hooks.example.com/amulet');
+    expect(target.address).toBe('93.184.216.34');
+    expect(headers['X-Signature']).toBe(`v2=${expected}`);
+    expect(headers['X-Delivery-Id']).toBe('evt_1_sub-1');
+    expect(JSON.parse(init.body as string)).toEqual(EVENT);
+    expect(docs.get('outboundWebhooks/sub-1')).toMatchObject({ consecutiveFailures: 0, lastDeliveryStatus: 'succeeded' });
+    expect([...docs.entries()].find(([path]) => path.startsWith('webhookDeliveries/'))?.[1]).toMatchObject({
+      subscriptionId: 'sub-1',
+      eventId: 'evt_1',
+      attempt: 1,
+      status: 'succeeded',
+      responseStatus: 200,
+    });
+  });
+
+  test('should disable subscription after repeated failures and skip further deliveries', async () => {
+    docs.set('outboundWebhooks/sub-1', subscription({ consecutiveFailures: 1 }));
+    fetchMock.mockResolvedValue(new Response('boom', { status: 500 }));
+    const payload = { subscriptionId: 'sub-1', ownerId: 'owner-1', event: EVENT };
+
+    await expect(deliverOutboundWebhook('evt_1_sub-1', payload, 1)).rejects.toBeInstanceOf(OutboundDeliveryError);
+    expect(docs.get('outboundWebhooks/sub-1')).toMatchObject({ consecutiveFailures: 2, isActive: true });
+
+    await expect(deliverOutboundWebhook('evt_1_sub-1', payload, 2)).rejects.toThrow('HTTP 500');
+    expect(docs.get('outboundWebhooks/sub-1')).toMatchObject({
+      consecutiveFailures: 3,
+      isActive: false,
+      disabledReason: 'too_many_failures',
+    });
+
+    expect(await deliverOutboundWebhook('evt_1_sub-1', payload, 3)).toBe('skipped');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not deliver to a host that resolves to a private address', async () => {
+    docs.set('outboundWebhooks/sub-1', subscription());
+    lookupMock.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]);
+
+    await expect(deliverOutboundWebhook('evt_1_sub-1', { subscriptionId: 'sub-1', ownerId: 'owner-1', event: EVENT }, 1))
+      .rejects.toThrow('hooks.example.com resolves to a non-public address');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(docs.get('outboundWebhooks/sub-1')).toMatchObject({ consecutiveFailures: 1 });
+  });
+
+  test('should derive device events from status and firmware changes', () => {
+    expect(deviceOutboundEvents('dev-1',
+      { ownerId: 'owner-1', status: 'online', firmwareVersion: '1.0.0' },
+      { ownerId: 'owner-1', status: 'offline', firmwareVersion: '1.1.0', hardwareVersion: 200 }
+    )).toEqual([
+      { type: 'device.offline', data: { deviceId: 'dev-1', previousStatus: 'online' } },
+      { type: 'device.firmware_updated', data: { deviceId: 'dev-1', fromVersion: '1.0.0', toVersion: '1.1.0', hardwareVersion: 200 } },
+    ]);
+    // Отвязка устройства событий не порождает
+    expect(deviceOutboundEvents('dev-1', { ownerId: 'owner-1', status: 'online' }, { status: 'offline' })).toEqual([]);
+  });
+});
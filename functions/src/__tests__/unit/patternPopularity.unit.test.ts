@@ -0,0 +1,131 @@
+/**
+ * Unit тесты для популярности паттернов: лайки, оценки, учёт использований, trending
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import {
+  decayTrendingScore,
+  getPopularityTotals,
+  initializeMissingPopularity,
+  ratingScore,
+  recordPatternUsage,
+  refreshPatternPopularity,
+  setPatternLike,
+  setPatternRating,
+  USAGE_DEDUP_WINDOW_MS,
+} from '../../core/patternPopularity';
+import { PatternSpec } from '../../core/patterns';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: { ...require('../support/firestore-fake').fieldValue, serverTimestamp: () => NOW },
+}));
+
+describe('Pattern popularity', () => {
+  beforeEach(() => {
+    resetFirestore();
+    docs.set('patterns/p1', { id: 'p1', public: true, reviewStatus: 'approved' });
+  });
+
+  test('should count a like once per user and allow unliking', async () => {
+    expect(await setPatternLike('p1', 'u1', true)).toBe(true);
+    expect(await setPatternLike('p1', 'u1', true)).toBe(false);
+    expect(await setPatternLike('p1', 'u2', true)).toBe(true);
+    expect((await getPopularityTotals('p1')).likes).toBe(2);
+
+    expect(await setPatternLike('p1', 'u1', false)).toBe(true);
+    expect(await setPatternLike('p1', 'u1', false)).toBe(false);
+    expect((await getPopularityTotals('p1')).likes).toBe(1);
+    expect(docs.has('patterns/p1/likes/u1')).toBe(false);
+  });
+
+  test('should replace a repeated rating and drop a removed one', async () => {
+    await setPatternRating('p1', 'u1', 2);
+    await setPatternRating('p1', 'u1', 5);
+    await setPatternRating('p1', 'u2', 4);
+    expect(await getPopularityTotals('p1')).toMatchObject({ ratingCount: 2, ratingSum: 9 });
+    expect(docs.get('patterns/p1/ratings/u1')).toMatchObject({ rating: 5 });
+
+    await setPatternRating('p1', 'u2', null);
+    expect(await getPopularityTotals('p1')).toMatchObject({ ratingCount: 1, ratingSum: 5 });
+    expect(ratingScore(1, 5)).toBeCloseTo(20 / 6);
+  });
+
+  test('should count usage once per user and source within the window', async () => {
+    expect(await recordPatternUsage('p1', 'hug', { userId: 'u1' }, NOW)).toBe(true);
+    expect(await recordPatternUsage('p1', 'hug', { userId: 'u1' }, new Date(NOW.getTime() + 10 * 60 * 1000))).toBe(false);
+    expect(await recordPatternUsage('p1', 'practice', { userId: 'u1' }, NOW)).toBe(true);
+    expect(await recordPatternUsage('p1', 'hug', { userId: 'u2' }, NOW)).toBe(true);
+    expect(await recordPatternUsage('p1', 'hug', { userId: 'u1' }, new Date(NOW.getTime() + USAGE_DEDUP_WINDOW_MS))).toBe(true);
+    expect(await recordPatternUsage('builtin-heartbeat', 'preview', { userId: 'u1' })).toBe(false);
+    expect(await recordPatternUsage(undefined, 'practice', { userId: 'u1' })).toBe(false);
+
+    expect((await getPopularityTotals('p1')).usage).toBe(4);
+    expect([...docs.keys()].some((path) => path.startsWith('patterns/builtin-heartbeat'))).toBe(false);
+  });
+
+  test('should not count usage of hidden patterns or a different spec', async () => {
+    const spec = { type: 'custom', hardwareVersion: 200, duration: 1000, elements: [] } as PatternSpec;
+    docs.set('patterns/p1', { id: 'p1', public: true, reviewStatus: 'approved', spec });
+    docs.set('patterns/private', { id: 'private', ownerId: 'owner', public: false, reviewStatus: 'approved', spec });
+
+    expect(await recordPatternUsage('private', 'preview', { userId: 'u1', spec })).toBe(false);
+    expect(await recordPatternUsage('private', 'preview', { userId: 'owner', spec })).toBe(true);
+    expect(await recordPatternUsage('p1', 'preview', { userId: 'u1', spec: { ...spec, duration: 2000 } })).toBe(false);
+    expect(await recordPatternUsage('p1', 'preview', { userId: 'u1', spec: { ...spec } })).toBe(true);
+    expect((await getPopularityTotals('p1')).usage).toBe(1);
+  });
+
+  test('should decay trending score with a 24 hour half-life', () => {
+    const day = 24 * 60 * 60 * 1000;
+    expect(decayTrendingScore(8, day)).toBeCloseTo(4);
+    expect(decayTrendingScore(8, 2 * day, 3)).toBeCloseTo(5);
+    expect(decayTrendingScore(0.01, day)).toBe(0);
+  });
+
+  test('should roll up active shards and decay idle trending patterns', async () => {
+    await setPatternLike('p1', 'u1', true);
+    await recordPatternUsage('p1', 'preview', { userId: 'u1' }, NOW);
+    await setPatternRating('p1', 'u1', 5);
+    docs.set('patterns/p2', { id: 'p2', trendingScore: 10, popularityUpdatedAt: new Date(NOW.getTime() - 24 * 60 * 60 * 1000) });
+
+    expect(await refreshPatternPopularity(NOW)).toBe(2);
+
+    expect(docs.get('patterns/p1')).toMatchObject({
+      likeCount: 1,
+      usageCount: 1,
+      ratingCount: 1,
+      ratingAverage: 5,
+      ratingScore: ratingScore(1, 5),
+      trendingScore: 6,
+      popularityUpdatedAt: NOW,
+    });
+    expect(docs.get('patterns/p2')?.trendingScore).toBeCloseTo(5);
+  });
+
+  test('should backfill catalog patterns that lack popularity fields outside the hourly refresh', async () => {
+    docs.set('patterns/legacy', { id: 'legacy', public: true, reviewStatus: 'approved', usageCount: 7 });
+    docs.set('patterns/private', { id: 'private', public: false, reviewStatus: 'approved' });
+
+    expect(await refreshPatternPopularity(NOW)).toBe(0);
+    expect(docs.get('patterns/legacy')?.likeCount).toBeUndefined();
+
+    expect(await initializeMissingPopularity()).toBe(2);
+
+    expect(docs.get('patterns/legacy')).toMatchObject({
+      usageCount: 7,
+      likeCount: 0,
+      ratingCount: 0,
+      ratingAverage: null,
+      ratingScore: 3,
+      trendingScore: 0,
+    });
+    expect(docs.get('patterns/p1')).toMatchObject({ likeCount: 0, trendingScore: 0 });
+    expect(docs.get('patterns/private')?.likeCount).toBeUndefined();
+    expect(await initializeMissingPopularity()).toBe(0);
+  });
+});
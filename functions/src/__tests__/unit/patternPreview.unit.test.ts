@@ -0,0 +1,144 @@
+/**
+ * Unit тесты для превью паттернов: кодирование GIF/SVG, ключ и кеш в Storage
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import {
+  encodePreviewGif,
+  invalidatePatternPreviews,
+  lzwEncode,
+  previewCacheKey,
+  readCachedPreview,
+  renderPatternPreview,
+  renderPreviewSvg,
+  writeCachedPreview,
+} from '../../core/patternPreview';
+import { PatternSpec, renderPattern } from '../../core/patterns';
+
+const files = new Map<string, Buffer>();
+const deleteFiles = jest.fn(async ({ prefix }: { prefix: string }) => {
+  for (const path of [...files.keys()]) if (path.startsWith(prefix)) files.delete(path);
+});
+
+jest.mock('../../core/firebase', () => ({
+  storage: {
+    bucket: () => ({
+      file: (path: string) => ({
+        exists: async () => [files.has(path)],
+        download: async () => [files.get(path)],
+        save: async (body: Buffer) => {
+          files.set(path, body);
+        },
+      }),
+      deleteFiles,
+    }),
+  },
+} as any));
+
+// Эталонный декодер LZW из спецификации GIF
+function lzwDecode(data: Buffer, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let dictionary: number[][] = [];
+  const reset = () => {
+    dictionary = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  const out: number[] = [];
+  let previous: number[] | null = null;
+  let bitPos = 0;
+  reset();
+  while (bitPos + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bitPos++) {
+      code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < dictionary.length) entry = dictionary[code];
+    else entry = [...(previous as number[]), (previous as number[])[0]];
+    out.push(...entry);
+    if (previous) dictionary.push([...previous, entry[0]]);
+    if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  return out;
+}
+
+function spec(overrides: Partial<PatternSpec> = {}): PatternSpec {
+  return {
+    type: 'breathing',
+    hardwareVersion: 200,
+    duration: 1000,
+    loop: true,
+    elements: [{ type: 'breathing', startTime: 0, duration: 1000, color: '#00FF00' }],
+    ...overrides,
+  };
+}
+
+describe('Pattern preview', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files.clear();
+  });
+
+  test('should round-trip LZW including table resets', () => {
+    const input = Uint8Array.from({ length: 20000 }, (_, i) => (i * 7 + (i >> 5)) % 13);
+    expect(lzwDecode(lzwEncode(input, 4), 4)).toEqual([...input]);
+  });
+
+  test('should encode looping GIF with per-frame palette and merged frames', () => {
+    const constant = spec({ elements: [{ type: 'color', startTime: 0, duration: 1000, color: '#FF0000' }] });
+    const gif = encodePreviewGif(renderPattern(constant, { fps: 10 }), 32, true);
+
+    expect(gif.subarray(0, 6).toString()).toBe('GIF89a');
+    expect(gif.readUInt16LE(6)).toBe(32);
+    expect(gif.includes(Buffer.from('NETSCAPE2.0'))).toBe(true);
+    // Все 10 одинаковых кадров склеены в один с задержкой 100 сотых секунды
+    const frames = [...gif.entries()].filter(([i, b]) => b === 0x21 && gif[i + 1] === 0xf9);
+    expect(frames).toHaveLength(1);
+    expect(gif.readUInt16LE(frames[0][0] + 4)).toBe(100);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+
+    const once = encodePreviewGif(renderPattern({ ...constant, loop: false }, { fps: 10 }), 32, false);
+    expect(once.includes(Buffer.from('NETSCAPE2.0'))).toBe(false);
+  });
+
+  test('should render SVG with discrete fill animation per LED', () => {
+    const svg = renderPreviewSvg(renderPattern(spec({ hardwareVersion: 100 }), { fps: 4 }), 64, true);
+
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"');
+    expect(svg.match(/<circle/g)).toHaveLength(1);
+    expect(svg).toContain('repeatCount="indefinite"');
+    expect(svg).toContain('keyTimes="0.0000;0.2500;0.5000;0.7500"');
+    expect(svg).toContain('values="#000000;#007f00;#00ff00;#008000"');
+  });
+
+  test('should key cache by spec content and render parameters', () => {
+    const options = { size: 96, fps: 20 };
+    const reordered = { loop: true, elements: spec().elements, duration: 1000, hardwareVersion: 200, type: 'breathing' } as PatternSpec;
+
+    expect(previewCacheKey(spec(), 'gif', options)).toBe(previewCacheKey(reordered, 'gif', options));
+    expect(previewCacheKey(spec(), 'gif', options)).not.toBe(previewCacheKey(spec(), 'svg', options));
+    expect(previewCacheKey(spec(), 'gif', options)).not.toBe(previewCacheKey(spec({ duration: 2000 }), 'gif', options));
+  });
+
+  test('should store, read and invalidate cached previews by pattern', async () => {
+    const body = renderPatternPreview(spec(), 'gif', { size: 32, fps: 10 });
+
+    expect(await readCachedPreview('pattern-1', 'abc', 'gif')).toBeNull();
+    await writeCachedPreview('pattern-1', 'abc', 'gif', body);
+    expect(files.has('previews/patterns/pattern-1/abc.gif')).toBe(true);
+    expect(await readCachedPreview('pattern-1', 'abc', 'gif')).toEqual(body);
+
+    await invalidatePatternPreviews('pattern-1');
+    expect(deleteFiles).toHaveBeenCalledWith({ prefix: 'previews/patterns/pattern-1/' });
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit тесты для истории версий паттерна: запись ревизий, модерация ожидающей ревизии, diff
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import {
+  diffPatternRevisions,
+  pendingRevisionReviewFields,
+  stageInitialRevision,
+  stagePatternRevision,
+} from '../../core/patternRevisions';
+import { PatternSpec, patternSpecHash } from '../../core/patterns';
+import { firestoreDocs as docs, makeTransaction, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+function makeTx() {
+  return makeTransaction() as any;
+}
+
+function spec(color = '#FF0000'): PatternSpec {
+  return {
+    type: 'custom',
+    hardwareVersion: 200,
+    duration: 1000,
+    elements: [{ type: 'color', startTime: 0, duration: 1000, color }],
+  };
+}
+
+describe('Pattern revisions', () => {
+  beforeEach(() => {
+    resetFirestore();
+  });
+
+  test('should write the first revision with author and spec hash on create', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    const fields = stageInitialRevision(makeTx(), 'p1', { authorId: 'u1', spec: spec(), hardwareVersion: 200 }, now);
+
+    expect(fields).toEqual({ currentRevision: 1, latestRevision: 1, pendingRevision: null, hasPendingRevision: false });
+    expect(docs.get('patterns/p1/revisions/1')).toEqual({
+      id: '1',
+      patternId: 'p1',
+      number: 1,
+      authorId: 'u1',
+      spec: spec(),
+      hardwareVersion: 200,
+      specHash: patternSpecHash(spec()),
+      source: 'create',
+      revertedFrom: null,
+      createdAt: now,
+    });
+  });
+
+  test('should apply edits live and skip unchanged specs', () => {
+    const pattern = { ownerId: 'u1', spec: spec(), hardwareVersion: 200 as const, currentRevision: 1, latestRevision: 1 };
+
+    expect(stagePatternRevision(makeTx(), 'p1', pattern, { authorId: 'u1', spec: spec(), hardwareVersion: 200, source: 'update' })).toBeNull();
+
+    const staged = stagePatternRevision(makeTx(), 'p1', pattern, { authorId: 'u1', spec: spec('#00FF00'), hardwareVersion: 200, source: 'update' });
+    expect(staged).toEqual({
+      number: 2,
+      pending: false,
+      fields: { spec: spec('#00FF00'), hardwareVersion: 200, currentRevision: 2, latestRevision: 2, pendingRevision: null, hasPendingRevision: false },
+    });
+    expect(docs.get('patterns/p1/revisions/2')).toMatchObject({ number: 2, source: 'update', specHash: patternSpecHash(spec('#00FF00')) });
+  });
+
+  test('should record a baseline for legacy patterns and keep approved public edits pending', () => {
+    const legacy = { ownerId: 'u1', spec: spec(), hardwareVersion: 200 as const, public: true, reviewStatus: 'approved' };
+    const staged = stagePatternRevision(makeTx(), 'p1', legacy, {
+      authorId: 'u1', spec: spec('#0000FF'), hardwareVersion: 200, source: 'revert', revertedFrom: 1,
+    });
+
+    expect(staged).toEqual({
+      number: 2,
+      pending: true,
+      fields: { latestRevision: 2, pendingRevision: 2, hasPendingRevision: true, currentRevision: 1 },
+    });
+    expect(docs.get('patterns/p1/revisions/1')).toMatchObject({ source: 'baseline', authorId: 'u1', spec: spec() });
+    expect(docs.get('patterns/p1/revisions/2')).toMatchObject({ source: 'revert', revertedFrom: 1 });
+  });
+
+  test('should keep edits of an approved pattern pending while it is private', () => {
+    const hidden = { ownerId: 'u1', spec: spec(), hardwareVersion: 200 as const, public: false, reviewStatus: 'approved', currentRevision: 1, latestRevision: 1 };
+    const staged = stagePatternRevision(makeTx(), 'p1', hidden, { authorId: 'u1', spec: spec('#00FF00'), hardwareVersion: 200, source: 'update' });
+
+    expect(staged).toEqual({
+      number: 2,
+      pending: true,
+      fields: { latestRevision: 2, pendingRevision: 2, hasPendingRevision: true, currentRevision: 1 },
+    });
+  });
+
+  test('should route catalog card edits of approved public patterns through moderation', async () => {
+    const pattern = {
+      ownerId: 'u1', spec: spec(), hardwareVersion: 200 as const, public: true, reviewStatus: 'approved',
+      title: 'Calm', description: 'Soft red', tags: ['calm'], kind: 'light', currentRevision: 1, latestRevision: 1,
+    };
+    const unchanged = { authorId: 'u1', spec: spec(), hardwareVersion: 200 as const, source: 'update' as const };
+
+    expect(stagePatternRevision(makeTx(), 'p1', pattern, { ...unchanged, metadata: { title: 'Calm' } })).toBeNull();
+    const staged = stagePatternRevision(makeTx(), 'p1', pattern, { ...unchanged, metadata: { title: 'Buy followers' } });
+
+    expect(staged).toMatchObject({ number: 2, pending: true });
+    expect(staged?.fields).not.toHaveProperty('title');
+    expect(docs.get('patterns/p1/revisions/2')).toMatchObject({
+      title: 'Buy followers', description: 'Soft red', tags: ['calm'], kind: 'light', spec: spec(),
+    });
+    expect(await pendingRevisionReviewFields('p1', 2, true)).toMatchObject({ title: 'Buy followers', description: 'Soft red' });
+  });
+
+  test('should apply an approved pending revision and drop a rejected one', async () => {
+    docs.set('patterns/p1/revisions/3', { spec: spec('#00FF00'), hardwareVersion: 200 });
+
+    expect(await pendingRevisionReviewFields('p1', 3, true)).toEqual({
+      spec: spec('#00FF00'),
+      hardwareVersion: 200,
+      currentRevision: 3,
+      pendingRevision: null,
+      hasPendingRevision: false,
+    });
+    expect(await pendingRevisionReviewFields('p1', 3, false)).toEqual({ pendingRevision: null, hasPendingRevision: false });
+  });
+
+  test('should diff revisions by JSON path', () => {
+    const before = { spec: spec(), hardwareVersion: 200 as const };
+    const after = {
+      hardwareVersion: 100 as const,
+      spec: { ...spec('#00FF00'), hardwareVersion: 100 as const, loop: true, elements: [...spec('#00FF00').elements, { type: 'pulse', startTime: 0, duration: 500, color: '#FFFFFF' }] },
+    };
+
+    expect(diffPatternRevisions(before, after)).toEqual([
+      { path: 'hardwareVersion', before: 200, after: 100 },
+      { path: 'spec.elements[0].color', before: '#FF0000', after: '#00FF00' },
+      { path: 'spec.elements[1]', after: { type: 'pulse', startTime: 0, duration: 500, color: '#FFFFFF' } },
+      { path: 'spec.hardwareVersion', before: 200, after: 100 },
+      { path: 'spec.loop', after: true },
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit тесты для семантической проверки спецификации паттерна
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { validatePatternSemantics } from '../../core/patternValidation';
+import { PatternSpec } from '../../core/patterns';
+
+function spec(overrides: Partial<PatternSpec> = {}): PatternSpec {
+  return {
+    type: 'chase',
+    hardwareVersion: 200,
+    duration: 1000,
+    elements: [{ type: 'chase', startTime: 0, duration: 1000, color: '#FF0000', leds: [0, 1, 2] }],
+    ...overrides,
+  };
+}
+
+describe('Pattern semantic validation', () => {
+  test('should accept a consistent spec without issues', () => {
+    expect(validatePatternSemantics(spec(), { hardwareVersion: 200 })).toEqual({ errors: [], warnings: [] });
+  });
+
+  test('should report errors with JSON paths', () => {
+    const result = validatePatternSemantics(spec({
+      elements: [
+        { type: 'color', startTime: 0, duration: 1000, color: '#FF0000', leds: [0] },
+        { type: 'chase', startTime: 500, duration: 800, colors: ['#00FF00', 'green'], leds: [3, 12] },
+      ],
+    }), { hardwareVersion: 100 });
+
+    expect(result.errors.map((e) => [e.path, e.code])).toEqual([
+      ['hardwareVersion', 'hardware_mismatch'],
+      ['spec.elements[1].duration', 'element_exceeds_duration'],
+      ['spec.elements[1].colors[1]', 'invalid_color'],
+      ['spec.elements[1].leds[1]', 'led_out_of_range'],
+    ]);
+  });
+
+  test('should reject ring-only fields on HW 100', () => {
+    const result = validatePatternSemantics(spec({
+      hardwareVersion: 100,
+      elements: [{ type: 'chase', startTime: 0, duration: 1000, color: '#FF0000', leds: [0], direction: 'clockwise' }],
+    }));
+
+    expect(result.errors.map((e) => e.path)).toEqual(['spec.elements[0].leds', 'spec.elements[0].direction']);
+    expect(result.errors.every((e) => e.code === 'unsupported_on_hardware')).toBe(true);
+  });
+
+  test('should warn about duplicates, invisible elements and trailing gap', () => {
+    const result = validatePatternSemantics(spec({
+      duration: 2000,
+      elements: [{ type: 'color', startTime: 0, duration: 1500, color: '#FF0000', intensity: 0, leds: [1, 1] }],
+    }));
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map((w) => [w.path, w.code])).toEqual([
+      ['spec.elements[0].leds[1]', 'duplicate_led'],
+      ['spec.elements[0].intensity', 'invisible_element'],
+      ['spec.duration', 'trailing_gap'],
+    ]);
+  });
+
+  test('should warn when the encoded pattern does not fit the device buffer', () => {
+    const elements = Array.from({ length: 40 }, (_, i) => ({
+      type: 'color' as const,
+      startTime: i * 25,
+      duration: 25,
+      color: `#${(i * 6).toString(16).padStart(2, '0')}0000`,
+    }));
+    const result = validatePatternSemantics(spec({ hardwareVersion: 100, elements }));
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map((w) => w.code)).toContain('exceeds_device_buffer');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit тесты для форка паттернов: доступ, атрибуция, счётчик форков, квота
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { Request, Response } from 'express';
+import { patternsRouter } from '../../api/patterns';
+import { QuotaExceededError, runWithinQuota } from '../../core/quotas';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/quotas', () => ({
+  ...(jest.requireActual('../../core/quotas') as object),
+  runWithinQuota: jest.fn(async (_resource: unknown, _userId: unknown, write: any) =>
+    require('../support/firestore-fake').db.runTransaction(write)),
+}));
+
+function handlerFor(path: string, method: 'get' | 'post') {
+  const layer = patternsRouter.stack.find((l: any) => l.route?.path === path && l.route?.methods?.[method]);
+  const stack = layer?.route?.stack ?? [];
+  return stack[stack.length - 1].handle as (req: Request, res: Response) => Promise<unknown>;
+}
+
+function fork(patternId: string, uid = 'user-2', body: unknown = {}) {
+  const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+  const req = { auth: { user: { uid } }, params: { id: patternId }, body, headers: {} } as unknown as Request;
+  return handlerFor('/patterns/:id/fork', 'post')(req, res).then(() => ({
+    status: (res.status as jest.Mock).mock.calls[0]?.[0],
+    body: (res.json as jest.Mock).mock.calls[0]?.[0] as any,
+  }));
+}
+
+const spec = {
+  type: 'breathing',
+  hardwareVersion: 200,
+  duration: 1000,
+  elements: [{ type: 'breathing', startTime: 0, duration: 1000, color: '#00FF00' }],
+};
+
+function seedPattern(id: string, overrides: Record<string, unknown> = {}) {
+  docs.set(`patterns/${id}`, {
+    id,
+    ownerId: 'author-1',
+    kind: 'light',
+    spec,
+    hardwareVersion: 200,
+    public: true,
+    reviewStatus: 'approved',
+    title: 'Forest',
+    description: 'Calm green',
+    tags: ['calm'],
+    currentRevision: 3,
+    ...overrides,
+  });
+}
+
+describe('Pattern fork API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    docs.set('users/author-1', { displayName: 'Alice' });
+  });
+
+  test('should create a private copy with attribution and count the fork', async () => {
+    seedPattern('p1');
+
+    const result = await fork('p1', 'user-2', { title: 'My forest' });
+
+    expect(result.status).toBe(201);
+    expect(result.body.pattern).toMatchObject({
+      ownerId: 'user-2',
+      spec,
+      public: false,
+      reviewStatus: 'pending',
+      title: 'My forest',
+      tags: ['calm'],
+      forkedFrom: { patternId: 'p1', ownerId: 'author-1', authorName: 'Alice', title: 'Forest', revision: 3 },
+      forkCount: 0,
+      currentRevision: 1,
+    });
+    expect(docs.get(`patterns/${result.body.pattern.id}/revisions/1`)).toMatchObject({ authorId: 'user-2', source: 'create' });
+    expect(docs.get('patterns/p1')?.forkCount).toBe(1);
+    expect(runWithinQuota).toHaveBeenCalledWith('patterns', 'user-2', expect.any(Function));
+  });
+
+  test('should respect catalog visibility, shares and allowForks', async () => {
+    seedPattern('private', { public: false, reviewStatus: 'approved' });
+    seedPattern('closed', { allowForks: false });
+
+    expect((await fork('private')).status).toBe(403);
+    expect(await fork('closed')).toMatchObject({ status: 403, body: { message: 'The author does not allow forks of this pattern' } });
+    expect((await fork('closed', 'author-1')).status).toBe(201);
+    // Копия своего паттерна не увеличивает его forkCount
+    expect(docs.get('patterns/closed')?.forkCount).toBeUndefined();
+
+    docs.set('pairs/pair-1', { memberIds: ['author-1', 'user-2'] });
+    docs.set('sharedPatterns/s1', { patternId: 'private', fromUserId: 'author-1', toUserId: null, pairId: 'pair-1' });
+    expect((await fork('private')).status).toBe(201);
+    expect((await fork('missing')).status).toBe(404);
+  });
+
+  test('should return quota error when the pattern limit is reached', async () => {
+    seedPattern('p1');
+    (runWithinQuota as jest.Mock).mockImplementationOnce(async () => {
+      throw new QuotaExceededError('patterns', 100, 100);
+    });
+
+    const result = await fork('p1');
+
+    expect(result.status).toBe(429);
+    expect(docs.get('patterns/p1')?.forkCount).toBeUndefined();
+  });
+});
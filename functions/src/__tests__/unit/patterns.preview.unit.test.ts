@@ -0,0 +1,89 @@
+/**
+ * Unit тесты для предпросмотра паттерна на устройстве: размер FCM payload и ошибки доставки
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { Request, Response } from 'express';
+import { patternsRouter } from '../../api/patterns';
+import { decodePatternBinary, PatternSpec } from '../../core/patterns';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+const mockSendEachForMulticast = jest.fn<(message: any) => Promise<any>>();
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/messaging', () => ({
+  getMessaging: jest.fn(() => ({ sendEachForMulticast: mockSendEachForMulticast })),
+}));
+
+jest.mock('../../core/remoteConfig', () => ({
+  isPreviewEnabled: jest.fn(async () => true),
+  isPatternValidationStrict: jest.fn(async () => false),
+}));
+
+function preview(body: Record<string, unknown>) {
+  const layer = patternsRouter.stack.find((l: any) => l.route?.path === '/patterns/preview' && l.route?.methods?.post);
+  const stack = layer?.route?.stack ?? [];
+  const handler = stack[stack.length - 1].handle as (req: Request, res: Response) => Promise<unknown>;
+  const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+  const req = { auth: { user: { uid: 'user-1' } }, body, headers: {} } as unknown as Request;
+  return handler(req, res).then(() => ({
+    status: (res.status as jest.Mock).mock.calls[0]?.[0],
+    body: (res.json as jest.Mock).mock.calls[0]?.[0] as any,
+  }));
+}
+
+// Паттерн у предела буфера HW 200: 120 элементов с цветом, интенсивностью и светодиодами
+const largeSpec: PatternSpec = {
+  type: 'custom',
+  hardwareVersion: 200,
+  duration: 120 * 100,
+  elements: Array.from({ length: 120 }, (_, i) => ({
+    type: 'color',
+    startTime: i * 100,
+    duration: 100,
+    color: '#FF8800',
+    intensity: 0.5,
+    leds: [i % 12],
+  })),
+};
+
+describe('Pattern preview API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+    docs.set('devices/d1', { ownerId: 'user-1', hardwareVersion: 200 });
+    docs.set('notificationTokens/t1', { userId: 'user-1', isActive: true, token: 'fcm-1' });
+    docs.set('notificationTokens/t2', { userId: 'user-1', isActive: true, token: 'fcm-2' });
+    mockSendEachForMulticast.mockResolvedValue({ successCount: 2, failureCount: 0, responses: [{ success: true }, { success: true }] });
+  });
+
+  test('should send only the binary spec and stay within the FCM data limit', async () => {
+    const result = await preview({ deviceId: 'd1', spec: largeSpec });
+
+    expect(result.status).toBe(200);
+    const { data } = mockSendEachForMulticast.mock.calls[0][0] as { data: Record<string, string> };
+    expect(data).not.toHaveProperty('spec');
+    expect(decodePatternBinary(Buffer.from(data.specBinary, 'base64'))).toEqual(largeSpec);
+    const payloadBytes = Object.entries(data).reduce((sum, [key, value]) => sum + Buffer.byteLength(key) + Buffer.byteLength(value), 0);
+    expect(payloadBytes).toBeLessThan(4096);
+  });
+
+  test('should fail when no token accepted the preview', async () => {
+    mockSendEachForMulticast.mockResolvedValue({
+      successCount: 0,
+      failureCount: 2,
+      responses: [
+        { success: false, error: { code: 'messaging/payload-size-limit-exceeded' } },
+        { success: false, error: { code: 'messaging/registration-token-not-registered' } },
+      ],
+    });
+
+    const result = await preview({ deviceId: 'd1', spec: largeSpec });
+
+    expect(result).toMatchObject({
+      status: 503,
+      body: { details: { errors: ['messaging/payload-size-limit-exceeded', 'messaging/registration-token-not-registered'] } },
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Unit тесты для рендера таймлайна паттернов
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  convertPatternSpec,
+  decodePatternBinary,
+  downLevelPatternSpec,
+  encodePatternBinary,
+  MAX_BINARY_PATTERN_BYTES,
+  parseHexColor,
+  PatternEncodingError,
+  PatternRenderError,
+  PatternSpec,
+  renderPattern,
+  renderPatternFrame,
+} from '../../core/patterns';
+
+function spec(overrides: Partial<PatternSpec> = {}): PatternSpec {
+  return {
+    type: 'custom',
+    hardwareVersion: 200,
+    duration: 1000,
+    loop: false,
+    elements: [],
+    ...overrides,
+  };
+}
+
+describe('Pattern renderer', () => {
+  test('should parse short and long hex colors', () => {
+    expect(parseHexColor('#FF8000')).toEqual([255, 128, 0]);
+    expect(parseHexColor('0f0')).toEqual([0, 255, 0]);
+    expect(parseHexColor('red')).toBeNull();
+  });
+
+  test('should honor element timing, intensity, leds and loop', () => {
+    const pattern = spec({
+      elements: [{ type: 'color', startTime: 200, duration: 300, color: '#FF0000', intensity: 0.5, leds: [0, 3] }],
+    });
+
+    expect(renderPatternFrame(pattern, 100)).toEqual(Array(12).fill([0, 0, 0]));
+    const active = renderPatternFrame(pattern, 300);
+    expect(active[0]).toEqual([128, 0, 0]);
+    expect(active[3]).toEqual([128, 0, 0]);
+    expect(active[1]).toEqual([0, 0, 0]);
+    expect(renderPatternFrame(pattern, 1300)[0]).toEqual([0, 0, 0]);
+    expect(renderPatternFrame({ ...pattern, loop: true }, 1300)[0]).toEqual([128, 0, 0]);
+  });
+
+  test('should render breathing and pulse curves on a single LED', () => {
+    const breathing = spec({
+      hardwareVersion: 100,
+      elements: [{ type: 'breathing', startTime: 0, duration: 1000, color: '#FFFFFF' }],
+    });
+    expect(renderPatternFrame(breathing, 0)).toEqual([[0, 0, 0]]);
+    expect(renderPatternFrame(breathing, 500)).toEqual([[255, 255, 255]]);
+    expect(Math.abs(renderPatternFrame(breathing, 250)[0][0] - 128)).toBeLessThanOrEqual(1);
+
+    const pulse = spec({
+      hardwareVersion: 100,
+      elements: [{ type: 'pulse', startTime: 0, duration: 1000, color: '#0000FF', speed: 2, leds: [5] }],
+    });
+    // speed 2 — два пульса за элемент; leds на HW 100 игнорируются
+    expect(renderPatternFrame(pulse, 50)).toEqual([[0, 0, 255]]);
+    expect(renderPatternFrame(pulse, 550)).toEqual([[0, 0, 255]]);
+    expect(renderPatternFrame(pulse, 499)[0][2]).toBeLessThan(5);
+  });
+
+  test('should interpolate and rotate gradient around the ring', () => {
+    const gradient = spec({
+      elements: [{ type: 'gradient', startTime: 0, duration: 1200, colors: ['#FF0000', '#0000FF'], direction: 'clockwise' }],
+    });
+    const start = renderPatternFrame(gradient, 0);
+    expect(start[0]).toEqual([255, 0, 0]);
+    expect(start[6]).toEqual([0, 0, 255]);
+    expect(start[3]).toEqual([128, 0, 128]);
+    // За 1/12 цикла картинка сдвигается на один светодиод по часовой
+    expect(renderPatternFrame(gradient, 100)[1]).toEqual([255, 0, 0]);
+
+    const counter = { ...gradient, elements: [{ ...gradient.elements[0], direction: 'counterclockwise' as const }] };
+    expect(renderPatternFrame(counter, 100)[11]).toEqual([255, 0, 0]);
+  });
+
+  test('should move chase head with a fading tail and blend overlapping elements', () => {
+    const chase = spec({
+      elements: [
+        { type: 'chase', startTime: 0, duration: 1200, color: '#00FF00' },
+        { type: 'color', startTime: 0, duration: 1200, color: '#FF0000', intensity: 0.2 },
+      ],
+    });
+    const frame = renderPatternFrame(chase, 200);
+    expect(frame[2]).toEqual([51, 255, 0]);
+    expect(frame[1][1]).toBeGreaterThan(frame[0][1]);
+    expect(frame[3]).toEqual([51, 0, 0]);
+  });
+
+  test('should render timeline at requested fps and reject oversized renders', () => {
+    const timeline = renderPattern(spec({
+      elements: [{ type: 'color', startTime: 0, duration: 1000, color: '#FFFFFF' }],
+    }), { fps: 10 });
+
+    expect(timeline).toMatchObject({ hardwareVersion: 200, ledCount: 12, fps: 10, durationMs: 1000 });
+    expect(timeline.frames).toHaveLength(10);
+    expect(timeline.frames[9].timeMs).toBe(900);
+    expect(() => renderPattern(spec(), { fps: 0 })).toThrow(PatternRenderError);
+    expect(() => renderPattern(spec({ duration: 600000 }), { fps: 120 })).toThrow('exceeds');
+  });
+});
+
+describe('Binary pattern encoding', () => {
+  const ring: PatternSpec = {
+    type: 'gradient',
+    hardwareVersion: 200,
+    duration: 4000,
+    loop: true,
+    elements: [
+      { type: 'gradient', startTime: 0, duration: 2000, colors: ['#FF0000', '#00FF00', '#FF0000'], direction: 'clockwise', leds: [0, 1, 2, 11] },
+      { type: 'pulse', startTime: 2000, duration: 2000, color: '#00FF00', intensity: 0.75, speed: 1.5 },
+      { type: 'color', startTime: 0, duration: 4000, color: '#0000FF' },
+    ],
+  };
+
+  test('should round-trip canonical spec exactly with a shared palette', () => {
+    const blob = encodePatternBinary(ring);
+
+    expect(decodePatternBinary(blob)).toEqual(ring);
+    expect(blob.subarray(0, 4)).toEqual(Buffer.from([0x41, 0x50, 1, 2]));
+    // Палитра из трёх уникальных цветов, а не из пяти упоминаний
+    expect(blob[10]).toBe(3);
+    expect(blob.length).toBeLessThan(JSON.stringify(ring).length / 4);
+    expect(decodePatternBinary(encodePatternBinary({ ...ring, loop: undefined })).loop).toBeUndefined();
+    expect(decodePatternBinary(encodePatternBinary({ ...ring, loop: false })).loop).toBe(false);
+  });
+
+  test('should decode to canonical colors and LED order', () => {
+    const decoded = decodePatternBinary(encodePatternBinary({
+      ...ring,
+      elements: [{ type: 'chase', startTime: 0, duration: 100, color: '#f00', leds: [5, 1, 5] }],
+    }));
+
+    expect(decoded.elements[0]).toEqual({ type: 'chase', startTime: 0, duration: 100, color: '#FF0000', leds: [1, 5] });
+  });
+
+  test('should reject intensity and speed finer than the format step instead of rounding', () => {
+    const element = { type: 'pulse', startTime: 0, duration: 1000, color: '#00FF00' };
+    const exact = { ...ring, elements: [{ ...element, intensity: 0.123, speed: 0.07 }] };
+    expect(decodePatternBinary(encodePatternBinary(exact))).toEqual(exact);
+
+    expect(() => encodePatternBinary({ ...ring, elements: [{ ...element, intensity: 0.1234 }] }))
+      .toThrow('Element intensity must be a multiple of 0.001');
+    expect(() => encodePatternBinary({ ...ring, elements: [{ ...element, speed: 1.555 }] }))
+      .toThrow(PatternEncodingError);
+  });
+
+  test('should reject unrepresentable specs, oversized payloads and corrupted blobs', () => {
+    expect(() => encodePatternBinary({ ...ring, elements: [{ type: 'sparkle', startTime: 0, duration: 1 }] }))
+      .toThrow('Unknown element type: sparkle');
+    expect(() => encodePatternBinary({ ...ring, elements: [{ type: 'color', startTime: 0, duration: 1, color: 'red' }] }))
+      .toThrow(PatternEncodingError);
+
+    const many = Array.from({ length: 60 }, (_, i) => ({ type: 'color', startTime: i, duration: 10, color: '#FFFFFF' }));
+    try {
+      encodePatternBinary({ ...ring, hardwareVersion: 100, elements: many });
+      throw new Error('expected size limit');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PatternEncodingError);
+      expect((error as PatternEncodingError).details).toMatchObject({ limit: MAX_BINARY_PATTERN_BYTES[100], hardwareVersion: 100 });
+    }
+    expect(encodePatternBinary({ ...ring, elements: many }).length).toBeLessThanOrEqual(MAX_BINARY_PATTERN_BYTES[200]);
+
+    const corrupted = Buffer.from(encodePatternBinary(ring));
+    corrupted[8] ^= 0xff;
+    expect(() => decodePatternBinary(corrupted)).toThrow('checksum mismatch');
+  });
+});
+
+describe('Pattern hardware conversion', () => {
+  test('should report what is approximated when down-leveling to HW 100', () => {
+    const ring = spec({
+      elements: [{ type: 'gradient', startTime: 0, duration: 1000, colors: ['#FF0000', '#0000FF'], direction: 'clockwise', leds: [0, 1] }],
+    });
+    const { spec: single, approximations } = convertPatternSpec(ring, 100);
+
+    expect(single.hardwareVersion).toBe(100);
+    expect(single.elements[0]).toMatchObject({ type: 'gradient', color: '#FF0000' });
+    expect(approximations.map((a) => [a.path, a.code])).toEqual([
+      ['spec.elements[0].leds', 'leds_dropped'],
+      ['spec.elements[0].direction', 'direction_dropped'],
+      ['spec.elements[0].colors', 'colors_reduced'],
+    ]);
+    expect(downLevelPatternSpec(ring, 100)).toEqual(single);
+  });
+
+  test('should play HW 100 patterns on the whole ring unless up-level is requested', () => {
+    const single = spec({
+      type: 'pulse',
+      hardwareVersion: 100,
+      elements: [{ type: 'pulse', startTime: 0, duration: 1000, color: '#00FF00', speed: 2 }],
+    });
+
+    const plain = convertPatternSpec(single, 200);
+    expect(plain.approximations).toEqual([]);
+    expect(plain.spec).toEqual({ ...single, hardwareVersion: 200 });
+    expect(new Set(renderPatternFrame(plain.spec, 50).map((c) => c.join()))).toHaveProperty('size', 1);
+    // Без upLevel ап-левел не выполняется
+    expect(downLevelPatternSpec(single, 200)).toBe(single);
+  });
+
+  test('should expand single-LED effects around the ring on up-level', () => {
+    const single = spec({
+      type: 'breathing',
+      hardwareVersion: 100,
+      elements: [
+        { type: 'breathing', startTime: 0, duration: 1000, color: '#00FF00' },
+        { type: 'pulse', startTime: 0, duration: 1000, color: '#FF0000', speed: 2 },
+        { type: 'gradient', startTime: 0, duration: 1000, colors: ['#FF0000', '#0000FF'] },
+        { type: 'color', startTime: 0, duration: 1000, color: '#0000FF', intensity: 0.5 },
+      ],
+    });
+    const { spec: ring, approximations } = convertPatternSpec(single, 200, { upLevel: true });
+
+    expect(ring.type).toBe('gradient');
+    expect(ring.hardwareVersion).toBe(200);
+    expect(ring.elements).toEqual([
+      { type: 'gradient', startTime: 0, duration: 1000, colors: ['#00FF00', '#000000'], direction: 'clockwise' },
+      { type: 'chase', startTime: 0, duration: 1000, color: '#FF0000', speed: 2 },
+      { type: 'gradient', startTime: 0, duration: 1000, colors: ['#FF0000', '#0000FF'], direction: 'clockwise' },
+      { type: 'color', startTime: 0, duration: 1000, color: '#0000FF', intensity: 0.5 },
+    ]);
+    expect(approximations.map((a) => a.code)).toEqual(['breathing_to_gradient', 'pulse_to_chase', 'gradient_rotated']);
+    expect(() => encodePatternBinary(ring)).not.toThrow();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit тесты для запросов на пользовательские адреса: публичные диапазоны, резолв и привязка к адресу
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { lookup } from 'dns/promises';
+import { EventEmitter } from 'events';
+import https from 'https';
+import { Readable } from 'stream';
+import { isPublicAddress, publicHttpsFetch, resolvePublicHttpsUrl } from '../../core/publicHttps';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const lookupMock = lookup as unknown as jest.Mock<(host: string) => Promise<Array<{ address: string; family: number }>>>;
+
+describe('Public https requests', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    lookupMock.mockReset();
+  });
+
+  test('should accept only public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:2800:220:1:248:1893:25c8:1946']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:169.254.169.254', 'not-an-ip',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  test('should reject hosts with any non-public address', async () => {
+    lookupMock.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '::1', family: 6 }]);
+    await expect(resolvePublicHttpsUrl('https://rebind.example.com/hook')).rejects.toThrow('non-public address');
+
+    lookupMock.mockRejectedValue(new Error('ENOTFOUND'));
+    await expect(resolvePublicHttpsUrl('https://missing.example.com/hook')).rejects.toThrow('Failed to resolve');
+
+    await expect(resolvePublicHttpsUrl('http://hooks.example.com/hook')).rejects.toThrow('public https address');
+    await expect(resolvePublicHttpsUrl('https://127.0.0.1/hook')).rejects.toThrow('public https address');
+  });
+
+  test('should connect to the resolved address without resolving the host again', async () => {
+    lookupMock.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    const target = await resolvePublicHttpsUrl('https://hooks.example.com/hook');
+    const pinned: unknown[] = [];
+    jest.spyOn(https, 'request').mockImplementation(((_url: URL, options: https.RequestOptions, callback: (res: unknown) => void) => {
+      options.lookup?.('hooks.example.com', { all: true }, (_error, address) => pinned.push(address));
+      options.lookup?.('hooks.example.com', {}, (_error, address) => pinned.push(address));
+      const request = Object.assign(new EventEmitter(), {
+        end: () => callback(Object.assign(Readable.from([Buffer.from('ok')]), {
+          statusCode: 302,
+          statusMessage: 'Found',
+          headers: { location: 'https://internal.example.com/' },
+        })),
+      });
+      return request;
+    }) as unknown as typeof https.request);
+
+    const response = await publicHttpsFetch(target, { method: 'POST', body: '{}' });
+
+    expect(pinned).toEqual([[{ address: '93.184.216.34', family: 4 }], '93.184.216.34']);
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://internal.example.com/');
+    expect(await response.text()).toBe('ok');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit тесты для квот пользователя
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { getUserQuotas, QuotaExceededError, runWithinQuota } from '../../core/quotas';
+
+const usageByCollection: Record<string, number> = {};
+const mockTx = {
+  get: jest.fn(async (query: any) => query.get()),
+  set: jest.fn(),
+};
+
+jest.mock('../../core/firebase', () => ({
+  db: {
+    collection: jest.fn((name: string) => ({
+      where: jest.fn(() => ({
+        count: jest.fn(() => ({
+          get: jest.fn(async () => ({ data: () => ({ count: usageByCollection[name] ?? 0 }) })),
+        })),
+      })),
+    })),
+    runTransaction: jest.fn(async (fn: any) => fn(mockTx)),
+  },
+} as any));
+
+jest.mock('../../core/remoteConfig', () => ({
+  getMaxRulesPerUser: jest.fn(async () => 20),
+  getMaxPatternsPerUser: jest.fn(async () => 100),
+  getMaxDevicesPerUser: jest.fn(async () => 5),
+  getMaxGeofencesPerUser: jest.fn(async () => 20),
+  getMaxCalendarsPerUser: jest.fn(async () => 5),
+  getMaxIntegrationsPerUser: jest.fn(async () => 10),
+  getMaxOutboundWebhooksPerUser: jest.fn(async () => 10),
+}));
+
+describe('Quotas', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    for (const key of Object.keys(usageByCollection)) delete usageByCollection[key];
+  });
+
+  test('should run write inside transaction when under limit', async () => {
+    usageByCollection.rules = 19;
+
+    const result = await runWithinQuota('rules', 'user-1', (tx) => {
+      tx.set({} as any, { ok: true });
+      return 'written';
+    });
+
+    expect(result).toBe('written');
+    expect(mockTx.get).toHaveBeenCalledTimes(1);
+    expect(mockTx.set).toHaveBeenCalledTimes(1);
+  });
+
+  test('should throw QuotaExceededError with usage and limit', async () => {
+    usageByCollection.devices = 5;
+    const write = jest.fn();
+
+    const error = await runWithinQuota('devices', 'user-1', write).catch((e) => e);
+
+    expect(write).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).toApiError()).toEqual({
+      code: 'resource_exhausted',
+      message: 'Too many devices (max 5)',
+      details: { resource: 'devices', usage: 5, limit: 5 },
+    });
+  });
+
+  test('should list usage for every resource', async () => {
+    usageByCollection.rules = 3;
+    usageByCollection.patterns = 120;
+
+    const quotas = await getUserQuotas('user-1');
+
+    expect(quotas).toEqual([
+      { resource: 'rules', usage: 3, limit: 20, remaining: 17 },
+      { resource: 'patterns', usage: 120, limit: 100, remaining: 0 },
+      { resource: 'devices', usage: 0, limit: 5, remaining: 5 },
+      { resource: 'geofences', usage: 0, limit: 20, remaining: 20 },
+      { resource: 'calendars', usage: 0, limit: 5, remaining: 5 },
+      { resource: 'integrations', usage: 0, limit: 10, remaining: 10 },
+      { resource: 'outboundWebhooks', usage: 0, limit: 10, remaining: 10 },
+    ]);
+  });
+});
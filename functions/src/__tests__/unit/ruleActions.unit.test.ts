@@ -0,0 +1,303 @@
+/**
+ * Unit тесты для исполнителей действий правил
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { executeRuleAction } from '../../core/ruleActions';
+
+jest.mock('../../core/firebase', () => {
+  const collection = jest.fn();
+  return {
+    db: {
+      collection
+    },
+    __collectionMock: collection,
+  } as any;
+});
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: {
+    serverTimestamp: jest.fn(() => 'server-timestamp'),
+    increment: jest.fn((value) => ({ increment: value }))
+  }
+}));
+
+const mockSendEachForMulticast = jest.fn();
+jest.mock('firebase-admin/messaging', () => ({
+  getMessaging: jest.fn(() => ({
+    sendEachForMulticast: mockSendEachForMulticast,
+  })),
+}));
+
+jest.mock('../../core/hugs', () => ({
+  sendHug: jest.fn(),
+  checkHugSendable: jest.fn(),
+}));
+
+jest.mock('../../core/pushNotifications', () => ({
+  sendNotification: jest.fn(),
+  sendCustomNotification: jest.fn(),
+  previewNotification: jest.fn(),
+}));
+
+const rule = { id: 'rule-1', ownerId: 'owner-1' };
+
+const context = { ruleId: 'rule-1', triggerType: 'webhook' as const, payload: {} };
+
+describe('Rule actions', () => {
+  let mockCollection: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCollection = (require('../../core/firebase').__collectionMock) as jest.Mock;
+  });
+
+  test('should fail with field errors when params are invalid', async () => {
+    const result = await executeRuleAction(rule, { type: 'start_practice', params: {} }, context);
+
+    expect(result.status).toBe('failed');
+    expect(result.error?.code).toBe('invalid_argument');
+    expect((result.error?.details as any).fieldErrors[0].field).toBe('params.practiceId');
+    expect(mockCollection).not.toHaveBeenCalled();
+  });
+
+  test('should reject duration for light_device with a pattern', async () => {
+    const result = await executeRuleAction(
+      rule, { type: 'light_device', params: { deviceId: 'dev-1', patternId: 'p1', duration: 3000 } }, context
+    );
+
+    expect(result.status).toBe('failed');
+    expect((result.error?.details as any).fieldErrors).toEqual([
+      { field: 'params.duration', message: 'duration is only supported with color, not with patternId' },
+    ]);
+    expect(mockCollection).not.toHaveBeenCalled();
+  });
+
+  test('should create a session with source rule for start_practice', async () => {
+    const sessionSet = jest.fn(async () => undefined);
+    mockCollection.mockImplementation(((name: string) => {
+      if (name === 'practices') {
+        return { doc: jest.fn(() => ({ get: jest.fn(async () => ({ exists: true })) })) };
+      }
+      return { doc: jest.fn(() => ({ id: 'session-1', set: sessionSet })) };
+    }) as any);
+
+    const result = await executeRuleAction(
+      rule, { type: 'start_practice', params: { practiceId: 'practice-1', intensity: 0.5 } },
+      context
+    );
+
+    expect(result).toEqual({ type: 'start_practice', status: 'succeeded', output: { sessionId: 'session-1' } });
+    expect(sessionSet).toHaveBeenCalledWith(expect.objectContaining({
+      ownerId: 'owner-1',
+      practiceId: 'practice-1',
+      source: 'rule',
+      ruleId: 'rule-1',
+      intensity: 0.5,
+    }));
+  });
+
+  test('should fail start_practice when practice does not exist', async () => {
+    mockCollection.mockReturnValue({
+      doc: jest.fn(() => ({ get: jest.fn(async () => ({ exists: false })) })),
+    });
+
+    const result = await executeRuleAction(
+      rule, { type: 'start_practice', params: { practiceId: 'missing' } },
+      context
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.error?.code).toBe('not_found');
+  });
+
+  test('should propagate hug cooldown errors for send_hug', async () => {
+    const { sendHug } = require('../../core/hugs');
+    (sendHug as jest.Mock).mockResolvedValue({
+      error: { code: 'resource_exhausted', message: 'Please wait', details: { retryAfter: 30 } },
+    } as never);
+
+    const result = await executeRuleAction(
+      rule, { type: 'send_hug', params: { pairId: 'pair-1', color: '#FF0000', patternId: 'p1' } },
+      context
+    );
+
+    expect(sendHug).toHaveBeenCalledWith(expect.objectContaining({
+      fromUserId: 'owner-1',
+      pairId: 'pair-1',
+      emotion: { color: '#FF0000', patternId: 'p1' },
+    }));
+    expect(result.status).toBe('failed');
+    expect(result.error?.code).toBe('resource_exhausted');
+  });
+
+  test('should push light_device command via FCM', async () => {
+    mockCollection.mockImplementation(((name: string) => {
+      if (name === 'devices') {
+        return {
+          doc: jest.fn(() => ({
+            get: jest.fn(async () => ({ exists: true, data: () => ({ ownerId: 'owner-1', hardwareVersion: 200 }) })),
+          })),
+        };
+      }
+      return {
+        where: jest.fn().mockReturnThis(),
+        get: jest.fn(async () => ({ docs: [{ data: () => ({ token: 'token-1' }) }] })),
+      };
+    }) as any);
+    mockSendEachForMulticast.mockResolvedValue({ successCount: 1 } as never);
+
+    const result = await executeRuleAction(
+      rule, { type: 'light_device', params: { deviceId: 'dev-1', color: '#00FF00' } },
+      context
+    );
+
+    expect(result.status).toBe('succeeded');
+    expect(result.output?.delivered).toBe(true);
+    const message = (mockSendEachForMulticast.mock.calls[0] as any)[0];
+    expect(message.tokens).toEqual(['token-1']);
+    expect(message.data.type).toBe('light_device');
+    expect(message.data.hardwareVersion).toBe('200');
+    expect(JSON.parse(message.data.spec).elements[0].color).toBe('#00FF00');
+  });
+
+  test('should skip smart_home actions without a configured provider', async () => {
+    const result = await executeRuleAction(
+      rule, { type: 'smart_home', params: { provider: 'hue', command: 'lights_on' } },
+      context
+    );
+
+    expect(result.status).toBe('skipped');
+    expect(result.output?.reason).toBe('provider_not_configured');
+  });
+
+  test('should send custom notification when title and body are provided', async () => {
+    const { sendCustomNotification } = require('../../core/pushNotifications');
+    (sendCustomNotification as jest.Mock).mockResolvedValue({ delivered: true, tokensCount: 2 } as never);
+
+    const result = await executeRuleAction(
+      rule, { type: 'notification', params: { title: 'Hello', body: 'World' } },
+      context
+    );
+
+    expect(sendCustomNotification).toHaveBeenCalledWith('owner-1', 'Hello', 'World', expect.objectContaining({
+      type: 'rule.triggered',
+      ruleId: 'rule-1',
+    }));
+    expect(result).toEqual({
+      type: 'notification',
+      status: 'succeeded',
+      output: { delivered: true, tokensCount: 2 },
+    });
+  });
+
+  test('should render payload templates in params before executing', async () => {
+    const { sendHug } = require('../../core/hugs');
+    (sendHug as jest.Mock).mockResolvedValue({ hugId: 'hug-1', toUserId: 'user-2', delivered: true } as never);
+
+    const result = await executeRuleAction(
+      rule,
+      {
+        type: 'send_hug',
+        params: { pairId: 'pair-1', color: '{{payload.color | default:"#FF0000"}}', patternId: 'p1', message: '{{payload.text | truncate:5}}' },
+      },
+      { ...context, payload: { text: 'Good morning' } }
+    );
+
+    expect(result.status).toBe('succeeded');
+    expect(sendHug).toHaveBeenCalledWith(expect.objectContaining({
+      emotion: { color: '#FF0000', patternId: 'p1' },
+      payload: { ruleId: 'rule-1', message: 'Good…' },
+    }));
+  });
+
+  test('should report template errors in the action result', async () => {
+    const result = await executeRuleAction(
+      rule, { type: 'notification', params: { title: 'New order', body: '{{payload.order.total}}' } },
+      { ...context, payload: { order: {} } }
+    );
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toEqual({
+      code: 'invalid_argument',
+      message: 'Template rendering failed',
+      details: { templateErrors: [{ field: 'params.body', message: 'Missing value for payload.order.total' }] },
+    });
+  });
+
+  describe('dry run', () => {
+    const dryRunContext = { ...context, dryRun: true };
+
+    test('should resolve start_practice session without writing it', async () => {
+      const sessionSet = jest.fn(async () => undefined);
+      mockCollection.mockImplementation(((name: string) => {
+        if (name === 'practices') {
+          return { doc: jest.fn(() => ({ get: jest.fn(async () => ({ exists: true })) })) };
+        }
+        return { doc: jest.fn(() => ({ id: 'session-1', set: sessionSet })) };
+      }) as any);
+
+      const result = await executeRuleAction(
+        rule, { type: 'start_practice', params: { practiceId: 'practice-1' } },
+        dryRunContext
+      );
+
+      expect(result.status).toBe('succeeded');
+      expect(result.output).toMatchObject({ dryRun: true, session: { practiceId: 'practice-1', source: 'rule' } });
+      expect(sessionSet).not.toHaveBeenCalled();
+    });
+
+    test('should check send_hug without sending', async () => {
+      const { sendHug, checkHugSendable } = require('../../core/hugs');
+      (checkHugSendable as jest.Mock).mockResolvedValue({ toUserId: 'partner-1' } as never);
+
+      const result = await executeRuleAction(
+        rule, { type: 'send_hug', params: { pairId: 'pair-1', color: '#FF0000', patternId: 'p1' } },
+        dryRunContext
+      );
+
+      expect(sendHug).not.toHaveBeenCalled();
+      expect(result.status).toBe('succeeded');
+      expect(result.output).toMatchObject({ dryRun: true, toUserId: 'partner-1' });
+    });
+
+    test('should build light_device command without pushing it', async () => {
+      mockCollection.mockImplementation(((name: string) => {
+        if (name === 'devices') {
+          return {
+            doc: jest.fn(() => ({
+              get: jest.fn(async () => ({ exists: true, data: () => ({ ownerId: 'owner-1', hardwareVersion: 100 }) })),
+            })),
+          };
+        }
+        return {
+          where: jest.fn().mockReturnThis(),
+          get: jest.fn(async () => ({ docs: [] })),
+        };
+      }) as any);
+
+      const result = await executeRuleAction(
+        rule, { type: 'light_device', params: { deviceId: 'dev-1', color: '#00FF00' } },
+        dryRunContext
+      );
+
+      expect(mockSendEachForMulticast).not.toHaveBeenCalled();
+      expect(result.status).toBe('skipped');
+      expect(result.output).toMatchObject({ dryRun: true, hardwareVersion: 100, tokensCount: 0, reason: 'no_active_tokens' });
+    });
+
+    test('should preview notification without sending', async () => {
+      const { sendCustomNotification, previewNotification } = require('../../core/pushNotifications');
+      (previewNotification as jest.Mock).mockResolvedValue({ title: 'Hello', body: 'World', tokensCount: 1 } as never);
+
+      const result = await executeRuleAction(
+        rule, { type: 'notification', params: { title: 'Hello', body: 'World' } },
+        dryRunContext
+      );
+
+      expect(sendCustomNotification).not.toHaveBeenCalled();
+      expect(result.status).toBe('succeeded');
+      expect(result.output).toMatchObject({ dryRun: true, title: 'Hello', body: 'World', tokensCount: 1 });
+    });
+  });
+});
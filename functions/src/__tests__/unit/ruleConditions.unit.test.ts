@@ -0,0 +1,105 @@
+/**
+ * Unit тесты для условий правил
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { evaluateRuleConditions, ruleConditionSchema } from '../../core/ruleConditions';
+import { RuleCondition } from '../../types/firestore';
+
+jest.mock('../../core/firebase', () => {
+  const collection = jest.fn();
+  return {
+    db: {
+      collection
+    },
+    __collectionMock: collection,
+  } as any;
+});
+
+function mockDocs(docs: Record<string, Record<string, unknown> | undefined>) {
+  const mockCollection = (require('../../core/firebase').__collectionMock) as jest.Mock;
+  mockCollection.mockImplementation(((name: string) => ({
+    doc: jest.fn((id: string) => ({
+      get: jest.fn(async () => {
+        const data = docs[`${name}/${id}`];
+        return { exists: Boolean(data), data: () => data };
+      }),
+    })),
+  })) as any);
+  return mockCollection;
+}
+
+function evaluate(conditions: RuleCondition[], payload: Record<string, unknown> = {}, now = new Date('2025-03-10T10:30:00Z')) {
+  return evaluateRuleConditions({ conditions }, { ownerId: 'owner-1', payload, now });
+}
+
+describe('Rule conditions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should match time window in user timezone', async () => {
+    mockDocs({ 'users/owner-1': { timezone: 'Europe/Moscow' } });
+
+    // 10:30 UTC = 13:30 в Москве
+    const [inside] = await evaluate([{ type: 'time_window', start: '09:00', end: '18:00' }]);
+    const [outside] = await evaluate([{ type: 'time_window', start: '09:00', end: '13:00' }]);
+
+    expect(inside).toMatchObject({ matched: true, details: { timezone: 'Europe/Moscow', localTime: '13:30' } });
+    expect(outside.matched).toBe(false);
+  });
+
+  test('should support overnight windows and weekdays', async () => {
+    mockDocs({});
+
+    const results = await evaluate([
+      { type: 'time_window', start: '22:00', end: '02:00', timezone: 'UTC' },
+      { type: 'weekday', days: [1], timezone: 'UTC' },
+    ], {}, new Date('2025-03-10T23:15:00Z'));
+
+    expect(results.map((r) => r.matched)).toEqual([true, true]);
+  });
+
+  test('should check device status and battery level of own device only', async () => {
+    mockDocs({
+      'devices/dev-1': { ownerId: 'owner-1', status: 'online', batteryLevel: 15 },
+      'devices/dev-2': { ownerId: 'someone-else', status: 'online', batteryLevel: 90 },
+    });
+
+    const results = await evaluate([
+      { type: 'device_status', deviceId: 'dev-1', status: ['online', 'charging'] },
+      { type: 'battery_level', deviceId: 'dev-1', operator: 'gte', value: 20 },
+      { type: 'device_status', deviceId: 'dev-2', status: ['online'] },
+    ]);
+
+    expect(results.map((r) => r.matched)).toEqual([true, false, false]);
+    expect(results[2].details?.reason).toBe('device_not_found');
+  });
+
+  test('should check pair status', async () => {
+    mockDocs({ 'pairs/pair-1': { memberIds: ['owner-1', 'partner-1'], status: 'blocked' } });
+
+    const [result] = await evaluate([{ type: 'pair_status', pairId: 'pair-1', status: ['active'] }]);
+
+    expect(result).toMatchObject({ matched: false, details: { status: 'blocked' } });
+  });
+
+  test('should compare payload fields by path', async () => {
+    mockDocs({});
+
+    const results = await evaluate([
+      { type: 'payload', path: 'sensor.temp', operator: 'gt', value: 25 },
+      { type: 'payload', path: 'tags', operator: 'contains', value: 'urgent' },
+      { type: 'payload', path: 'missing', operator: 'not_exists' },
+      { type: 'payload', path: 'sensor.temp', operator: 'eq', value: '30' },
+    ], { sensor: { temp: 30 }, tags: ['urgent'] });
+
+    expect(results.map((r) => r.matched)).toEqual([true, true, true, false]);
+  });
+
+  test('should validate condition schema', () => {
+    expect(ruleConditionSchema.safeParse({ type: 'time_window', start: '9:00', end: '18:00' }).success).toBe(false);
+    expect(ruleConditionSchema.safeParse({ type: 'payload', path: 'a', operator: 'eq' }).success).toBe(false);
+    expect(ruleConditionSchema.safeParse({ type: 'payload', path: 'a', operator: 'exists' }).success).toBe(true);
+  });
+});
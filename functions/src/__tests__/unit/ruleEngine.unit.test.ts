@@ -0,0 +1,159 @@
+/**
+ * Unit тесты для движка правил: условия и цепочки действий
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import { fireMatchingRules, fireRule } from '../../core/ruleEngine';
+import { Rule } from '../../types/firestore';
+
+const mockBatch = {
+  set: jest.fn(),
+  update: jest.fn(),
+  commit: jest.fn(async () => undefined),
+};
+
+jest.mock('../../core/firebase', () => {
+  const runRef = { id: 'run-1' };
+  const ruleRef = { collection: jest.fn(() => ({ doc: jest.fn(() => runRef) })) };
+  return {
+    db: {
+      collection: jest.fn(() => ({ doc: jest.fn(() => ruleRef) })),
+      batch: jest.fn(() => mockBatch),
+    },
+  } as any;
+});
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: {
+    serverTimestamp: jest.fn(() => 'server-timestamp'),
+    increment: jest.fn((value) => ({ increment: value }))
+  }
+}));
+
+jest.mock('../../core/ruleActions', () => ({
+  executeRuleAction: jest.fn(),
+}));
+
+jest.mock('../../core/ruleConditions', () => ({
+  evaluateRuleConditions: jest.fn(),
+}));
+
+function makeRule(overrides: Partial<Rule>): Rule {
+  return {
+    id: 'rule-1',
+    ownerId: 'owner-1',
+    trigger: { type: 'webhook', params: { integrationKey: 'key-1' } },
+    enabled: true,
+    triggerCount: 0,
+    createdAt: { seconds: 0, nanoseconds: 0 },
+    updatedAt: { seconds: 0, nanoseconds: 0 },
+    ...overrides,
+  };
+}
+
+const context = { ruleId: 'rule-1', triggerType: 'webhook' as const, payload: {} };
+const lightStep = { type: 'light_device' as const, params: { deviceId: 'dev-1', color: '#00FF00' } };
+const hugStep = { type: 'send_hug' as const, params: { pairId: 'pair-1', color: '#FF0000', patternId: 'p1' } };
+
+describe('Rule engine', () => {
+  let executeRuleAction: jest.Mock;
+  let evaluateRuleConditions: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executeRuleAction = require('../../core/ruleActions').executeRuleAction as jest.Mock;
+    evaluateRuleConditions = require('../../core/ruleConditions').evaluateRuleConditions as jest.Mock;
+    evaluateRuleConditions.mockResolvedValue([] as never);
+  });
+
+  test('should skip actions and record run when conditions are not met', async () => {
+    evaluateRuleConditions.mockResolvedValue([
+      { condition: 'conditions[0].time_window', matched: false },
+    ] as never);
+
+    const outcome = await fireRule(makeRule({ actions: [lightStep, hugStep] }), context);
+
+    expect(executeRuleAction).not.toHaveBeenCalled();
+    expect(outcome.status).toBe('skipped');
+    expect(mockBatch.update).not.toHaveBeenCalled();
+    const runDoc = (mockBatch.set.mock.calls[0] as any)[1];
+    expect(runDoc.error.code).toBe('failed_precondition');
+  });
+
+  test('should execute actions in order', async () => {
+    executeRuleAction
+      .mockResolvedValueOnce({ type: 'light_device', status: 'succeeded' } as never)
+      .mockResolvedValueOnce({ type: 'send_hug', status: 'succeeded' } as never);
+
+    const outcome = await fireRule(makeRule({ actions: [lightStep, hugStep] }), context);
+
+    expect(executeRuleAction.mock.calls.map((c: any) => c[1].type)).toEqual(['light_device', 'send_hug']);
+    expect(outcome.status).toBe('succeeded');
+    expect(mockBatch.update).toHaveBeenCalled();
+  });
+
+  test('should stop chain on failure unless continueOnError is set', async () => {
+    executeRuleAction.mockResolvedValue({ type: 'light_device', status: 'failed', error: { code: 'not_found', message: 'x' } } as never);
+
+    const stopped = await fireRule(makeRule({ actions: [lightStep, hugStep] }), context);
+    expect(stopped.actionResults).toHaveLength(1);
+    expect(stopped.status).toBe('failed');
+    expect(mockBatch.update).not.toHaveBeenCalled();
+
+    executeRuleAction.mockReset();
+    executeRuleAction
+      .mockResolvedValueOnce({ type: 'light_device', status: 'failed', error: { code: 'not_found', message: 'x' } } as never)
+      .mockResolvedValueOnce({ type: 'send_hug', status: 'succeeded' } as never);
+
+    const continued = await fireRule(makeRule({ actions: [{ ...lightStep, continueOnError: true }, hugStep] }), context);
+    expect(continued.actionResults.map((r) => r.status)).toEqual(['failed', 'succeeded']);
+    expect(continued.status).toBe('failed');
+    expect(mockBatch.update).toHaveBeenCalledTimes(1);
+  });
+
+  test('should treat legacy single action as one-step chain', async () => {
+    executeRuleAction.mockResolvedValue({ type: 'light_device', status: 'succeeded' } as never);
+
+    await fireRule(makeRule({ action: lightStep }), context);
+
+    expect(executeRuleAction).toHaveBeenCalledWith(expect.objectContaining({ id: 'rule-1' }), lightStep, context);
+  });
+
+  test('should fire only owner rules whose trigger params match the event', async () => {
+    const gestureRule = (id: string, params: Record<string, unknown>) => ({
+      id,
+      data: () => makeRule({ id, trigger: { type: 'device_gesture', params }, action: lightStep }),
+    });
+    const where = jest.fn(() => ({ where, get: jest.fn(async () => ({ docs: [
+      gestureRule('any-device', { gesture: 'double_tap' }),
+      gestureRule('other-device', { gesture: 'double_tap', deviceId: 'dev-2' }),
+      gestureRule('other-gesture', { gesture: 'long_press' }),
+    ] })) }));
+    const { db } = require('../../core/firebase');
+    (db.collection as jest.Mock).mockImplementationOnce(() => ({ where }));
+    executeRuleAction.mockResolvedValue({ type: 'light_device', status: 'succeeded' } as never);
+
+    const summaries = await fireMatchingRules('owner-1', 'device_gesture', { gesture: 'double_tap', deviceId: 'dev-1' });
+
+    expect(where).toHaveBeenCalledWith('ownerId', '==', 'owner-1');
+    expect(summaries).toEqual([{ ruleId: 'any-device', runId: 'run-1', status: 'succeeded' }]);
+  });
+
+  test('should skip rules completed by a previous attempt and report each fired rule', async () => {
+    const webhookRule = (id: string) => ({ id, data: () => makeRule({ id, action: lightStep }) });
+    const where = jest.fn(() => ({ where, get: jest.fn(async () => ({ docs: [webhookRule('done'), webhookRule('next')] })) }));
+    const { db } = require('../../core/firebase');
+    (db.collection as jest.Mock).mockImplementationOnce(() => ({ where }));
+    executeRuleAction.mockResolvedValue({ type: 'light_device', status: 'succeeded' } as never);
+    const onRuleFired = jest.fn(async () => undefined);
+
+    const summaries = await fireMatchingRules('owner-1', 'webhook', { integrationKey: 'key-1' }, {}, {
+      completedRuleIds: new Set(['done']),
+      onRuleFired,
+    });
+
+    expect(summaries).toEqual([{ ruleId: 'next', runId: 'run-1', status: 'succeeded' }]);
+    expect(onRuleFired).toHaveBeenCalledTimes(1);
+    expect(onRuleFired).toHaveBeenCalledWith(summaries[0]);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit тесты для шаблонов в params действий правил
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { parseTemplate, renderTemplate, renderTemplateParams, TemplateSyntaxError } from '../../core/ruleTemplates';
+
+const payload = {
+  color: '#FF00AA',
+  message: 'x'.repeat(200),
+  user: { name: '  Alice  ', tags: ['vip'] },
+  count: 3,
+  empty: '',
+};
+
+describe('Rule templates', () => {
+  test('should substitute nested values, numbers and array items', () => {
+    expect(renderTemplate('{{payload.color}}', payload)).toBe('#FF00AA');
+    expect(renderTemplate('Hi {{ payload.user.name | trim }} ({{payload.count}}) {{payload.user.tags.0 | upper}}', payload))
+      .toBe('Hi Alice (3) VIP');
+  });
+
+  test('should truncate and apply defaults for missing or empty values', () => {
+    const truncated = renderTemplate('{{payload.message | truncate:140}}', payload);
+    expect(Array.from(truncated)).toHaveLength(140);
+    expect(truncated.endsWith('…')).toBe(true);
+    expect(renderTemplate('{{payload.missing | default:"#000000"}}', payload)).toBe('#000000');
+    expect(renderTemplate('{{payload.empty | default:\'a | b\' | upper}}', payload)).toBe('A | B');
+  });
+
+  test('should reject invalid syntax', () => {
+    expect(() => parseTemplate('{{user.name}}')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{payload.color | blink}}')).toThrow('Unknown template filter: blink');
+    expect(() => parseTemplate('{{payload.message | truncate:0}}')).toThrow('Filter "truncate" requires a length');
+    expect(() => parseTemplate('{{payload.color')).toThrow('Unterminated template placeholder');
+    expect(() => parseTemplate('{{payload.color | default:"oops}}')).toThrow('Unterminated string in template');
+  });
+
+  test('should collect errors per field when rendering params', () => {
+    const ok = renderTemplateParams({ color: '{{payload.color}}', patternId: 'p1', intensity: 0.5 }, payload);
+    expect(ok).toEqual({ params: { color: '#FF00AA', patternId: 'p1', intensity: 0.5 } });
+
+    const failed = renderTemplateParams({ title: '{{payload.title}}', body: '{{payload.body | lower}}' }, payload);
+    expect(failed).toEqual({
+      errors: [
+        { field: 'params.title', message: 'Missing value for payload.title' },
+        { field: 'params.body', message: 'Missing value for payload.body' },
+      ],
+    });
+  });
+});
@@ -6,6 +6,7 @@ import { describe, test, expect, jest, beforeEach } from '@jest/globals';
 import { Request, Response } from 'express';
 import { rulesRouter } from '../../api/rules';
 import { sendError } from '../../core/http';
+import { QuotaExceededError } from '../../core/quotas';
 
 // Мок для Firebase Admin (объявляем внутри фабрики, чтобы избежать hoist-ошибок)
 jest.mock('../../core/firebase', () => {
@@ -26,6 +27,12 @@ jest.mock('firebase-admin/firestore', () => ({
   }
 }));
 
+// Квоты: транзакция подменяется прямым вызовом записи
+jest.mock('../../core/quotas', () => ({
+  ...(jest.requireActual('../../core/quotas') as object),
+  runWithinQuota: jest.fn(async (_resource: unknown, _userId: unknown, write: any) => write({ set: jest.fn() })),
+}));
+
 describe('Rules API Unit Tests', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
@@ -128,7 +135,7 @@ describe('Rules API Unit Tests', () => {
       };
 
       mockCollection.mockReturnValue({
-        add: jest.fn().mockResolvedValue(mockRuleRef)
+        doc: jest.fn().mockReturnValue(mockRuleRef)
       });
 
       const req = { ...mockRequest, body: ruleData } as Request;
@@ -144,6 +151,36 @@ describe('Rules API Unit Tests', () => {
       expect(mockResponse.json).toHaveBeenCalled();
     });
 
+    test('should return resource_exhausted when rule quota is exceeded', async () => {
+      const runWithinQuota = require('../../core/quotas').runWithinQuota as jest.Mock;
+      runWithinQuota.mockRejectedValueOnce(new QuotaExceededError('rules', 20, 20) as never);
+      mockCollection.mockReturnValue({
+        doc: jest.fn().mockReturnValue({ id: 'new-rule-id', get: jest.fn() })
+      });
+
+      const req = {
+        ...mockRequest,
+        body: {
+          trigger: { type: 'webhook', params: { integrationKey: 'key-1' } },
+          action: { type: 'smart_home', params: { provider: 'hue', command: 'on' } },
+          enabled: true
+        }
+      } as Request;
+
+      const postRouteLayer = rulesRouter.stack.find(layer => layer.route?.path === '/rules' && layer.route?.methods?.post);
+      const handler = postRouteLayer?.route?.stack?.slice(-1)[0]?.handle;
+      if (handler) {
+        await handler(req, mockResponse as Response);
+      }
+
+      expect(runWithinQuota).toHaveBeenCalledWith('rules', 'test-user-id', expect.any(Function));
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'resource_exhausted',
+        details: { resource: 'rules', usage: 20, limit: 20 }
+      }));
+    });
+
     test('should validate rule data', async () => {
       const invalidRuleData = {
         trigger: { type: 'invalid_type', params: {} },
@@ -164,6 +201,139 @@ describe('Rules API Unit Tests', () => {
     });
   });
 
+  describe('Rule validation', () => {
+    const runValidator = async (body: unknown, method: 'post' | 'patch' = 'post') => {
+      const path = method === 'post' ? '/rules' : '/rules/:ruleId';
+      const layer = rulesRouter.stack.find(l => l.route?.path === path && (l.route as any)?.methods?.[method]);
+      const validator = layer?.route?.stack?.[0]?.handle;
+      const next = jest.fn();
+      const req = { ...mockRequest, body } as Request;
+      if (validator) {
+        await validator(req, mockResponse as Response, next);
+      }
+      return next;
+    };
+
+    test('should return field errors for missing trigger params', async () => {
+      const next = await runValidator({
+        trigger: { type: 'webhook', params: {} },
+        action: { type: 'smart_home', params: { provider: 'hue', command: 'on' } },
+        enabled: true,
+      });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(body.details.fieldErrors).toEqual([
+        expect.objectContaining({ field: 'trigger.params.integrationKey' }),
+      ]);
+    });
+
+    test('should reject unknown action params', async () => {
+      await runValidator({
+        trigger: { type: 'time', params: {} },
+        action: { type: 'notification', params: { title: 'Hi', message: 'oops' } },
+        schedule: { timezone: 'UTC', cron: '0 9 * * *' },
+        enabled: true,
+      });
+
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(body.details.fieldErrors).toContainEqual({ field: 'action.params.message', message: 'Unrecognized key' });
+    });
+
+    test('should reject a light_device color that is not #RRGGBB', async () => {
+      const next = await runValidator({
+        action: { type: 'light_device', params: { deviceId: 'dev-1', color: 'red' } },
+      }, 'patch');
+
+      expect(next).not.toHaveBeenCalled();
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(body.details.fieldErrors).toEqual([{ field: 'action.params.color', message: 'color must be #RRGGBB' }]);
+    });
+
+    test('should reject server-managed fields in rule updates', async () => {
+      const next = await runValidator({
+        enabled: true,
+        ownerId: 'other-user-id',
+        triggerCount: 0,
+        nextRunAt: null,
+        schedulerLock: null,
+      }, 'patch');
+
+      expect(next).not.toHaveBeenCalled();
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(body.details.fieldErrors).toEqual(['ownerId', 'triggerCount', 'nextRunAt', 'schedulerLock']
+        .map((field) => ({ field, message: 'Unrecognized key' })));
+    });
+
+    test('should reject references to devices of another user', async () => {
+      mockCollection.mockImplementation(((name: string) => ({
+        doc: jest.fn((id: string) => ({
+          get: jest.fn(async () => {
+            if (name === 'devices' && id === 'dev-foreign') {
+              return { exists: true, data: () => ({ ownerId: 'other-user-id' }) };
+            }
+            return { exists: false, data: () => undefined };
+          }),
+        })),
+      })) as any);
+
+      const next = await runValidator({
+        actions: [
+          { type: 'smart_home', params: { provider: 'hue', command: 'on' } },
+          { type: 'light_device', params: { deviceId: 'dev-foreign', patternId: 'missing' } },
+        ],
+      }, 'patch');
+
+      expect(next).not.toHaveBeenCalled();
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(body.details.fieldErrors).toEqual([
+        { field: 'actions[1].params.deviceId', message: 'Device does not belong to user' },
+        { field: 'actions[1].params.patternId', message: 'Pattern not found' },
+      ]);
+    });
+
+    test('should accept payload templates and skip reference checks for them', async () => {
+      const next = await runValidator({
+        actions: [
+          { type: 'send_hug', params: { pairId: '{{payload.pairId}}', color: '{{payload.color | default:"#FF0000"}}', patternId: 'p1' } },
+          { type: 'start_practice', params: { practiceId: '{{payload.practice}}' } },
+        ],
+      }, 'patch');
+
+      expect(next).toHaveBeenCalled();
+      expect(mockCollection).not.toHaveBeenCalledWith('pairs');
+      expect(mockCollection).not.toHaveBeenCalledWith('practices');
+    });
+
+    test('should return field errors for invalid templates', async () => {
+      await runValidator({
+        action: { type: 'notification', params: { title: '{{payload.title | shout}}', body: 'Body' } },
+      }, 'patch');
+
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(body.details.fieldErrors).toEqual([
+        { field: 'action.params.title', message: 'Unknown template filter: shout' },
+      ]);
+    });
+
+    test('should pass valid rule with existing references', async () => {
+      mockCollection.mockImplementation((() => ({
+        doc: jest.fn(() => ({
+          get: jest.fn(async () => ({ exists: true, data: () => ({ ownerId: 'test-user-id' }) })),
+        })),
+      })) as any);
+
+      const next = await runValidator({
+        trigger: { type: 'device_gesture', params: { gesture: 'double_tap', deviceId: 'dev-1' } },
+        action: { type: 'start_practice', params: { practiceId: 'practice1', deviceId: 'dev-1' } },
+        enabled: true,
+      });
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
   describe('PATCH /rules/:ruleId', () => {
     test('should update rule successfully', async () => {
       const updateData = {
@@ -309,6 +479,143 @@ describe('Rules API Unit Tests', () => {
       expect(mockResponse.json).toHaveBeenCalledWith({ ok: true });
     });
   });
-});
 
+  describe('GET /rules/:ruleId/runs', () => {
+    const findRunsHandler = () =>
+      rulesRouter.stack.find(layer => layer.route?.path === '/rules/:ruleId/runs')?.route?.stack?.[0]?.handle;
 
+    test('should return paginated runs for rule owner', async () => {
+      const runs = [
+        { id: 'run2', ruleId: 'rule1', status: 'failed', latencyMs: 12 },
+        { id: 'run1', ruleId: 'rule1', status: 'succeeded', latencyMs: 8 },
+      ];
+      const runsQuery: any = {
+        startAfter: jest.fn(),
+        limit: jest.fn(),
+        get: jest.fn(async () => ({
+          size: runs.length,
+          docs: runs.map(run => ({ id: run.id, data: () => run })),
+        })),
+      };
+      runsQuery.startAfter.mockReturnValue(runsQuery);
+      runsQuery.limit.mockReturnValue(runsQuery);
+      const cursorDoc = { exists: true, id: 'run3' };
+      const runsCollection = {
+        orderBy: jest.fn().mockReturnValue(runsQuery),
+        doc: jest.fn().mockReturnValue({ get: jest.fn(async () => cursorDoc) }),
+      };
+      const mockRuleRef = {
+        get: jest.fn(async () => ({ exists: true, data: () => ({ ownerId: 'test-user-id' }) })),
+        collection: jest.fn().mockReturnValue(runsCollection),
+      };
+      mockCollection.mockReturnValue({ doc: jest.fn().mockReturnValue(mockRuleRef) });
+
+      const req = {
+        ...mockRequest,
+        params: { ruleId: 'rule1' },
+        query: { limit: '2', cursor: 'run3' },
+      } as unknown as Request;
+      const res = mockResponse as Response;
+
+      const handler = findRunsHandler();
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockRuleRef.collection).toHaveBeenCalledWith('runs');
+      expect(runsCollection.orderBy).toHaveBeenCalledWith('createdAt', 'desc');
+      expect(runsQuery.startAfter).toHaveBeenCalledWith(cursorDoc);
+      expect(runsQuery.limit).toHaveBeenCalledWith(2);
+      expect(mockResponse.json).toHaveBeenCalledWith({ items: runs, nextCursor: 'run1' });
+    });
+
+    test('should deny access to runs of another user rule', async () => {
+      const mockRuleRef = {
+        get: jest.fn(async () => ({ exists: true, data: () => ({ ownerId: 'other-user-id' }) })),
+        collection: jest.fn(),
+      };
+      mockCollection.mockReturnValue({ doc: jest.fn().mockReturnValue(mockRuleRef) });
+
+      const req = { ...mockRequest, params: { ruleId: 'rule1' }, query: {} } as unknown as Request;
+      const res = mockResponse as Response;
+
+      const handler = findRunsHandler();
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockRuleRef.collection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /rules/:ruleId/test', () => {
+    const findHandler = (path: string) =>
+      rulesRouter.stack.find(layer => layer.route?.path === path)?.route?.stack?.slice(-1)[0]?.handle;
+
+    test('should evaluate saved rule against sample event without side effects', async () => {
+      const existingRule = {
+        ownerId: 'test-user-id',
+        trigger: { type: 'webhook', params: { integrationKey: 'key-1' } },
+        action: { type: 'smart_home', params: { provider: 'hue', command: 'lights_on' } },
+        enabled: true,
+      };
+      const mockRuleRef = {
+        get: jest.fn(async () => ({ exists: true, id: 'rule1', data: () => existingRule })),
+        update: jest.fn(),
+      };
+      mockCollection.mockReturnValue({ doc: jest.fn().mockReturnValue(mockRuleRef) });
+
+      const req = {
+        ...mockRequest,
+        params: { ruleId: 'rule1' },
+        body: { event: { integrationKey: 'key-2', payload: { temp: 21 } } },
+      } as unknown as Request;
+      const res = mockResponse as Response;
+
+      const handler = findHandler('/rules/:ruleId/test');
+      if (handler) {
+        await handler(req, res);
+      }
+
+      const result = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(result.matched).toBe(false);
+      expect(result.matchedConditions).toEqual([{
+        condition: 'trigger.params.integrationKey',
+        matched: false,
+        details: { expected: 'key-1', actual: 'key-2' },
+      }]);
+      expect(result.payload).toEqual({ temp: 21 });
+      expect(result.actions).toEqual([
+        expect.objectContaining({ type: 'smart_home', status: 'skipped', output: expect.objectContaining({ dryRun: true }) }),
+      ]);
+      expect(mockRuleRef.update).not.toHaveBeenCalled();
+    });
+
+    test('should evaluate unsaved time rule at the given moment', async () => {
+      const req = {
+        ...mockRequest,
+        body: {
+          rule: {
+            trigger: { type: 'time', params: {} },
+            action: { type: 'smart_home', params: { provider: 'hue', command: 'lights_on' } },
+            schedule: { timezone: 'Europe/Moscow', cron: '0 9 * * *' },
+            enabled: true,
+          },
+          event: { at: '2025-03-10T06:00:00Z' },
+        },
+      } as unknown as Request;
+      const res = mockResponse as Response;
+
+      const handler = findHandler('/rules/test');
+      if (handler) {
+        await handler(req, res);
+      }
+
+      const result = (mockResponse.json as jest.Mock).mock.calls[0][0] as any;
+      expect(result.matched).toBe(true);
+      expect(result.matchedConditions[0].details.nextRunAt).toBe('2025-03-11T06:00:00.000Z');
+      expect(mockCollection).not.toHaveBeenCalled();
+    });
+  });
+});
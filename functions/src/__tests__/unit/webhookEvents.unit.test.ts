@@ -0,0 +1,163 @@
+/**
+ * Unit тесты для очереди входящих вебхуков: постановка, захват события и запуск правил
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import {
+  enqueueWebhookEvent,
+  MAX_PROCESSING_ATTEMPTS,
+  PROCESSING_TIMEOUT_MS,
+  processStaleWebhookEvents,
+  processWebhookEvent,
+} from '../../core/webhookEvents';
+import { fireMatchingRules, fireRule } from '../../core/ruleEngine';
+import { firestoreDocs as docs, resetFirestore } from '../support/firestore-fake';
+
+jest.mock('../../core/firebase', () => require('../support/firestore-fake').firebaseModule());
+
+jest.mock('firebase-admin/firestore', () => ({ FieldValue: require('../support/firestore-fake').fieldValue }));
+
+jest.mock('../../core/ruleEngine', () => ({
+  fireMatchingRules: jest.fn(),
+  fireRule: jest.fn(),
+}));
+
+const fireMatchingRulesMock = fireMatchingRules as jest.MockedFunction<typeof fireMatchingRules>;
+const fireRuleMock = fireRule as jest.MockedFunction<typeof fireRule>;
+
+function eventFromQueue(): [string, Record<string, unknown>] {
+  const entry = [...docs.entries()].find(([path]) => path.startsWith('webhookEvents/'));
+  if (!entry) throw new Error('event not queued');
+  return [entry[0].split('/').pop() as string, entry[1]];
+}
+
+describe('Webhook events queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetFirestore();
+  });
+
+  test('should fan out owned integration event to owner rules and store per-rule status', async () => {
+    fireMatchingRulesMock.mockResolvedValue([
+      { ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' },
+      { ruleId: 'rule-2', runId: 'run-2', status: 'failed' },
+    ]);
+    await enqueueWebhookEvent({
+      integrationKey: 'int-1',
+      ownerId: 'owner-1',
+      payload: { color: '#FF0000' },
+      signatureScheme: 'v2',
+      secretVersion: 2,
+    });
+    const [eventId, queued] = eventFromQueue();
+    expect(queued).toMatchObject({ status: 'queued', ownerId: 'owner-1', ruleRuns: [] });
+
+    expect(await processWebhookEvent(eventId)).toBe('processed');
+
+    expect(fireMatchingRulesMock).toHaveBeenCalledWith('owner-1', 'webhook', { integrationKey: 'int-1' }, { color: '#FF0000' }, expect.anything());
+    expect(docs.get(`webhookEvents/${eventId}`)).toMatchObject({
+      status: 'processed',
+      ruleRuns: [
+        { ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' },
+        { ruleId: 'rule-2', runId: 'run-2', status: 'failed' },
+      ],
+    });
+  });
+
+  test('should claim an event only once', async () => {
+    fireMatchingRulesMock.mockResolvedValue([]);
+    await enqueueWebhookEvent({ integrationKey: 'int-1', ownerId: 'owner-1', payload: {}, signatureScheme: 'v2', secretVersion: 1 });
+    const [eventId] = eventFromQueue();
+
+    expect(await processWebhookEvent(eventId)).toBe('processed');
+    expect(await processWebhookEvent(eventId)).toBeNull();
+    expect(await processWebhookEvent('missing')).toBeNull();
+    expect(fireMatchingRulesMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should match legacy integration rules by key and mark event failed on error', async () => {
+    docs.set('rules/rule-1', { ownerId: 'someone', enabled: true, trigger: { type: 'webhook', params: { integrationKey: 'legacy' } } });
+    docs.set('rules/rule-2', { ownerId: 'someone', enabled: true, trigger: { type: 'webhook', params: { integrationKey: 'other' } } });
+    fireRuleMock.mockResolvedValue({ runId: 'run-1', status: 'succeeded', matchedConditions: [], actionResults: [] });
+    await enqueueWebhookEvent({ integrationKey: 'legacy', payload: { a: 1 }, signatureScheme: 'v1', secretVersion: 1 });
+    const [eventId] = eventFromQueue();
+
+    expect(await processWebhookEvent(eventId)).toBe('processed');
+    expect(fireRuleMock).toHaveBeenCalledTimes(1);
+    expect(docs.get(`webhookEvents/${eventId}`)).toMatchObject({
+      ownerId: null,
+      ruleRuns: [{ ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' }],
+    });
+
+    resetFirestore();
+    fireMatchingRulesMock.mockRejectedValue(new Error('Rules query failed'));
+    await enqueueWebhookEvent({ integrationKey: 'int-1', ownerId: 'owner-1', payload: {}, signatureScheme: 'v2', secretVersion: 1 });
+    const [failedId] = eventFromQueue();
+    expect(await processWebhookEvent(failedId)).toBe('failed');
+    expect(docs.get(`webhookEvents/${failedId}`)).toMatchObject({ status: 'failed', error: 'Rules query failed' });
+  });
+
+  test('should re-claim an event stuck in processing after the function timeout', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const startedAt = (ms: number) => ({ seconds: ms / 1000, nanoseconds: 0 });
+    fireMatchingRulesMock.mockResolvedValue([{ ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' }]);
+    docs.set('webhookEvents/fresh', {
+      status: 'processing', ownerId: 'owner-1', integrationKey: 'int-1', payload: {},
+      processingStartedAt: startedAt(now.getTime() - 60 * 1000), processingAttempts: 1,
+    });
+    docs.set('webhookEvents/stuck', {
+      status: 'processing', ownerId: 'owner-1', integrationKey: 'int-1', payload: {},
+      processingStartedAt: startedAt(now.getTime() - PROCESSING_TIMEOUT_MS), processingAttempts: 1,
+    });
+
+    expect(await processWebhookEvent('fresh', now)).toBeNull();
+    expect(await processStaleWebhookEvents(now)).toBe(1);
+
+    expect(fireMatchingRulesMock).toHaveBeenCalledTimes(1);
+    expect(docs.get('webhookEvents/stuck')).toMatchObject({ status: 'processed', processingAttempts: 2 });
+    expect(docs.get('webhookEvents/fresh')).toMatchObject({ status: 'processing', processingAttempts: 1 });
+  });
+
+  test('should not re-run rules that completed before the event was re-claimed', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    for (const id of ['rule-1', 'rule-2', 'rule-3']) {
+      docs.set(`rules/${id}`, { ownerId: 'someone', enabled: true, trigger: { type: 'webhook', params: { integrationKey: 'legacy' } } });
+    }
+    docs.set('webhookEvents/stuck', {
+      status: 'processing', ownerId: null, integrationKey: 'legacy', payload: {},
+      ruleRuns: [{ ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' }],
+      processingStartedAt: { seconds: (now.getTime() - PROCESSING_TIMEOUT_MS) / 1000, nanoseconds: 0 },
+      processingAttempts: 1,
+    });
+    const progressSeen: unknown[] = [];
+    fireRuleMock.mockImplementation(async (rule) => {
+      progressSeen.push([...(docs.get('webhookEvents/stuck')?.ruleRuns as unknown[])]);
+      return { runId: `run-${rule.id.split('-')[1]}`, status: 'succeeded', matchedConditions: [], actionResults: [] };
+    });
+
+    expect(await processWebhookEvent('stuck', now)).toBe('processed');
+
+    expect(fireRuleMock.mock.calls.map(([rule]) => rule.id)).toEqual(['rule-2', 'rule-3']);
+    // Результат rule-2 сохранён до запуска rule-3
+    expect(progressSeen[1]).toEqual([
+      { ruleId: 'rule-1', runId: 'run-1', status: 'succeeded' },
+      { ruleId: 'rule-2', runId: 'run-2', status: 'succeeded' },
+    ]);
+    expect(docs.get('webhookEvents/stuck')?.ruleRuns).toEqual(['rule-1', 'rule-2', 'rule-3']
+      .map((ruleId, i) => ({ ruleId, runId: `run-${i + 1}`, status: 'succeeded' })));
+  });
+
+  test('should fail an event that keeps timing out', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    docs.set('webhookEvents/stuck', {
+      status: 'processing', ownerId: 'owner-1', integrationKey: 'int-1', payload: {},
+      processingStartedAt: { seconds: (now.getTime() - PROCESSING_TIMEOUT_MS) / 1000, nanoseconds: 0 },
+      processingAttempts: MAX_PROCESSING_ATTEMPTS,
+    });
+
+    expect(await processWebhookEvent('stuck', now)).toBe('failed');
+
+    expect(fireMatchingRulesMock).not.toHaveBeenCalled();
+    expect(docs.get('webhookEvents/stuck')).toMatchObject({ status: 'failed', error: 'Processing timed out' });
+  });
+});
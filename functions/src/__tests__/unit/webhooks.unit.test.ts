@@ -47,7 +47,7 @@ describe('Webhooks API Unit Tests', () => {
   });
 
   describe('POST /webhooks/:integrationKey', () => {
-    test('should process webhook successfully', async () => {
+    test('should accept webhook and return event id', async () => {
       const secret = 'test-secret';
       const payload = JSON.stringify({ test: 'data' });
       const signature = crypto.createHmac('sha256', secret).update(payload).digest('hex');
@@ -67,11 +67,6 @@ describe('Webhooks API Unit Tests', () => {
         exists: false
       };
 
-      // Мок для поиска правил
-      const mockRulesSnapshot = {
-        docs: []
-      };
-
       mockCollection
         .mockReturnValueOnce({
           doc: jest.fn().mockReturnValue({
@@ -85,11 +80,7 @@ describe('Webhooks API Unit Tests', () => {
           })
         })
         .mockReturnValueOnce({
-          where: jest.fn().mockReturnValue({
-            where: jest.fn().mockReturnValue({
-              get: jest.fn().mockResolvedValue(mockRulesSnapshot)
-            })
-          })
+          doc: jest.fn((id: string) => ({ id, set: jest.fn().mockResolvedValue({}) }))
         })
         .mockReturnValueOnce({
           doc: jest.fn().mockReturnValue({
@@ -113,7 +104,254 @@ describe('Webhooks API Unit Tests', () => {
       }
 
       expect(mockResponse.status).toHaveBeenCalledWith(202);
-      expect(mockResponse.json).toHaveBeenCalledWith({ accepted: true });
+      expect(mockResponse.json).toHaveBeenCalledWith({ accepted: true, eventId: expect.stringMatching(/^whevt_/) });
+    });
+
+    test('should queue event for the integration owner without running rules inline', async () => {
+      const secret = 'test-secret';
+      const payload = JSON.stringify({ test: 'data' });
+      const signature = crypto.createHmac('sha256', secret).update(payload).digest('hex');
+      const fireMatchingRules = jest.spyOn(require('../../core/ruleEngine'), 'fireMatchingRules');
+      const setEvent = jest.fn().mockResolvedValue({});
+
+      mockCollection
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({
+            get: jest.fn().mockResolvedValue({ exists: true, data: () => ({ secret, isActive: true, ownerId: 'owner-1' }) })
+          })
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({
+            get: jest.fn().mockResolvedValue({ exists: false }),
+            set: jest.fn().mockResolvedValue({})
+          })
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn((id: string) => ({ id, set: setEvent }))
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({
+            update: jest.fn().mockResolvedValue({})
+          })
+        });
+
+      const req = {
+        ...mockRequest,
+        headers: {
+          'x-signature': signature,
+          'x-timestamp': Date.now().toString()
+        },
+        body: { test: 'data' }
+      } as Request;
+      const res = mockResponse as Response;
+
+      const handler = webhooksRouter.stack.find(layer => layer.route?.path === '/webhooks/:integrationKey')?.route?.stack?.[0]?.handle;
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(mockCollection).toHaveBeenNthCalledWith(3, 'webhookEvents');
+      expect(setEvent).toHaveBeenCalledWith(expect.objectContaining({
+        integrationKey: 'test-integration',
+        ownerId: 'owner-1',
+        status: 'queued',
+        payload: { test: 'data' },
+        signatureScheme: 'v1',
+        secretVersion: 1,
+      }));
+      expect(fireMatchingRules).not.toHaveBeenCalled();
+      fireMatchingRules.mockRestore();
+    });
+
+    test('should accept previous secret during rotation grace window and record its version', async () => {
+      const payload = JSON.stringify({ test: 'data' });
+      const signature = crypto.createHmac('sha256', 'old-secret').update(payload).digest('hex');
+      const update = jest.fn().mockResolvedValue({});
+
+      mockCollection
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({
+            get: jest.fn().mockResolvedValue({
+              exists: true,
+              data: () => ({
+                secret: 'new-secret',
+                secretVersion: 2,
+                previousSecret: 'old-secret',
+                previousSecretVersion: 1,
+                previousSecretExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+                isActive: true
+              })
+            })
+          })
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({
+            get: jest.fn().mockResolvedValue({ exists: false }),
+            set: jest.fn().mockResolvedValue({})
+          })
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn((id: string) => ({ id, set: jest.fn().mockResolvedValue({}) }))
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({ update })
+        });
+
+      const req = {
+        ...mockRequest,
+        headers: {
+          'x-signature': signature,
+          'x-timestamp': Date.now().toString()
+        },
+        body: { test: 'data' }
+      } as Request;
+      const res = mockResponse as Response;
+
+      const handler = webhooksRouter.stack.find(layer => layer.route?.path === '/webhooks/:integrationKey')?.route?.stack?.[0]?.handle;
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({
+        'lastSecretVersion': 1,
+        'usageBySecretVersion.v1': { increment: 1 },
+      }));
+    });
+
+    test('should reject previous secret after grace window', async () => {
+      const payload = JSON.stringify({ test: 'data' });
+      const signature = crypto.createHmac('sha256', 'old-secret').update(payload).digest('hex');
+
+      mockCollection.mockReturnValue({
+        doc: jest.fn().mockReturnValue({
+          get: jest.fn().mockResolvedValue({
+            exists: true,
+            data: () => ({
+              secret: 'new-secret',
+              secretVersion: 2,
+              previousSecret: 'old-secret',
+              previousSecretVersion: 1,
+              previousSecretExpiresAt: new Date(Date.now() - 1000),
+              isActive: true
+            })
+          })
+        })
+      });
+
+      const req = {
+        ...mockRequest,
+        headers: {
+          'x-signature': signature,
+          'x-timestamp': Date.now().toString()
+        },
+        body: { test: 'data' }
+      } as Request;
+      const res = mockResponse as Response;
+
+      const handler = webhooksRouter.stack.find(layer => layer.route?.path === '/webhooks/:integrationKey')?.route?.stack?.[0]?.handle;
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+    });
+
+    test('should accept v2 signature over timestamp and raw body bytes', async () => {
+      const secret = 'test-secret';
+      const rawBody = Buffer.from('{ "test":  "data" }');
+      const timestamp = Date.now().toString();
+      const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+
+      mockCollection
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({
+            get: jest.fn().mockResolvedValue({
+              exists: true,
+              data: () => ({ secret, isActive: true, legacySignatureEnabled: false })
+            })
+          })
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({
+            get: jest.fn().mockResolvedValue({ exists: false }),
+            set: jest.fn().mockResolvedValue({})
+          })
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn((id: string) => ({ id, set: jest.fn().mockResolvedValue({}) }))
+        })
+        .mockReturnValueOnce({
+          doc: jest.fn().mockReturnValue({ update: jest.fn().mockResolvedValue({}) })
+        });
+
+      const req = {
+        ...mockRequest,
+        headers: {
+          'x-signature': `v2=${signature}`,
+          'x-timestamp': timestamp
+        },
+        body: { test: 'data' },
+        rawBody
+      } as unknown as Request;
+      const res = mockResponse as Response;
+
+      const handler = webhooksRouter.stack.find(layer => layer.route?.path === '/webhooks/:integrationKey')?.route?.stack?.[0]?.handle;
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+    });
+
+    test('should require X-Timestamp for v2 signature', async () => {
+      const req = {
+        ...mockRequest,
+        headers: { 'x-signature': 'v2=abcdef' },
+        body: { test: 'data' },
+        rawBody: Buffer.from('{"test":"data"}')
+      } as unknown as Request;
+      const res = mockResponse as Response;
+
+      const handler = webhooksRouter.stack.find(layer => layer.route?.path === '/webhooks/:integrationKey')?.route?.stack?.[0]?.handle;
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockCollection).not.toHaveBeenCalled();
+    });
+
+    test('should reject v1 signature when legacy scheme is disabled', async () => {
+      const secret = 'test-secret';
+      const signature = crypto.createHmac('sha256', secret).update(JSON.stringify({ test: 'data' })).digest('hex');
+
+      mockCollection.mockReturnValue({
+        doc: jest.fn().mockReturnValue({
+          get: jest.fn().mockResolvedValue({
+            exists: true,
+            data: () => ({ secret, isActive: true, legacySignatureEnabled: false })
+          })
+        })
+      });
+
+      const req = {
+        ...mockRequest,
+        headers: {
+          'x-signature': `v1=${signature}`,
+          'x-timestamp': Date.now().toString()
+        },
+        body: { test: 'data' }
+      } as Request;
+      const res = mockResponse as Response;
+
+      const handler = webhooksRouter.stack.find(layer => layer.route?.path === '/webhooks/:integrationKey')?.route?.stack?.[0]?.handle;
+      if (handler) {
+        await handler(req, res);
+      }
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
     });
 
     test('should reject webhook with missing signature', async () => {
@@ -1,9 +1,12 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { authenticateToken, requireRole, requireModerator, RoleManager } from '../core/auth';
-import { sendError } from '../core/http';
+import { ApiError, sendError } from '../core/http';
 import { db } from '../core/firebase';
 import * as logger from 'firebase-functions/logger';
 import { z } from 'zod';
+import { pendingRevisionReviewFields } from '../core/patternRevisions';
+import { invalidatePatternPreviews } from '../core/patternPreview';
+import { missingPopularityFields } from '../core/patternPopularity';
 
 export const adminRouter = express.Router();
 
@@ -20,6 +23,10 @@ adminRouter.use('/admin', requireRole('admin'));
 const reviewSchema = z.object({
   action: z.enum(['approve', 'reject']),
   reason: z.string().max(500).optional(),
+  // revision — ожидающая правка (по умолчанию, если она есть), pattern — живая версия (например, снять с каталога)
+  target: z.enum(['revision', 'pattern']).optional(),
+  // Ревизия, которую видел модератор: если владелец успел прислать новую правку, ответ 412
+  revision: z.number().int().positive().optional(),
 }).strict();
 
 const adminPatchSchema = z.object({
@@ -69,6 +76,8 @@ adminRouter.get('/admin/patterns', async (req: Request, res: Response) => {
   try {
     const { limit, cursor } = parsePagination(req);
     const reviewStatus = (req.query.reviewStatus as string) || '';
+    // Правки одобренных паттернов не меняют reviewStatus: очередь правок выбирается отдельно
+    const pendingRevision = req.query.pendingRevision === 'true';
     const kind = (req.query.kind as string) || '';
     const tags = (req.query.tags as string) || '';
     const hardwareVersion = Number.parseInt((req.query.hardwareVersion as string) || '', 10);
@@ -77,6 +86,7 @@ adminRouter.get('/admin/patterns', async (req: Request, res: Response) => {
       .orderBy('createdAt', 'desc')
       .orderBy('id', 'desc') as FirebaseFirestore.Query;
     if (reviewStatus) q = q.where('reviewStatus', '==', reviewStatus);
+    if (pendingRevision) q = q.where('hasPendingRevision', '==', true);
     if (kind) q = q.where('kind', '==', kind);
     if (tags) q = q.where('tags', 'array-contains', tags);
     if (hardwareVersion === 100 || hardwareVersion === 200) q = q.where('hardwareVersion', '==', hardwareVersion);
@@ -125,7 +135,8 @@ adminRouter.patch('/admin/patterns/:id', async (req: Request, res: Response) =>
     const ref = db.collection('patterns').doc(req.params.id);
     const snap = await ref.get();
     if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
-    await ref.set({ ...parse.data, updatedAt: new Date() }, { merge: true });
+    const popularity = parse.data.reviewStatus === 'approved' ? missingPopularityFields(snap.data() as Record<string, unknown>) : {};
+    await ref.set({ ...parse.data, ...popularity, updatedAt: new Date() }, { merge: true });
     const fresh = await ref.get();
     return res.status(200).json({ pattern: fresh.data() });
   } catch (error) {
@@ -156,21 +167,44 @@ adminRouter.post('/admin/patterns/:id/review', async (req: Request, res: Respons
     if (!parse.success) {
       return sendError(res, { code: 'invalid_argument', message: parse.error.message });
     }
-    const { action, reason } = parse.data;
+    const { action, reason, target, revision } = parse.data;
+    const approve = action === 'approve';
 
     const ref = db.collection('patterns').doc(req.params.id);
-    const snap = await ref.get();
-    if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
+    // Чтение и запись в одной транзакции: правка владельца между ними не затирается
+    const outcome = await db.runTransaction(async (tx): Promise<{ error: ApiError } | { revisionApplied: boolean }> => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) return { error: { code: 'not_found', message: 'Pattern not found' } };
+      const pendingRevision = (snap.data() as { pendingRevision?: number | null }).pendingRevision ?? null;
+      const reviewTarget = target ?? (pendingRevision ? 'revision' : 'pattern');
+
+      const now = new Date();
+      const update: Record<string, unknown> = {
+        reviewedAt: now,
+        reviewerId: uid,
+        reviewReason: reason ?? null,
+        updatedAt: now,
+      };
+      if (reviewTarget === 'revision') {
+        if (!pendingRevision) return { error: { code: 'failed_precondition', message: 'Pattern has no pending revision' } };
+        if (revision !== undefined && revision !== pendingRevision) {
+          return { error: { code: 'failed_precondition', message: 'Pending revision has changed', details: { pendingRevision } } };
+        }
+        // Модерируется ожидающая ревизия, живая версия остаётся в каталоге
+        Object.assign(update, await pendingRevisionReviewFields(req.params.id, pendingRevision, approve, (r) => tx.get(r)));
+      } else {
+        update['reviewStatus'] = approve ? 'approved' : 'rejected';
+        // Одобренный паттерн попадает в сортировки каталога, только если у него есть поля популярности
+        if (approve) Object.assign(update, missingPopularityFields(snap.data() as Record<string, unknown>));
+        // Снятый с каталога паттерн: ожидающая правка отбрасывается, следующие правки владельца применяются сразу
+        if (!approve && pendingRevision) Object.assign(update, { pendingRevision: null, hasPendingRevision: false });
+      }
+      tx.set(ref, update, { merge: true });
+      return { revisionApplied: reviewTarget === 'revision' && approve };
+    });
+    if ('error' in outcome) return sendError(res, outcome.error);
 
-    const now = new Date();
-    const update: Record<string, unknown> = {
-      reviewStatus: action === 'approve' ? 'approved' : 'rejected',
-      reviewedAt: now,
-      reviewerId: uid,
-      reviewReason: reason ?? null,
-      updatedAt: now,
-    };
-    await ref.set(update, { merge: true });
+    if (outcome.revisionApplied) await invalidatePatternPreviews(req.params.id);
     const fresh = await ref.get();
     return res.status(200).json({ pattern: fresh.data() });
   } catch (error) {
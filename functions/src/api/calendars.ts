@@ -0,0 +1,230 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../core/auth';
+import { sendError } from '../core/http';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../core/firebase';
+import { z } from 'zod';
+import * as logger from 'firebase-functions/logger';
+import { QuotaExceededError, runWithinQuota } from '../core/quotas';
+import {
+  CalendarSyncError,
+  deleteCalendarEvents,
+  fetchIcsFeed,
+  normalizeFeedUrl,
+  parseCalendarEvents,
+  syncCalendar,
+} from '../core/calendars';
+import { Calendar } from '../types/firestore';
+
+// Схемы валидации: календарь создаётся либо по ссылке на фид, либо из текста ICS
+const calendarCreateSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    url: z.string().min(1).max(2000).optional(),
+    ics: z.string().min(1).optional(),
+  })
+  .strict()
+  .refine((v) => (v.url !== undefined) !== (v.ics !== undefined), {
+    message: 'Provide either url or ics',
+    path: ['url'],
+  });
+
+const calendarSyncSchema = z.object({
+  ics: z.string().min(1).optional(),
+}).strict();
+
+export const calendarsRouter = express.Router();
+
+// В тестовой среде разрешаем аноним и подставляем X-Test-Uid контекстом в app
+calendarsRouter.use(
+  authenticateToken({ allowAnonymous: process.env.NODE_ENV === 'test' })
+);
+
+function validateBody(schema: 'createCalendar' | 'syncCalendar') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (schema === 'createCalendar') calendarCreateSchema.parse(req.body ?? {});
+      else calendarSyncSchema.parse(req.body ?? {});
+      next();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Validation error';
+      return sendError(res, { code: 'invalid_argument', message });
+    }
+  };
+}
+
+// Календарь без служебных полей
+function toCalendarResponse(data: Calendar) {
+  return {
+    id: data.id,
+    name: data.name,
+    source: data.source,
+    url: data.url ?? null,
+    eventsCount: data.eventsCount ?? 0,
+    lastSyncedAt: data.lastSyncedAt ?? null,
+    lastSyncError: data.lastSyncError ?? null,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  };
+}
+
+async function loadOwnedCalendar(
+  id: string,
+  uid: string
+): Promise<{ calendar: Calendar } | { error: { code: string; message: string } }> {
+  const snap = await db.collection('calendars').doc(id).get();
+  if (!snap.exists) return { error: { code: 'not_found', message: 'Calendar not found' } };
+  const calendar = { ...(snap.data() as Calendar), id: snap.id };
+  if (calendar.ownerId !== uid) return { error: { code: 'permission_denied', message: 'Access denied' } };
+  return { calendar };
+}
+
+// GET /v1/calendars — календари текущего пользователя
+calendarsRouter.get('/calendars', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const snap = await db.collection('calendars').where('ownerId', '==', uid).get();
+    return res.status(200).json({ items: snap.docs.map((d) => toCalendarResponse({ ...(d.data() as Calendar), id: d.id })) });
+  } catch (error) {
+    logger.error('Calendars list failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/calendars — подключить ICS-фид или загрузить ICS (квота max_calendars_per_user)
+calendarsRouter.post('/calendars', validateBody('createCalendar'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  const body = req.body as z.infer<typeof calendarCreateSchema>;
+  try {
+    // Фид загружается и разбирается до создания календаря, чтобы не сохранять нерабочие ссылки
+    const url = body.url !== undefined ? normalizeFeedUrl(body.url) : undefined;
+    const ics = url ? await fetchIcsFeed(url) : (body.ics as string);
+    parseCalendarEvents(ics, url ? 'url' : 'upload', undefined, new Date());
+
+    const ref = db.collection('calendars').doc();
+    const now = FieldValue.serverTimestamp();
+    const calendar = {
+      id: ref.id,
+      ownerId: uid,
+      name: body.name,
+      source: url ? 'url' as const : 'upload' as const,
+      ...(url ? { url } : {}),
+      eventsCount: 0,
+      lastSyncedAt: null,
+      lastSyncError: null,
+    };
+    await runWithinQuota('calendars', uid, (tx) => {
+      tx.set(ref, { ...calendar, createdAt: now, updatedAt: now });
+    });
+    await syncCalendar(calendar, ics);
+
+    const fresh = await ref.get();
+    return res.status(201).json({ calendar: toCalendarResponse(fresh.data() as Calendar) });
+  } catch (error) {
+    if (error instanceof QuotaExceededError || error instanceof CalendarSyncError) {
+      return sendError(res, error.toApiError());
+    }
+    logger.error('Calendar create failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/calendars/:id/sync — пересинхронизировать фид или заменить загруженный ICS
+calendarsRouter.post('/calendars/:id/sync', validateBody('syncCalendar'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedCalendar(req.params.id, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    const { ics } = req.body as z.infer<typeof calendarSyncSchema>;
+    if (loaded.calendar.source === 'url' && ics !== undefined) {
+      return sendError(res, { code: 'invalid_argument', message: 'Feed calendars are synced from their URL' });
+    }
+
+    await syncCalendar(loaded.calendar, ics);
+    const fresh = await db.collection('calendars').doc(req.params.id).get();
+    return res.status(200).json({ calendar: toCalendarResponse({ ...(fresh.data() as Calendar), id: fresh.id }) });
+  } catch (error) {
+    if (error instanceof CalendarSyncError) {
+      return sendError(res, error.toApiError());
+    }
+    logger.error('Calendar sync failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// GET /v1/calendars/:id/events — ближайшие события календаря
+calendarsRouter.get('/calendars/:id/events', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedCalendar(req.params.id, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+    const snap = await db
+      .collection('calendarEvents')
+      .where('calendarId', '==', req.params.id)
+      .where('endAt', '>=', new Date())
+      .orderBy('endAt', 'asc')
+      .limit(limit)
+      .get();
+    return res.status(200).json({ items: snap.docs.map((d) => d.data()) });
+  } catch (error) {
+    logger.error('Calendar events list failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// DELETE /v1/calendars/:id — удалить календарь вместе с событиями
+calendarsRouter.delete('/calendars/:id', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedCalendar(req.params.id, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    await db.collection('calendars').doc(req.params.id).delete();
+    await deleteCalendarEvents(req.params.id);
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    logger.error('Calendar delete failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+export default calendarsRouter;
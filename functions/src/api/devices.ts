@@ -6,6 +6,8 @@ import { db } from '../core/firebase';
 import { z } from 'zod';
 import * as logger from 'firebase-functions/logger';
 import crypto from 'crypto';
+import { QuotaExceededError, runWithinQuota } from '../core/quotas';
+import { processDeviceGesture } from '../core/gestures';
 
 // Схемы валидации
 const claimSchema = z.object({
@@ -35,6 +37,13 @@ const updateSchema = z
   })
   .strict();
 
+// eventId — клиентский ID события жеста, используется как ID документа (ключ идемпотентности)
+const gestureSchema = z.object({
+  eventId: z.string().regex(/^[A-Za-z0-9_-]{1,128}$/, 'eventId must match [A-Za-z0-9_-]{1,128}'),
+  gesture: z.enum(['single_tap', 'double_tap', 'long_press']),
+  occurredAt: z.string().datetime().optional(),
+}).strict();
+
 export const devicesRouter = express.Router();
 
 // В тестовой среде разрешаем аноним и подставляем X-Test-Uid контекстом в app
@@ -42,10 +51,11 @@ devicesRouter.use(
   authenticateToken({ allowAnonymous: process.env.NODE_ENV === 'test' })
 );
 
-function validateBody(schema: 'claim' | 'update') {
+function validateBody(schema: 'claim' | 'update' | 'gesture') {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
       if (schema === 'claim') claimSchema.parse(req.body ?? {});
+      else if (schema === 'gesture') gestureSchema.parse(req.body ?? {});
       else updateSchema.parse(req.body ?? {});
       next();
     } catch (err) {
@@ -107,15 +117,20 @@ devicesRouter.post('/devices.claim', validateBody('claim'), async (req: Request,
         return sendError(res, { code: 'permission_denied', message: 'Device already claimed by another user' });
       }
 
-      await doc.ref.set(
-        omitUndefined({
-          ownerId: uid,
-          name: name ?? (data['name'] as string | undefined) ?? 'My Amulet',
-          pairedAt: now,
-          updatedAt: now,
-        }),
-        { merge: true }
-      );
+      const claimData = omitUndefined({
+        ownerId: uid,
+        name: name ?? (data['name'] as string | undefined) ?? 'My Amulet',
+        pairedAt: now,
+        updatedAt: now,
+      });
+      if (ownerId === uid) {
+        await doc.ref.set(claimData, { merge: true });
+      } else {
+        // Новое для пользователя устройство учитывается в квоте max_devices_per_user
+        await runWithinQuota('devices', uid, (tx) => {
+          tx.set(doc.ref, claimData, { merge: true });
+        });
+      }
       // Маркируем токен использованным (и можем удалить)
       await tokenDocRef.set({ used: true, usedAt: now }, { merge: true });
       await tokenDocRef.delete().catch(() => undefined);
@@ -125,8 +140,8 @@ devicesRouter.post('/devices.claim', validateBody('claim'), async (req: Request,
 
     // Устройство не найдено — создаём запись (MVP путь). В проде — предварительная регистрация устройств.
     const docRef = db.collection('devices').doc();
-    await docRef.set(
-      omitUndefined({
+    await runWithinQuota('devices', uid, (tx) => {
+      tx.set(docRef, omitUndefined({
         id: docRef.id,
         ownerId: uid,
         serial,
@@ -139,14 +154,17 @@ devicesRouter.post('/devices.claim', validateBody('claim'), async (req: Request,
         settings: { brightness: 50, haptics: 50, gestures: {} },
         createdAt: now,
         updatedAt: now,
-      })
-    );
+      }));
+    });
     // Маркируем токен использованным и удаляем
     await tokenDocRef.set({ used: true, usedAt: now }, { merge: true });
     await tokenDocRef.delete().catch(() => undefined);
     const fresh = await docRef.get();
     return res.status(200).json({ device: fresh.data() });
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, error.toApiError());
+    }
     logger.error('Device claim failed', {
       uid,
       serial,
@@ -269,6 +287,44 @@ devicesRouter.post('/devices/:id/unclaim', async (req: Request, res: Response) =
   }
 });
 
+// POST /v1/devices/:id/gestures — событие жеста: практика из settings.gestures и правила device_gesture
+devicesRouter.post('/devices/:id/gestures', validateBody('gesture'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  const { eventId, gesture, occurredAt } = req.body as z.infer<typeof gestureSchema>;
+  try {
+    const ref = db.collection('devices').doc(req.params.id);
+    const snap = await ref.get();
+    if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Device not found' });
+    const data = snap.data() as Record<string, unknown>;
+    if ((data['ownerId'] as string | undefined) !== uid) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+
+    const settings = data['settings'] as { gestures?: Record<string, string> } | undefined;
+    const result = await processDeviceGesture({
+      ownerId: uid,
+      deviceId: req.params.id,
+      eventId,
+      gesture,
+      occurredAt: occurredAt ? new Date(occurredAt) : new Date(),
+      gestures: settings?.gestures,
+    });
+    return res.status(result.duplicate ? 200 : 201).json(result);
+  } catch (error) {
+    logger.error('Device gesture failed', {
+      uid,
+      id: req.params.id,
+      eventId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
 export default devicesRouter;
 
 
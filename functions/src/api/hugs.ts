@@ -1,11 +1,10 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { authenticateToken } from '../core/auth';
 import { sendError } from '../core/http';
-import { FieldValue } from 'firebase-admin/firestore';
 import { db } from '../core/firebase';
 import { z } from 'zod';
 import * as logger from 'firebase-functions/logger';
-import { getHugsCooldownMs } from '../core/remoteConfig';
+import { sendHug } from '../core/hugs';
 
 // Валидация входа для /hugs.send
 const hugSendSchema = z
@@ -64,31 +63,7 @@ hugsRouter.post('/hugs.send', validateBody('send'), async (req: Request, res: Re
   }
 
   try {
-    // Проверяем кулдаун между отправкой объятий
-    const cooldownMs = await getHugsCooldownMs();
-    const currentTime = Date.now();
-    const lastHugQuery = await db
-      .collection('hugs')
-      .where('fromUserId', '==', fromUserId)
-      .orderBy('createdAt', 'desc')
-      .limit(1)
-      .get();
-
-    if (!lastHugQuery.empty) {
-      const lastHug = lastHugQuery.docs[0].data();
-      const lastHugTime = lastHug.createdAt?.toMillis?.() || 0;
-      const timeSinceLastHug = currentTime - lastHugTime;
-      
-      if (timeSinceLastHug < cooldownMs) {
-        const remainingCooldown = Math.ceil((cooldownMs - timeSinceLastHug) / 1000);
-        return sendError(res, {
-          code: 'resource_exhausted',
-          message: `Please wait ${remainingCooldown} seconds before sending another hug`,
-          details: { retryAfter: remainingCooldown }
-        });
-      }
-    }
-    const { toUserId: toUserIdRaw, pairId: pairIdRaw, emotion, payload, inReplyToHugId } = req.body as {
+    const { toUserId, pairId, emotion, payload, inReplyToHugId } = req.body as {
       toUserId?: string;
       pairId?: string;
       emotion: { color: string; patternId: string };
@@ -96,93 +71,22 @@ hugsRouter.post('/hugs.send', validateBody('send'), async (req: Request, res: Re
       inReplyToHugId?: string;
     };
 
-    // Транзакция: проверяем пару и создаём документ «объятия» атомарно
-    const now = FieldValue.serverTimestamp();
-    const hugDocRef = db.collection('hugs').doc();
-    const trxResult = await db.runTransaction(async (tx) => {
-      let computedToUserId = toUserIdRaw;
-      if (pairIdRaw) {
-        const pairRef = db.collection('pairs').doc(pairIdRaw);
-        const pairSnap = await tx.get(pairRef);
-        if (!pairSnap.exists) {
-          return { error: { code: 'not_found', message: 'Pair not found' } } as const;
-        }
-        const pair = pairSnap.data() as { memberIds?: string[]; status?: string };
-        const members = Array.isArray(pair.memberIds) ? pair.memberIds : [];
-        if (!members.includes(fromUserId)) {
-          return { error: { code: 'permission_denied', message: 'You are not a member of this pair' } } as const;
-        }
-        if (pair.status === 'blocked') {
-          return { error: { code: 'failed_precondition', message: 'Pair is blocked' } } as const;
-        }
-        computedToUserId = members.find((m) => m !== fromUserId);
-        if (!computedToUserId) {
-          return { error: { code: 'invalid_argument', message: 'Invalid pair members' } } as const;
-        }
-      }
-
-      if (!computedToUserId) {
-        return { error: { code: 'invalid_argument', message: 'Recipient is required' } } as const;
-      }
-
-      // Запрет на отправку самому себе
-      if (computedToUserId === fromUserId) {
-        return { error: { code: 'failed_precondition', message: 'Cannot send hug to yourself' } } as const;
-      }
-
-      const docData = {
-        id: hugDocRef.id,
-        fromUserId,
-        toUserId: computedToUserId,
-        pairId: pairIdRaw || null,
-        emotion,
-        payload: payload ?? null,
-        inReplyToHugId: inReplyToHugId ?? null,
-        createdAt: now,
-        updatedAt: now,
-      } as unknown as Record<string, unknown>;
-      tx.set(hugDocRef, docData);
-      return { toUserId: computedToUserId } as const;
+    const result = await sendHug({
+      fromUserId,
+      toUserId,
+      pairId,
+      emotion,
+      payload,
+      inReplyToHugId,
+      language: req.headers['accept-language'] as string,
+      requestId: req.headers['x-request-id'] as string,
     });
 
-    if ('error' in trxResult) {
-      const { code, message } = (trxResult as { error: { code: string; message: string } }).error;
-      return sendError(res, { code, message });
-    }
-
-    const resolvedToUserId = (trxResult as { toUserId: string }).toUserId;
-
-    // Отправляем FCM пуш всем активным токенам получателя
-    let delivered = false;
-    try {
-      const { sendNotification } = await import('../core/pushNotifications');
-      const result = await sendNotification(
-        resolvedToUserId,
-        'hug.received',
-        {
-          type: 'hug.received',
-          hugId: hugDocRef.id,
-          fromUserId,
-          color: emotion.color,
-          patternId: emotion.patternId,
-        },
-        req.headers['accept-language'] as string
-      );
-      delivered = result.delivered;
-    } catch (err) {
-      logger.error('Failed to send FCM for hug', {
-        hugId: hugDocRef.id,
-        error: err instanceof Error ? err.message : String(err),
-        requestId: req.headers['x-request-id'],
-      });
-    }
-
-    // Если доставили — обновляем deliveredAt
-    if (delivered) {
-      await hugDocRef.set({ deliveredAt: now }, { merge: true });
+    if ('error' in result) {
+      return sendError(res, result.error);
     }
 
-    return res.status(200).json({ hugId: hugDocRef.id, delivered });
+    return res.status(200).json({ hugId: result.hugId, delivered: result.delivered });
   } catch (error) {
     logger.error('Hug send failed', {
       fromUserId,
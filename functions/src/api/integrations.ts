@@ -0,0 +1,372 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../core/auth';
+import { ApiError, sendError } from '../core/http';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../core/firebase';
+import { z } from 'zod';
+import * as logger from 'firebase-functions/logger';
+import crypto from 'crypto';
+import { QuotaExceededError, runWithinQuota } from '../core/quotas';
+import { getWebhookSecretGraceHours } from '../core/remoteConfig';
+import { Webhook, WebhookEvent } from '../types/firestore';
+
+// Схемы валидации
+const integrationCreateSchema = z.object({
+  name: z.string().min(1).max(200),
+  allowedOrigins: z.array(z.string().url().max(2000)).max(20).optional(),
+  legacySignatureEnabled: z.boolean().optional(),
+}).strict();
+
+const integrationRotateSchema = z.object({
+  graceHours: z.number().int().min(1).max(168).optional(),
+}).strict();
+
+const integrationUpdateSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  allowedOrigins: z.array(z.string().url().max(2000)).max(20).optional(),
+  isActive: z.boolean().optional(),
+  legacySignatureEnabled: z.boolean().optional(),
+}).strict();
+
+export const integrationsRouter = express.Router();
+
+// В тестовой среде разрешаем аноним и подставляем X-Test-Uid контекстом в app
+integrationsRouter.use(
+  authenticateToken({ allowAnonymous: process.env.NODE_ENV === 'test' })
+);
+
+function validateBody(schema: 'createIntegration' | 'updateIntegration' | 'rotateSecret') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (schema === 'createIntegration') integrationCreateSchema.parse(req.body ?? {});
+      else if (schema === 'rotateSecret') integrationRotateSchema.parse(req.body ?? {});
+      else integrationUpdateSchema.parse(req.body ?? {});
+      next();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Validation error';
+      return sendError(res, { code: 'invalid_argument', message });
+    }
+  };
+}
+
+// Ключ и секрет генерирует сервер; секрет возвращается только при создании и ротации
+function generateIntegrationKey(): string {
+  return `int_${crypto.randomBytes(16).toString('hex')}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+// Интеграция без секрета
+function toIntegrationResponse(data: Webhook) {
+  return {
+    integrationKey: data.integrationKey,
+    name: data.name ?? null,
+    isActive: data.isActive,
+    allowedOrigins: data.allowedOrigins ?? [],
+    legacySignatureEnabled: data.legacySignatureEnabled !== false,
+    usageCount: data.usageCount ?? 0,
+    lastUsedAt: data.lastUsedAt ?? null,
+    secretVersion: data.secretVersion ?? 1,
+    lastSecretVersion: data.lastSecretVersion ?? null,
+    usageBySecretVersion: data.usageBySecretVersion ?? {},
+    rotation: data.previousSecret ?
+      { previousSecretVersion: data.previousSecretVersion ?? 1, previousSecretExpiresAt: data.previousSecretExpiresAt ?? null } :
+      null,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  };
+}
+
+function expiresAtMillis(value: Webhook['previousSecretExpiresAt'] | Date): number {
+  if (!value) return 0;
+  return value instanceof Date ? value.getTime() : value.seconds * 1000 + Math.floor(value.nanoseconds / 1e6);
+}
+
+async function loadOwnedIntegration(
+  integrationKey: string,
+  uid: string,
+  read: (ref: FirebaseFirestore.DocumentReference) => Promise<FirebaseFirestore.DocumentSnapshot> = (ref) => ref.get()
+): Promise<{ ref: FirebaseFirestore.DocumentReference; integration: Webhook } | { error: ApiError }> {
+  const ref = db.collection('webhooks').doc(integrationKey);
+  const snap = await read(ref);
+  if (!snap.exists) return { error: { code: 'not_found', message: 'Integration not found' } };
+  const integration = snap.data() as Webhook;
+  if (integration.ownerId !== uid) return { error: { code: 'permission_denied', message: 'Access denied' } };
+  return { ref, integration };
+}
+
+// GET /v1/integrations — интеграции текущего пользователя со статистикой использования
+integrationsRouter.get('/integrations', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const snap = await db.collection('webhooks').where('ownerId', '==', uid).get();
+    return res.status(200).json({ items: snap.docs.map((d) => toIntegrationResponse(d.data() as Webhook)) });
+  } catch (error) {
+    logger.error('Integrations list failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/integrations — создать интеграцию (квота max_integrations_per_user), секрет показывается один раз
+integrationsRouter.post('/integrations', validateBody('createIntegration'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const body = req.body as z.infer<typeof integrationCreateSchema>;
+    const integrationKey = generateIntegrationKey();
+    const secret = generateSecret();
+    const ref = db.collection('webhooks').doc(integrationKey);
+    const now = FieldValue.serverTimestamp();
+    await runWithinQuota('integrations', uid, (tx) => {
+      tx.set(ref, {
+        integrationKey,
+        ownerId: uid,
+        name: body.name,
+        secret,
+        secretVersion: 1,
+        isActive: true,
+        usageCount: 0,
+        allowedOrigins: body.allowedOrigins ?? [],
+        // Новые интеграции по умолчанию принимают только подпись v2
+        legacySignatureEnabled: body.legacySignatureEnabled ?? false,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+    const fresh = await ref.get();
+    logger.info('Integration created', { uid, integrationKey });
+    return res.status(201).json({ integration: { ...toIntegrationResponse(fresh.data() as Webhook), secret } });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, error.toApiError());
+    }
+    logger.error('Integration create failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// PATCH /v1/integrations/:integrationKey — переименовать, изменить origins, (де)активировать, разрешить/запретить подпись v1
+integrationsRouter.patch('/integrations/:integrationKey', validateBody('updateIntegration'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedIntegration(req.params.integrationKey, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    await loaded.ref.set({ ...(req.body as Record<string, unknown>), updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+    const fresh = await loaded.ref.get();
+    return res.status(200).json({ integration: toIntegrationResponse(fresh.data() as Webhook) });
+  } catch (error) {
+    logger.error('Integration update failed', {
+      uid,
+      integrationKey: req.params.integrationKey,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/integrations/:integrationKey/rotate — начать ротацию: выпустить новый секрет,
+// предыдущий принимается ещё graceHours (по умолчанию webhook_secret_grace_hours)
+integrationsRouter.post('/integrations/:integrationKey/rotate', validateBody('rotateSecret'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const { graceHours } = req.body as z.infer<typeof integrationRotateSchema>;
+    const graceMs = (graceHours ?? await getWebhookSecretGraceHours()) * 60 * 60 * 1000;
+    // Проверка и запись в одной транзакции: параллельные ротации не затрут предыдущий секрет друг друга
+    const rotated = await db.runTransaction(async (tx) => {
+      const loaded = await loadOwnedIntegration(req.params.integrationKey, uid, (ref) => tx.get(ref));
+      if ('error' in loaded) return loaded;
+      const { integration } = loaded;
+      if (integration.previousSecret && expiresAtMillis(integration.previousSecretExpiresAt) > Date.now()) {
+        return {
+          error: {
+            code: 'failed_precondition',
+            message: 'Secret rotation already in progress',
+            details: { previousSecretVersion: integration.previousSecretVersion ?? 1 },
+          },
+        };
+      }
+      const secret = generateSecret();
+      const secretVersion = (integration.secretVersion ?? 1) + 1;
+      tx.set(loaded.ref, {
+        secret,
+        secretVersion,
+        previousSecret: integration.secret,
+        previousSecretVersion: secretVersion - 1,
+        previousSecretExpiresAt: new Date(Date.now() + graceMs),
+        secretRotatedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      }, { merge: true });
+      return { ref: loaded.ref, secret, secretVersion };
+    });
+    if ('error' in rotated) return sendError(res, rotated.error);
+    const fresh = await rotated.ref.get();
+    logger.info('Integration secret rotation started', {
+      uid,
+      integrationKey: req.params.integrationKey,
+      secretVersion: rotated.secretVersion,
+    });
+    return res.status(200).json({ integration: { ...toIntegrationResponse(fresh.data() as Webhook), secret: rotated.secret } });
+  } catch (error) {
+    logger.error('Integration secret rotation failed', {
+      uid,
+      integrationKey: req.params.integrationKey,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/integrations/:integrationKey/rotate/complete — завершить ротацию досрочно: предыдущий секрет больше не принимается
+integrationsRouter.post('/integrations/:integrationKey/rotate/complete', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedIntegration(req.params.integrationKey, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    if (!loaded.integration.previousSecret) {
+      return sendError(res, { code: 'failed_precondition', message: 'No secret rotation in progress' });
+    }
+    await loaded.ref.set({
+      previousSecret: null,
+      previousSecretVersion: null,
+      previousSecretExpiresAt: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    const fresh = await loaded.ref.get();
+    logger.info('Integration secret rotation completed', { uid, integrationKey: req.params.integrationKey });
+    return res.status(200).json({ integration: toIntegrationResponse(fresh.data() as Webhook) });
+  } catch (error) {
+    logger.error('Integration secret rotation completion failed', {
+      uid,
+      integrationKey: req.params.integrationKey,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+const WEBHOOK_EVENT_STATUSES: WebhookEvent['status'][] = ['queued', 'processing', 'processed', 'failed'];
+
+function toWebhookEventResponse(data: WebhookEvent) {
+  return {
+    id: data.id,
+    integrationKey: data.integrationKey,
+    status: data.status,
+    payload: data.payload,
+    signatureScheme: data.signatureScheme,
+    secretVersion: data.secretVersion,
+    ruleRuns: data.ruleRuns ?? [],
+    error: data.error ?? null,
+    receivedAt: data.receivedAt,
+    processedAt: data.processedAt ?? null,
+  };
+}
+
+// GET /v1/integrations/:integrationKey/events — входящие события и их обработка, новые первыми
+integrationsRouter.get('/integrations/:integrationKey/events', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  const status = req.query.status as WebhookEvent['status'] | undefined;
+  if (status !== undefined && !WEBHOOK_EVENT_STATUSES.includes(status)) {
+    return sendError(res, { code: 'invalid_argument', message: `status must be one of: ${WEBHOOK_EVENT_STATUSES.join(', ')}` });
+  }
+  try {
+    const loaded = await loadOwnedIntegration(req.params.integrationKey, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    let limit = Number.parseInt((req.query.limit as string) || '50', 10);
+    if (!Number.isFinite(limit) || limit <= 0) limit = 50;
+    limit = Math.min(100, limit);
+    let query = db.collection('webhookEvents').where('integrationKey', '==', req.params.integrationKey);
+    if (status) query = query.where('status', '==', status);
+    const snap = await query.orderBy('receivedAt', 'desc').limit(limit).get();
+    return res.status(200).json({ items: snap.docs.map((d) => toWebhookEventResponse(d.data() as WebhookEvent)) });
+  } catch (error) {
+    logger.error('Integration events list failed', {
+      uid,
+      integrationKey: req.params.integrationKey,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// GET /v1/integrations/:integrationKey/events/:eventId — статус обработки одного события
+integrationsRouter.get('/integrations/:integrationKey/events/:eventId', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedIntegration(req.params.integrationKey, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    const snap = await db.collection('webhookEvents').doc(req.params.eventId).get();
+    const event = snap.data() as WebhookEvent | undefined;
+    if (!snap.exists || event?.integrationKey !== req.params.integrationKey) {
+      return sendError(res, { code: 'not_found', message: 'Webhook event not found' });
+    }
+    return res.status(200).json({ event: toWebhookEventResponse(event) });
+  } catch (error) {
+    logger.error('Integration event fetch failed', {
+      uid,
+      integrationKey: req.params.integrationKey,
+      eventId: req.params.eventId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// DELETE /v1/integrations/:integrationKey — удалить интеграцию (входящие вебхуки по ключу перестают приниматься)
+integrationsRouter.delete('/integrations/:integrationKey', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedIntegration(req.params.integrationKey, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    await loaded.ref.delete();
+    logger.info('Integration deleted', { uid, integrationKey: req.params.integrationKey });
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    logger.error('Integration delete failed', {
+      uid,
+      integrationKey: req.params.integrationKey,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+export default integrationsRouter;
@@ -0,0 +1,203 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../core/auth';
+import { sendError } from '../core/http';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../core/firebase';
+import { z } from 'zod';
+import * as logger from 'firebase-functions/logger';
+import { QuotaExceededError, runWithinQuota } from '../core/quotas';
+import { geofenceStateId, processLocationReport } from '../core/geofences';
+
+// Схемы валидации
+const geofenceCreateSchema = z.object({
+  name: z.string().min(1).max(200),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  radiusM: z.number().min(50).max(50000),
+}).strict();
+
+const geofenceUpdateSchema = geofenceCreateSchema.partial().strict();
+
+// Событие enter/exit: либо координаты (lat/lng/accuracy), либо geofenceId, определённый телефоном
+const locationEventSchema = z
+  .object({
+    event: z.enum(['enter', 'exit']),
+    geofenceId: z.string().min(1).max(200).optional(),
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+    accuracy: z.number().min(0).max(100000).optional(),
+    occurredAt: z.string().datetime().optional(),
+  })
+  .strict()
+  .refine((v) => (v.geofenceId !== undefined) !== (v.lat !== undefined && v.lng !== undefined), {
+    message: 'Provide either geofenceId or lat and lng',
+    path: ['geofenceId'],
+  });
+
+export const locationRouter = express.Router();
+
+// В тестовой среде разрешаем аноним и подставляем X-Test-Uid контекстом в app
+locationRouter.use(
+  authenticateToken({ allowAnonymous: process.env.NODE_ENV === 'test' })
+);
+
+function validateBody(schema: 'createGeofence' | 'updateGeofence' | 'locationEvent') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (schema === 'createGeofence') geofenceCreateSchema.parse(req.body ?? {});
+      else if (schema === 'updateGeofence') geofenceUpdateSchema.parse(req.body ?? {});
+      else locationEventSchema.parse(req.body ?? {});
+      next();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Validation error';
+      return sendError(res, { code: 'invalid_argument', message });
+    }
+  };
+}
+
+// GET /v1/geofences — геозоны текущего пользователя
+locationRouter.get('/geofences', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const snap = await db.collection('geofences').where('ownerId', '==', uid).get();
+    return res.status(200).json({ items: snap.docs.map((d) => d.data()) });
+  } catch (error) {
+    logger.error('Geofences list failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/geofences — создать геозону (квота max_geofences_per_user)
+locationRouter.post('/geofences', validateBody('createGeofence'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const ref = db.collection('geofences').doc();
+    const body = req.body as z.infer<typeof geofenceCreateSchema>;
+    const now = FieldValue.serverTimestamp();
+    await runWithinQuota('geofences', uid, (tx) => {
+      tx.set(ref, { id: ref.id, ownerId: uid, ...body, createdAt: now, updatedAt: now });
+    });
+    const fresh = await ref.get();
+    return res.status(201).json({ geofence: fresh.data() });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, error.toApiError());
+    }
+    logger.error('Geofence create failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// PATCH /v1/geofences/:id — обновить геозону
+locationRouter.patch('/geofences/:id', validateBody('updateGeofence'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const ref = db.collection('geofences').doc(req.params.id);
+    const snap = await ref.get();
+    if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Geofence not found' });
+    if ((snap.data() as { ownerId?: string }).ownerId !== uid) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+    await ref.set({ ...(req.body as Record<string, unknown>), updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+    const fresh = await ref.get();
+    return res.status(200).json({ geofence: fresh.data() });
+  } catch (error) {
+    logger.error('Geofence update failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// DELETE /v1/geofences/:id — удалить геозону вместе с её состоянием
+locationRouter.delete('/geofences/:id', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const ref = db.collection('geofences').doc(req.params.id);
+    const snap = await ref.get();
+    if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Geofence not found' });
+    if ((snap.data() as { ownerId?: string }).ownerId !== uid) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+    const batch = db.batch();
+    batch.delete(ref);
+    batch.delete(db.collection('geofenceStates').doc(geofenceStateId(uid, req.params.id)));
+    await batch.commit();
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    logger.error('Geofence delete failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/location/events — вход/выход из геозоны; требует согласия consents.location
+locationRouter.post('/location/events', validateBody('locationEvent'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  const body = req.body as z.infer<typeof locationEventSchema>;
+  try {
+    const userSnap = await db.collection('users').doc(uid).get();
+    const consents = (userSnap.data() as { consents?: Record<string, unknown> } | undefined)?.consents;
+    if (consents?.location !== true) {
+      return sendError(res, {
+        code: 'permission_denied',
+        message: 'Location consent required',
+        details: { consent: 'location' },
+      });
+    }
+
+    const result = await processLocationReport({
+      ownerId: uid,
+      event: body.event,
+      geofenceId: body.geofenceId,
+      lat: body.lat,
+      lng: body.lng,
+      accuracy: body.accuracy,
+      occurredAt: body.occurredAt ? new Date(body.occurredAt) : new Date(),
+    });
+    if ('error' in result) {
+      return sendError(res, result.error);
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    logger.error('Location event failed', {
+      uid,
+      event: body.event,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+export default locationRouter;
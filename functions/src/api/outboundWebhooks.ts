@@ -0,0 +1,230 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../core/auth';
+import { sendError } from '../core/http';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../core/firebase';
+import { z } from 'zod';
+import * as logger from 'firebase-functions/logger';
+import crypto from 'crypto';
+import { QuotaExceededError, runWithinQuota } from '../core/quotas';
+import { OUTBOUND_EVENT_TYPES } from '../core/outboundWebhooks';
+import { isPublicHttpsUrl } from '../core/publicHttps';
+import { OutboundEventType, OutboundWebhook } from '../types/firestore';
+
+// Схемы валидации
+const urlSchema = z.string().url().max(2000).refine(isPublicHttpsUrl, 'URL must be a public https address');
+const eventTypesSchema = z
+  .array(z.enum(OUTBOUND_EVENT_TYPES as [OutboundEventType, ...OutboundEventType[]]))
+  .min(1)
+  .max(OUTBOUND_EVENT_TYPES.length);
+
+const outboundWebhookCreateSchema = z.object({
+  url: urlSchema,
+  eventTypes: eventTypesSchema,
+  description: z.string().max(500).optional(),
+}).strict();
+
+const outboundWebhookUpdateSchema = z.object({
+  url: urlSchema.optional(),
+  eventTypes: eventTypesSchema.optional(),
+  description: z.string().max(500).nullable().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const outboundWebhooksRouter = express.Router();
+
+// В тестовой среде разрешаем аноним и подставляем X-Test-Uid контекстом в app
+outboundWebhooksRouter.use(
+  authenticateToken({ allowAnonymous: process.env.NODE_ENV === 'test' })
+);
+
+function validateBody(schema: 'createOutboundWebhook' | 'updateOutboundWebhook') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (schema === 'createOutboundWebhook') outboundWebhookCreateSchema.parse(req.body ?? {});
+      else outboundWebhookUpdateSchema.parse(req.body ?? {});
+      next();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Validation error';
+      return sendError(res, { code: 'invalid_argument', message });
+    }
+  };
+}
+
+// Подписка без секрета
+function toOutboundWebhookResponse(id: string, data: OutboundWebhook) {
+  return {
+    id,
+    url: data.url,
+    description: data.description ?? null,
+    eventTypes: data.eventTypes,
+    isActive: data.isActive,
+    consecutiveFailures: data.consecutiveFailures ?? 0,
+    disabledReason: data.disabledReason ?? null,
+    lastDeliveryAt: data.lastDeliveryAt ?? null,
+    lastDeliveryStatus: data.lastDeliveryStatus ?? null,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  };
+}
+
+async function loadOwnedOutboundWebhook(
+  id: string,
+  uid: string
+): Promise<{ ref: FirebaseFirestore.DocumentReference; subscription: OutboundWebhook } | { error: { code: string; message: string } }> {
+  const ref = db.collection('outboundWebhooks').doc(id);
+  const snap = await ref.get();
+  if (!snap.exists) return { error: { code: 'not_found', message: 'Outbound webhook not found' } };
+  const subscription = snap.data() as OutboundWebhook;
+  if (subscription.ownerId !== uid) return { error: { code: 'permission_denied', message: 'Access denied' } };
+  return { ref, subscription };
+}
+
+// GET /v1/outbound-webhooks — подписки текущего пользователя
+outboundWebhooksRouter.get('/outbound-webhooks', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const snap = await db.collection('outboundWebhooks').where('ownerId', '==', uid).get();
+    return res.status(200).json({
+      items: snap.docs.map((d) => toOutboundWebhookResponse(d.id, d.data() as OutboundWebhook)),
+    });
+  } catch (error) {
+    logger.error('Outbound webhooks list failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/outbound-webhooks — создать подписку (квота max_outbound_webhooks_per_user), секрет показывается один раз
+outboundWebhooksRouter.post('/outbound-webhooks', validateBody('createOutboundWebhook'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const body = req.body as z.infer<typeof outboundWebhookCreateSchema>;
+    const secret = `whsec_${crypto.randomBytes(32).toString('hex')}`;
+    const ref = db.collection('outboundWebhooks').doc();
+    const now = FieldValue.serverTimestamp();
+    await runWithinQuota('outboundWebhooks', uid, (tx) => {
+      tx.set(ref, {
+        id: ref.id,
+        ownerId: uid,
+        url: body.url,
+        description: body.description ?? null,
+        eventTypes: [...new Set(body.eventTypes)],
+        secret,
+        isActive: true,
+        consecutiveFailures: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+    const fresh = await ref.get();
+    logger.info('Outbound webhook created', { uid, id: ref.id });
+    return res.status(201).json({
+      outboundWebhook: { ...toOutboundWebhookResponse(ref.id, fresh.data() as OutboundWebhook), secret },
+    });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, error.toApiError());
+    }
+    logger.error('Outbound webhook create failed', {
+      uid,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// PATCH /v1/outbound-webhooks/:id — изменить URL, события, описание; isActive: true включает
+// подписку после автоотключения и сбрасывает счётчик неудач
+outboundWebhooksRouter.patch('/outbound-webhooks/:id', validateBody('updateOutboundWebhook'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedOutboundWebhook(req.params.id, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    const body = req.body as z.infer<typeof outboundWebhookUpdateSchema>;
+    await loaded.ref.set({
+      ...body,
+      ...(body.eventTypes ? { eventTypes: [...new Set(body.eventTypes)] } : {}),
+      ...(body.isActive === true ? { consecutiveFailures: 0, disabledReason: null, disabledAt: null } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    const fresh = await loaded.ref.get();
+    return res.status(200).json({ outboundWebhook: toOutboundWebhookResponse(req.params.id, fresh.data() as OutboundWebhook) });
+  } catch (error) {
+    logger.error('Outbound webhook update failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// GET /v1/outbound-webhooks/:id/deliveries — журнал попыток доставки, новые первыми
+outboundWebhooksRouter.get('/outbound-webhooks/:id/deliveries', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedOutboundWebhook(req.params.id, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    let limit = Number.parseInt((req.query.limit as string) || '50', 10);
+    if (!Number.isFinite(limit) || limit <= 0) limit = 50;
+    limit = Math.min(100, limit);
+    const snap = await db
+      .collection('webhookDeliveries')
+      .where('subscriptionId', '==', req.params.id)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    return res.status(200).json({ items: snap.docs.map((d) => d.data()) });
+  } catch (error) {
+    logger.error('Outbound webhook deliveries list failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// DELETE /v1/outbound-webhooks/:id — удалить подписку (доставки в очереди будут пропущены)
+outboundWebhooksRouter.delete('/outbound-webhooks/:id', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  }
+  try {
+    const loaded = await loadOwnedOutboundWebhook(req.params.id, uid);
+    if ('error' in loaded) return sendError(res, loaded.error);
+    await loaded.ref.delete();
+    logger.info('Outbound webhook deleted', { uid, id: req.params.id });
+    return res.status(200).json({ ok: true });
+  } catch (error) {
+    logger.error('Outbound webhook delete failed', {
+      uid,
+      id: req.params.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.headers['x-request-id'],
+    });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+export default outboundWebhooksRouter;
@@ -4,9 +4,51 @@ import { sendError } from '../core/http';
 import { db } from '../core/firebase';
 import * as logger from 'firebase-functions/logger';
 import { z } from 'zod';
-import { downLevelPatternSpec, PatternSpec } from '../core/patterns';
+import {
+  BINARY_PATTERN_FORMAT_VERSION,
+  convertPatternSpec,
+  downLevelPatternSpec,
+  encodePatternBinary,
+  PatternApproximation,
+  PatternEncodingError,
+  PatternRenderError,
+  PatternSpec,
+} from '../core/patterns';
+import {
+  DEFAULT_PREVIEW_FPS,
+  DEFAULT_PREVIEW_SIZE,
+  invalidatePatternPreviews,
+  PREVIEW_CONTENT_TYPES,
+  PREVIEW_FORMATS,
+  PreviewFormat,
+  previewCacheKey,
+  readCachedPreview,
+  renderPatternPreview,
+  writeCachedPreview,
+} from '../core/patternPreview';
 import { getMessaging } from 'firebase-admin/messaging';
-import { isPreviewEnabled } from '../core/remoteConfig';
+import { FieldValue } from 'firebase-admin/firestore';
+import { isPatternValidationStrict, isPreviewEnabled } from '../core/remoteConfig';
+import { PatternIssue, validatePatternSemantics } from '../core/patternValidation';
+import {
+  diffPatternRevisions,
+  PATTERN_METADATA_FIELDS,
+  PatternMetadata,
+  patternRevisionsCollection,
+  PatternRevisionState,
+  pickPatternMetadata,
+  stageInitialRevision,
+  stagePatternRevision,
+} from '../core/patternRevisions';
+import { QuotaExceededError, runWithinQuota } from '../core/quotas';
+import {
+  canViewPattern,
+  getPopularityTotals,
+  INITIAL_POPULARITY_FIELDS,
+  recordPatternUsage,
+  setPatternLike,
+  setPatternRating,
+} from '../core/patternPopularity';
 
 export const patternsRouter = express.Router();
 
@@ -19,8 +61,9 @@ patternsRouter.use(
 const elementBase = {
   startTime: z.number().int().min(0),
   duration: z.number().int().min(1),
-  intensity: z.number().min(0).max(1).optional(),
-  speed: z.number().min(0).max(10).optional(),
+  // Точность бинарного формата BLE (core/patterns): intensity — 1/1000, speed — 1/100
+  intensity: z.number().min(0).max(1).multipleOf(0.001).optional(),
+  speed: z.number().min(0).max(10).multipleOf(0.01).optional(),
 };
 
 const elementGradient = z
@@ -104,13 +147,20 @@ const patternCreateSchema = z
     description: z.string().min(1).max(2000).optional(),
     tags: z.array(z.string().min(1).max(50)).max(20).optional(),
     public: z.boolean().optional(),
+    allowForks: z.boolean().optional(),
     hardwareVersion: z.union([z.literal(100), z.literal(200)]),
   })
   .strict();
 
+const patternForkSchema = z
+  .object({
+    title: z.string().min(1).max(200).optional(),
+  })
+  .strict();
+
 const patternUpdateSchema = patternCreateSchema.partial();
 
-function validateBody(schema: 'create' | 'update' | 'share' | 'preview') {
+function validateBody(schema: 'create' | 'update' | 'share' | 'preview' | 'fork' | 'rating') {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
       if (schema === 'create') {
@@ -122,9 +172,19 @@ function validateBody(schema: 'create' | 'update' | 'share' | 'preview') {
           .object({ toUserId: z.string().optional(), pairId: z.string().optional() })
           .refine((v) => Boolean(v.toUserId || v.pairId), 'toUserId or pairId must be provided')
           .parse(req.body ?? {});
+      } else if (schema === 'fork') {
+        patternForkSchema.parse(req.body ?? {});
+      } else if (schema === 'rating') {
+        z.object({ rating: z.number().int().min(1).max(5) }).strict().parse(req.body ?? {});
       } else if (schema === 'preview') {
         z
-          .object({ deviceId: z.string(), spec: patternSpecSchema, duration: z.number().int().min(1).max(600000).optional() })
+          .object({
+            deviceId: z.string(),
+            spec: patternSpecSchema,
+            duration: z.number().int().min(1).max(600000).optional(),
+            upLevel: z.boolean().optional(),
+            patternId: z.string().min(1).optional(),
+          })
           .strict()
           .parse(req.body ?? {});
       }
@@ -156,32 +216,64 @@ function omitUndefined<T extends Record<string, unknown>>(obj: T): Partial<T> {
   return out;
 }
 
+// Семантическая проверка spec: при pattern_validation_strict ошибки отклоняют запрос (отправляет 400 и возвращает null),
+// иначе возвращаются вместе с предупреждениями в поле warnings ответа
+async function checkPatternSemantics(
+  res: Response,
+  spec: PatternSpec,
+  hardwareVersion?: 100 | 200
+): Promise<PatternIssue[] | null> {
+  const { errors, warnings } = validatePatternSemantics(spec, { hardwareVersion });
+  if (errors.length === 0) return warnings;
+  if (await isPatternValidationStrict()) {
+    sendError(res, { code: 'invalid_argument', message: 'Pattern validation failed', details: { errors, warnings } });
+    return null;
+  }
+  logger.warn('Pattern accepted with validation errors (non-strict mode)', { codes: errors.map((e) => e.code) });
+  return [...errors, ...warnings];
+}
+
 // POST /v1/patterns — создать пользовательский паттерн
 patternsRouter.post('/patterns', validateBody('create'), async (req: Request, res: Response) => {
   const uid = req.auth?.user.uid;
   if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
   try {
+    const body = req.body as Record<string, unknown>;
+    const warnings = await checkPatternSemantics(res, body['spec'] as PatternSpec, body['hardwareVersion'] as 100 | 200);
+    if (!warnings) return;
     const now = new Date();
     const ref = db.collection('patterns').doc();
-    const body = req.body as Record<string, unknown>;
     const doc = omitUndefined({
       id: ref.id,
       ownerId: uid,
       kind: body['kind'],
       spec: body['spec'],
       public: Boolean(body['public'] ?? false),
+      allowForks: body['allowForks'],
       reviewStatus: 'pending',
       hardwareVersion: body['hardwareVersion'],
       title: body['title'] ?? null,
       description: body['description'] ?? null,
       tags: Array.isArray(body['tags']) ? body['tags'] : [],
+      ...INITIAL_POPULARITY_FIELDS,
       createdAt: now,
       updatedAt: now,
     });
-    await ref.set(doc);
+    await runWithinQuota('patterns', uid, (tx) => {
+      const revisionFields = stageInitialRevision(tx, ref.id, {
+        authorId: uid,
+        spec: body['spec'] as PatternSpec,
+        hardwareVersion: body['hardwareVersion'] as 100 | 200,
+        metadata: pickPatternMetadata(doc),
+      }, now);
+      tx.set(ref, { ...doc, ...revisionFields });
+    });
     const fresh = await ref.get();
-    return res.status(201).json({ pattern: fresh.data() });
+    return res.status(201).json({ pattern: fresh.data(), ...(warnings.length > 0 ? { warnings } : {}) });
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, error.toApiError());
+    }
     logger.error('Pattern create failed', { userId: uid, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
     return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
   }
@@ -201,10 +293,24 @@ patternsRouter.get('/patterns.mine', async (req: Request, res: Response) => {
   }
 });
 
+// Сортировки каталога: поле документа (ведёт фоновая задача популярности)
+const CATALOG_SORT_FIELDS: Record<string, string> = {
+  newest: 'createdAt',
+  popular: 'likeCount',
+  trending: 'trendingScore',
+  top_rated: 'ratingScore',
+};
+
 // GET /v1/patterns — публичные паттерны (только approved) (с фильтрами)
+// sort: newest (по умолчанию) | popular (лайки) | trending (активность с затуханием) | top_rated (байесовская оценка)
 patternsRouter.get('/patterns', async (req: Request, res: Response) => {
   const uid = req.auth?.user.uid;
   if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  const sort = (req.query.sort as string) || 'newest';
+  const sortField = CATALOG_SORT_FIELDS[sort];
+  if (!sortField) {
+    return sendError(res, { code: 'invalid_argument', message: `sort must be one of: ${Object.keys(CATALOG_SORT_FIELDS).join(', ')}` });
+  }
   try {
     const { limit, cursor } = parsePagination(req);
     const hardwareVersion = Number.parseInt((req.query.hardwareVersion as string) || '', 10);
@@ -214,27 +320,30 @@ patternsRouter.get('/patterns', async (req: Request, res: Response) => {
     let q = db.collection('patterns')
       .where('public', '==', true)
       .where('reviewStatus', '==', 'approved')
-      .orderBy('createdAt', 'desc')
+      .orderBy(sortField, 'desc')
       .orderBy('id', 'desc') as FirebaseFirestore.Query;
     if (hardwareVersion === 100 || hardwareVersion === 200) q = q.where('hardwareVersion', '==', hardwareVersion);
     if (kind) q = q.where('kind', '==', kind);
     if (tags) q = q.where('tags', 'array-contains', tags);
 
+    // Курсор: <значение поля сортировки>_<id> (для createdAt — миллисекунды)
     if (cursor) {
-      const [tsStr, id] = cursor.split('_', 2);
-      const ts = Number(tsStr);
-      if (Number.isFinite(ts) && id) {
-        q = q.startAfter(new Date(ts), id);
+      const [valueStr, id] = cursor.split('_', 2);
+      const value = Number(valueStr);
+      if (Number.isFinite(value) && id) {
+        q = q.startAfter(sortField === 'createdAt' ? new Date(value) : value, id);
       }
     }
 
     const snap = await q.limit(limit).get();
     const items = snap.docs.map((d) => d.data());
     const last = snap.docs[snap.docs.length - 1];
-    const lastData = last?.data() as { createdAt?: FirebaseFirestore.Timestamp; id?: string } | undefined;
+    const lastData = last?.data() as Record<string, unknown> | undefined;
     let nextCursor: string | undefined = undefined;
-    if (snap.size === limit && lastData?.createdAt && lastData?.id) {
-      nextCursor = `${lastData.createdAt.toDate().getTime()}_${lastData.id}`;
+    const lastValue = lastData?.[sortField];
+    if (snap.size === limit && lastValue !== undefined && lastValue !== null && lastData?.id) {
+      const cursorValue = sortField === 'createdAt' ? (lastValue as FirebaseFirestore.Timestamp).toDate().getTime() : lastValue;
+      nextCursor = `${cursorValue}_${lastData.id}`;
     }
     return res.status(200).json({ items, nextCursor });
   } catch (error) {
@@ -268,6 +377,102 @@ patternsRouter.get('/patterns/:id', async (req: Request, res: Response) => {
   }
 });
 
+// upLevel=true|1 — развернуть паттерн HW 100 по кольцу HW 200 (см. convertPatternSpec)
+function parseUpLevelQuery(value: unknown): boolean {
+  return value === 'true' || value === '1';
+}
+
+// Коды приближений конвертации для заголовка X-Pattern-Approximations (без повторов, через запятую)
+function approximationCodes(approximations: PatternApproximation[]): string {
+  return [...new Set(approximations.map((a) => a.code))].join(',');
+}
+
+// GET /v1/patterns/:id/preview.gif|svg — анимированное превью (доступ как у GET /v1/patterns/:id)
+// query: hardwareVersion (100|200, по умолчанию из spec), size (32..256 px), upLevel
+patternsRouter.get('/patterns/:id/preview.:format', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  const format = req.params.format as PreviewFormat;
+  if (!PREVIEW_FORMATS.includes(format)) {
+    return sendError(res, { code: 'invalid_argument', message: `Preview format must be one of: ${PREVIEW_FORMATS.join(', ')}` });
+  }
+  const hardwareVersionRaw = (req.query.hardwareVersion as string) || '';
+  const hardwareVersion = hardwareVersionRaw ? Number(hardwareVersionRaw) : undefined;
+  if (hardwareVersion !== undefined && hardwareVersion !== 100 && hardwareVersion !== 200) {
+    return sendError(res, { code: 'invalid_argument', message: 'hardwareVersion must be 100 or 200' });
+  }
+  const size = req.query.size ? Number(req.query.size) : DEFAULT_PREVIEW_SIZE;
+  if (!Number.isInteger(size) || size < 32 || size > 256) {
+    return sendError(res, { code: 'invalid_argument', message: 'size must be an integer between 32 and 256' });
+  }
+  try {
+    const snap = await db.collection('patterns').doc(req.params.id).get();
+    const data = snap.data() as { ownerId?: string; public?: boolean; reviewStatus?: string; spec?: PatternSpec } | undefined;
+    if (!snap.exists || !data?.spec) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
+    if (data.ownerId !== uid && (!data.public || data.reviewStatus !== 'approved')) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+
+    const { spec, approximations } = convertPatternSpec(data.spec, hardwareVersion ?? data.spec.hardwareVersion, {
+      upLevel: parseUpLevelQuery(req.query.upLevel),
+    });
+    if (approximations.length > 0) res.set('X-Pattern-Approximations', approximationCodes(approximations));
+    const options = { size, fps: DEFAULT_PREVIEW_FPS };
+    const key = previewCacheKey(spec, format, options);
+    res.set('ETag', `"${key}"`);
+    res.set('Cache-Control', 'private, max-age=86400');
+    if (req.headers['if-none-match'] === `"${key}"`) return res.status(304).end();
+
+    let body = await readCachedPreview(req.params.id, key, format);
+    if (!body) {
+      body = renderPatternPreview(spec, format, options);
+      await writeCachedPreview(req.params.id, key, format, body);
+    }
+    res.set('Content-Type', PREVIEW_CONTENT_TYPES[format]);
+    return res.status(200).send(body);
+  } catch (error) {
+    if (error instanceof PatternRenderError) {
+      return sendError(res, { code: 'invalid_argument', message: error.message });
+    }
+    logger.error('Pattern preview render failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// GET /v1/patterns/:id/binary — бинарный паттерн для передачи по BLE (доступ как у GET /v1/patterns/:id)
+// query: hardwareVersion (100|200, по умолчанию из spec), upLevel
+patternsRouter.get('/patterns/:id/binary', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  const hardwareVersionRaw = (req.query.hardwareVersion as string) || '';
+  const hardwareVersion = hardwareVersionRaw ? Number(hardwareVersionRaw) : undefined;
+  if (hardwareVersion !== undefined && hardwareVersion !== 100 && hardwareVersion !== 200) {
+    return sendError(res, { code: 'invalid_argument', message: 'hardwareVersion must be 100 or 200' });
+  }
+  try {
+    const snap = await db.collection('patterns').doc(req.params.id).get();
+    const data = snap.data() as { ownerId?: string; public?: boolean; reviewStatus?: string; spec?: PatternSpec } | undefined;
+    if (!snap.exists || !data?.spec) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
+    if (data.ownerId !== uid && (!data.public || data.reviewStatus !== 'approved')) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+    const { spec, approximations } = convertPatternSpec(data.spec, hardwareVersion ?? data.spec.hardwareVersion, {
+      upLevel: parseUpLevelQuery(req.query.upLevel),
+    });
+    const blob = encodePatternBinary(spec);
+    if (approximations.length > 0) res.set('X-Pattern-Approximations', approximationCodes(approximations));
+    res.set('Content-Type', 'application/octet-stream');
+    res.set('X-Pattern-Format-Version', String(BINARY_PATTERN_FORMAT_VERSION));
+    return res.status(200).send(blob);
+  } catch (error) {
+    if (error instanceof PatternEncodingError) {
+      return sendError(res, { code: 'invalid_argument', message: error.message, details: error.details });
+    }
+    logger.error('Pattern binary encode failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
 // PATCH /v1/patterns/:id — обновить
 patternsRouter.patch('/patterns/:id', validateBody('update'), async (req: Request, res: Response) => {
   const uid = req.auth?.user.uid;
@@ -276,13 +481,50 @@ patternsRouter.patch('/patterns/:id', validateBody('update'), async (req: Reques
     const ref = db.collection('patterns').doc(req.params.id);
     const snap = await ref.get();
     if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
-    const data = snap.data() as { ownerId?: string };
+    const data = snap.data() as { ownerId?: string; spec?: PatternSpec; hardwareVersion?: 100 | 200 };
     if (data.ownerId !== uid) return sendError(res, { code: 'permission_denied', message: 'Access denied' });
     const payload = omitUndefined(req.body as Record<string, unknown>);
-    payload['updatedAt'] = new Date();
-    await ref.set(payload, { merge: true });
+    // Проверяем итоговую пару spec + hardwareVersion, если меняется любое из полей
+    let warnings: PatternIssue[] = [];
+    const requestedSpec = payload['spec'] as PatternSpec | undefined;
+    const spec = requestedSpec ?? data.spec;
+    const hardwareVersion = payload['hardwareVersion'] as 100 | 200 | undefined;
+    const specChanged = payload['spec'] !== undefined || hardwareVersion !== undefined;
+    if (spec && specChanged) {
+      const checked = await checkPatternSemantics(res, spec, hardwareVersion ?? data.hardwareVersion);
+      if (!checked) return;
+      warnings = checked;
+    }
+    // Содержимое (spec, hardwareVersion, карточка каталога) меняется только через ревизию:
+    // у одобренного паттерна она ждёт модерации. public и allowForks применяются сразу.
+    const metadata = pickPatternMetadata(payload);
+    const contentChanged = specChanged || Object.keys(metadata).length > 0;
+    for (const field of ['spec', 'hardwareVersion', ...PATTERN_METADATA_FIELDS]) delete payload[field];
+    const staged = await db.runTransaction(async (tx) => {
+      const current = (await tx.get(ref)).data() as PatternRevisionState | undefined;
+      let revision = null;
+      // Без нового spec берём живой из транзакции, чтобы не затереть параллельную правку
+      const targetSpec = requestedSpec ?? current?.spec;
+      if (current && targetSpec && contentChanged) {
+        revision = stagePatternRevision(tx, req.params.id, current, {
+          authorId: uid,
+          spec: targetSpec,
+          hardwareVersion: hardwareVersion ?? current.hardwareVersion ?? targetSpec.hardwareVersion,
+          metadata,
+          source: 'update',
+        });
+      }
+      tx.set(ref, { ...payload, ...revision?.fields, updatedAt: new Date() }, { merge: true });
+      return revision;
+    });
+    // Закешированные превью построены по старой спецификации
+    if (staged && !staged.pending) await invalidatePatternPreviews(req.params.id);
     const fresh = await ref.get();
-    return res.status(200).json({ pattern: fresh.data() });
+    return res.status(200).json({
+      pattern: fresh.data(),
+      ...(staged?.pending ? { pendingRevision: staged.number } : {}),
+      ...(warnings.length > 0 ? { warnings } : {}),
+    });
   } catch (error) {
     logger.error('Pattern update failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
     return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
@@ -300,6 +542,7 @@ patternsRouter.delete('/patterns/:id', async (req: Request, res: Response) => {
     const data = snap.data() as { ownerId?: string };
     if (data.ownerId !== uid) return sendError(res, { code: 'permission_denied', message: 'Access denied' });
     await ref.delete();
+    await invalidatePatternPreviews(req.params.id);
     return res.status(200).json({ ok: true });
   } catch (error) {
     logger.error('Pattern delete failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
@@ -307,6 +550,304 @@ patternsRouter.delete('/patterns/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Номер ревизии из query/params; null, если это не положительное целое
+function parseRevisionNumber(value: unknown): number | null {
+  const number = Number(value);
+  return typeof value === 'string' && Number.isInteger(number) && number > 0 ? number : null;
+}
+
+type RevisionSnapshot = { spec: PatternSpec; hardwareVersion: 100 | 200 } & PatternMetadata;
+
+// GET /v1/patterns/:id/revisions — история версий (только владелец), новые сначала; cursor — номер ревизии
+patternsRouter.get('/patterns/:id/revisions', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  try {
+    const snap = await db.collection('patterns').doc(req.params.id).get();
+    if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
+    const data = snap.data() as PatternRevisionState;
+    if (data.ownerId !== uid) return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+
+    const { limit, cursor } = parsePagination(req);
+    let q = patternRevisionsCollection(req.params.id).orderBy('number', 'desc') as FirebaseFirestore.Query;
+    const cursorNumber = parseRevisionNumber(cursor);
+    if (cursorNumber) q = q.startAfter(cursorNumber);
+    const revisionsSnap = await q.limit(limit).get();
+    const items = revisionsSnap.docs.map((d) => d.data());
+    const nextCursor = revisionsSnap.size === limit ? revisionsSnap.docs[revisionsSnap.docs.length - 1].id : undefined;
+    return res.status(200).json({
+      items,
+      currentRevision: data.currentRevision ?? null,
+      pendingRevision: data.pendingRevision ?? null,
+      nextCursor,
+    });
+  } catch (error) {
+    logger.error('Pattern revisions list failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// GET /v1/patterns/:id/revisions/diff?from=&to= — изменения между ревизиями
+// по умолчанию from — живая ревизия, to — ожидающая модерации или последняя
+patternsRouter.get('/patterns/:id/revisions/diff', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  if ((req.query.from !== undefined && !parseRevisionNumber(req.query.from)) || (req.query.to !== undefined && !parseRevisionNumber(req.query.to))) {
+    return sendError(res, { code: 'invalid_argument', message: 'from and to must be positive revision numbers' });
+  }
+  try {
+    const snap = await db.collection('patterns').doc(req.params.id).get();
+    if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
+    const data = snap.data() as PatternRevisionState;
+    if (data.ownerId !== uid) return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+
+    const from = parseRevisionNumber(req.query.from) ?? data.currentRevision;
+    const to = parseRevisionNumber(req.query.to) ?? data.pendingRevision ?? data.latestRevision;
+    if (!from || !to) return sendError(res, { code: 'not_found', message: 'Revision not found' });
+    const revisions = patternRevisionsCollection(req.params.id);
+    const [fromSnap, toSnap] = await Promise.all([revisions.doc(String(from)).get(), revisions.doc(String(to)).get()]);
+    if (!fromSnap.exists || !toSnap.exists) return sendError(res, { code: 'not_found', message: 'Revision not found' });
+
+    const changes = diffPatternRevisions(fromSnap.data() as RevisionSnapshot, toSnap.data() as RevisionSnapshot);
+    return res.status(200).json({ from, to, changes });
+  } catch (error) {
+    logger.error('Pattern revisions diff failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// POST /v1/patterns/:id/revisions/:revision/revert — вернуть содержимое ревизии (spec и карточку) новой ревизией
+// (у одобренного паттерна — ожидающей модерации, как при PATCH)
+patternsRouter.post('/patterns/:id/revisions/:revision/revert', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  const revisionNumber = parseRevisionNumber(req.params.revision);
+  if (!revisionNumber) return sendError(res, { code: 'invalid_argument', message: 'revision must be a positive integer' });
+  try {
+    const ref = db.collection('patterns').doc(req.params.id);
+    const snap = await ref.get();
+    if (!snap.exists) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
+    const data = snap.data() as PatternRevisionState;
+    if (data.ownerId !== uid) return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    const revisionSnap = await patternRevisionsCollection(req.params.id).doc(String(revisionNumber)).get();
+    if (!revisionSnap.exists) return sendError(res, { code: 'not_found', message: 'Revision not found' });
+    const target = revisionSnap.data() as RevisionSnapshot;
+
+    const warnings = await checkPatternSemantics(res, target.spec, target.hardwareVersion);
+    if (!warnings) return;
+    const staged = await db.runTransaction(async (tx) => {
+      const current = (await tx.get(ref)).data() as PatternRevisionState;
+      const revision = stagePatternRevision(tx, req.params.id, current, {
+        authorId: uid,
+        spec: target.spec,
+        hardwareVersion: target.hardwareVersion,
+        metadata: pickPatternMetadata(target),
+        source: 'revert',
+        revertedFrom: revisionNumber,
+      });
+      if (revision) tx.set(ref, { ...revision.fields, updatedAt: new Date() }, { merge: true });
+      return revision;
+    });
+    if (!staged) return sendError(res, { code: 'failed_precondition', message: 'Revision is already live' });
+    if (!staged.pending) await invalidatePatternPreviews(req.params.id);
+
+    const fresh = await ref.get();
+    return res.status(200).json({
+      pattern: fresh.data(),
+      revision: staged.number,
+      ...(staged.pending ? { pendingRevision: staged.number } : {}),
+      ...(warnings.length > 0 ? { warnings } : {}),
+    });
+  } catch (error) {
+    logger.error('Pattern revert failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// Паттерн, который пользователь может видеть (свой или публичный одобренный); иначе отправляет ошибку и возвращает null
+async function loadViewablePattern(req: Request, res: Response, uid: string): Promise<Record<string, unknown> | null> {
+  const snap = await db.collection('patterns').doc(req.params.id).get();
+  const data = snap.data() as Record<string, unknown> | undefined;
+  if (!snap.exists || !data) {
+    sendError(res, { code: 'not_found', message: 'Pattern not found' });
+    return null;
+  }
+  if (!canViewPattern(data, uid)) {
+    sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    return null;
+  }
+  return data;
+}
+
+// GET /v1/patterns/:id/reactions — актуальные лайки и оценки (сумма шардов) и реакция текущего пользователя
+patternsRouter.get('/patterns/:id/reactions', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  try {
+    if (!(await loadViewablePattern(req, res, uid))) return;
+    const ref = db.collection('patterns').doc(req.params.id);
+    const [totals, like, rating] = await Promise.all([
+      getPopularityTotals(req.params.id),
+      ref.collection('likes').doc(uid).get(),
+      ref.collection('ratings').doc(uid).get(),
+    ]);
+    return res.status(200).json({
+      likeCount: totals.likes,
+      ratingCount: totals.ratingCount,
+      ratingAverage: totals.ratingCount > 0 ? totals.ratingSum / totals.ratingCount : null,
+      usageCount: totals.usage,
+      liked: like.exists,
+      myRating: rating.exists ? (rating.data() as { rating: number }).rating : null,
+    });
+  } catch (error) {
+    logger.error('Pattern reactions failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// PUT/DELETE /v1/patterns/:id/like — поставить/снять лайк (идемпотентно)
+async function handleLike(req: Request, res: Response, liked: boolean) {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  try {
+    if (!(await loadViewablePattern(req, res, uid))) return;
+    const changed = await setPatternLike(req.params.id, uid, liked);
+    return res.status(200).json({ liked, changed });
+  } catch (error) {
+    logger.error('Pattern like failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+}
+
+patternsRouter.put('/patterns/:id/like', (req: Request, res: Response) => handleLike(req, res, true));
+patternsRouter.delete('/patterns/:id/like', (req: Request, res: Response) => handleLike(req, res, false));
+
+// PUT /v1/patterns/:id/rating — оценка 1–5 (повторная заменяет прежнюю)
+patternsRouter.put('/patterns/:id/rating', validateBody('rating'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  try {
+    if (!(await loadViewablePattern(req, res, uid))) return;
+    const { rating } = req.body as { rating: number };
+    await setPatternRating(req.params.id, uid, rating);
+    return res.status(200).json({ rating });
+  } catch (error) {
+    logger.error('Pattern rating failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// DELETE /v1/patterns/:id/rating — убрать свою оценку
+patternsRouter.delete('/patterns/:id/rating', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  try {
+    if (!(await loadViewablePattern(req, res, uid))) return;
+    await setPatternRating(req.params.id, uid, null);
+    return res.status(200).json({ rating: null });
+  } catch (error) {
+    logger.error('Pattern rating delete failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
+// Паттерн передан пользователю через POST /v1/patterns/:id/share (лично или в его пару)
+async function isPatternSharedWith(patternId: string, uid: string): Promise<boolean> {
+  const shares = await db.collection('sharedPatterns').where('patternId', '==', patternId).get();
+  const pairIds = new Set<string>();
+  for (const doc of shares.docs) {
+    const share = doc.data() as { toUserId?: string | null; pairId?: string | null };
+    if (share.toUserId === uid) return true;
+    if (share.pairId) pairIds.add(share.pairId);
+  }
+  for (const pairId of pairIds) {
+    const pair = await db.collection('pairs').doc(pairId).get();
+    const memberIds = (pair.data() as { memberIds?: string[] } | undefined)?.memberIds ?? [];
+    if (memberIds.includes(uid)) return true;
+  }
+  return false;
+}
+
+// POST /v1/patterns/:id/fork — личная копия паттерна с атрибуцией (forkedFrom), учитывается в квоте паттернов
+// Доступно для своих паттернов, публичных одобренных и переданных пользователю; allowForks: false у оригинала запрещает
+patternsRouter.post('/patterns/:id/fork', validateBody('fork'), async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) return sendError(res, { code: 'unauthenticated', message: 'Authentication required' });
+  try {
+    const originalRef = db.collection('patterns').doc(req.params.id);
+    const snap = await originalRef.get();
+    const original = snap.data() as (PatternRevisionState & {
+      kind?: string;
+      title?: string | null;
+      description?: string | null;
+      tags?: string[];
+      allowForks?: boolean;
+      isDeleted?: boolean;
+    }) | undefined;
+    if (!snap.exists || !original?.spec || original.isDeleted) return sendError(res, { code: 'not_found', message: 'Pattern not found' });
+
+    const isOwner = original.ownerId === uid;
+    const isCatalog = original.public === true && original.reviewStatus === 'approved';
+    if (!isOwner && !isCatalog && !(await isPatternSharedWith(req.params.id, uid))) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+    if (!isOwner && original.allowForks === false) {
+      return sendError(res, { code: 'permission_denied', message: 'The author does not allow forks of this pattern' });
+    }
+
+    // Имя автора сохраняем в атрибуции: каталог показывает его без чтения профиля
+    let authorName: string | null = null;
+    if (original.ownerId) {
+      const author = await db.collection('users').doc(original.ownerId).get();
+      authorName = (author.data() as { displayName?: string } | undefined)?.displayName ?? null;
+    }
+
+    const body = req.body as { title?: string };
+    const now = new Date();
+    const ref = db.collection('patterns').doc();
+    const spec = original.spec;
+    const hardwareVersion = original.hardwareVersion ?? spec.hardwareVersion;
+    const doc = {
+      id: ref.id,
+      ownerId: uid,
+      kind: original.kind,
+      spec,
+      public: false,
+      reviewStatus: 'pending',
+      hardwareVersion,
+      title: body.title ?? original.title ?? null,
+      description: original.description ?? null,
+      tags: Array.isArray(original.tags) ? original.tags : [],
+      forkedFrom: {
+        patternId: req.params.id,
+        ownerId: original.ownerId ?? null,
+        authorName,
+        title: original.title ?? null,
+        revision: original.currentRevision ?? null,
+      },
+      forkCount: 0,
+      ...INITIAL_POPULARITY_FIELDS,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await runWithinQuota('patterns', uid, async (tx) => {
+      // Счётчик форков — по оригиналу, прочитанному в этой транзакции; копия своего паттерна не считается
+      const current = await tx.get(originalRef);
+      const revisionFields = stageInitialRevision(tx, ref.id, { authorId: uid, spec, hardwareVersion, metadata: pickPatternMetadata(doc) }, now);
+      tx.set(ref, { ...doc, ...revisionFields });
+      if (current.exists && !isOwner) tx.update(originalRef, { forkCount: FieldValue.increment(1) });
+    });
+    const fresh = await ref.get();
+    return res.status(201).json({ pattern: fresh.data() });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, error.toApiError());
+    }
+    logger.error('Pattern fork failed', { userId: uid, patternId: req.params.id, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
+    return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
+  }
+});
+
 // POST /v1/patterns/:id/share — поделиться (только approved)
 patternsRouter.post('/patterns/:id/share', validateBody('share'), async (req: Request, res: Response) => {
   const uid = req.auth?.user.uid;
@@ -382,16 +923,40 @@ patternsRouter.post('/patterns/preview', validateBody('preview'), async (req: Re
   }
 
   try {
-    const { deviceId, spec, duration } = req.body as { deviceId: string; spec: PatternSpec; duration?: number };
+    const { deviceId, spec, duration, upLevel, patternId } = req.body as {
+      deviceId: string;
+      spec: PatternSpec;
+      duration?: number;
+      upLevel?: boolean;
+      patternId?: string; // паттерн каталога, из которого взят spec (для счётчика использования)
+    };
+    const warnings = await checkPatternSemantics(res, spec);
+    if (!warnings) return;
     // В MVP просто валидируем, что устройство принадлежит пользователю
     const dev = await db.collection('devices').doc(deviceId).get();
     if (!dev.exists) return sendError(res, { code: 'not_found', message: 'Device not found' });
     const data = dev.data() as { ownerId?: string; hardwareVersion?: number };
     if (data.ownerId !== uid) return sendError(res, { code: 'permission_denied', message: 'Access denied' });
 
-    // Даун-левелинг: если spec.hw=200, а устройство hw=100 — упростим
+    // Даун-левелинг: если spec.hw=200, а устройство hw=100 — упростим; ап-левел до кольца — только по upLevel
     const targetHw = (data.hardwareVersion === 100 || data.hardwareVersion === 200) ? (data.hardwareVersion as 100|200) : 100;
-    const adjustedSpec = downLevelPatternSpec(spec, targetHw);
+    let adjustedSpec: PatternSpec;
+    let approximations: PatternApproximation[] = [];
+    if (upLevel || targetHw === 100) {
+      ({ spec: adjustedSpec, approximations } = convertPatternSpec(spec, targetHw, { upLevel }));
+    } else {
+      adjustedSpec = downLevelPatternSpec(spec, targetHw);
+    }
+    // Бинарный формат для BLE; паттерн, не помещающийся в буфер устройства, не отправляем
+    let specBinary: string;
+    try {
+      specBinary = encodePatternBinary(adjustedSpec).toString('base64');
+    } catch (error) {
+      if (error instanceof PatternEncodingError) {
+        return sendError(res, { code: 'invalid_argument', message: error.message, details: error.details });
+      }
+      throw error;
+    }
 
     // Используем данные, чтобы удовлетворить линтер и иметь трассировку
     logger.info('patterns.preview.adjusted', {
@@ -416,20 +981,35 @@ patternsRouter.post('/patterns/preview', validateBody('preview'), async (req: Re
 
     const previewId = `prev_${Date.now()}`;
     if (tokens.length > 0) {
-      await getMessaging().sendEachForMulticast({
+      // Только бинарный формат: JSON spec рядом с ним не помещается в лимит FCM data (4 КБ)
+      const response = await getMessaging().sendEachForMulticast({
         tokens,
         data: {
           type: 'pattern.preview',
           previewId,
           deviceId,
           hardwareVersion: String(targetHw),
-          spec: JSON.stringify(adjustedSpec),
+          specBinary,
+          specBinaryVersion: String(BINARY_PATTERN_FORMAT_VERSION),
           duration: duration ? String(duration) : '',
         },
       });
+      // sendEachForMulticast не бросает при ошибках отправки — они приходят в ответе по каждому токену
+      if (response.failureCount > 0) {
+        const errors = response.responses.map((r) => r.error?.code).filter(Boolean);
+        logger.warn('patterns.preview.delivery_failed', { userId: uid, deviceId, previewId, failureCount: response.failureCount, errors });
+        if (response.successCount === 0) {
+          return sendError(res, { code: 'unavailable', message: 'Preview could not be delivered to the app', details: { errors } });
+        }
+      }
     }
 
-    return res.status(200).json({ previewId });
+    await recordPatternUsage(patternId, 'preview', { userId: uid, spec });
+    return res.status(200).json({
+      previewId,
+      ...(warnings.length > 0 ? { warnings } : {}),
+      ...(approximations.length > 0 ? { approximations } : {}),
+    });
   } catch (error) {
     logger.error('Pattern preview failed', { userId: uid, error: error instanceof Error ? error.message : 'Unknown error', requestId: req.headers['x-request-id'] });
     return sendError(res, { code: 'unavailable', message: 'Database unavailable' });
@@ -4,6 +4,8 @@ import { sendError } from '../core/http';
 import { db } from '../core/firebase';
 import * as logger from 'firebase-functions/logger';
 import { FieldValue } from 'firebase-admin/firestore';
+import { emitOutboundEvent } from '../core/outboundWebhooks';
+import { recordPatternUsage } from '../core/patternPopularity';
 
 export const practicesRouter = express.Router();
 
@@ -134,6 +136,7 @@ practicesRouter.post('/practices/:practiceId/start', async (req: Request, res: R
     } as Record<string, unknown>;
 
     await sessionRef.set(sessionDoc);
+    await recordPatternUsage((practiceSnap.data() as { patternId?: string } | undefined)?.patternId, 'practice', { userId: uid });
     return res.status(200).json({ sessionId: sessionRef.id });
   } catch (error) {
     logger.error('Practice session start failed', {
@@ -159,7 +162,7 @@ practicesRouter.post('/practices.session/:sessionId/stop', async (req: Request,
     const sessionRef = db.collection('sessions').doc(sessionId);
     const sessionSnap = await sessionRef.get();
     if (!sessionSnap.exists) return sendError(res, { code: 'not_found', message: 'Session not found' });
-    const data = sessionSnap.data() as { ownerId?: string; status?: string; startedAt?: FirebaseFirestore.Timestamp } | undefined;
+    const data = sessionSnap.data() as { ownerId?: string; practiceId?: string; status?: string; startedAt?: FirebaseFirestore.Timestamp } | undefined;
     if (data?.ownerId !== uid) return sendError(res, { code: 'permission_denied', message: 'Cannot modify foreign session' });
     if (data?.status !== 'started') return sendError(res, { code: 'failed_precondition', message: 'Session is not in started state' });
 
@@ -199,6 +202,14 @@ practicesRouter.post('/practices.session/:sessionId/stop', async (req: Request,
       trx.set(dailyRef, { totals: updatedTotals, date: dateKey }, { merge: true });
     });
 
+    if (completed) {
+      await emitOutboundEvent(uid, 'session.completed', {
+        sessionId,
+        practiceId: data?.practiceId ?? null,
+        durationSec: finalDuration,
+      });
+    }
+
     return res.status(200).json({ summary: { durationSec: finalDuration, completed } });
   } catch (error) {
     logger.error('Practice session stop failed', {
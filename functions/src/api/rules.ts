@@ -5,64 +5,141 @@ import { FieldValue } from 'firebase-admin/firestore';
 import { db } from '../core/firebase';
 import { z } from 'zod';
 import * as logger from 'firebase-functions/logger';
-import { Rule } from '../types/firestore';
+import { Rule, RuleRun } from '../types/firestore';
+import { isValidCron, isValidTimeZone } from '../core/cron';
+import { computeNextRunAt, dryRunRule } from '../core/ruleEngine';
+import { ruleConditionSchema } from '../core/ruleConditions';
+import { toFieldErrors } from '../core/ruleActions';
+import {
+  checkRuleReferences,
+  ruleActionSchema,
+  ruleActionStepSchema,
+  ruleTriggerSchema,
+} from '../core/ruleValidation';
+import { QuotaExceededError, runWithinQuota } from '../core/quotas';
 
 export const rulesRouter = express.Router();
 
 // Аутентификация обрабатывается на уровне приложения (в тестах — через X-Test-Uid)
 
-// Схемы валидации для правил
-const ruleTriggerSchema = z.object({
-  type: z.enum(['device_gesture', 'calendar', 'weather', 'geo', 'webhook', 'time']),
-  params: z.record(z.string(), z.unknown()),
-});
-
-const ruleActionSchema = z.object({
-  type: z.enum(['start_practice', 'send_hug', 'light_device', 'smart_home', 'notification']),
-  params: z.record(z.string(), z.unknown()),
-});
+// Схемы валидации для правил (строгие схемы триггеров и действий — в core/ruleValidation)
+const ruleActionsSchema = z.array(ruleActionStepSchema).min(1).max(10);
+const ruleConditionsSchema = z.array(ruleConditionSchema).max(20);
 
 const ruleScheduleSchema = z.object({
-  timezone: z.string().min(1).max(100),
-  cron: z.string().min(1).max(200),
+  timezone: z.string().min(1).max(100).refine(isValidTimeZone, 'Invalid IANA timezone'),
+  cron: z.string().min(1).max(200).refine(isValidCron, 'Invalid cron expression'),
 });
 
-const ruleCreateSchema = z.object({
-  trigger: ruleTriggerSchema,
-  action: ruleActionSchema,
-  schedule: ruleScheduleSchema.optional(),
-  enabled: z.boolean(),
+const ruleCreateSchema = z
+  .object({
+    trigger: ruleTriggerSchema,
+    action: ruleActionSchema.optional(),
+    actions: ruleActionsSchema.optional(),
+    conditions: ruleConditionsSchema.optional(),
+    schedule: ruleScheduleSchema.optional(),
+    enabled: z.boolean(),
+  })
+  .refine((v) => v.trigger.type !== 'time' || Boolean(v.schedule), {
+    message: 'schedule is required for time trigger',
+    path: ['schedule'],
+  })
+  .refine((v) => Boolean(v.action) !== Boolean(v.actions), {
+    message: 'Exactly one of action or actions must be provided',
+    path: ['actions'],
+  });
+
+const ruleUpdateSchema = z
+  .object({
+    trigger: ruleTriggerSchema.optional(),
+    action: ruleActionSchema.optional(),
+    actions: ruleActionsSchema.optional(),
+    conditions: ruleConditionsSchema.optional(),
+    schedule: ruleScheduleSchema.optional(),
+    enabled: z.boolean().optional(),
+  })
+  .strict()
+  .refine((v) => !(v.action && v.actions), {
+    message: 'Only one of action or actions can be provided',
+    path: ['actions'],
+  });
+
+// Пример события для dry-run (поля триггера и payload для действия)
+const ruleTestEventSchema = z.record(z.string(), z.unknown());
+
+const ruleTestSchema = z.object({
+  event: ruleTestEventSchema.optional(),
 });
 
-const ruleUpdateSchema = z.object({
-  trigger: ruleTriggerSchema.optional(),
-  action: ruleActionSchema.optional(),
-  schedule: ruleScheduleSchema.optional(),
-  enabled: z.boolean().optional(),
+const ruleDraftTestSchema = z.object({
+  rule: ruleCreateSchema,
+  event: ruleTestEventSchema.optional(),
 });
 
-// Валидация тела запроса
-function validateBody(schema: 'create' | 'update') {
-  return (req: Request, res: Response, next: NextFunction) => {
-    try {
-      if (schema === 'create') {
-        ruleCreateSchema.parse(req.body ?? {});
-      } else {
-        ruleUpdateSchema.parse(req.body ?? {});
+const bodySchemas = {
+  create: ruleCreateSchema,
+  update: ruleUpdateSchema,
+  test: ruleTestSchema,
+  testDraft: ruleDraftTestSchema,
+};
+
+function getRequestUserId(req: Request): string | undefined {
+  const legacyUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
+  return req.auth?.user?.uid || legacyUid || (req.headers['x-test-uid'] as string) || undefined;
+}
+
+// Валидация тела запроса: схема, затем ссылки на документы (для create/update).
+// Дальше в req.body идёт только результат схемы
+function validateBody(schema: keyof typeof bodySchemas) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = getRequestUserId(req);
+    if (!userId) {
+      return sendError(res, { code: 'unauthenticated', message: 'User not authenticated' });
+    }
+
+    const parsed = bodySchemas[schema].safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return sendError(res, {
+        code: 'invalid_argument',
+        message: 'Validation error',
+        details: { fieldErrors: toFieldErrors(parsed.error, '') },
+      });
+    }
+    req.body = parsed.data;
+
+    if (schema === 'create' || schema === 'update') {
+      try {
+        const fieldErrors = await checkRuleReferences(userId, req.body);
+        if (fieldErrors.length > 0) {
+          return sendError(res, {
+            code: 'invalid_argument',
+            message: 'Rule references missing or inaccessible resources',
+            details: { fieldErrors },
+          });
+        }
+      } catch (error) {
+        logger.error('Failed to check rule references', { error, userId });
+        return sendError(res, { code: 'internal', message: 'Failed to validate rule' });
       }
-      next();
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Validation error';
-      return sendError(res, { code: 'invalid_argument', message });
     }
+    next();
   };
 }
 
+// Утилита для пагинации курсором
+function parsePagination(req: Request) {
+  const limitRaw = (req.query.limit as string) || '20';
+  let limit = Number.parseInt(limitRaw, 10);
+  if (!Number.isFinite(limit) || limit <= 0) limit = 20;
+  limit = Math.min(100, Math.max(1, limit));
+  const cursor = (req.query.cursor as string) || '';
+  return { limit, cursor };
+}
+
 // GET /rules - Список правил пользователя
 rulesRouter.get('/rules', async (req: Request, res: Response) => {
   try {
-    const legacyUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
-    const userId = req.auth?.user?.uid || legacyUid || (req.headers['x-test-uid'] as string);
+    const userId = getRequestUserId(req);
     if (!userId) {
       return sendError(res, { code: 'unauthenticated', message: 'User not authenticated' });
     }
@@ -91,26 +168,31 @@ rulesRouter.get('/rules', async (req: Request, res: Response) => {
 // POST /rules - Создать правило
 rulesRouter.post('/rules', validateBody('create'), async (req: Request, res: Response) => {
   try {
-    const legacyUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
-    const userId = req.auth?.user?.uid || legacyUid || (req.headers['x-test-uid'] as string);
+    const userId = getRequestUserId(req);
     if (!userId) {
       return sendError(res, { code: 'unauthenticated', message: 'User not authenticated' });
     }
 
-    const { trigger, action, schedule, enabled } = req.body;
+    const { trigger, action, actions, conditions, schedule, enabled } = req.body;
+    const nextRunAt = computeNextRunAt({ trigger, schedule, enabled }, new Date());
 
     const ruleData = {
       ownerId: userId,
       trigger,
-      action,
+      ...(actions ? { actions } : { action }),
+      conditions: conditions ?? [],
       enabled,
       schedule: schedule || null,
+      nextRunAt,
       triggerCount: 0,
       createdAt: FieldValue.serverTimestamp(),
       updatedAt: FieldValue.serverTimestamp(),
     };
 
-    const ruleRef = await db.collection('rules').add(ruleData);
+    const ruleRef = db.collection('rules').doc();
+    await runWithinQuota('rules', userId, (tx) => {
+      tx.set(ruleRef, ruleData);
+    });
     const ruleDoc = await ruleRef.get();
     const rule = {
       id: ruleDoc.id,
@@ -122,6 +204,9 @@ rulesRouter.post('/rules', validateBody('create'), async (req: Request, res: Res
     logger.info('Rule created', { ruleId: rule.id, userId });
     res.status(201).json({ rule });
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendError(res, error.toApiError());
+    }
     const legacyErrUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
     logger.error('Failed to create rule', { error, userId: req.auth?.user?.uid ?? legacyErrUid });
     return sendError(res, { code: 'internal', message: 'Failed to create rule' });
@@ -131,8 +216,7 @@ rulesRouter.post('/rules', validateBody('create'), async (req: Request, res: Res
 // PATCH /rules/:ruleId - Обновить правило
 rulesRouter.patch('/rules/:ruleId', validateBody('update'), async (req: Request, res: Response) => {
   try {
-    const legacyUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
-    const userId = req.auth?.user?.uid || legacyUid || (req.headers['x-test-uid'] as string);
+    const userId = getRequestUserId(req);
     const { ruleId } = req.params;
     
     if (!userId) {
@@ -151,11 +235,28 @@ rulesRouter.patch('/rules/:ruleId', validateBody('update'), async (req: Request,
       return sendError(res, { code: 'permission_denied', message: 'Access denied' });
     }
 
-    const updateData = {
-      ...req.body,
+    const update = req.body as z.infer<typeof ruleUpdateSchema>;
+    const updateData: Record<string, unknown> = {
+      ...update,
       updatedAt: FieldValue.serverTimestamp(),
     };
 
+    // action и actions взаимоисключающие: новый формат заменяет старый и наоборот
+    if ('actions' in update) {
+      updateData.action = FieldValue.delete();
+    } else if ('action' in update) {
+      updateData.actions = FieldValue.delete();
+    }
+
+    // Пересчитываем расписание, если изменились триггер, расписание или включённость
+    if ('trigger' in update || 'schedule' in update || 'enabled' in update) {
+      const merged = { ...ruleData, ...update } as Rule;
+      if (merged.trigger?.type === 'time' && !merged.schedule) {
+        return sendError(res, { code: 'invalid_argument', message: 'schedule is required for time trigger' });
+      }
+      updateData.nextRunAt = computeNextRunAt(merged, new Date());
+    }
+
     await ruleRef.update(updateData);
     const updatedDoc = await ruleRef.get();
     const rule = {
@@ -177,8 +278,7 @@ rulesRouter.patch('/rules/:ruleId', validateBody('update'), async (req: Request,
 // DELETE /rules/:ruleId - Удалить правило
 rulesRouter.delete('/rules/:ruleId', async (req: Request, res: Response) => {
   try {
-    const legacyUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
-    const userId = req.auth?.user?.uid || legacyUid || (req.headers['x-test-uid'] as string);
+    const userId = getRequestUserId(req);
     const { ruleId } = req.params;
     
     if (!userId) {
@@ -198,6 +298,9 @@ rulesRouter.delete('/rules/:ruleId', async (req: Request, res: Response) => {
     }
 
     await ruleRef.delete();
+    if (ruleData.trigger?.type === 'weather') {
+      await db.collection('weatherStates').doc(ruleId).delete();
+    }
 
     logger.info('Rule deleted', { ruleId, userId });
     res.json({ ok: true });
@@ -207,3 +310,92 @@ rulesRouter.delete('/rules/:ruleId', async (req: Request, res: Response) => {
     return sendError(res, { code: 'internal', message: 'Failed to delete rule' });
   }
 });
+
+// GET /rules/:ruleId/runs - История запусков правила (новые сначала)
+rulesRouter.get('/rules/:ruleId/runs', async (req: Request, res: Response) => {
+  try {
+    const userId = getRequestUserId(req);
+    const { ruleId } = req.params;
+
+    if (!userId) {
+      return sendError(res, { code: 'unauthenticated', message: 'User not authenticated' });
+    }
+
+    const ruleRef = db.collection('rules').doc(ruleId);
+    const ruleDoc = await ruleRef.get();
+
+    if (!ruleDoc.exists) {
+      return sendError(res, { code: 'not_found', message: 'Rule not found' });
+    }
+
+    const ruleData = ruleDoc.data() as Rule;
+    if (ruleData.ownerId !== userId) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+
+    const { limit, cursor } = parsePagination(req);
+    let q = ruleRef.collection('runs').orderBy('createdAt', 'desc') as FirebaseFirestore.Query;
+    if (cursor) {
+      const cursorDoc = await ruleRef.collection('runs').doc(cursor).get();
+      if (cursorDoc.exists) q = q.startAfter(cursorDoc);
+    }
+
+    const snap = await q.limit(limit).get();
+    const items = snap.docs.map((d) => ({ id: d.id, ...d.data() } as RuleRun));
+    const nextCursor = snap.size === limit ? snap.docs[snap.docs.length - 1].id : undefined;
+    res.json({ items, nextCursor });
+  } catch (error) {
+    const legacyErrUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
+    logger.error('Failed to fetch rule runs', { error, ruleId: req.params.ruleId, userId: req.auth?.user?.uid ?? legacyErrUid });
+    return sendError(res, { code: 'internal', message: 'Failed to fetch rule runs' });
+  }
+});
+
+// POST /rules/test - Dry-run несохранённого правила на примере события
+rulesRouter.post('/rules/test', validateBody('testDraft'), async (req: Request, res: Response) => {
+  try {
+    const userId = getRequestUserId(req);
+    if (!userId) {
+      return sendError(res, { code: 'unauthenticated', message: 'User not authenticated' });
+    }
+
+    const { rule: draft, event } = req.body as { rule: Omit<Rule, 'id' | 'ownerId'>; event?: Record<string, unknown> };
+    const rule = { ...draft, id: 'draft', ownerId: userId, triggerCount: 0 } as Rule;
+
+    const result = await dryRunRule(rule, event ?? {});
+    res.json(result);
+  } catch (error) {
+    const legacyErrUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
+    logger.error('Failed to test rule draft', { error, userId: req.auth?.user?.uid ?? legacyErrUid });
+    return sendError(res, { code: 'internal', message: 'Failed to test rule' });
+  }
+});
+
+// POST /rules/:ruleId/test - Dry-run сохранённого правила на примере события
+rulesRouter.post('/rules/:ruleId/test', validateBody('test'), async (req: Request, res: Response) => {
+  try {
+    const userId = getRequestUserId(req);
+    const { ruleId } = req.params;
+
+    if (!userId) {
+      return sendError(res, { code: 'unauthenticated', message: 'User not authenticated' });
+    }
+
+    const ruleDoc = await db.collection('rules').doc(ruleId).get();
+    if (!ruleDoc.exists) {
+      return sendError(res, { code: 'not_found', message: 'Rule not found' });
+    }
+
+    const rule = { id: ruleDoc.id, ...ruleDoc.data() } as Rule;
+    if (rule.ownerId !== userId) {
+      return sendError(res, { code: 'permission_denied', message: 'Access denied' });
+    }
+
+    const result = await dryRunRule(rule, (req.body?.event as Record<string, unknown>) ?? {});
+    res.json(result);
+  } catch (error) {
+    const legacyErrUid = (req as Request & { auth?: { uid?: string } }).auth?.uid;
+    logger.error('Failed to test rule', { error, ruleId: req.params.ruleId, userId: req.auth?.user?.uid ?? legacyErrUid });
+    return sendError(res, { code: 'internal', message: 'Failed to test rule' });
+  }
+});
\ No newline at end of file
@@ -19,6 +19,10 @@ import { rulesRouter } from './rules';
 import { webhooksRouter } from './webhooks';
 import { notificationsRouter } from './notifications';
 import { otaRouter } from './ota';
+import { locationRouter } from './location';
+import { calendarsRouter } from './calendars';
+import { integrationsRouter } from './integrations';
+import { outboundWebhooksRouter } from './outboundWebhooks';
 // no-op
 
 const app = express();
@@ -85,6 +89,10 @@ app.use('/v1', rulesRouter);
 app.use('/v1', webhooksRouter);
 app.use('/v1', notificationsRouter);
 app.use('/v1', otaRouter);
+app.use('/v1', locationRouter);
+app.use('/v1', calendarsRouter);
+app.use('/v1', integrationsRouter);
+app.use('/v1', outboundWebhooksRouter);
 
 // Защищенный endpoint (требует аутентификации)
 app.get('/protected', authenticateToken(), (req: Request, res: Response) => {
@@ -6,6 +6,7 @@ import { db } from '../core/firebase';
 import { z } from 'zod';
 import { getErrorMessage } from '../core/i18n';
 import { log } from '../core/structuredLogger';
+import { getUserQuotas } from '../core/quotas';
 
 // Ленивый доступ к Firestore и коллекции users, чтобы переменные окружения из setup успевали примениться
 // getUsersCollection удалён: используем db.collection('users') напрямую
@@ -24,6 +25,11 @@ const userUpdateSchema = z.object({
   timezone: z.string().min(1).max(100).optional(),
   language: z.string().min(2).max(10).optional(),
   consents: z.object({}).catchall(z.unknown()).optional(),
+  // Точка, по которой опрашивается погода для weather-правил; null — удалить
+  weatherLocation: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  }).strict().nullable().optional(),
 }).strict();
 
 export const usersRouter = express.Router();
@@ -132,6 +138,29 @@ usersRouter.get('/users.me', async (req: Request, res: Response) => {
   }
 });
 
+// GET /v1/users.me/quotas — использование квот (правила, паттерны, устройства, геозоны, календари, интеграции, исходящие вебхуки) относительно лимитов
+usersRouter.get('/users.me/quotas', async (req: Request, res: Response) => {
+  const uid = req.auth?.user.uid;
+  if (!uid) {
+    return sendError(res, { code: 'unauthenticated', message: getErrorMessage(req, 'auth.required') });
+  }
+
+  try {
+    const quotas = await getUserQuotas(uid);
+    return res.status(200).json({ quotas });
+  } catch (error) {
+    log.error('Failed to get user quotas', {
+      userId: uid,
+      operation: 'user_quotas',
+      resource: 'user_quotas',
+    });
+    return sendError(res, {
+      code: 'unavailable',
+      message: getErrorMessage(req, 'error.database_unavailable')
+    });
+  }
+});
+
 // PATCH /v1/users.me — обновить профиль
 usersRouter.patch('/users.me', validateBody('update'), async (req: Request, res: Response) => {
   const uid = req.auth?.user.uid;
@@ -4,7 +4,7 @@ import { FieldValue } from 'firebase-admin/firestore';
 import { db } from '../core/firebase';
 import * as logger from 'firebase-functions/logger';
 import crypto from 'crypto';
-import { Rule } from '../types/firestore';
+import { enqueueWebhookEvent } from '../core/webhookEvents';
 
 export const webhooksRouter = express.Router();
 // Вебхуки публичны и не требуют аутентификации
@@ -18,7 +18,7 @@ export const webhooksRouter = express.Router();
 // }
 
 // Валидация подписи HMAC SHA-256
-function validateWebhookSignature(payload: string, signature: string, secret: string): boolean {
+function validateWebhookSignature(payload: string | Buffer, signature: string, secret: string): boolean {
   try {
     const expectedSignature = crypto
       .createHmac('sha256', secret)
@@ -72,8 +72,40 @@ async function checkReplayProtection(signature: string, timestamp: number): Prom
   }
 }
 
-// Получение секрета интеграции
-async function getWebhookSecret(integrationKey: string): Promise<string | null> {
+interface WebhookSecret {
+  secret: string;
+  version: number;
+}
+
+// Проверка подписи текущим секретом, а в окне ротации — и предыдущим.
+// Возвращает версию секрета, которым подписан запрос, или null.
+function verifyWebhookSignature(payload: string | Buffer, signature: string, secrets: WebhookSecret[]): number | null {
+  const matched = secrets.find((s) => validateWebhookSignature(payload, signature, s.secret));
+  return matched ? matched.version : null;
+}
+
+type SignatureScheme = 'v1' | 'v2';
+
+/**
+ * Разбор X-Signature:
+ * - `v2=<hex>` — HMAC от `${X-Timestamp}.${сырое тело}`, X-Timestamp обязателен
+ * - `v1=<hex>` или просто `<hex>` — устаревшая схема: HMAC от JSON.stringify(body)
+ */
+function parseSignatureHeader(header: string): { scheme: SignatureScheme; signature: string } {
+  const match = /^(v1|v2)=(.*)$/.exec(header.trim());
+  if (!match) return { scheme: 'v1', signature: header.trim() };
+  return { scheme: match[1] as SignatureScheme, signature: match[2] };
+}
+
+// Подписываемые данные v2: `${timestamp}.` + исходные байты тела (без повторной сериализации JSON)
+function buildV2Payload(timestamp: string, rawBody: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(`${timestamp}.`), rawBody]);
+}
+
+// Получение действующих секретов и владельца активной интеграции
+async function getWebhookIntegration(
+  integrationKey: string
+): Promise<{ secrets: WebhookSecret[]; ownerId?: string; legacySignatureEnabled: boolean } | null> {
   try {
     const webhookRef = db.collection('webhooks').doc(integrationKey);
     const webhookDoc = await webhookRef.get();
@@ -87,149 +119,67 @@ async function getWebhookSecret(integrationKey: string): Promise<string | null>
       return null;
     }
 
-    return webhookData.secret;
+    const secrets: WebhookSecret[] = [{ secret: webhookData.secret, version: webhookData.secretVersion ?? 1 }];
+    const expiresAt = webhookData.previousSecretExpiresAt;
+    const previousExpiresAt = expiresAt instanceof Date ? expiresAt.getTime() : (expiresAt?.seconds ?? 0) * 1000;
+    if (webhookData.previousSecret && previousExpiresAt > Date.now()) {
+      secrets.push({ secret: webhookData.previousSecret, version: webhookData.previousSecretVersion ?? 1 });
+    }
+    return { secrets, ownerId: webhookData.ownerId, legacySignatureEnabled: webhookData.legacySignatureEnabled !== false };
   } catch (error) {
     logger.error('Failed to get webhook secret', { error, integrationKey });
     return null;
   }
 }
 
-// Обработка вебхука
-async function processWebhook(integrationKey: string, data: Record<string, unknown>): Promise<void> {
-  try {
-    // Находим активные правила с триггером webhook
-    const rulesSnapshot = await db
-      .collection('rules')
-      .where('enabled', '==', true)
-      .where('trigger.type', '==', 'webhook')
-      .get();
-
-    const matchingRules: Rule[] = rulesSnapshot.docs
-      .map((doc) => ({ id: doc.id, ...(doc.data() as Omit<Rule, 'id'>) }))
-      .filter((rule: Rule) => {
-        const triggerParams = rule.trigger?.params || {};
-        return (triggerParams as Record<string, unknown>).integrationKey === integrationKey;
-      });
-
-    // Выполняем действия для каждого подходящего правила
-    for (const rule of matchingRules) {
-      try {
-        await executeRuleAction(rule, data);
-        
-        // Обновляем счетчик срабатываний
-        await db.collection('rules').doc(rule.id).update({
-          triggerCount: FieldValue.increment(1),
-          lastTriggeredAt: FieldValue.serverTimestamp(),
-        });
-
-        logger.info('Rule triggered by webhook', { 
-          ruleId: rule.id, 
-          integrationKey,
-          triggerCount: (rule.triggerCount || 0) + 1 
-        });
-      } catch (error) {
-        logger.error('Failed to execute rule action', { 
-          error, 
-          ruleId: rule.id, 
-          integrationKey 
-        });
-      }
-    }
-  } catch (error) {
-    logger.error('Failed to process webhook', { error, integrationKey });
-    throw error;
-  }
-}
-
-// Выполнение действия правила
-async function executeRuleAction(rule: Rule, webhookData: Record<string, unknown>): Promise<void> {
-  const action = rule.action;
-  
-  switch (action.type) {
-    case 'start_practice':
-      // Запуск практики
-      await startPracticeFromRule(rule.ownerId, action.params, webhookData);
-      break;
-      
-    case 'send_hug':
-      // Отправка объятия
-      await sendHugFromRule(rule.ownerId, action.params, webhookData);
-      break;
-      
-    case 'light_device':
-      // Подсветка устройства
-      await lightDeviceFromRule(rule.ownerId, action.params, webhookData);
-      break;
-      
-    case 'smart_home':
-      // Управление умным домом
-      await controlSmartHomeFromRule(rule.ownerId, action.params, webhookData);
-      break;
-      
-    case 'notification':
-      // Отправка уведомления
-      await sendNotificationFromRule(rule.ownerId, action.params, webhookData);
-      break;
-      
-    default:
-      logger.warn('Unknown rule action type', { actionType: action.type, ruleId: rule.id });
-  }
-}
-
-// Вспомогательные функции для выполнения действий
-async function startPracticeFromRule(ownerId: string, params: Record<string, unknown>, webhookData: Record<string, unknown>): Promise<void> {
-  // Реализация запуска практики по правилу
-  logger.info('Starting practice from rule', { ownerId, params, webhookData });
-}
-
-async function sendHugFromRule(ownerId: string, params: Record<string, unknown>, webhookData: Record<string, unknown>): Promise<void> {
-  // Реализация отправки объятия по правилу
-  logger.info('Sending hug from rule', { ownerId, params, webhookData });
-}
-
-async function lightDeviceFromRule(ownerId: string, params: Record<string, unknown>, webhookData: Record<string, unknown>): Promise<void> {
-  // Реализация подсветки устройства по правилу
-  logger.info('Lighting device from rule', { ownerId, params, webhookData });
-}
-
-async function controlSmartHomeFromRule(ownerId: string, params: Record<string, unknown>, webhookData: Record<string, unknown>): Promise<void> {
-  // Реализация управления умным домом по правилу
-  logger.info('Controlling smart home from rule', { ownerId, params, webhookData });
-}
-
-async function sendNotificationFromRule(ownerId: string, params: Record<string, unknown>, webhookData: Record<string, unknown>): Promise<void> {
-  // Реализация отправки уведомления по правилу
-  logger.info('Sending notification from rule', { ownerId, params, webhookData });
-}
-
-// POST /webhooks/:integrationKey - Входящий вебхук триггера
+// POST /webhooks/:integrationKey - Входящий вебхук триггера.
+// Событие сохраняется в очередь webhookEvents, правила запускаются асинхронно (background/webhookEvents)
 webhooksRouter.post('/webhooks/:integrationKey', async (req: Request, res: Response) => {
   try {
     const { integrationKey } = req.params;
     const signatureHeader = req.headers['x-signature'] || req.headers['X-Signature'] || req.headers['X-signature'];
     const timestampHeader = req.headers['x-timestamp'] || req.headers['X-Timestamp'] || req.headers['X-timestamp'];
-    const signature = (signatureHeader as string) || '';
-    const timestamp = parseInt((timestampHeader as string) || '') || Date.now();
-    
-    if (!signature) {
+    const timestampRaw = ((timestampHeader as string) || '').trim();
+
+    if (!signatureHeader) {
       return sendError(res, { 
         code: 'invalid_argument', 
         message: 'Missing X-Signature header' 
       });
     }
+    const { scheme, signature } = parseSignatureHeader(signatureHeader as string);
+
+    // В v2 метка времени подписана и обязательна; в v1 при её отсутствии используется время сервера
+    if (scheme === 'v2' && !/^\d+$/.test(timestampRaw)) {
+      return sendError(res, {
+        code: 'invalid_argument',
+        message: timestampRaw ? 'Invalid X-Timestamp header' : 'Missing X-Timestamp header'
+      });
+    }
+    const timestamp = parseInt(timestampRaw) || Date.now();
 
     // Получаем секрет интеграции
-    const secret = await getWebhookSecret(integrationKey);
-    if (!secret) {
+    const integration = await getWebhookIntegration(integrationKey);
+    if (!integration) {
       return sendError(res, { 
         code: 'not_found', 
         message: 'Integration not found or inactive' 
       });
     }
 
+    if (scheme === 'v1' && !integration.legacySignatureEnabled) {
+      return sendError(res, {
+        code: 'permission_denied',
+        message: 'Signature scheme v1 is disabled for this integration',
+        details: { scheme }
+      });
+    }
+
     // Валидируем подпись
-    const payload = JSON.stringify(req.body);
-    if (!validateWebhookSignature(payload, signature, secret)) {
+    const rawBody = (req as Request & { rawBody?: Buffer }).rawBody ?? Buffer.from(JSON.stringify(req.body ?? {}));
+    const payload = scheme === 'v2' ? buildV2Payload(timestampRaw, rawBody) : JSON.stringify(req.body);
+    const secretVersion = verifyWebhookSignature(payload, signature, integration.secrets);
+    if (secretVersion === null) {
       return sendError(res, { 
         code: 'permission_denied', 
         message: 'Invalid signature' 
@@ -244,17 +194,25 @@ webhooksRouter.post('/webhooks/:integrationKey', async (req: Request, res: Respo
       });
     }
 
-    // Обрабатываем вебхук
-    await processWebhook(integrationKey, req.body);
+    // Ставим событие в очередь
+    const eventId = await enqueueWebhookEvent({
+      integrationKey,
+      ownerId: integration.ownerId,
+      payload: req.body ?? {},
+      signatureScheme: scheme,
+      secretVersion,
+    });
 
-    // Обновляем статистику использования вебхука
+    // Обновляем статистику использования вебхука и версию секрета, которой подписан запрос
     await db.collection('webhooks').doc(integrationKey).update({
       lastUsedAt: FieldValue.serverTimestamp(),
       usageCount: FieldValue.increment(1),
+      lastSecretVersion: secretVersion,
+      [`usageBySecretVersion.v${secretVersion}`]: FieldValue.increment(1),
     });
 
-    logger.info('Webhook processed successfully', { integrationKey, timestamp });
-    res.status(202).json({ accepted: true });
+    logger.info('Webhook accepted', { integrationKey, eventId, timestamp, secretVersion, scheme });
+    res.status(202).json({ accepted: true, eventId });
   } catch (error) {
     logger.error('Webhook processing failed', { 
       error, 
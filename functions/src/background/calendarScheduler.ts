@@ -0,0 +1,213 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { db } from '../core/firebase';
+import { syncCalendarFeeds } from '../core/calendars';
+import { evaluateRuleTrigger, fireRule } from '../core/ruleEngine';
+import { getRuleSchedulerCatchUpMinutes } from '../core/remoteConfig';
+import { CalendarEvent, Rule } from '../types/firestore';
+
+const MINUTE_MS = 60 * 1000;
+// Событие ищем по времени начала: minutesBefore/minutesAfter не больше суток, события длиннее недели не учитываются
+const EVENT_LOOKBACK_MS = 7 * 24 * 60 * MINUTE_MS;
+const EVENT_LOOKAHEAD_MS = 24 * 60 * MINUTE_MS;
+// Отметки о срабатывании хранятся дольше окна поиска событий
+const FIRING_TTL_MS = 8 * 24 * 60 * MINUTE_MS;
+
+type DateLike = Date | FirebaseFirestore.Timestamp;
+
+function toDate(value: DateLike): Date {
+  return value instanceof Date ? value : value.toDate();
+}
+
+/**
+ * Момент срабатывания правила для события: начало − minutesBefore или конец + minutesAfter
+ */
+export function calendarFireAt(params: Record<string, unknown>, event: { startAt: Date; endAt: Date }): Date {
+  if (typeof params.minutesAfter === 'number') {
+    return new Date(event.endAt.getTime() + params.minutesAfter * MINUTE_MS);
+  }
+  const before = typeof params.minutesBefore === 'number' ? params.minutesBefore : 0;
+  return new Date(event.startAt.getTime() - before * MINUTE_MS);
+}
+
+/**
+ * Отмечает срабатывание правила для события в транзакции.
+ * Возвращает null, если правило для этого события уже срабатывало.
+ */
+async function claimFiring(rule: Rule, eventId: string, fireAt: Date): Promise<FirebaseFirestore.DocumentReference | null> {
+  const ref = db.collection('calendarFirings').doc(`${rule.id}_${eventId}`);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.exists) return null;
+    tx.set(ref, {
+      ownerId: rule.ownerId,
+      ruleId: rule.id,
+      eventId,
+      fireAt,
+      expiresAt: new Date(fireAt.getTime() + FIRING_TTL_MS),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    return ref;
+  });
+}
+
+/**
+ * Запускает calendar-правила, у которых момент срабатывания (относительно события календаря владельца)
+ * попал в окно догоняющего запуска (now − rule_scheduler_catchup_minutes, now].
+ * Каждое правило срабатывает для события не больше одного раза.
+ */
+export async function processCalendarRules(now: Date = new Date()): Promise<{
+  rules: number;
+  fired: number;
+  errors: number;
+}> {
+  const catchUpMs = (await getRuleSchedulerCatchUpMinutes()) * MINUTE_MS;
+  const rulesSnapshot = await db
+    .collection('rules')
+    .where('trigger.type', '==', 'calendar')
+    .where('enabled', '==', true)
+    .get();
+
+  const rulesByOwner = new Map<string, Rule[]>();
+  for (const doc of rulesSnapshot.docs) {
+    const rule = { id: doc.id, ...(doc.data() as Omit<Rule, 'id'>) } as Rule;
+    rulesByOwner.set(rule.ownerId, [...(rulesByOwner.get(rule.ownerId) ?? []), rule]);
+  }
+
+  let fired = 0;
+  let errors = 0;
+  for (const [ownerId, rules] of rulesByOwner) {
+    const eventsSnapshot = await db
+      .collection('calendarEvents')
+      .where('ownerId', '==', ownerId)
+      .where('startAt', '>=', new Date(now.getTime() - EVENT_LOOKBACK_MS))
+      .where('startAt', '<=', new Date(now.getTime() + EVENT_LOOKAHEAD_MS))
+      .get();
+    const events = eventsSnapshot.docs.map((doc) => {
+      const data = doc.data() as CalendarEvent;
+      return { ...data, id: doc.id, startAt: toDate(data.startAt as DateLike), endAt: toDate(data.endAt as DateLike) };
+    });
+
+    for (const rule of rules) {
+      const params = rule.trigger.params || {};
+      for (const event of events) {
+        const fireAt = calendarFireAt(params, event);
+        if (fireAt.getTime() > now.getTime() || fireAt.getTime() <= now.getTime() - catchUpMs) continue;
+
+        const evaluation = evaluateRuleTrigger(rule, {
+          calendarId: event.calendarId,
+          title: event.title,
+          location: event.location,
+        }, now);
+        if (!evaluation.matched) continue;
+
+        try {
+          const firingRef = await claimFiring(rule, event.id, fireAt);
+          if (!firingRef) continue;
+
+          const result = await fireRule(rule, {
+            ruleId: rule.id,
+            triggerType: 'calendar',
+            payload: {
+              calendarId: event.calendarId,
+              eventId: event.id,
+              title: event.title,
+              location: event.location,
+              startAt: event.startAt.toISOString(),
+              endAt: event.endAt.toISOString(),
+              fireAt: fireAt.toISOString(),
+            },
+          }, [
+            ...evaluation.matchedConditions,
+            { condition: 'calendar.fireAt', matched: true, details: { fireAt: fireAt.toISOString() } },
+          ]);
+          await firingRef.update({ runId: result.runId });
+          if (result.status === 'failed') {
+            errors++;
+          } else {
+            fired++;
+          }
+        } catch (error) {
+          errors++;
+          logger.error('Failed to process calendar rule', {
+            ruleId: rule.id,
+            eventId: event.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+  }
+
+  return { rules: rulesSnapshot.size, fired, errors };
+}
+
+/**
+ * Удаляет прошедшие события календарей и устаревшие отметки о срабатываниях
+ */
+export async function cleanupCalendarData(now: Date = new Date(), batchSize = 400): Promise<number> {
+  const [events, firings] = await Promise.all([
+    db.collection('calendarEvents').where('endAt', '<', new Date(now.getTime() - EVENT_LOOKBACK_MS)).limit(batchSize).get(),
+    db.collection('calendarFirings').where('expiresAt', '<=', now).limit(batchSize).get(),
+  ]);
+  const docs = [...events.docs, ...firings.docs];
+  if (docs.length === 0) return 0;
+
+  for (let i = 0; i < docs.length; i += batchSize) {
+    const batch = db.batch();
+    docs.slice(i, i + batchSize).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+  return docs.length;
+}
+
+/**
+ * Планировщик IFTTT-правил с триггером calendar
+ * Запускается каждую минуту и запускает правила за minutesBefore до начала или через minutesAfter после конца события
+ */
+export const calendarSchedulerHandler = onSchedule({
+  schedule: '* * * * *', // Каждую минуту
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 300,
+}, async (event) => {
+  try {
+    const stats = await processCalendarRules();
+    logger.info('Calendar scheduler job completed', {
+      ...stats,
+      scheduledTime: event.scheduleTime,
+    });
+  } catch (error) {
+    logger.error('Calendar scheduler job failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
+
+/**
+ * Синхронизация ICS-фидов и очистка прошедших событий
+ * Запускается каждые 30 минут
+ */
+export const calendarSyncHandler = onSchedule({
+  schedule: '*/30 * * * *', // Каждые 30 минут
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 540,
+}, async (event) => {
+  try {
+    const stats = await syncCalendarFeeds();
+    const deleted = await cleanupCalendarData();
+    logger.info('Calendar sync job completed', {
+      ...stats,
+      deleted,
+      scheduledTime: event.scheduleTime,
+    });
+  } catch (error) {
+    logger.error('Calendar sync job failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
@@ -192,6 +192,23 @@ async function anonymizeUserData(userId: string): Promise<void> {
       });
     });
 
+    // 9. Удаление геоданных, календарей и интеграций: геозоны, их состояния, события местоположения,
+    // ICS-календари, их события, отметки о срабатываниях, состояния weather-правил, webhook-интеграции
+    // и очередь их событий, подписки на исходящие вебхуки и журнал их доставок
+    for (const collection of [
+      'geofences', 'geofenceStates', 'locationEvents',
+      'calendars', 'calendarEvents', 'calendarFirings', 'weatherStates', 'webhooks',
+      'webhookEvents', 'outboundWebhooks', 'webhookDeliveries',
+    ]) {
+      const snapshot = await db.collection(collection)
+        .where('ownerId', '==', userId)
+        .get();
+
+      snapshot.docs.forEach((doc) => {
+        batch.delete(doc.ref);
+      });
+    }
+
     // Выполняем все операции в одной транзакции
     await batch.commit();
     
@@ -216,7 +233,10 @@ async function deleteUserData(userId: string): Promise<void> {
   try {
     // Удаляем все документы пользователя
     const collections = [
-      'users', 'devices', 'sessions', 'patterns', 'rules', 'hugs', 'telemetry'
+      'users', 'devices', 'sessions', 'patterns', 'rules', 'hugs', 'telemetry',
+      'geofences', 'geofenceStates', 'locationEvents',
+      'calendars', 'calendarEvents', 'calendarFirings', 'weatherStates', 'webhooks',
+      'webhookEvents', 'outboundWebhooks', 'webhookDeliveries'
     ];
     
     for (const collection of collections) {
@@ -0,0 +1,58 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import * as logger from 'firebase-functions/logger';
+import { emitOutboundEvent } from '../core/outboundWebhooks';
+import { OutboundEventType } from '../types/firestore';
+
+type DeviceSnapshot = {
+  ownerId?: string;
+  status?: string;
+  firmwareVersion?: string;
+  hardwareVersion?: number;
+};
+
+/**
+ * События исходящих вебхуков по изменению устройства:
+ * - device.offline — статус сменился на offline
+ * - device.firmware_updated — сменилась версия прошивки
+ * Устройство без владельца (в т.ч. при отвязке) событий не порождает.
+ */
+export function deviceOutboundEvents(
+  deviceId: string,
+  before: DeviceSnapshot,
+  after: DeviceSnapshot
+): Array<{ type: OutboundEventType; data: Record<string, unknown> }> {
+  if (!after.ownerId || before.ownerId !== after.ownerId) return [];
+  const events: Array<{ type: OutboundEventType; data: Record<string, unknown> }> = [];
+  if (after.status === 'offline' && before.status !== 'offline') {
+    events.push({ type: 'device.offline', data: { deviceId, previousStatus: before.status ?? null } });
+  }
+  if (after.firmwareVersion && before.firmwareVersion !== after.firmwareVersion) {
+    events.push({
+      type: 'device.firmware_updated',
+      data: {
+        deviceId,
+        fromVersion: before.firmwareVersion ?? null,
+        toVersion: after.firmwareVersion,
+        hardwareVersion: after.hardwareVersion ?? null,
+      },
+    });
+  }
+  return events;
+}
+
+export const deviceEventsHandler = onDocumentUpdated('devices/{deviceId}', async (event) => {
+  const before = event.data?.before?.data() as DeviceSnapshot | undefined;
+  const after = event.data?.after?.data() as DeviceSnapshot | undefined;
+  if (!before || !after) return;
+
+  for (const outbound of deviceOutboundEvents(event.params.deviceId, before, after)) {
+    const enqueued = await emitOutboundEvent(after.ownerId as string, outbound.type, outbound.data);
+    if (enqueued > 0) {
+      logger.info('Device event enqueued for outbound webhooks', {
+        deviceId: event.params.deviceId,
+        type: outbound.type,
+        enqueued,
+      });
+    }
+  }
+});
@@ -0,0 +1,27 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import { cleanupExpiredLocationEvents } from '../core/geofences';
+
+/**
+ * Удаление событий местоположения после срока хранения (location_event_retention_hours)
+ * Запускается каждый час
+ */
+export const locationCleanupHandler = onSchedule({
+  schedule: '15 * * * *', // Каждый час в hh:15
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 300,
+}, async (event) => {
+  try {
+    const deleted = await cleanupExpiredLocationEvents();
+    logger.info('Location events cleanup completed', {
+      deleted,
+      scheduledTime: event.scheduleTime,
+    });
+  } catch (error) {
+    logger.error('Location events cleanup failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
@@ -1,7 +1,9 @@
 import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
 import * as logger from 'firebase-functions/logger';
 import { db } from '../core/firebase';
 import { getMessaging } from 'firebase-admin/messaging';
+import { deliverOutboundWebhook, OutboundDeliveryPayload, OUTBOX_WEBHOOK_DELIVERY } from '../core/outboundWebhooks';
 
 type OutboxRecord = {
   id: string;
@@ -78,6 +80,16 @@ export async function processOutboxHandler(record: OutboxRecord): Promise<void>
       return;
     }
 
+    if (record.type === OUTBOX_WEBHOOK_DELIVERY) {
+      const result = await deliverOutboundWebhook(record.id, record.payload as unknown as OutboundDeliveryPayload, record.attempts + 1);
+      if (result === 'delivered') {
+        await docRef.set({ status: 'delivered', deliveredAt: new Date(), attempts: record.attempts + 1, lastError: null, nextAttemptAt: null }, { merge: true });
+      } else {
+        await docRef.set({ status: 'skipped', attempts: record.attempts + 1 }, { merge: true });
+      }
+      return;
+    }
+
     // unknown type
     await docRef.set({ status: 'skipped', attempts: record.attempts + 1 }, { merge: true });
   } catch (error) {
@@ -113,4 +125,43 @@ export const processOutbox = onDocumentWritten('outbox/{id}', async (event) => {
   }
 });
 
+/**
+ * Повторная обработка записей, у которых наступило время повтора (nextAttemptAt).
+ * Триггер на запись срабатывает сразу после планирования повтора и пропускает её,
+ * поэтому отложенные попытки забирает этот проход.
+ */
+export async function retryDueOutboxRecords(now: Date = new Date(), limit = 100): Promise<number> {
+  const snapshot = await db
+    .collection('outbox')
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', now)
+    .limit(limit)
+    .get();
+  for (const doc of snapshot.docs) {
+    await processOutboxHandler({ ...(doc.data() as OutboxRecord), id: doc.id });
+  }
+  return snapshot.size;
+}
 
+/**
+ * Повторы outbox с экспоненциальной задержкой
+ * Запускается каждую минуту
+ */
+export const processOutboxRetries = onSchedule({
+  schedule: '* * * * *', // Каждую минуту
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 300,
+}, async (event) => {
+  try {
+    const retried = await retryDueOutboxRecords();
+    if (retried > 0) {
+      logger.info('Outbox retry job completed', { retried, scheduledTime: event.scheduleTime });
+    }
+  } catch (error) {
+    logger.error('Outbox retry job failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
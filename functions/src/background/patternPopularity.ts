@@ -0,0 +1,24 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import { refreshPatternPopularity } from '../core/patternPopularity';
+
+/**
+ * Пересчёт популярности паттернов: суммы шардов счётчиков и trendingScore с затуханием
+ * Запускается каждый час
+ */
+export const patternPopularityHandler = onSchedule({
+  schedule: '0 * * * *', // Каждый час
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 540,
+}, async (event) => {
+  try {
+    const updated = await refreshPatternPopularity();
+    logger.info('Pattern popularity refreshed', { updated, scheduledTime: event.scheduleTime });
+  } catch (error) {
+    logger.error('Pattern popularity refresh failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
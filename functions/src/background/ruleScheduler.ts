@@ -0,0 +1,205 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import crypto from 'crypto';
+import { db } from '../core/firebase';
+import { cronOccurrencesBetween, nextCronOccurrence, parseCron } from '../core/cron';
+import { fireRule, recordRuleRun } from '../core/ruleEngine';
+import { getRuleSchedulerBatchSize, getRuleSchedulerCatchUpMinutes } from '../core/remoteConfig';
+import { Rule } from '../types/firestore';
+
+// Время жизни блокировки правила: за это время действие должно успеть выполниться
+const LOCK_TTL_MS = 5 * 60 * 1000;
+
+type DateLike = Date | FirebaseFirestore.Timestamp | null | undefined;
+
+function toDate(value: DateLike): Date | null {
+  if (!value) return null;
+  return value instanceof Date ? value : value.toDate?.() ?? null;
+}
+
+interface ClaimedRun {
+  rule: Rule;
+  scheduledFor: Date;
+  missedRuns: number;
+  stale: boolean;
+}
+
+/**
+ * Захватывает правило в транзакции: проверяет, что оно всё ещё должно сработать и не заблокировано,
+ * сдвигает nextRunAt на следующее срабатывание и ставит блокировку.
+ * Возвращает null, если правило уже обработано другим запуском.
+ */
+async function claimDueRule(
+  ref: FirebaseFirestore.DocumentReference,
+  now: Date,
+  runId: string,
+  catchUpMinutes: number
+): Promise<ClaimedRun | null> {
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return null;
+    const data = snap.data() as Omit<Rule, 'id'>;
+
+    if (!data.enabled || data.trigger?.type !== 'time' || !data.schedule) {
+      tx.update(ref, { nextRunAt: null });
+      return null;
+    }
+
+    const nextRunAt = toDate(data.nextRunAt as DateLike);
+    if (!nextRunAt || nextRunAt.getTime() > now.getTime()) return null;
+
+    const lockExpiresAt = toDate(data.schedulerLock?.expiresAt as DateLike);
+    if (lockExpiresAt && lockExpiresAt.getTime() > now.getTime()) return null;
+
+    const spec = parseCron(data.schedule.cron);
+    const timeZone = data.schedule.timezone;
+
+    // Все срабатывания с момента nextRunAt до текущего момента (включительно)
+    const due = cronOccurrencesBetween(spec, new Date(nextRunAt.getTime() - 60 * 1000), now, timeZone);
+    const scheduledFor = due.length > 0 ? due[due.length - 1] : nextRunAt;
+    const stale = now.getTime() - scheduledFor.getTime() > catchUpMinutes * 60 * 1000;
+
+    tx.update(ref, {
+      nextRunAt: nextCronOccurrence(spec, now, timeZone),
+      schedulerLock: {
+        runId,
+        lockedAt: now,
+        expiresAt: new Date(now.getTime() + LOCK_TTL_MS),
+      },
+    });
+
+    return {
+      rule: { id: snap.id, ...data } as Rule,
+      scheduledFor,
+      missedRuns: Math.max(0, due.length - 1),
+      stale,
+    };
+  });
+}
+
+/**
+ * Обрабатывает time-правила, у которых подошло время срабатывания.
+ * Пропущенные окна (например, после простоя) объединяются в одно срабатывание,
+ * если последнее из них не старше окна догоняющего запуска; иначе правило
+ * только переносится на следующее срабатывание.
+ */
+export async function processDueTimeRules(now: Date = new Date()): Promise<{
+  due: number;
+  fired: number;
+  skipped: number;
+  errors: number;
+}> {
+  const [batchSize, catchUpMinutes] = await Promise.all([
+    getRuleSchedulerBatchSize(),
+    getRuleSchedulerCatchUpMinutes(),
+  ]);
+  const runId = crypto.randomUUID();
+
+  const dueSnapshot = await db
+    .collection('rules')
+    .where('trigger.type', '==', 'time')
+    .where('enabled', '==', true)
+    .where('nextRunAt', '<=', now)
+    .orderBy('nextRunAt', 'asc')
+    .limit(batchSize)
+    .get();
+
+  let fired = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const doc of dueSnapshot.docs) {
+    let claimed: ClaimedRun | null = null;
+    try {
+      claimed = await claimDueRule(doc.ref, now, runId, catchUpMinutes);
+      if (!claimed) {
+        skipped++;
+        continue;
+      }
+
+      const context = {
+        ruleId: doc.id,
+        triggerType: 'time' as const,
+        payload: {
+          scheduledFor: claimed.scheduledFor.toISOString(),
+          missedRuns: claimed.missedRuns,
+        },
+      };
+      const schedule = claimed.rule.schedule;
+
+      if (claimed.stale) {
+        skipped++;
+        logger.warn('Time rule run skipped: missed window is older than catch-up limit', {
+          ruleId: doc.id,
+          scheduledFor: claimed.scheduledFor.toISOString(),
+          missedRuns: claimed.missedRuns + 1,
+          catchUpMinutes,
+        });
+        await recordRuleRun(claimed.rule, context, {
+          status: 'skipped',
+          matchedConditions: [
+            { condition: 'schedule.catchUpWindow', matched: false, details: { catchUpMinutes } },
+          ],
+          error: {
+            code: 'deadline_exceeded',
+            message: 'Missed run is older than the catch-up window',
+          },
+          startedAt: now,
+          latencyMs: 0,
+        });
+        continue;
+      }
+
+      const result = await fireRule(claimed.rule, context, [
+        { condition: 'schedule.cron', matched: true, details: { cron: schedule?.cron, timezone: schedule?.timezone } },
+      ]);
+      if (result.status === 'failed') {
+        errors++;
+      } else {
+        fired++;
+      }
+    } catch (error) {
+      errors++;
+      logger.error('Failed to process time rule', {
+        ruleId: doc.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      if (claimed) {
+        await doc.ref
+          .update({ schedulerLock: FieldValue.delete() })
+          .catch((err) => logger.warn('Failed to release rule lock', {
+            ruleId: doc.id,
+            error: err instanceof Error ? err.message : 'Unknown error',
+          }));
+      }
+    }
+  }
+
+  return { due: dueSnapshot.size, fired, skipped, errors };
+}
+
+/**
+ * Планировщик IFTTT-правил с триггером time
+ * Запускается каждую минуту и выполняет правила, у которых наступило время по cron в таймзоне правила
+ */
+export const ruleSchedulerHandler = onSchedule({
+  schedule: '* * * * *', // Каждую минуту
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 300,
+}, async (event) => {
+  try {
+    const stats = await processDueTimeRules();
+    logger.info('Rule scheduler job completed', {
+      ...stats,
+      scheduledTime: event.scheduleTime,
+    });
+  } catch (error) {
+    logger.error('Rule scheduler job failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
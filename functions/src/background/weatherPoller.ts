@@ -0,0 +1,148 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { db } from '../core/firebase';
+import { evaluateRuleTrigger, fireRule } from '../core/ruleEngine';
+import { getWeatherProvider, WeatherConditions, WeatherLocation } from '../core/weather';
+import { Rule, WeatherState } from '../types/firestore';
+
+/**
+ * Сохраняет результат проверки условия в weatherStates/{ruleId} и решает, запускать ли правило.
+ * Правило запускается только при переходе «не выполнялось → выполняется»; без сохранённого
+ * состояния (новое или изменённое правило) выполняющееся условие тоже считается переходом.
+ */
+async function applyWeatherState(
+  rule: Rule,
+  matched: boolean,
+  conditions: WeatherConditions,
+  now: Date
+): Promise<boolean> {
+  const ref = db.collection('weatherStates').doc(rule.id);
+  const paramsKey = JSON.stringify(rule.trigger.params ?? {});
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const current = snap.data() as WeatherState | undefined;
+    const previous = current?.paramsKey === paramsKey ? current.matched : false;
+    if (snap.exists && current?.paramsKey === paramsKey && previous === matched) return false;
+
+    tx.set(ref, {
+      ownerId: rule.ownerId,
+      ruleId: rule.id,
+      paramsKey,
+      matched,
+      changedAt: now,
+      lastConditions: conditions,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return matched && !previous;
+  });
+}
+
+function locationKey(location: WeatherLocation): string {
+  // ~1 км: соседние пользователи используют один запрос к провайдеру
+  return `${location.lat.toFixed(2)},${location.lng.toFixed(2)}`;
+}
+
+/**
+ * Опрашивает погоду по сохранённой точке владельцев weather-правил и запускает правила,
+ * условие которых начало выполняться с прошлого опроса.
+ */
+export async function processWeatherRules(now: Date = new Date()): Promise<{
+  rules: number;
+  fired: number;
+  skipped: number;
+  errors: number;
+}> {
+  const provider = await getWeatherProvider();
+  const rulesSnapshot = await db
+    .collection('rules')
+    .where('trigger.type', '==', 'weather')
+    .where('enabled', '==', true)
+    .get();
+
+  const rulesByOwner = new Map<string, Rule[]>();
+  for (const doc of rulesSnapshot.docs) {
+    const rule = { id: doc.id, ...(doc.data() as Omit<Rule, 'id'>) } as Rule;
+    rulesByOwner.set(rule.ownerId, [...(rulesByOwner.get(rule.ownerId) ?? []), rule]);
+  }
+
+  const conditionsCache = new Map<string, Promise<WeatherConditions>>();
+  let fired = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const [ownerId, rules] of rulesByOwner) {
+    const userSnap = await db.collection('users').doc(ownerId).get();
+    const location = (userSnap.data() as { weatherLocation?: WeatherLocation | null } | undefined)?.weatherLocation;
+    if (!location) {
+      skipped += rules.length;
+      continue;
+    }
+
+    let conditions: WeatherConditions;
+    try {
+      const key = locationKey(location);
+      if (!conditionsCache.has(key)) conditionsCache.set(key, provider.getCurrentConditions(location));
+      conditions = await (conditionsCache.get(key) as Promise<WeatherConditions>);
+    } catch (error) {
+      errors += rules.length;
+      logger.warn('Weather provider request failed', {
+        ownerId,
+        provider: provider.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      continue;
+    }
+
+    for (const rule of rules) {
+      try {
+        const evaluation = evaluateRuleTrigger(rule, { ...conditions }, now);
+        const shouldFire = await applyWeatherState(rule, evaluation.matched, conditions, now);
+        if (!shouldFire) continue;
+
+        const result = await fireRule(rule, {
+          ruleId: rule.id,
+          triggerType: 'weather',
+          payload: { ...conditions, provider: provider.name },
+        }, evaluation.matchedConditions);
+        if (result.status === 'failed') {
+          errors++;
+        } else {
+          fired++;
+        }
+      } catch (error) {
+        errors++;
+        logger.error('Failed to process weather rule', {
+          ruleId: rule.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  return { rules: rulesSnapshot.size, fired, skipped, errors };
+}
+
+/**
+ * Опрос погоды для IFTTT-правил с триггером weather
+ * Запускается каждые 15 минут
+ */
+export const weatherPollerHandler = onSchedule({
+  schedule: '*/15 * * * *', // Каждые 15 минут
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 300,
+}, async (event) => {
+  try {
+    const stats = await processWeatherRules();
+    logger.info('Weather poller job completed', {
+      ...stats,
+      scheduledTime: event.scheduleTime,
+    });
+  } catch (error) {
+    logger.error('Weather poller job failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
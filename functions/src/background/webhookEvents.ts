@@ -0,0 +1,42 @@
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import { processStaleWebhookEvents, processWebhookEvent } from '../core/webhookEvents';
+
+/**
+ * Обработка входящего вебхука из очереди: запуск правил владельца интеграции
+ */
+export const webhookEventsHandler = onDocumentCreated('webhookEvents/{eventId}', async (event) => {
+  try {
+    await processWebhookEvent(event.params.eventId);
+  } catch (error) {
+    // Событие остаётся в queued и будет подобрано плановым проходом
+    logger.error('Webhook event handler failed', {
+      eventId: event.params.eventId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Досылка событий, не забранных триггером, и повторный захват зависших в processing
+ * Запускается каждые 5 минут
+ */
+export const webhookEventsSweepHandler = onSchedule({
+  schedule: '*/5 * * * *', // Каждые 5 минут
+  timeZone: 'UTC',
+  memory: '256MiB',
+  timeoutSeconds: 300,
+}, async (event) => {
+  try {
+    const processed = await processStaleWebhookEvents();
+    if (processed > 0) {
+      logger.info('Stale webhook events processed', { processed, scheduledTime: event.scheduleTime });
+    }
+  } catch (error) {
+    logger.error('Webhook events sweep failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      scheduledTime: event.scheduleTime,
+    });
+  }
+});
@@ -0,0 +1,277 @@
+/**
+ * ICS-календари для calendar-правил
+ * - источник: ссылка на ICS-фид (https/webcal, периодически синхронизируется) или загруженный файл
+ * - события разбираются на сервере (core/ics) и сохраняются в calendarEvents в таймзоне пользователя
+ * - при синхронизации события календаря заменяются целиком; id вхождения стабилен
+ *   (календарь + UID + время начала), поэтому защита от повторных срабатываний переживает пересинхронизацию
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import crypto from 'crypto';
+import { db } from './firebase';
+import { ApiError } from './http';
+import { isPublicHttpsUrl, publicHttpsFetch, PublicHttpsTarget, resolvePublicHttpsUrl, UnsafeUrlError } from './publicHttps';
+import { IcsEvent, IcsParseError, parseIcs } from './ics';
+import { Calendar } from '../types/firestore';
+
+// Максимальный размер ICS (фид или загрузка)
+export const MAX_ICS_BYTES = 512 * 1024;
+// Максимум вхождений на календарь
+export const MAX_EVENTS_PER_CALENDAR = 500;
+// Горизонт разворачивания: фиды пересинхронизируются, загрузки — нет
+const FEED_HORIZON_DAYS = 14;
+const UPLOAD_HORIZON_DAYS = 365;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+const MAX_FEED_REDIRECTS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 400;
+
+export type CalendarSyncErrorCode = 'invalid_url' | 'fetch_failed' | 'too_large' | 'invalid_ics';
+
+export class CalendarSyncError extends Error {
+  constructor(public readonly code: CalendarSyncErrorCode, message: string) {
+    super(message);
+    this.name = 'CalendarSyncError';
+  }
+
+  toApiError(): ApiError {
+    return {
+      code: this.code === 'fetch_failed' ? 'failed_precondition' : 'invalid_argument',
+      message: this.message,
+      details: { reason: this.code },
+    };
+  }
+}
+
+/**
+ * Нормализует ссылку на фид: webcal:// → https://, допускается только https на публичный хост
+ */
+export function normalizeFeedUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim().replace(/^webcals?:\/\//i, 'https://'));
+  } catch {
+    throw new CalendarSyncError('invalid_url', 'Invalid calendar URL');
+  }
+  if (!isPublicHttpsUrl(url.toString())) {
+    throw new CalendarSyncError('invalid_url', 'Calendar URL must be a public https or webcal address');
+  }
+  return url.toString();
+}
+
+// Хост фида резолвится перед каждым запросом: подключение только к проверенному публичному адресу
+async function resolveFeedHost(url: string): Promise<PublicHttpsTarget> {
+  try {
+    return await resolvePublicHttpsUrl(url);
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) throw new CalendarSyncError('invalid_url', error.message);
+    throw error;
+  }
+}
+
+/**
+ * Загружает ICS-фид с таймаутом и ограничением размера.
+ * Редиректы проходятся вручную: каждый адрес заново проверяется normalizeFeedUrl и резолвится,
+ * чтобы публичный фид не перенаправил запрос на внутренний адрес.
+ */
+export async function fetchIcsFeed(url: string): Promise<string> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let target = normalizeFeedUrl(url);
+  for (let redirects = 0; ; redirects++) {
+    const resolved = await resolveFeedHost(target);
+    let response: Response;
+    try {
+      response = await publicHttpsFetch(resolved, {
+        headers: { Accept: 'text/calendar, text/plain;q=0.9' },
+        signal,
+      });
+    } catch (error) {
+      throw new CalendarSyncError('fetch_failed', `Failed to fetch calendar: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= MAX_FEED_REDIRECTS) {
+        throw new CalendarSyncError('fetch_failed', 'Calendar feed redirected too many times');
+      }
+      target = normalizeFeedUrl(new URL(location, target).toString());
+      continue;
+    }
+    if (!response.ok) {
+      throw new CalendarSyncError('fetch_failed', `Calendar feed responded with HTTP ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length') ?? 0) > MAX_ICS_BYTES) {
+      await response.body?.cancel();
+      throw new CalendarSyncError('too_large', `Calendar exceeds ${MAX_ICS_BYTES} bytes`);
+    }
+    return readLimitedBody(response);
+  }
+}
+
+// Читает тело потоком и обрывает загрузку, как только превышен MAX_ICS_BYTES (content-length может отсутствовать)
+async function readLimitedBody(response: Response): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > MAX_ICS_BYTES) {
+        await reader.cancel();
+        throw new CalendarSyncError('too_large', `Calendar exceeds ${MAX_ICS_BYTES} bytes`);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof CalendarSyncError) throw error;
+    throw new CalendarSyncError('fetch_failed', `Failed to fetch calendar: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Разбирает ICS в вхождения событий в окне синхронизации
+ */
+export function parseCalendarEvents(ics: string, source: Calendar['source'], timeZone: string | undefined, now: Date): IcsEvent[] {
+  if (Buffer.byteLength(ics) > MAX_ICS_BYTES) {
+    throw new CalendarSyncError('too_large', `Calendar exceeds ${MAX_ICS_BYTES} bytes`);
+  }
+  const horizonDays = source === 'url' ? FEED_HORIZON_DAYS : UPLOAD_HORIZON_DAYS;
+  try {
+    return parseIcs(ics, {
+      from: new Date(now.getTime() - DAY_MS),
+      to: new Date(now.getTime() + horizonDays * DAY_MS),
+      timeZone,
+      maxEvents: MAX_EVENTS_PER_CALENDAR,
+    });
+  } catch (error) {
+    if (error instanceof IcsParseError) throw new CalendarSyncError('invalid_ics', error.message);
+    throw error;
+  }
+}
+
+export function calendarEventId(calendarId: string, event: Pick<IcsEvent, 'uid' | 'startAt'>): string {
+  const hash = crypto.createHash('sha256').update(`${event.uid}|${event.startAt.toISOString()}`).digest('hex');
+  return `${calendarId}_${hash.slice(0, 24)}`;
+}
+
+async function commitInChunks(ops: Array<(batch: FirebaseFirestore.WriteBatch) => void>): Promise<void> {
+  for (let i = 0; i < ops.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    ops.slice(i, i + BATCH_SIZE).forEach((op) => op(batch));
+    await batch.commit();
+  }
+}
+
+/**
+ * Заменяет события календаря: записывает новые вхождения и удаляет исчезнувшие
+ */
+export async function replaceCalendarEvents(
+  calendarId: string,
+  ownerId: string,
+  events: IcsEvent[]
+): Promise<number> {
+  const existing = await db.collection('calendarEvents').where('calendarId', '==', calendarId).get();
+  const ops: Array<(batch: FirebaseFirestore.WriteBatch) => void> = [];
+  const keep = new Set<string>();
+
+  for (const event of events) {
+    const id = calendarEventId(calendarId, event);
+    if (keep.has(id)) continue;
+    keep.add(id);
+    const ref = db.collection('calendarEvents').doc(id);
+    ops.push((batch) => batch.set(ref, {
+      id,
+      ownerId,
+      calendarId,
+      uid: event.uid,
+      title: event.title,
+      location: event.location,
+      startAt: event.startAt,
+      endAt: event.endAt,
+      allDay: event.allDay,
+    }));
+  }
+  for (const doc of existing.docs) {
+    if (!keep.has(doc.id)) ops.push((batch) => batch.delete(doc.ref));
+  }
+
+  await commitInChunks(ops);
+  return keep.size;
+}
+
+/**
+ * Удаляет все события календаря (при удалении календаря)
+ */
+export async function deleteCalendarEvents(calendarId: string): Promise<number> {
+  const snapshot = await db.collection('calendarEvents').where('calendarId', '==', calendarId).get();
+  await commitInChunks(snapshot.docs.map((doc) => (batch) => batch.delete(doc.ref)));
+  return snapshot.size;
+}
+
+async function getUserTimeZone(ownerId: string): Promise<string | undefined> {
+  const snap = await db.collection('users').doc(ownerId).get();
+  return (snap.data() as { timezone?: string } | undefined)?.timezone;
+}
+
+/**
+ * Синхронизирует календарь из переданного текста ICS; без него фид загружается по ссылке
+ * (для загруженного календаря текст обязателен).
+ * Результат (или ошибка) сохраняется в документе календаря; ошибка пробрасывается дальше.
+ */
+export async function syncCalendar(
+  calendar: Pick<Calendar, 'id' | 'ownerId' | 'source' | 'url'>,
+  ics?: string,
+  now: Date = new Date()
+): Promise<number> {
+  const ref = db.collection('calendars').doc(calendar.id);
+  try {
+    const text = ics ?? (calendar.source === 'url' ? await fetchIcsFeed(calendar.url as string) : undefined);
+    if (text === undefined) {
+      throw new CalendarSyncError('invalid_ics', 'ICS content is required for uploaded calendars');
+    }
+    const events = parseCalendarEvents(text, calendar.source, await getUserTimeZone(calendar.ownerId), now);
+    const eventsCount = await replaceCalendarEvents(calendar.id, calendar.ownerId, events);
+    await ref.set({
+      eventsCount,
+      lastSyncedAt: now,
+      lastSyncError: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    return eventsCount;
+  } catch (error) {
+    const lastSyncError = error instanceof CalendarSyncError ?
+      { code: error.code, message: error.message } :
+      { code: 'internal', message: error instanceof Error ? error.message : 'Unknown error' };
+    await ref.set({ lastSyncError, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+    throw error;
+  }
+}
+
+/**
+ * Пересинхронизирует все календари-фиды. Ошибка одного фида не прерывает остальные.
+ */
+export async function syncCalendarFeeds(now: Date = new Date()): Promise<{ synced: number; failed: number }> {
+  const snapshot = await db.collection('calendars').where('source', '==', 'url').get();
+  let synced = 0;
+  let failed = 0;
+  for (const doc of snapshot.docs) {
+    const calendar = { ...(doc.data() as Calendar), id: doc.id };
+    try {
+      await syncCalendar(calendar, undefined, now);
+      synced++;
+    } catch (error) {
+      failed++;
+      logger.warn('Calendar feed sync failed', {
+        calendarId: doc.id,
+        ownerId: calendar.ownerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+  return { synced, failed };
+}
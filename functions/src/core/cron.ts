@@ -0,0 +1,281 @@
+/**
+ * Разбор и вычисление cron-выражений в IANA таймзоне (без внешних зависимостей)
+ * - 5 полей: минута, час, день месяца, месяц, день недели
+ * - поддержка '*', списков, диапазонов, шагов, имён месяцев/дней и макросов @hourly/@daily/...
+ * - семантика Vixie cron: если ограничены и день месяца, и день недели — достаточно совпадения любого
+ */
+
+export interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface FieldDef {
+  name: string;
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+};
+
+const FIELDS: FieldDef[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 допускается как воскресенье и нормализуется в 0
+  { name: 'dayOfWeek', min: 0, max: 7, names: DAY_NAMES },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Предел итераций поиска следующего срабатывания (хватает на несколько лет для редких выражений)
+const MAX_SEARCH_STEPS = 20000;
+
+function parseValue(raw: string, field: FieldDef): number {
+  const lower = raw.toLowerCase();
+  if (field.names && lower in field.names) {
+    return field.names[lower];
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${field.name} value: ${raw}`);
+  }
+  const value = Number.parseInt(raw, 10);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} value out of range: ${raw}`);
+  }
+  return value;
+}
+
+function parseField(raw: string, field: FieldDef): Set<number> {
+  const values = new Set<number>();
+  for (const part of raw.split(',')) {
+    if (!part) {
+      throw new Error(`Empty ${field.name} list item`);
+    }
+    const [rangePart, stepPart] = part.split('/');
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number.parseInt(stepPart, 10) === 0) {
+        throw new Error(`Invalid ${field.name} step: ${stepPart}`);
+      }
+      step = Number.parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = parseValue(a, field);
+      end = parseValue(b, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range: ${rangePart}`);
+      }
+    } else {
+      start = parseValue(rangePart, field);
+      // "5/15" означает «с 5 до конца диапазона с шагом 15»
+      end = stepPart !== undefined ? field.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+  return values;
+}
+
+/**
+ * Разбирает cron-выражение. Бросает Error с описанием при невалидном выражении.
+ */
+export function parseCron(expression: string): CronSpec {
+  const trimmed = expression.trim();
+  const normalized = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have exactly 5 fields');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeekRaw] = parts.map((p, i) => parseField(p, FIELDS[i]));
+  const daysOfWeek = new Set<number>([...daysOfWeekRaw].map((d) => (d === 7 ? 0 : d)));
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== '*' && !parts[2].startsWith('*/'),
+    dowRestricted: parts[4] !== '*' && !parts[4].startsWith('*/'),
+  };
+}
+
+/**
+ * Проверяет, что выражение корректно
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Проверяет, что таймзона — валидное IANA имя
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Локальные компоненты даты в указанной таймзоне
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS[parts.weekday],
+  };
+}
+
+function dayMatches(spec: CronSpec, parts: ZonedParts): boolean {
+  if (!spec.months.has(parts.month)) return false;
+  const domMatch = spec.daysOfMonth.has(parts.day);
+  const dowMatch = spec.daysOfWeek.has(parts.weekday);
+  if (spec.domRestricted && spec.dowRestricted) return domMatch || dowMatch;
+  if (spec.domRestricted) return domMatch;
+  if (spec.dowRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * Совпадает ли минута, содержащая date, с выражением в таймзоне
+ */
+export function cronMatches(spec: CronSpec, date: Date, timeZone: string): boolean {
+  const parts = getZonedParts(date, timeZone);
+  return dayMatches(spec, parts) && spec.hours.has(parts.hour) && spec.minutes.has(parts.minute);
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Начало следующего локального дня. Скачок на (24 ч − локальное время) в день перехода на летнее время
+ * (23 ч) попадает в 01:00 следующего дня — тогда возвращаемся на перелёт, если полночь существует;
+ * в 25-часовой день скачок не доходит до полуночи, и её добирает следующая итерация.
+ */
+function nextLocalMidnight(t: number, parts: ZonedParts, timeZone: string): number {
+  const jumped = t + (24 * 60 - (parts.hour * 60 + parts.minute)) * MINUTE_MS;
+  const landed = getZonedParts(new Date(jumped), timeZone);
+  const overshoot = (landed.hour * 60 + landed.minute) * MINUTE_MS;
+  if (overshoot === 0 || landed.day === parts.day) return jumped;
+  const midnight = jumped - overshoot;
+  return getZonedParts(new Date(midnight), timeZone).day === landed.day ? midnight : jumped;
+}
+
+/**
+ * Ближайшее срабатывание строго после `after` (с точностью до минуты) или null, если не найдено.
+ * Перебор идёт скачками: до следующего локального дня/часа, если день/час не совпадают.
+ */
+export function nextCronOccurrence(spec: CronSpec, after: Date, timeZone: string): Date | null {
+  let t = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const parts = getZonedParts(new Date(t), timeZone);
+    if (!dayMatches(spec, parts)) {
+      t = nextLocalMidnight(t, parts, timeZone);
+      continue;
+    }
+    if (!spec.hours.has(parts.hour)) {
+      t += (60 - parts.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!spec.minutes.has(parts.minute)) {
+      t += MINUTE_MS;
+      continue;
+    }
+    return new Date(t);
+  }
+  return null;
+}
+
+/**
+ * Срабатывания в полуинтервале (from, to], не более limit штук
+ */
+export function cronOccurrencesBetween(
+  spec: CronSpec,
+  from: Date,
+  to: Date,
+  timeZone: string,
+  limit = 1000
+): Date[] {
+  const result: Date[] = [];
+  let cursor: Date | null = from;
+  while (result.length < limit) {
+    cursor = nextCronOccurrence(spec, cursor, timeZone);
+    if (!cursor || cursor.getTime() > to.getTime()) break;
+    result.push(cursor);
+  }
+  return result;
+}
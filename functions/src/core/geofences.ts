@@ -0,0 +1,218 @@
+/**
+ * Геозоны и события местоположения для geo-правил
+ * - событие enter/exit приходит либо с координатами (lat/lng/accuracy), либо с geofenceId,
+ *   который определил сам телефон
+ * - состояние «внутри/снаружи» хранится в geofenceStates; правила запускаются только при смене состояния
+ * - гистерезис: по координатам выход засчитывается за пределами radiusM + geofence_hysteresis_meters
+ * - кулдаун: повторная смена состояния раньше geofence_cooldown_minutes меняет состояние, но правила не запускает
+ * - события хранятся коротко (location_event_retention_hours), точки с большой погрешностью не сохраняются
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { db } from './firebase';
+import {
+  getGeofenceCooldownMinutes,
+  getGeofenceHysteresisMeters,
+  getLocationEventRetentionHours,
+  getLocationMaxAccuracyMeters,
+} from './remoteConfig';
+import { fireMatchingRules, RuleFireSummary } from './ruleEngine';
+import { Geofence, LocationEvent } from '../types/firestore';
+
+const EARTH_RADIUS_M = 6371000;
+
+export type GeofenceEventType = 'enter' | 'exit';
+
+export interface LocationReport {
+  ownerId: string;
+  event: GeofenceEventType;
+  geofenceId?: string;
+  lat?: number;
+  lng?: number;
+  accuracy?: number;
+  occurredAt: Date;
+}
+
+export type LocationTransition = LocationEvent['transitions'][number];
+
+export type LocationReportResult =
+  | { eventId: string; transitions: LocationTransition[] }
+  | { eventId: null; transitions: []; ignored: 'low_accuracy' }
+  | { error: { code: string; message: string } };
+
+/**
+ * Расстояние между точками по формуле гаверсинусов, в метрах
+ */
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function geofenceStateId(ownerId: string, geofenceId: string): string {
+  return `${ownerId}_${geofenceId}`;
+}
+
+interface Candidate {
+  geofence: Geofence;
+  distanceM?: number;
+}
+
+/**
+ * Меняет состояние геозоны в транзакции и решает, запускать ли правила.
+ * trustReport — событие пришло от телефона по конкретной геозоне: при отсутствии состояния
+ * считаем, что до события пользователь был в противоположном состоянии.
+ */
+async function applyTransition(
+  ownerId: string,
+  geofenceId: string,
+  event: GeofenceEventType,
+  trustReport: boolean,
+  now: Date,
+  cooldownMs: number
+): Promise<LocationTransition['status']> {
+  const stateRef = db.collection('geofenceStates').doc(geofenceStateId(ownerId, geofenceId));
+  const target = event === 'enter' ? 'inside' : 'outside';
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(stateRef);
+    const current = snap.data() as { state?: string; lastFiredAt?: FirebaseFirestore.Timestamp } | undefined;
+    // Без сохранённого состояния вход засчитывается всегда, а выход — только если о нём сообщил телефон
+    const opposite = target === 'inside' ? 'outside' : 'inside';
+    const previous = current?.state ?? (trustReport || event === 'enter' ? opposite : target);
+
+    if (previous === target) {
+      if (!snap.exists) {
+        tx.set(stateRef, { ownerId, geofenceId, state: target, changedAt: now });
+      }
+      return 'unchanged';
+    }
+
+    const lastFiredMs = current?.lastFiredAt?.toMillis?.() ?? 0;
+    const inCooldown = lastFiredMs > 0 && now.getTime() - lastFiredMs < cooldownMs;
+    tx.set(
+      stateRef,
+      {
+        ownerId,
+        geofenceId,
+        state: target,
+        changedAt: now,
+        ...(inCooldown ? {} : { lastFiredAt: now }),
+      },
+      { merge: true }
+    );
+    return inCooldown ? 'cooldown' : 'fired';
+  });
+}
+
+/**
+ * Обрабатывает событие местоположения: находит затронутые геозоны, применяет гистерезис
+ * и кулдаун, запускает geo-правила и сохраняет событие с коротким сроком хранения.
+ */
+export async function processLocationReport(report: LocationReport): Promise<LocationReportResult> {
+  const [hysteresisM, cooldownMinutes, maxAccuracyM, retentionHours] = await Promise.all([
+    getGeofenceHysteresisMeters(),
+    getGeofenceCooldownMinutes(),
+    getLocationMaxAccuracyMeters(),
+    getLocationEventRetentionHours(),
+  ]);
+
+  const candidates: Candidate[] = [];
+  if (report.geofenceId) {
+    const snap = await db.collection('geofences').doc(report.geofenceId).get();
+    const geofence = snap.data() as Geofence | undefined;
+    if (!snap.exists || geofence?.ownerId !== report.ownerId) {
+      return { error: { code: 'not_found', message: 'Geofence not found' } };
+    }
+    candidates.push({ geofence: { ...geofence, id: snap.id } });
+  } else {
+    const point = { lat: report.lat as number, lng: report.lng as number };
+    if (typeof report.accuracy === 'number' && report.accuracy > maxAccuracyM) {
+      logger.info('Location event ignored: low accuracy', { ownerId: report.ownerId, accuracy: report.accuracy });
+      return { eventId: null, transitions: [], ignored: 'low_accuracy' };
+    }
+    const geofencesSnap = await db.collection('geofences').where('ownerId', '==', report.ownerId).get();
+    for (const doc of geofencesSnap.docs) {
+      const geofence = { ...(doc.data() as Geofence), id: doc.id };
+      const distanceM = distanceMeters(point, geofence);
+      const affected = report.event === 'enter' ? distanceM <= geofence.radiusM : distanceM >= geofence.radiusM + hysteresisM;
+      if (affected) candidates.push({ geofence, distanceM: Math.round(distanceM) });
+    }
+  }
+
+  const now = new Date();
+  const transitions: LocationTransition[] = [];
+  for (const { geofence, distanceM } of candidates) {
+    const status = await applyTransition(
+      report.ownerId,
+      geofence.id,
+      report.event,
+      Boolean(report.geofenceId),
+      now,
+      cooldownMinutes * 60 * 1000
+    );
+    if (status !== 'fired') {
+      transitions.push({ geofenceId: geofence.id, status });
+      continue;
+    }
+
+    const rules: RuleFireSummary[] = await fireMatchingRules(
+      report.ownerId,
+      'geo',
+      { geofenceId: geofence.id, event: report.event },
+      {
+        geofenceId: geofence.id,
+        geofenceName: geofence.name,
+        event: report.event,
+        occurredAt: report.occurredAt.toISOString(),
+        ...(distanceM !== undefined ? { distanceM } : {}),
+      }
+    );
+    transitions.push({ geofenceId: geofence.id, status, rules });
+  }
+
+  const eventRef = db.collection('locationEvents').doc();
+  await eventRef.set({
+    id: eventRef.id,
+    ownerId: report.ownerId,
+    event: report.event,
+    source: report.geofenceId ? 'geofence' : 'coordinates',
+    ...(report.geofenceId ? { geofenceId: report.geofenceId } : {}),
+    ...(typeof report.lat === 'number' ? { lat: report.lat, lng: report.lng } : {}),
+    ...(typeof report.accuracy === 'number' ? { accuracy: report.accuracy } : {}),
+    occurredAt: report.occurredAt,
+    transitions,
+    expiresAt: new Date(now.getTime() + retentionHours * 60 * 60 * 1000),
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  logger.info('Location event processed', {
+    ownerId: report.ownerId,
+    eventId: eventRef.id,
+    event: report.event,
+    transitions: transitions.map((t) => `${t.geofenceId}:${t.status}`),
+  });
+  return { eventId: eventRef.id, transitions };
+}
+
+/**
+ * Удаляет просроченные события местоположения. Возвращает количество удалённых документов.
+ */
+export async function cleanupExpiredLocationEvents(now: Date = new Date(), batchSize = 500): Promise<number> {
+  let deleted = 0;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const snapshot = await db.collection('locationEvents').where('expiresAt', '<', now).limit(batchSize).get();
+    if (snapshot.empty) break;
+    const batch = db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    deleted += snapshot.size;
+    if (snapshot.size < batchSize) break;
+  }
+  return deleted;
+}
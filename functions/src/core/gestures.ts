@@ -0,0 +1,169 @@
+/**
+ * Обработка жестов устройства (POST /v1/devices/:id/gestures)
+ * - событие сохраняется в devices/{deviceId}/gestureEvents/{eventId}; повтор с тем же eventId
+ *   возвращает сохранённый результат без повторного запуска практики и правил
+ * - событие, обработка которого упала (failed) или зависла в processing, обрабатывается повтором заново
+ * - запускается практика, назначенная жесту в settings.gestures устройства
+ * - запускаются включённые правила владельца с триггером device_gesture для этого жеста и устройства
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { db } from './firebase';
+import { fireMatchingRules, RuleFireSummary } from './ruleEngine';
+import { Device, DeviceGesture, DeviceGestureEvent } from '../types/firestore';
+
+// Соответствие жеста ключу в Device.settings.gestures
+export const GESTURE_SETTINGS_KEYS: Record<DeviceGesture, keyof Device['settings']['gestures']> = {
+  single_tap: 'singleTap',
+  double_tap: 'doubleTap',
+  long_press: 'longPress',
+};
+
+// Дольше таймаута HTTP-функции api (60 с): processing старше этого срока значит, что запрос оборвался
+export const GESTURE_PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface DeviceGestureInput {
+  ownerId: string;
+  deviceId: string;
+  eventId: string;
+  gesture: DeviceGesture;
+  occurredAt: Date;
+  gestures?: Partial<Device['settings']['gestures']>;
+}
+
+export interface DeviceGestureResult {
+  event: Record<string, unknown>;
+  duplicate: boolean;
+}
+
+interface GesturePracticeResult {
+  practiceId: string | null;
+  sessionId: string | null;
+  practiceError: { code: string; message: string } | null;
+}
+
+/**
+ * Создаёт сессию практики, назначенной жесту. 'none' или пустое значение — жест без практики.
+ */
+async function startGesturePractice(input: DeviceGestureInput): Promise<GesturePracticeResult> {
+  const practiceId = input.gestures?.[GESTURE_SETTINGS_KEYS[input.gesture]];
+  if (!practiceId || practiceId === 'none') {
+    return { practiceId: null, sessionId: null, practiceError: null };
+  }
+
+  const practiceSnap = await db.collection('practices').doc(practiceId).get();
+  if (!practiceSnap.exists) {
+    return { practiceId, sessionId: null, practiceError: { code: 'not_found', message: 'Practice not found' } };
+  }
+
+  const sessionRef = db.collection('sessions').doc();
+  await sessionRef.set({
+    id: sessionRef.id,
+    ownerId: input.ownerId,
+    practiceId,
+    deviceId: input.deviceId,
+    status: 'started',
+    source: 'gesture',
+    gestureEventId: input.eventId,
+    intensity: null,
+    brightness: null,
+    startedAt: FieldValue.serverTimestamp(),
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return { practiceId, sessionId: sessionRef.id, practiceError: null };
+}
+
+// Повтор забирает событие заново, если прошлая обработка упала или зависла
+function isRetryable(event: DeviceGestureEvent, now: Date): boolean {
+  if (event.status === 'failed') return true;
+  if (event.status !== 'processing') return false;
+  const updatedMs = (event.updatedAt?.seconds ?? 0) * 1000;
+  return now.getTime() - updatedMs >= GESTURE_PROCESSING_TIMEOUT_MS;
+}
+
+export async function processDeviceGesture(input: DeviceGestureInput, now: Date = new Date()): Promise<DeviceGestureResult> {
+  const eventRef = db.collection('devices').doc(input.deviceId).collection('gestureEvents').doc(input.eventId);
+
+  // Резервируем eventId атомарно: параллельные повторы увидят уже созданный документ
+  const existing = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(eventRef);
+    const current = snap.data() as DeviceGestureEvent | undefined;
+    if (snap.exists && current && !isRetryable(current, now)) return current as unknown as Record<string, unknown>;
+    if (current) {
+      tx.set(eventRef, { status: 'processing', error: null, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+      return null;
+    }
+    tx.set(eventRef, {
+      id: input.eventId,
+      ownerId: input.ownerId,
+      deviceId: input.deviceId,
+      gesture: input.gesture,
+      occurredAt: input.occurredAt,
+      status: 'processing',
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return null;
+  });
+  if (existing) {
+    return { event: existing, duplicate: true };
+  }
+
+  let practice: GesturePracticeResult;
+  let rules: RuleFireSummary[] = [];
+  try {
+    practice = await startGesturePractice(input);
+
+    try {
+      rules = await fireMatchingRules(
+        input.ownerId,
+        'device_gesture',
+        { gesture: input.gesture, deviceId: input.deviceId },
+        {
+          deviceId: input.deviceId,
+          gesture: input.gesture,
+          eventId: input.eventId,
+          occurredAt: input.occurredAt.toISOString(),
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to evaluate gesture rules', {
+        deviceId: input.deviceId,
+        eventId: input.eventId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    await eventRef.update({
+      status: 'processed',
+      ...practice,
+      rules,
+      processedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    // Снимаем резерв, чтобы повтор клиента с тем же eventId обработал жест заново
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await eventRef.update({ status: 'failed', error: message, updatedAt: FieldValue.serverTimestamp() }).catch((updateError) => {
+      logger.error('Failed to release gesture event', {
+        deviceId: input.deviceId,
+        eventId: input.eventId,
+        error: updateError instanceof Error ? updateError.message : 'Unknown error',
+      });
+    });
+    throw error;
+  }
+
+  logger.info('Device gesture processed', {
+    deviceId: input.deviceId,
+    eventId: input.eventId,
+    gesture: input.gesture,
+    sessionId: practice.sessionId,
+    rulesFired: rules.length,
+  });
+
+  const fresh = await eventRef.get();
+  return { event: fresh.data() as Record<string, unknown>, duplicate: false };
+}
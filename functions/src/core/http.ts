@@ -124,8 +124,14 @@ export function corsMiddleware(allowOrigin = '*') {
   };
 }
 
+// Исходные байты тела сохраняются в req.rawBody (как в Cloud Functions) — по ним проверяются подписи вебхуков
 export function jsonMiddleware() {
-  return express.json({ limit: '1mb' });
+  return express.json({
+    limit: '1mb',
+    verify: (req, _res, buf) => {
+      (req as Request & { rawBody?: Buffer }).rawBody = buf;
+    },
+  });
 }
 
 // ETag/If-None-Match для GET ответов
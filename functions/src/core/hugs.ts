@@ -0,0 +1,201 @@
+/**
+ * Отправка «объятий»: общая логика для POST /v1/hugs.send и действий правил
+ * - кулдаун между отправками (Remote Config)
+ * - проверка пары и получателя в транзакции (или без записи — для dry-run)
+ * - FCM пуш получателю и отметка deliveredAt
+ * - событие hug.received для исходящих вебхуков получателя
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { db } from './firebase';
+import { ApiError } from './http';
+import { getHugsCooldownMs } from './remoteConfig';
+import { emitOutboundEvent } from './outboundWebhooks';
+import { recordPatternUsage } from './patternPopularity';
+
+export interface SendHugInput {
+  fromUserId: string;
+  toUserId?: string;
+  pairId?: string;
+  emotion: { color: string; patternId: string };
+  payload?: Record<string, unknown>;
+  inReplyToHugId?: string;
+  language?: string;
+  requestId?: string;
+}
+
+export type SendHugResult =
+  | { hugId: string; toUserId: string; delivered: boolean }
+  | { error: ApiError };
+
+/**
+ * Проверяет кулдаун отправителя. Возвращает ошибку resource_exhausted, если кулдаун не истёк.
+ */
+async function checkHugCooldown(fromUserId: string): Promise<ApiError | null> {
+  const cooldownMs = await getHugsCooldownMs();
+  const currentTime = Date.now();
+  const lastHugQuery = await db
+    .collection('hugs')
+    .where('fromUserId', '==', fromUserId)
+    .orderBy('createdAt', 'desc')
+    .limit(1)
+    .get();
+
+  if (!lastHugQuery.empty) {
+    const lastHug = lastHugQuery.docs[0].data();
+    const lastHugTime = lastHug.createdAt?.toMillis?.() || 0;
+    const timeSinceLastHug = currentTime - lastHugTime;
+
+    if (timeSinceLastHug < cooldownMs) {
+      const remainingCooldown = Math.ceil((cooldownMs - timeSinceLastHug) / 1000);
+      return {
+        code: 'resource_exhausted',
+        message: `Please wait ${remainingCooldown} seconds before sending another hug`,
+        details: { retryAfter: remainingCooldown },
+      };
+    }
+  }
+  return null;
+}
+
+type DocGetter = (ref: FirebaseFirestore.DocumentReference) => Promise<FirebaseFirestore.DocumentSnapshot>;
+
+/**
+ * Определяет получателя по toUserId или паре и проверяет, что отправка разрешена
+ */
+async function resolveHugRecipient(
+  fromUserId: string,
+  toUserIdRaw: string | undefined,
+  pairIdRaw: string | undefined,
+  getDoc: DocGetter
+): Promise<{ toUserId: string } | { error: ApiError }> {
+  let computedToUserId = toUserIdRaw;
+  if (pairIdRaw) {
+    const pairSnap = await getDoc(db.collection('pairs').doc(pairIdRaw));
+    if (!pairSnap.exists) {
+      return { error: { code: 'not_found', message: 'Pair not found' } };
+    }
+    const pair = pairSnap.data() as { memberIds?: string[]; status?: string };
+    const members = Array.isArray(pair.memberIds) ? pair.memberIds : [];
+    if (!members.includes(fromUserId)) {
+      return { error: { code: 'permission_denied', message: 'You are not a member of this pair' } };
+    }
+    if (pair.status === 'blocked') {
+      return { error: { code: 'failed_precondition', message: 'Pair is blocked' } };
+    }
+    computedToUserId = members.find((m) => m !== fromUserId);
+    if (!computedToUserId) {
+      return { error: { code: 'invalid_argument', message: 'Invalid pair members' } };
+    }
+  }
+
+  if (!computedToUserId) {
+    return { error: { code: 'invalid_argument', message: 'Recipient is required' } };
+  }
+
+  // Запрет на отправку самому себе
+  if (computedToUserId === fromUserId) {
+    return { error: { code: 'failed_precondition', message: 'Cannot send hug to yourself' } };
+  }
+
+  return { toUserId: computedToUserId };
+}
+
+/**
+ * Выполняет все проверки отправки (кулдаун, пара, получатель) без записи в БД.
+ * Используется для dry-run правил.
+ */
+export async function checkHugSendable(
+  input: Pick<SendHugInput, 'fromUserId' | 'toUserId' | 'pairId'>
+): Promise<{ toUserId: string } | { error: ApiError }> {
+  const cooldownError = await checkHugCooldown(input.fromUserId);
+  if (cooldownError) {
+    return { error: cooldownError };
+  }
+  return resolveHugRecipient(input.fromUserId, input.toUserId, input.pairId, (ref) => ref.get());
+}
+
+/**
+ * Отправляет «объятие». Ошибки бизнес-проверок возвращаются как { error },
+ * ошибки БД пробрасываются вызывающему.
+ */
+export async function sendHug(input: SendHugInput): Promise<SendHugResult> {
+  const { fromUserId, toUserId: toUserIdRaw, pairId: pairIdRaw, emotion, payload, inReplyToHugId } = input;
+
+  const cooldownError = await checkHugCooldown(fromUserId);
+  if (cooldownError) {
+    return { error: cooldownError };
+  }
+
+  // Транзакция: проверяем пару и создаём документ «объятия» атомарно
+  const now = FieldValue.serverTimestamp();
+  const hugDocRef = db.collection('hugs').doc();
+  const trxResult = await db.runTransaction(async (tx) => {
+    const recipient = await resolveHugRecipient(fromUserId, toUserIdRaw, pairIdRaw, (ref) => tx.get(ref));
+    if ('error' in recipient) {
+      return recipient;
+    }
+
+    const docData = {
+      id: hugDocRef.id,
+      fromUserId,
+      toUserId: recipient.toUserId,
+      pairId: pairIdRaw || null,
+      emotion,
+      payload: payload ?? null,
+      inReplyToHugId: inReplyToHugId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    } as unknown as Record<string, unknown>;
+    tx.set(hugDocRef, docData);
+    return recipient;
+  });
+
+  if ('error' in trxResult) {
+    return { error: trxResult.error };
+  }
+
+  const resolvedToUserId = trxResult.toUserId;
+
+  // Отправляем FCM пуш всем активным токенам получателя
+  let delivered = false;
+  try {
+    const { sendNotification } = await import('./pushNotifications');
+    const result = await sendNotification(
+      resolvedToUserId,
+      'hug.received',
+      {
+        type: 'hug.received',
+        hugId: hugDocRef.id,
+        fromUserId,
+        color: emotion.color,
+        patternId: emotion.patternId,
+      },
+      input.language
+    );
+    delivered = result.delivered;
+  } catch (err) {
+    logger.error('Failed to send FCM for hug', {
+      hugId: hugDocRef.id,
+      error: err instanceof Error ? err.message : String(err),
+      requestId: input.requestId,
+    });
+  }
+
+  // Если доставили — обновляем deliveredAt
+  if (delivered) {
+    await hugDocRef.set({ deliveredAt: now }, { merge: true });
+  }
+
+  await emitOutboundEvent(resolvedToUserId, 'hug.received', {
+    hugId: hugDocRef.id,
+    fromUserId,
+    pairId: pairIdRaw || null,
+    emotion,
+  });
+
+  await recordPatternUsage(emotion.patternId, 'hug', { userId: fromUserId });
+
+  return { hugId: hugDocRef.id, toUserId: resolvedToUserId, delivered };
+}
@@ -0,0 +1,372 @@
+/**
+ * Минимальный парсер iCalendar (RFC 5545) для calendar-триггеров правил
+ * - VEVENT: UID, SUMMARY, LOCATION, DTSTART, DTEND / DURATION, STATUS, EXDATE, RECURRENCE-ID
+ * - время: UTC (…Z), локальное с TZID, «плавающее» (в таймзоне по умолчанию), даты целого дня
+ * - RRULE: FREQ=DAILY/WEEKLY/MONTHLY/YEARLY с INTERVAL, COUNT, UNTIL и BYDAY (для WEEKLY)
+ *
+ * Повторяющиеся события разворачиваются в отдельные вхождения внутри окна [from, to].
+ */
+
+import { getZonedParts, isValidTimeZone } from './cron';
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  location: string | null;
+  startAt: Date;
+  endAt: Date;
+  allDay: boolean;
+}
+
+export interface IcsParseOptions {
+  from: Date;
+  to: Date;
+  timeZone?: string; // для «плавающего» времени и дат целого дня
+  maxEvents?: number;
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsParseError';
+  }
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface IcsDate {
+  local: LocalDateTime;
+  timeZone: string; // 'UTC' для значений с Z
+  allDay: boolean;
+}
+
+interface RawEvent {
+  uid: string;
+  title: string;
+  location: string | null;
+  start: IcsDate;
+  durationMs: number;
+  rrule: Record<string, string> | null;
+  exdates: Set<number>;
+  recurrenceId: number | null;
+  cancelled: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BYDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Предел окна разворачивания повторов (от начала окна или DTSTART, если оно позже)
+const MAX_RECURRENCE_DAYS = 20 * 366;
+
+// Склейка перенесённых строк (продолжение начинается с пробела или табуляции)
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter((l) => l.trim().length > 0);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: rawName.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch)).trim();
+}
+
+/**
+ * Переводит локальное время в таймзоне в UTC (с учётом перехода на летнее время)
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  if (timeZone === 'UTC') return new Date(asUtc);
+  let guess = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const p = getZonedParts(new Date(guess), timeZone);
+    const zonedAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, local.second);
+    guess += asUtc - zonedAsUtc;
+  }
+  return new Date(guess);
+}
+
+function parseDate(prop: IcsProperty, defaultTimeZone: string): IcsDate {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(prop.value.trim());
+  if (!m) throw new IcsParseError(`Invalid ${prop.name} value: ${prop.value}`);
+  const local = {
+    year: Number(m[1]),
+    month: Number(m[2]),
+    day: Number(m[3]),
+    hour: Number(m[4] ?? 0),
+    minute: Number(m[5] ?? 0),
+    second: Number(m[6] ?? 0),
+  };
+  const allDay = m[4] === undefined;
+  let timeZone = defaultTimeZone;
+  if (m[7]) timeZone = 'UTC';
+  else if (prop.params.TZID && isValidTimeZone(prop.params.TZID)) timeZone = prop.params.TZID;
+  return { local, timeZone, allDay };
+}
+
+function toUtc(date: IcsDate): Date {
+  return zonedTimeToUtc(date.local, date.timeZone);
+}
+
+// ISO 8601 duration (P1D, PT1H30M, P1W)
+function parseDuration(value: string): number {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) throw new IcsParseError(`Invalid DURATION value: ${value}`);
+  const ms = ((Number(m[2] ?? 0) * 7 + Number(m[3] ?? 0)) * 24 * 3600 +
+    Number(m[4] ?? 0) * 3600 + Number(m[5] ?? 0) * 60 + Number(m[6] ?? 0)) * 1000;
+  return m[1] === '-' ? -ms : ms;
+}
+
+function parseRrule(value: string): Record<string, string> {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [k, v] = part.split('=');
+    if (k && v) rule[k.toUpperCase()] = v.toUpperCase();
+  }
+  return rule;
+}
+
+function parseVevent(lines: string[], defaultTimeZone: string): RawEvent | null {
+  const props = lines.map(parseProperty).filter((p): p is IcsProperty => p !== null);
+  const get = (name: string) => props.find((p) => p.name === name);
+
+  const dtstart = get('DTSTART');
+  if (!dtstart) return null;
+  const start = parseDate(dtstart, defaultTimeZone);
+
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  let durationMs = start.allDay ? DAY_MS : 0;
+  if (dtend) durationMs = toUtc(parseDate(dtend, defaultTimeZone)).getTime() - toUtc(start).getTime();
+  else if (duration) durationMs = parseDuration(duration.value);
+
+  const exdates = new Set<number>();
+  for (const p of props.filter((x) => x.name === 'EXDATE')) {
+    for (const v of p.value.split(',')) {
+      exdates.add(toUtc(parseDate({ ...p, value: v }, defaultTimeZone)).getTime());
+    }
+  }
+
+  const recurrenceIdProp = get('RECURRENCE-ID');
+  const rruleProp = get('RRULE');
+  return {
+    uid: unescapeText(get('UID')?.value ?? '') || `${dtstart.value}-${unescapeText(get('SUMMARY')?.value ?? '')}`,
+    title: unescapeText(get('SUMMARY')?.value ?? ''),
+    location: get('LOCATION') ? unescapeText(get('LOCATION')?.value ?? '') || null : null,
+    start,
+    durationMs: Math.max(0, durationMs),
+    rrule: rruleProp ? parseRrule(rruleProp.value) : null,
+    exdates,
+    recurrenceId: recurrenceIdProp ? toUtc(parseDate(recurrenceIdProp, defaultTimeZone)).getTime() : null,
+    cancelled: (get('STATUS')?.value ?? '').toUpperCase() === 'CANCELLED',
+  };
+}
+
+function addDays(local: LocalDateTime, days: number): LocalDateTime {
+  const d = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { ...local, year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function localWeekday(local: LocalDateTime): number {
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+}
+
+function dayNumber(local: Pick<LocalDateTime, 'year' | 'month' | 'day'>): number {
+  return Math.floor(Date.UTC(local.year, local.month - 1, local.day) / DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Смещение дня недели от понедельника (WKST=MO)
+function mondayOffset(weekday: number): number {
+  return (weekday + 6) % 7;
+}
+
+interface RecurrencePeriods {
+  // Номер периода (шаг INTERVAL), в который попадает локальная дата; может быть отрицательным
+  indexOf(local: LocalDateTime): number;
+  // Первая локальная дата периода: по ней определяется, что период целиком позже окна
+  anchor(index: number): LocalDateTime;
+  // Вхождения периода по возрастанию, не раньше DTSTART
+  dates(index: number): LocalDateTime[];
+}
+
+function recurrencePeriods(start: LocalDateTime, freq: string, interval: number, byDay: number[]): RecurrencePeriods | null {
+  const startDay = dayNumber(start);
+  const monthOf = (index: number) => {
+    const total = start.year * 12 + start.month - 1 + index * interval;
+    return { year: Math.floor(total / 12), month: (total % 12) + 1 };
+  };
+
+  if (freq === 'DAILY') {
+    return {
+      indexOf: (local) => Math.floor((dayNumber(local) - startDay) / interval),
+      anchor: (index) => addDays(start, index * interval),
+      dates: (index) => [addDays(start, index * interval)],
+    };
+  }
+  if (freq === 'WEEKLY') {
+    const startOffset = mondayOffset(localWeekday(start));
+    const offsets = [...new Set(byDay.map(mondayOffset))].sort((a, b) => a - b);
+    const weekStart = (index: number) => addDays(start, index * interval * 7 - startOffset);
+    return {
+      indexOf: (local) => Math.floor(Math.floor((dayNumber(local) - startDay + startOffset) / 7) / interval),
+      anchor: weekStart,
+      dates: (index) => offsets
+        .filter((offset) => index > 0 || offset >= startOffset)
+        .map((offset) => addDays(weekStart(index), offset)),
+    };
+  }
+  if (freq === 'MONTHLY') {
+    return {
+      indexOf: (local) => Math.floor(((local.year - start.year) * 12 + local.month - start.month) / interval),
+      anchor: (index) => ({ ...start, ...monthOf(index), day: 1 }),
+      dates: (index) => {
+        const { year, month } = monthOf(index);
+        return start.day <= daysInMonth(year, month) ? [{ ...start, year, month }] : [];
+      },
+    };
+  }
+  if (freq === 'YEARLY') {
+    return {
+      indexOf: (local) => Math.floor((local.year - start.year) / interval),
+      anchor: (index) => ({ ...start, year: start.year + index * interval, month: 1, day: 1 }),
+      dates: (index) => {
+        const year = start.year + index * interval;
+        return start.day <= daysInMonth(year, start.month) ? [{ ...start, year }] : [];
+      },
+    };
+  }
+  return null;
+}
+
+/**
+ * Вхождения повторяющегося события (UTC-время начала) для окна [from, to].
+ * Разворачивание начинается с периода, в который попадает начало окна (с запасом на длительность события),
+ * а не с DTSTART: события с давним началом (дни рождения, годовщины) не упираются в предел.
+ */
+function expandRecurrence(event: RawEvent, from: Date, to: Date): number[] {
+  const rule = event.rrule as Record<string, string>;
+  const interval = Math.max(1, Number(rule.INTERVAL ?? 1) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const until = rule.UNTIL ? toUtc(parseDate({ name: 'UNTIL', params: {}, value: rule.UNTIL }, event.start.timeZone)).getTime() : Infinity;
+  const byDay = rule.BYDAY ?
+    rule.BYDAY.split(',').map((d) => BYDAY_CODES.indexOf(d.slice(-2))).filter((d) => d >= 0) :
+    [localWeekday(event.start.local)];
+
+  const periods = recurrencePeriods(event.start.local, rule.FREQ, interval, byDay);
+  // Неподдерживаемая частота — только первое вхождение
+  if (!periods) return [toUtc(event.start).getTime()];
+
+  const startMs = toUtc(event.start).getTime();
+  const windowEnd = Math.min(to.getTime(), Math.max(from.getTime(), startMs) + MAX_RECURRENCE_DAYS * DAY_MS);
+  // Запас в сутки покрывает разницу между UTC и локальной датой в таймзоне события
+  const searchFrom = new Date(from.getTime() - event.durationMs - DAY_MS);
+  const firstIndex = Math.max(0, periods.indexOf({ ...getZonedParts(searchFrom, event.start.timeZone), second: 0 }));
+
+  // COUNT считает и вхождения до окна: только подсчёт, без перевода в UTC
+  let produced = 0;
+  if (count !== Infinity) {
+    for (let index = 0; index < firstIndex && produced < count; index++) produced += periods.dates(index).length;
+  }
+
+  const occurrences: number[] = [];
+  for (let index = firstIndex; produced < count; index++) {
+    const anchor = periods.anchor(index);
+    if (Date.UTC(anchor.year, anchor.month - 1, anchor.day) > windowEnd + DAY_MS) break;
+    for (const local of periods.dates(index)) {
+      const at = zonedTimeToUtc(local, event.start.timeZone).getTime();
+      if (at > until || at > windowEnd || produced >= count) return occurrences;
+      produced++;
+      occurrences.push(at);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Разбирает ICS и возвращает вхождения событий, пересекающиеся с окном [from, to], по времени начала
+ */
+export function parseIcs(text: string, options: IcsParseOptions): IcsEvent[] {
+  const defaultTimeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : 'UTC';
+  const lines = unfoldLines(text);
+  if (!lines.length || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new IcsParseError('Not an iCalendar document');
+  }
+
+  const rawEvents: RawEvent[] = [];
+  let current: string[] | null = null;
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+    } else if (upper === 'END:VEVENT') {
+      const event = current ? parseVevent(current, defaultTimeZone) : null;
+      if (event) rawEvents.push(event);
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  // Переопределённые вхождения (RECURRENCE-ID) заменяют сгенерированные по RRULE
+  const overridden = new Set(
+    rawEvents.filter((e) => e.recurrenceId !== null).map((e) => `${e.uid}|${e.recurrenceId}`)
+  );
+
+  const result: IcsEvent[] = [];
+  for (const event of rawEvents) {
+    if (event.cancelled) continue;
+    const starts = event.rrule && event.recurrenceId === null ?
+      expandRecurrence(event, options.from, options.to) :
+      [toUtc(event.start).getTime()];
+
+    for (const startMs of starts) {
+      if (event.exdates.has(startMs)) continue;
+      if (event.rrule && event.recurrenceId === null && overridden.has(`${event.uid}|${startMs}`)) continue;
+      const endMs = startMs + event.durationMs;
+      if (endMs < options.from.getTime() || startMs > options.to.getTime()) continue;
+      result.push({
+        uid: event.uid,
+        title: event.title,
+        location: event.location,
+        startAt: new Date(startMs),
+        endAt: new Date(endMs),
+        allDay: event.start.allDay,
+      });
+    }
+  }
+
+  result.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+  return options.maxEvents ? result.slice(0, options.maxEvents) : result;
+}
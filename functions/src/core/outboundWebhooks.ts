@@ -0,0 +1,207 @@
+/**
+ * Исходящие вебхуки: события пользователя доставляются на зарегистрированные им URL
+ * - событие раскладывается в outbox по одной записи на подписку (type = webhook.delivery);
+ *   повторы с экспоненциальной задержкой выполняет background/outboxWorker
+ * - тело подписывается как входящие вебхуки v2: X-Signature: v2=HMAC(`${X-Timestamp}.${body}`)
+ * - каждая попытка пишется в журнал webhookDeliveries
+ * - после outbound_webhook_max_consecutive_failures неудач подряд подписка отключается
+ * - URL резолвится перед каждой попыткой: запрос уходит только на публичный адрес (core/publicHttps)
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import crypto from 'crypto';
+import { db } from './firebase';
+import { publicHttpsFetch, resolvePublicHttpsUrl } from './publicHttps';
+import { getOutboundWebhookMaxConsecutiveFailures, getWebhookTimeoutSeconds } from './remoteConfig';
+import { OutboundEventType, OutboundWebhook } from '../types/firestore';
+
+export const OUTBOUND_EVENT_TYPES: OutboundEventType[] = [
+  'hug.received',
+  'session.completed',
+  'device.offline',
+  'device.firmware_updated',
+];
+
+export const OUTBOX_WEBHOOK_DELIVERY = 'webhook.delivery';
+
+// Записи журнала доставок удаляются TTL-политикой по expiresAt
+const DELIVERY_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface OutboundEvent {
+  id: string;
+  type: OutboundEventType;
+  createdAt: string; // ISO
+  data: Record<string, unknown>;
+}
+
+// payload записи outbox для доставки одного события одной подписке
+export interface OutboundDeliveryPayload {
+  subscriptionId: string;
+  ownerId: string;
+  event: OutboundEvent;
+}
+
+export class OutboundDeliveryError extends Error {
+  constructor(public readonly subscriptionId: string, message: string) {
+    super(message);
+    this.name = 'OutboundDeliveryError';
+  }
+}
+
+/**
+ * Подпись тела для заголовка X-Signature (та же схема v2, что у входящих вебхуков)
+ */
+export function signOutboundPayload(secret: string, timestamp: string, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `v2=${signature}`;
+}
+
+/**
+ * Ставит событие в outbox для всех активных подписок владельца на этот тип.
+ * Ошибки только логируются: исходящие вебхуки не должны ломать основной сценарий.
+ * Возвращает число поставленных доставок.
+ */
+export async function emitOutboundEvent(
+  ownerId: string,
+  type: OutboundEventType,
+  data: Record<string, unknown>,
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    const snapshot = await db.collection('outboundWebhooks').where('ownerId', '==', ownerId).get();
+    const subscriptions = snapshot.docs
+      .map((doc) => ({ ...(doc.data() as OutboundWebhook), id: doc.id }))
+      .filter((subscription) => subscription.isActive && subscription.eventTypes?.includes(type));
+    if (subscriptions.length === 0) return 0;
+
+    const event: OutboundEvent = {
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      type,
+      createdAt: now.toISOString(),
+      data,
+    };
+    const batch = db.batch();
+    for (const subscription of subscriptions) {
+      // ID записи — ключ идемпотентности доставки (X-Delivery-Id)
+      const ref = db.collection('outbox').doc(`${event.id}_${subscription.id}`);
+      const payload: OutboundDeliveryPayload = { subscriptionId: subscription.id, ownerId, event };
+      batch.set(ref, {
+        id: ref.id,
+        type: OUTBOX_WEBHOOK_DELIVERY,
+        status: 'pending',
+        attempts: 0,
+        payload,
+        createdAt: FieldValue.serverTimestamp(),
+        nextAttemptAt: null,
+      });
+    }
+    await batch.commit();
+    return subscriptions.length;
+  } catch (error) {
+    logger.error('Failed to enqueue outbound webhook event', {
+      ownerId,
+      type,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return 0;
+  }
+}
+
+/**
+ * Учитывает неудачную доставку; при достижении порога отключает подписку
+ */
+async function registerDeliveryFailure(ref: FirebaseFirestore.DocumentReference): Promise<boolean> {
+  const maxFailures = await getOutboundWebhookMaxConsecutiveFailures();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return false;
+    const failures = ((snap.data() as OutboundWebhook).consecutiveFailures ?? 0) + 1;
+    const disable = failures >= maxFailures;
+    tx.set(ref, {
+      consecutiveFailures: failures,
+      lastDeliveryAt: FieldValue.serverTimestamp(),
+      lastDeliveryStatus: 'failed',
+      ...(disable ? { isActive: false, disabledReason: 'too_many_failures', disabledAt: FieldValue.serverTimestamp() } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    return disable;
+  });
+}
+
+/**
+ * Одна попытка доставки записи outbox. Удалённая или отключённая подписка — 'skipped'.
+ * При ошибке сети или ответе не 2xx бросает OutboundDeliveryError, чтобы outbox запланировал повтор.
+ */
+export async function deliverOutboundWebhook(
+  deliveryId: string,
+  payload: OutboundDeliveryPayload,
+  attempt: number
+): Promise<'delivered' | 'skipped'> {
+  const ref = db.collection('outboundWebhooks').doc(payload.subscriptionId);
+  const snap = await ref.get();
+  const subscription = snap.data() as OutboundWebhook | undefined;
+  if (!snap.exists || !subscription?.isActive) return 'skipped';
+
+  const body = JSON.stringify(payload.event);
+  const timestamp = Date.now().toString();
+  const timeoutMs = (await getWebhookTimeoutSeconds()) * 1000;
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const target = await resolvePublicHttpsUrl(subscription.url);
+    const response = await publicHttpsFetch(target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Amulet-Webhooks/1.0',
+        'X-Event-Type': payload.event.type,
+        'X-Delivery-Id': deliveryId,
+        'X-Timestamp': timestamp,
+        'X-Signature': signOutboundPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+    responseStatus = response.status;
+    if (!response.ok) error = `Endpoint responded with HTTP ${response.status}`;
+  } catch (err) {
+    error = `Request failed: ${err instanceof Error ? err.message : 'Unknown error'}`;
+  }
+
+  const logRef = db.collection('webhookDeliveries').doc();
+  await logRef.set({
+    id: logRef.id,
+    subscriptionId: payload.subscriptionId,
+    ownerId: payload.ownerId,
+    eventId: payload.event.id,
+    eventType: payload.event.type,
+    attempt,
+    status: error ? 'failed' : 'succeeded',
+    responseStatus,
+    error,
+    durationMs: Date.now() - startedAt,
+    createdAt: FieldValue.serverTimestamp(),
+    expiresAt: new Date(Date.now() + DELIVERY_LOG_RETENTION_MS),
+  });
+
+  if (error) {
+    const disabled = await registerDeliveryFailure(ref);
+    if (disabled) {
+      logger.warn('Outbound webhook disabled after repeated failures', {
+        subscriptionId: payload.subscriptionId,
+        ownerId: payload.ownerId,
+      });
+    }
+    throw new OutboundDeliveryError(payload.subscriptionId, error);
+  }
+
+  await ref.set({
+    consecutiveFailures: 0,
+    lastDeliveryAt: FieldValue.serverTimestamp(),
+    lastDeliveryStatus: 'succeeded',
+  }, { merge: true });
+  return 'delivered';
+}
@@ -0,0 +1,287 @@
+/**
+ * Лайки, оценки и популярность паттернов
+ * - лайк и оценка хранятся по пользователю: patterns/{id}/likes/{uid}, patterns/{id}/ratings/{uid}
+ * - счётчики (likes, ratingCount, ratingSum, usage) распределены по шардам patterns/{id}/popularityShards/{0..N-1},
+ *   чтобы частые лайки и использования не упирались в лимит записи одного документа
+ * - использование считается при предпросмотре на устройстве, отправке в объятии и старте практики —
+ *   только для паттернов, видимых пользователю, и не чаще раза в час на пользователя и источник
+ * - фоновая задача суммирует шарды активных паттернов в поля документа (likeCount, ratingAverage, ratingScore,
+ *   usageCount) и ведёт trendingScore — активность с экспоненциальным затуханием (период полураспада 24 ч)
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { db } from './firebase';
+import { PatternSpec, patternSpecHash } from './patterns';
+
+export const POPULARITY_SHARDS = 10;
+export const TRENDING_HALF_LIFE_HOURS = 24;
+// Ниже этого значения trendingScore обнуляется, и паттерн перестаёт попадать в проход затухания
+export const TRENDING_MIN_SCORE = 0.01;
+// Вклад событий в trendingScore
+const TRENDING_WEIGHTS = { usage: 1, likes: 3, ratingCount: 2 };
+// Байесовское среднее: оценка тянется к RATING_PRIOR_MEAN, пока оценок меньше RATING_PRIOR_WEIGHT
+const RATING_PRIOR_MEAN = 3;
+const RATING_PRIOR_WEIGHT = 5;
+// Повторные использования одним пользователем из одного источника в пределах окна не засчитываются
+export const USAGE_DEDUP_WINDOW_MS = 60 * 60 * 1000;
+
+export type PatternUsageSource = 'preview' | 'hug' | 'practice';
+
+export interface PopularityTotals {
+  likes: number;
+  ratingCount: number;
+  ratingSum: number;
+  usage: number;
+}
+
+// Поля популярности нового паттерна: без них документ не попадает в сортировки каталога.
+// Проставляются при создании и при одобрении модератором; старые паттерны — разово скриптом backfillPatternPopularity
+export const INITIAL_POPULARITY_FIELDS = {
+  likeCount: 0,
+  ratingCount: 0,
+  ratingAverage: null,
+  ratingScore: RATING_PRIOR_MEAN,
+  usageCount: 0,
+  trendingScore: 0,
+};
+
+function shardsCollection(patternId: string): FirebaseFirestore.CollectionReference {
+  return db.collection('patterns').doc(patternId).collection('popularityShards');
+}
+
+// Запись инкремента в случайный шард: ref и данные для set(..., { merge: true })
+function shardIncrement(
+  patternId: string,
+  deltas: Partial<PopularityTotals>
+): { ref: FirebaseFirestore.DocumentReference; update: Record<string, unknown> } {
+  const ref = shardsCollection(patternId).doc(String(Math.floor(Math.random() * POPULARITY_SHARDS)));
+  const update: Record<string, unknown> = { patternId, updatedAt: FieldValue.serverTimestamp() };
+  for (const [field, delta] of Object.entries(deltas)) {
+    if (delta) update[field] = FieldValue.increment(delta);
+  }
+  return { ref, update };
+}
+
+function incrementShard(tx: FirebaseFirestore.Transaction, patternId: string, deltas: Partial<PopularityTotals>): void {
+  const { ref, update } = shardIncrement(patternId, deltas);
+  tx.set(ref, update, { merge: true });
+}
+
+/**
+ * Сумма шардов счётчиков паттерна (актуальные значения, без задержки фоновой задачи)
+ */
+export async function getPopularityTotals(patternId: string): Promise<PopularityTotals> {
+  const snapshot = await shardsCollection(patternId).get();
+  const totals: PopularityTotals = { likes: 0, ratingCount: 0, ratingSum: 0, usage: 0 };
+  for (const doc of snapshot.docs) {
+    const shard = doc.data() as Partial<PopularityTotals>;
+    totals.likes += shard.likes ?? 0;
+    totals.ratingCount += shard.ratingCount ?? 0;
+    totals.ratingSum += shard.ratingSum ?? 0;
+    totals.usage += shard.usage ?? 0;
+  }
+  return totals;
+}
+
+export function ratingScore(ratingCount: number, ratingSum: number): number {
+  return (RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT + ratingSum) / (RATING_PRIOR_WEIGHT + ratingCount);
+}
+
+/**
+ * Ставит или снимает лайк пользователя. Возвращает false, если состояние уже такое (повтор запроса).
+ */
+export async function setPatternLike(patternId: string, userId: string, liked: boolean): Promise<boolean> {
+  const likeRef = db.collection('patterns').doc(patternId).collection('likes').doc(userId);
+  return db.runTransaction(async (tx) => {
+    const existing = await tx.get(likeRef);
+    if (existing.exists === liked) return false;
+    if (liked) tx.set(likeRef, { userId, patternId, createdAt: FieldValue.serverTimestamp() });
+    else tx.delete(likeRef);
+    incrementShard(tx, patternId, { likes: liked ? 1 : -1 });
+    return true;
+  });
+}
+
+/**
+ * Оценка пользователя 1–5; rating null удаляет оценку. Повторная оценка заменяет прежнюю.
+ */
+export async function setPatternRating(patternId: string, userId: string, rating: number | null): Promise<void> {
+  const ratingRef = db.collection('patterns').doc(patternId).collection('ratings').doc(userId);
+  await db.runTransaction(async (tx) => {
+    const existing = await tx.get(ratingRef);
+    const previous = existing.exists ? (existing.data() as { rating: number }).rating : null;
+    if (previous === rating) return;
+    if (rating === null) {
+      tx.delete(ratingRef);
+      incrementShard(tx, patternId, { ratingCount: -1, ratingSum: -(previous ?? 0) });
+      return;
+    }
+    tx.set(ratingRef, {
+      userId,
+      patternId,
+      rating,
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(previous === null ? { createdAt: FieldValue.serverTimestamp() } : {}),
+    }, { merge: true });
+    incrementShard(tx, patternId, { ratingCount: previous === null ? 1 : 0, ratingSum: rating - (previous ?? 0) });
+  });
+}
+
+interface PopularityState {
+  likeCount?: number;
+  ratingCount?: number;
+  usageCount?: number;
+  trendingScore?: number;
+  popularityUpdatedAt?: { toDate(): Date } | Date | null;
+}
+
+function toDate(value: PopularityState['popularityUpdatedAt']): Date | null {
+  if (!value) return null;
+  return value instanceof Date ? value : value.toDate();
+}
+
+export interface PatternUsageContext {
+  userId: string;
+  // Фактически использованный spec (предпросмотр): засчитывается, только если совпадает со spec паттерна
+  spec?: PatternSpec;
+}
+
+/**
+ * Может ли пользователь видеть паттерн: свой или публичный одобренный
+ */
+export function canViewPattern(pattern: { ownerId?: unknown; public?: unknown; reviewStatus?: unknown }, userId: string): boolean {
+  return pattern.ownerId === userId || (pattern.public === true && pattern.reviewStatus === 'approved');
+}
+
+/**
+ * Засчитывает использование паттерна: только видимого пользователю, со совпадающим spec и не чаще
+ * раза в USAGE_DEDUP_WINDOW_MS на пользователя и источник (patterns/{id}/usages/{uid}_{source}).
+ * Возвращает true, если использование засчитано. Ошибки только логируются: счётчик не должен ломать основной сценарий.
+ */
+export async function recordPatternUsage(
+  patternId: string | null | undefined,
+  source: PatternUsageSource,
+  context: PatternUsageContext,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (!patternId) return false;
+  const patternRef = db.collection('patterns').doc(patternId);
+  const usageRef = patternRef.collection('usages').doc(`${context.userId}_${source}`);
+  try {
+    return await db.runTransaction(async (tx) => {
+      const [pattern, usage] = await Promise.all([tx.get(patternRef), tx.get(usageRef)]);
+      // встроенные паттерны приложения не хранятся в каталоге
+      const data = pattern.data() as { ownerId?: string; public?: boolean; reviewStatus?: string; spec?: PatternSpec } | undefined;
+      if (!pattern.exists || !data || !canViewPattern(data, context.userId)) return false;
+      if (context.spec && (!data.spec || patternSpecHash(data.spec) !== patternSpecHash(context.spec))) return false;
+      const lastUsedAt = usage.exists ? toDate((usage.data() as { lastUsedAt?: PopularityState['popularityUpdatedAt'] }).lastUsedAt) : null;
+      if (lastUsedAt && now.getTime() - lastUsedAt.getTime() < USAGE_DEDUP_WINDOW_MS) return false;
+      tx.set(usageRef, { userId: context.userId, patternId, source, lastUsedAt: now });
+      incrementShard(tx, patternId, { usage: 1 });
+      return true;
+    });
+  } catch (error) {
+    logger.warn('Pattern usage was not recorded', {
+      patternId,
+      source,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return false;
+  }
+}
+
+/**
+ * Новое значение trendingScore: прежнее затухает с периодом полураспада, прирост событий добавляется
+ */
+export function decayTrendingScore(previous: number, elapsedMs: number, added = 0): number {
+  const decay = Math.pow(0.5, Math.max(0, elapsedMs) / (TRENDING_HALF_LIFE_HOURS * 60 * 60 * 1000));
+  const score = previous * decay + added;
+  return score < TRENDING_MIN_SCORE ? 0 : score;
+}
+
+const POPULARITY_FIELDS = Object.keys(INITIAL_POPULARITY_FIELDS) as Array<keyof typeof INITIAL_POPULARITY_FIELDS>;
+
+/**
+ * Начальные значения полей популярности, которых нет в документе паттерна; заполненные поля не трогает.
+ * orderBy в Firestore пропускает документы без поля, и такой паттерн выпал бы из сортировок popular/trending/top_rated.
+ */
+export function missingPopularityFields(pattern: Record<string, unknown>): Record<string, unknown> {
+  const missing: Record<string, unknown> = {};
+  for (const field of POPULARITY_FIELDS) {
+    if (pattern[field] === undefined) missing[field] = INITIAL_POPULARITY_FIELDS[field];
+  }
+  return missing;
+}
+
+/**
+ * Разовое заполнение полей популярности у паттернов каталога, созданных до их учёта
+ * (запускается скриптом backfillPatternPopularity). Возвращает число обновлённых паттернов.
+ */
+export async function initializeMissingPopularity(): Promise<number> {
+  const catalog = await db
+    .collection('patterns')
+    .where('public', '==', true)
+    .where('reviewStatus', '==', 'approved')
+    .select(...POPULARITY_FIELDS)
+    .get();
+  let initialized = 0;
+  for (const doc of catalog.docs) {
+    const missing = missingPopularityFields(doc.data());
+    if (Object.keys(missing).length === 0) continue;
+    await doc.ref.set(missing, { merge: true });
+    initialized++;
+  }
+  return initialized;
+}
+
+/**
+ * Пересчёт популярности: паттерны, у которых шарды менялись за activeWindowMs, получают свежие суммы
+ * и прирост trendingScore; остальные с ненулевым trendingScore только затухают.
+ * Возвращает число обновлённых паттернов.
+ */
+export async function refreshPatternPopularity(now: Date = new Date(), activeWindowMs = 2 * 60 * 60 * 1000): Promise<number> {
+  const activeShards = await db
+    .collectionGroup('popularityShards')
+    .where('updatedAt', '>=', new Date(now.getTime() - activeWindowMs))
+    .get();
+  const active = new Set(activeShards.docs.map((doc) => (doc.data() as { patternId: string }).patternId));
+  let updated = 0;
+
+  for (const patternId of active) {
+    const ref = db.collection('patterns').doc(patternId);
+    const snap = await ref.get();
+    if (!snap.exists) continue;
+    const state = snap.data() as PopularityState;
+    const totals = await getPopularityTotals(patternId);
+    // Отрицательный прирост (снятые лайки) тренд не уменьшает
+    const added =
+      Math.max(0, totals.usage - (state.usageCount ?? 0)) * TRENDING_WEIGHTS.usage +
+      Math.max(0, totals.likes - (state.likeCount ?? 0)) * TRENDING_WEIGHTS.likes +
+      Math.max(0, totals.ratingCount - (state.ratingCount ?? 0)) * TRENDING_WEIGHTS.ratingCount;
+    const since = toDate(state.popularityUpdatedAt);
+    await ref.set({
+      likeCount: totals.likes,
+      ratingCount: totals.ratingCount,
+      ratingAverage: totals.ratingCount > 0 ? totals.ratingSum / totals.ratingCount : null,
+      ratingScore: ratingScore(totals.ratingCount, totals.ratingSum),
+      usageCount: totals.usage,
+      trendingScore: decayTrendingScore(state.trendingScore ?? 0, since ? now.getTime() - since.getTime() : 0, added),
+      popularityUpdatedAt: now,
+    }, { merge: true });
+    updated++;
+  }
+
+  const trending = await db.collection('patterns').where('trendingScore', '>', 0).get();
+  for (const doc of trending.docs) {
+    if (active.has(doc.id)) continue;
+    const state = doc.data() as PopularityState;
+    const since = toDate(state.popularityUpdatedAt);
+    await doc.ref.set({
+      trendingScore: decayTrendingScore(state.trendingScore ?? 0, since ? now.getTime() - since.getTime() : 0),
+      popularityUpdatedAt: now,
+    }, { merge: true });
+    updated++;
+  }
+  return updated;
+}
@@ -0,0 +1,260 @@
+/**
+ * Анимированные превью паттернов для каталога: GIF и SVG (SMIL) из покадрового рендера core/patterns
+ * - HW 100 — один круг, HW 200 — кольцо из 12 кругов (светодиод 0 сверху, далее по часовой)
+ * - рендеры кешируются в Storage: previews/patterns/{patternId}/{ключ}.{gif|svg},
+ *   ключ — хеш спецификации и параметров рендера; при изменении spec кеш паттерна удаляется
+ */
+
+import * as logger from 'firebase-functions/logger';
+import crypto from 'crypto';
+import { storage } from './firebase';
+import { PatternSpec, PatternTimeline, renderPattern, Rgb, stableStringify } from './patterns';
+
+export type PreviewFormat = 'gif' | 'svg';
+
+export const PREVIEW_FORMATS: PreviewFormat[] = ['gif', 'svg'];
+
+export const PREVIEW_CONTENT_TYPES: Record<PreviewFormat, string> = {
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+// Меняется при изменении алгоритма рендера, чтобы старый кеш не использовался
+const PREVIEW_RENDERER_VERSION = 1;
+// Для длинных паттернов превью показывает только начало
+export const PREVIEW_MAX_DURATION_MS = 60 * 1000;
+export const DEFAULT_PREVIEW_SIZE = 96;
+export const DEFAULT_PREVIEW_FPS = 20;
+
+const BACKGROUND: Rgb = [32, 32, 32];
+
+export interface PreviewOptions {
+  size: number;
+  fps: number;
+}
+
+interface LedGeometry {
+  cx: number;
+  cy: number;
+  r: number;
+}
+
+function ledLayout(ledCount: number, size: number): LedGeometry[] {
+  const center = size / 2;
+  if (ledCount === 1) return [{ cx: center, cy: center, r: size * 0.3 }];
+  return Array.from({ length: ledCount }, (_, i) => {
+    const angle = (2 * Math.PI * i) / ledCount - Math.PI / 2;
+    return { cx: center + size * 0.38 * Math.cos(angle), cy: center + size * 0.38 * Math.sin(angle), r: size * 0.07 };
+  });
+}
+
+/**
+ * Ключ кеша превью: хеш спецификации, формата и параметров рендера
+ */
+export function previewCacheKey(spec: PatternSpec, format: PreviewFormat, options: PreviewOptions): string {
+  return crypto
+    .createHash('sha256')
+    .update(stableStringify({ v: PREVIEW_RENDERER_VERSION, spec, format, size: options.size, fps: options.fps }))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+function previewTimeline(spec: PatternSpec, fps: number): PatternTimeline {
+  return renderPattern(spec, { fps, durationMs: Math.min(spec.duration, PREVIEW_MAX_DURATION_MS) });
+}
+
+function sameLeds(a: Rgb[], b: Rgb[]): boolean {
+  return a.every((color, i) => color[0] === b[i][0] && color[1] === b[i][1] && color[2] === b[i][2]);
+}
+
+/**
+ * Сжатие LZW для GIF (коды переменной длины до 12 бит)
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return Buffer.from(out);
+}
+
+function uint16(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+/**
+ * GIF89a: у каждого кадра своя палитра (фон + цвета светодиодов), поэтому цвета точные.
+ * Пиксели кадра — номер светодиода + 1 (0 — фон), одинаковы для всех кадров: сжимаются один раз.
+ * Одинаковые подряд кадры склеиваются увеличением задержки.
+ */
+export function encodePreviewGif(timeline: PatternTimeline, size: number, loop: boolean): Buffer {
+  const layout = ledLayout(timeline.ledCount, size);
+  const pixels = new Uint8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const led = layout.findIndex((g) => (x + 0.5 - g.cx) ** 2 + (y + 0.5 - g.cy) ** 2 <= g.r ** 2);
+      pixels[y * size + x] = led + 1;
+    }
+  }
+  const tableBits = Math.max(1, Math.ceil(Math.log2(timeline.ledCount + 1)));
+  const minCodeSize = Math.max(2, tableBits);
+  const compressed = lzwEncode(pixels, minCodeSize);
+  const imageData: number[] = [minCodeSize];
+  for (let offset = 0; offset < compressed.length; offset += 255) {
+    const block = compressed.subarray(offset, offset + 255);
+    imageData.push(block.length, ...block);
+  }
+  imageData.push(0);
+
+  const frameDelay = Math.max(2, Math.round(100 / timeline.fps)); // сотые доли секунды
+  const frames: Array<{ leds: Rgb[]; delay: number }> = [];
+  for (const frame of timeline.frames) {
+    const last = frames[frames.length - 1];
+    if (last && sameLeds(last.leds, frame.leds) && last.delay + frameDelay <= 0xffff) last.delay += frameDelay;
+    else frames.push({ leds: frame.leds, delay: frameDelay });
+  }
+
+  const bytes: number[] = [...Buffer.from('GIF89a'), ...uint16(size), ...uint16(size), 0x70, 0, 0];
+  if (loop) {
+    bytes.push(0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0'), 0x03, 0x01, ...uint16(0), 0x00);
+  }
+  for (const frame of frames) {
+    bytes.push(0x21, 0xf9, 0x04, 0x00, ...uint16(frame.delay), 0x00, 0x00);
+    bytes.push(0x2c, ...uint16(0), ...uint16(0), ...uint16(size), ...uint16(size), 0x80 | (tableBits - 1));
+    const palette = [BACKGROUND, ...frame.leds];
+    for (let i = 0; i < 1 << tableBits; i++) bytes.push(...(palette[i] ?? BACKGROUND));
+    for (const byte of imageData) bytes.push(byte);
+  }
+  bytes.push(0x3b);
+  return Buffer.from(bytes);
+}
+
+function hex(color: Rgb): string {
+  return `#${color.map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * SVG с SMIL-анимацией: для каждого светодиода — дискретная смена fill в моменты изменения цвета
+ */
+export function renderPreviewSvg(timeline: PatternTimeline, size: number, loop: boolean): string {
+  const layout = ledLayout(timeline.ledCount, size);
+  const duration = timeline.durationMs;
+  const circles = layout.map((g, led) => {
+    const keyTimes: string[] = [];
+    const values: string[] = [];
+    for (const frame of timeline.frames) {
+      const color = hex(frame.leds[led]);
+      if (values[values.length - 1] === color) continue;
+      keyTimes.push((frame.timeMs / duration).toFixed(4));
+      values.push(color);
+    }
+    const shape = `cx="${g.cx.toFixed(2)}" cy="${g.cy.toFixed(2)}" r="${g.r.toFixed(2)}"`;
+    if (values.length <= 1) return `<circle ${shape} fill="${values[0] ?? '#000000'}"/>`;
+    const animate = `<animate attributeName="fill" calcMode="discrete" dur="${duration}ms" repeatCount="${loop ? 'indefinite' : '1'}"` +
+      ` fill="freeze" keyTimes="${keyTimes.join(';')}" values="${values.join(';')}"/>`;
+    return `<circle ${shape} fill="${values[0]}">${animate}</circle>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">` +
+    `<rect width="${size}" height="${size}" fill="${hex(BACKGROUND)}"/>${circles.join('')}</svg>`;
+}
+
+/**
+ * Рендер превью в выбранном формате. Бросает PatternRenderError для недопустимой спецификации.
+ */
+export function renderPatternPreview(spec: PatternSpec, format: PreviewFormat, options: PreviewOptions): Buffer {
+  const timeline = previewTimeline(spec, options.fps);
+  const loop = Boolean(spec.loop);
+  if (format === 'gif') return encodePreviewGif(timeline, options.size, loop);
+  return Buffer.from(renderPreviewSvg(timeline, options.size, loop), 'utf8');
+}
+
+function previewPath(patternId: string, key: string, format: PreviewFormat): string {
+  return `previews/patterns/${patternId}/${key}.${format}`;
+}
+
+/**
+ * Превью из кеша Storage; ошибки Storage не мешают отдать свежий рендер
+ */
+export async function readCachedPreview(patternId: string, key: string, format: PreviewFormat): Promise<Buffer | null> {
+  try {
+    const file = storage.bucket().file(previewPath(patternId, key, format));
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [contents] = await file.download();
+    return contents;
+  } catch (error) {
+    logger.warn('Pattern preview cache read failed', {
+      patternId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+export async function writeCachedPreview(patternId: string, key: string, format: PreviewFormat, body: Buffer): Promise<void> {
+  try {
+    await storage.bucket().file(previewPath(patternId, key, format)).save(body, {
+      contentType: PREVIEW_CONTENT_TYPES[format],
+      resumable: false,
+      metadata: { cacheControl: 'private, max-age=86400', metadata: { patternId } },
+    });
+  } catch (error) {
+    logger.warn('Pattern preview cache write failed', {
+      patternId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Удаляет все закешированные превью паттерна (после изменения spec или удаления)
+ */
+export async function invalidatePatternPreviews(patternId: string): Promise<void> {
+  try {
+    await storage.bucket().deleteFiles({ prefix: `previews/patterns/${patternId}/` });
+  } catch (error) {
+    logger.warn('Pattern preview cache invalidation failed', {
+      patternId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * История версий паттерна: каждое изменение содержимого — неизменяемая ревизия в patterns/{id}/revisions/{номер}
+ * - содержимое — то, что проходит модерацию: spec, hardwareVersion и карточка каталога (kind, title, description, tags);
+ *   настройки видимости (public, allowForks) меняются напрямую
+ * - ревизия хранит автора, время, содержимое целиком и specHash (sha256 канонического JSON spec)
+ * - у паттернов, созданных до истории версий, при первой правке сначала пишется базовая ревизия из текущего spec
+ * - правка одобренного паттерна не меняет живой spec: ревизия ждёт модерации (pendingRevision),
+ *   даже если паттерн сейчас скрыт — иначе правку можно было бы протащить в каталог через public false → true;
+ *   модератор применяет или отклоняет её через POST /v1/admin/patterns/:id/review;
+ *   hasPendingRevision — флаг для выборки очереди модерации (GET /v1/admin/patterns?pendingRevision=true)
+ */
+
+import { db } from './firebase';
+import { HardwareVersion, PatternSpec, patternSpecHash, stableStringify } from './patterns';
+
+export type PatternRevisionSource = 'create' | 'update' | 'revert' | 'baseline';
+
+// Поля карточки каталога, которые, как и spec, меняются только через ревизию
+export const PATTERN_METADATA_FIELDS = ['kind', 'title', 'description', 'tags'] as const;
+
+export type PatternMetadataField = typeof PATTERN_METADATA_FIELDS[number];
+
+export type PatternMetadata = Partial<Record<PatternMetadataField, unknown>>;
+
+export interface PatternRevisionInput {
+  authorId: string | null;
+  spec: PatternSpec;
+  hardwareVersion: HardwareVersion;
+  // Полная карточка после изменения; у ревизий до учёта карточки отсутствует
+  metadata?: PatternMetadata;
+  source: PatternRevisionSource;
+  revertedFrom?: number | null;
+}
+
+// Поля документа паттерна, от которых зависит история версий
+export interface PatternRevisionState {
+  ownerId?: string | null;
+  spec?: PatternSpec;
+  hardwareVersion?: HardwareVersion;
+  kind?: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  public?: boolean;
+  reviewStatus?: string;
+  currentRevision?: number;
+  latestRevision?: number;
+  pendingRevision?: number | null;
+  updatedAt?: unknown;
+}
+
+export interface StagedPatternRevision {
+  number: number;
+  pending: boolean;
+  // Поля для слияния с документом паттерна в той же транзакции
+  fields: Record<string, unknown>;
+}
+
+export interface PatternSpecChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Карточка каталога из документа паттерна или ревизии (только заданные поля)
+ */
+export function pickPatternMetadata(source: PatternMetadata): PatternMetadata {
+  const metadata: PatternMetadata = {};
+  for (const field of PATTERN_METADATA_FIELDS) {
+    if (source[field] !== undefined) metadata[field] = source[field];
+  }
+  return metadata;
+}
+
+export function patternRevisionsCollection(patternId: string): FirebaseFirestore.CollectionReference {
+  return db.collection('patterns').doc(patternId).collection('revisions');
+}
+
+function revisionDoc(patternId: string, number: number, input: PatternRevisionInput, createdAt: unknown): Record<string, unknown> {
+  return {
+    id: String(number),
+    patternId,
+    number,
+    authorId: input.authorId,
+    spec: input.spec,
+    hardwareVersion: input.hardwareVersion,
+    ...pickPatternMetadata(input.metadata ?? {}),
+    specHash: patternSpecHash(input.spec),
+    source: input.source,
+    revertedFrom: input.revertedFrom ?? null,
+    createdAt,
+  };
+}
+
+/**
+ * Поля первой ревизии нового паттерна; документ ревизии пишется в той же транзакции, что и паттерн
+ */
+export function stageInitialRevision(
+  tx: FirebaseFirestore.Transaction,
+  patternId: string,
+  input: Omit<PatternRevisionInput, 'source'>,
+  now: Date = new Date()
+): Record<string, unknown> {
+  tx.create(patternRevisionsCollection(patternId).doc('1'), revisionDoc(patternId, 1, { ...input, source: 'create' }, now));
+  return { currentRevision: 1, latestRevision: 1, pendingRevision: null, hasPendingRevision: false };
+}
+
+/**
+ * Записывает ревизию в транзакции по уже прочитанному документу паттерна.
+ * Возвращает null, если spec, hardwareVersion и карточка совпадают с живыми (ревизия не нужна).
+ */
+export function stagePatternRevision(
+  tx: FirebaseFirestore.Transaction,
+  patternId: string,
+  pattern: PatternRevisionState,
+  input: PatternRevisionInput,
+  now: Date = new Date()
+): StagedPatternRevision | null {
+  const liveHardware = pattern.hardwareVersion ?? pattern.spec?.hardwareVersion;
+  const liveMetadata = pickPatternMetadata(pattern);
+  const metadata = { ...liveMetadata, ...pickPatternMetadata(input.metadata ?? {}) };
+  if (
+    pattern.spec &&
+    patternSpecHash(pattern.spec) === patternSpecHash(input.spec) &&
+    liveHardware === input.hardwareVersion &&
+    stableStringify(liveMetadata) === stableStringify(metadata)
+  ) {
+    return null;
+  }
+
+  const revisions = patternRevisionsCollection(patternId);
+  let latest = pattern.latestRevision ?? 0;
+  let current = pattern.currentRevision;
+  if (latest === 0 && pattern.spec && liveHardware) {
+    // Паттерн создан до истории версий: сохраняем текущий spec как базовую ревизию
+    latest = 1;
+    current = 1;
+    const baseline = {
+      authorId: pattern.ownerId ?? null,
+      spec: pattern.spec,
+      hardwareVersion: liveHardware,
+      metadata: liveMetadata,
+      source: 'baseline' as const,
+    };
+    tx.create(revisions.doc('1'), revisionDoc(patternId, 1, baseline, pattern.updatedAt ?? now));
+  }
+
+  const number = latest + 1;
+  tx.create(revisions.doc(String(number)), revisionDoc(patternId, number, { ...input, metadata }, now));
+
+  const pending = pattern.reviewStatus === 'approved';
+  if (pending) {
+    return {
+      number,
+      pending,
+      fields: { latestRevision: number, pendingRevision: number, hasPendingRevision: true, ...(current ? { currentRevision: current } : {}) },
+    };
+  }
+  return {
+    number,
+    pending,
+    fields: {
+      spec: input.spec,
+      hardwareVersion: input.hardwareVersion,
+      ...metadata,
+      currentRevision: number,
+      latestRevision: number,
+      pendingRevision: null,
+      hasPendingRevision: false,
+    },
+  };
+}
+
+/**
+ * Поля паттерна после модерации ожидающей ревизии: approve делает её живой, reject отбрасывает.
+ * read позволяет прочитать ревизию внутри транзакции модерации.
+ */
+export async function pendingRevisionReviewFields(
+  patternId: string,
+  revisionNumber: number,
+  approve: boolean,
+  read: (ref: FirebaseFirestore.DocumentReference) => Promise<FirebaseFirestore.DocumentSnapshot> = (ref) => ref.get()
+): Promise<Record<string, unknown>> {
+  const cleared = { pendingRevision: null, hasPendingRevision: false };
+  if (!approve) return cleared;
+  const snap = await read(patternRevisionsCollection(patternId).doc(String(revisionNumber)));
+  const revision = snap.data() as ({ spec?: PatternSpec; hardwareVersion?: HardwareVersion } & PatternMetadata) | undefined;
+  if (!snap.exists || !revision?.spec) return cleared;
+  return {
+    spec: revision.spec,
+    hardwareVersion: revision.hardwareVersion ?? revision.spec.hardwareVersion,
+    ...pickPatternMetadata(revision),
+    currentRevision: revisionNumber,
+    ...cleared,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Построчный diff двух значений: пути вида spec.elements[1].color; отсутствующее значение — без before/after
+ */
+export function diffPatternValues(before: unknown, after: unknown, path = ''): PatternSpecChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: PatternSpecChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      changes.push(...diffPatternValues(before[i], after[i], `${path}[${i}]`));
+    }
+    return changes;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) => diffPatternValues(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  const change: PatternSpecChange = { path };
+  if (before !== undefined) change.before = before;
+  if (after !== undefined) change.after = after;
+  return [change];
+}
+
+/**
+ * Изменения между двумя ревизиями (spec, hardwareVersion и карточка каталога)
+ */
+export function diffPatternRevisions(
+  from: { spec: PatternSpec; hardwareVersion: HardwareVersion } & PatternMetadata,
+  to: { spec: PatternSpec; hardwareVersion: HardwareVersion } & PatternMetadata
+): PatternSpecChange[] {
+  return diffPatternValues(
+    { hardwareVersion: from.hardwareVersion, spec: from.spec, ...pickPatternMetadata(from) },
+    { hardwareVersion: to.hardwareVersion, spec: to.spec, ...pickPatternMetadata(to) }
+  );
+}
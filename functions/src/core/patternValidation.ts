@@ -0,0 +1,120 @@
+/**
+ * Семантическая проверка спецификации паттерна (после проверки формы zod-схемой)
+ * - ошибки: элемент выходит за spec.duration, индекс светодиода вне кольца, цвет не hex,
+ *   leds/direction на HW 100, hardwareVersion паттерна и spec не совпадают
+ * - предупреждения: повторяющиеся светодиоды, невидимый элемент (intensity 0),
+ *   тёмный хвост после последнего элемента, паттерн не помещается в буфер устройства
+ * Пути указываются от тела запроса, например spec.elements[1].leds[0].
+ * Отклонять ли запрос при ошибках, решает pattern_validation_strict (иначе ошибки возвращаются как предупреждения).
+ */
+
+import {
+  encodePatternBinary,
+  HardwareVersion,
+  LED_COUNT,
+  parseHexColor,
+  PatternEncodingError,
+  PatternSpec,
+} from './patterns';
+
+export interface PatternIssue {
+  path: string;
+  code: string;
+  message: string;
+}
+
+export interface PatternValidationResult {
+  errors: PatternIssue[];
+  warnings: PatternIssue[];
+}
+
+/**
+ * hardwareVersion — ревизия железа паттерна (поле верхнего уровня), если есть
+ */
+export function validatePatternSemantics(
+  spec: PatternSpec,
+  options: { hardwareVersion?: HardwareVersion } = {}
+): PatternValidationResult {
+  const errors: PatternIssue[] = [];
+  const warnings: PatternIssue[] = [];
+  const ledCount = LED_COUNT[spec.hardwareVersion] ?? 1;
+
+  if (options.hardwareVersion !== undefined && options.hardwareVersion !== spec.hardwareVersion) {
+    errors.push({
+      path: 'hardwareVersion',
+      code: 'hardware_mismatch',
+      message: `Pattern hardwareVersion ${options.hardwareVersion} does not match spec.hardwareVersion ${spec.hardwareVersion}`,
+    });
+  }
+
+  let lastEnd = 0;
+  spec.elements.forEach((element, i) => {
+    const path = `spec.elements[${i}]`;
+    const end = element.startTime + element.duration;
+    lastEnd = Math.max(lastEnd, end);
+    if (end > spec.duration) {
+      errors.push({
+        path: `${path}.duration`,
+        code: 'element_exceeds_duration',
+        message: `Element ends at ${end} ms, after pattern duration ${spec.duration} ms`,
+      });
+    }
+
+    if (element.color !== undefined && !parseHexColor(element.color)) {
+      errors.push({ path: `${path}.color`, code: 'invalid_color', message: `Invalid hex color: ${element.color}` });
+    }
+    element.colors?.forEach((color, j) => {
+      if (!parseHexColor(color)) {
+        errors.push({ path: `${path}.colors[${j}]`, code: 'invalid_color', message: `Invalid hex color: ${color}` });
+      }
+    });
+
+    if (spec.hardwareVersion === 100) {
+      if (element.leds !== undefined) {
+        errors.push({ path: `${path}.leds`, code: 'unsupported_on_hardware', message: 'HW 100 has a single LED: leds are not supported' });
+      }
+      if (element.direction !== undefined) {
+        errors.push({ path: `${path}.direction`, code: 'unsupported_on_hardware', message: 'HW 100 has a single LED: direction is not supported' });
+      }
+    } else {
+      const seen = new Set<number>();
+      element.leds?.forEach((led, j) => {
+        if (led >= ledCount) {
+          errors.push({
+            path: `${path}.leds[${j}]`,
+            code: 'led_out_of_range',
+            message: `LED index ${led} is out of range (ring has ${ledCount} LEDs: 0-${ledCount - 1})`,
+          });
+        } else if (seen.has(led)) {
+          warnings.push({ path: `${path}.leds[${j}]`, code: 'duplicate_led', message: `LED index ${led} is listed more than once` });
+        }
+        seen.add(led);
+      });
+    }
+
+    if (element.intensity === 0) {
+      warnings.push({ path: `${path}.intensity`, code: 'invisible_element', message: 'Element has zero intensity and is not visible' });
+    }
+  });
+
+  if (spec.elements.length > 0 && lastEnd < spec.duration) {
+    warnings.push({
+      path: 'spec.duration',
+      code: 'trailing_gap',
+      message: `LEDs stay dark for the last ${spec.duration - lastEnd} ms`,
+    });
+  }
+
+  // Размер бинарного формата проверяем только для корректной спецификации
+  if (errors.length === 0) {
+    try {
+      encodePatternBinary(spec);
+    } catch (error) {
+      if (error instanceof PatternEncodingError && error.details?.limit !== undefined) {
+        warnings.push({ path: 'spec', code: 'exceeds_device_buffer', message: error.message });
+      }
+    }
+  }
+
+  return { errors, warnings };
+}
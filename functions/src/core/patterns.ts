@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 export type HardwareVersion = 100 | 200;
 
 export interface PatternSpecElement {
@@ -20,6 +22,127 @@ export interface PatternSpec {
   elements: PatternSpecElement[];
 }
 
+// JSON с отсортированными ключами: одинаковые спецификации дают одинаковую строку (ключи кеша, хеши ревизий)
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Хеш спецификации (sha256 от stableStringify): не зависит от порядка ключей
+ */
+export function patternSpecHash(spec: PatternSpec): string {
+  return crypto.createHash('sha256').update(stableStringify(spec)).digest('hex');
+}
+
+/**
+ * Перенос паттерна между ревизиями железа с отчётом о приближениях (чтобы UI предупредил пользователя)
+ * - 200 → 100: leds и direction отбрасываются, градиент сводится к первому цвету
+ * - 100 → 200 по умолчанию: паттерн одинаково горит на всём кольце (без приближений)
+ * - 100 → 200 с upLevel: эффекты разворачиваются по кольцу — pulse → chase, breathing → вращающийся
+ *   градиент к чёрному, градиент и многоцветный custom → вращающийся градиент; color остаётся на всём кольце
+ */
+export interface PatternApproximation {
+  path: string;
+  code: string;
+  message: string;
+}
+
+export interface PatternConversion {
+  spec: PatternSpec;
+  approximations: PatternApproximation[];
+}
+
+function downLevelTo100(spec: PatternSpec): PatternConversion {
+  const approximations: PatternApproximation[] = [];
+  const elements = spec.elements.map((el, i) => {
+    const path = `spec.elements[${i}]`;
+    if (el.leds !== undefined) {
+      approximations.push({ path: `${path}.leds`, code: 'leds_dropped', message: 'Single LED: element plays on the whole device' });
+    }
+    if (el.direction !== undefined) {
+      approximations.push({ path: `${path}.direction`, code: 'direction_dropped', message: 'Single LED: direction is ignored' });
+    }
+    if (el.colors && el.colors.length > 1) {
+      approximations.push({ path: `${path}.colors`, code: 'colors_reduced', message: `Single LED: only the first color ${el.colors[0]} is kept` });
+    }
+    return {
+      type: el.type,
+      startTime: el.startTime,
+      duration: el.duration,
+      // Для градиента используем первый цвет, иначе берём одиночный цвет
+      color: el.colors && el.colors.length > 0 ? el.colors[0] : el.color,
+      intensity: el.intensity,
+      speed: el.speed,
+    };
+  });
+  return {
+    spec: { type: spec.type, hardwareVersion: 100, duration: spec.duration, loop: spec.loop, elements },
+    approximations,
+  };
+}
+
+function upLevelTo200(spec: PatternSpec): PatternConversion {
+  const approximations: PatternApproximation[] = [];
+  const elements = spec.elements.map((el, i): PatternSpecElement => {
+    const path = `spec.elements[${i}]`;
+    const base = { startTime: el.startTime, duration: el.duration, intensity: el.intensity, speed: el.speed };
+    const colors = el.colors && el.colors.length > 0 ? el.colors : [el.color ?? '#000000'];
+    switch (el.type) {
+      case 'pulse':
+        approximations.push({ path: `${path}.type`, code: 'pulse_to_chase', message: 'Pulse is expanded into a chase around the ring' });
+        return { type: 'chase', ...base, color: colors[0] };
+      case 'breathing':
+        approximations.push({
+          path: `${path}.type`,
+          code: 'breathing_to_gradient',
+          message: 'Breathing is expanded into a gradient rotating around the ring',
+        });
+        return { type: 'gradient', ...base, colors: [colors[0], '#000000'], direction: 'clockwise' };
+      case 'gradient':
+      case 'custom':
+        if (colors.length < 2) return { ...el };
+        approximations.push({
+          path: `${path}.colors`,
+          code: 'gradient_rotated',
+          message: 'Color sequence is shown as a gradient rotating around the ring',
+        });
+        return { type: 'gradient', ...base, colors, direction: 'clockwise' };
+      default:
+        return { ...el };
+    }
+  });
+  // Тип паттерна следует за развёрнутыми эффектами
+  let type = spec.type;
+  if (type === 'pulse') type = 'chase';
+  else if (type === 'breathing') type = 'gradient';
+  return {
+    spec: { ...spec, type, hardwareVersion: 200, elements: elements.map(dropUndefined) },
+    approximations,
+  };
+}
+
+function dropUndefined(element: PatternSpecElement): PatternSpecElement {
+  return Object.fromEntries(Object.entries(element).filter(([, v]) => v !== undefined)) as unknown as PatternSpecElement;
+}
+
+export function convertPatternSpec(
+  spec: PatternSpec,
+  hardwareVersion: HardwareVersion,
+  options: { upLevel?: boolean } = {}
+): PatternConversion {
+  if (spec.hardwareVersion === hardwareVersion) return { spec, approximations: [] };
+  if (hardwareVersion === 100) return downLevelTo100(spec);
+  if (options.upLevel) return upLevelTo200(spec);
+  return { spec: { ...spec, hardwareVersion }, approximations: [] };
+}
+
 /**
  * Даун-левелинг паттерна с HW=200 до HW=100.
  * Упрощаем элементы: игнорируем leds и direction, сводим градиенты к первому цвету.
@@ -30,26 +153,468 @@ export function downLevelPatternSpec(spec: PatternSpec, target: HardwareVersion)
   }
 
   if (spec.hardwareVersion === 200 && target === 100) {
-    const simplified: PatternSpec = {
-      type: spec.type,
-      hardwareVersion: 100,
-      duration: spec.duration,
-      loop: spec.loop,
-      elements: spec.elements.map((el) => ({
-        type: el.type,
-        startTime: el.startTime,
-        duration: el.duration,
-        // Для градиента используем первый цвет, иначе берём одиночный цвет
-        color: el.colors && el.colors.length > 0 ? el.colors[0] : el.color,
-        intensity: el.intensity,
-        speed: el.speed,
-      })),
-    };
-    return simplified;
+    return downLevelTo100(spec).spec;
   }
 
-  // Обратный ап-левел не выполняем автоматически; возвращаем исходный
+  // Ап-левел только по явному запросу (convertPatternSpec с upLevel); возвращаем исходный
   return spec;
 }
 
+/**
+ * Рендер таймлайна паттерна в покадровые RGB-значения светодиодов (превью, валидация, миниатюры)
+ * - HW 100: один светодиод; HW 200: кольцо из 12 светодиодов, индекс 0 — «12 часов», далее по часовой
+ * - элемент активен в [startTime, startTime + duration); время за пределами spec.duration
+ *   при loop берётся по модулю, иначе светодиоды погашены
+ * - speed — число циклов эффекта за duration элемента (по умолчанию 1), intensity — яркость 0..1
+ * - leds ограничивает элемент подмножеством кольца (на HW 100 игнорируется)
+ * - наложение элементов аддитивное с насыщением до 255
+ */
+
+export type Rgb = [number, number, number];
+
+export const LED_COUNT: Record<HardwareVersion, number> = { 100: 1, 200: 12 };
+
+export const DEFAULT_RENDER_FPS = 30;
+export const MAX_RENDER_FPS = 120;
+export const MAX_RENDER_FRAMES = 20000;
+
+export interface PatternRenderOptions {
+  fps?: number;
+  durationMs?: number; // по умолчанию spec.duration
+}
+
+export interface PatternFrame {
+  timeMs: number;
+  leds: Rgb[];
+}
+
+export interface PatternTimeline {
+  hardwareVersion: HardwareVersion;
+  ledCount: number;
+  fps: number;
+  durationMs: number;
+  frames: PatternFrame[];
+}
+
+export class PatternRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatternRenderError';
+  }
+}
+
+const BLACK: Rgb = [0, 0, 0];
+
+/**
+ * Разбор цвета `#RGB` или `#RRGGBB`; null, если строка не является hex-цветом
+ */
+export function parseHexColor(value: string | undefined): Rgb | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec((value ?? '').trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].split('').map((c) => c + c).join('') : match[1];
+  return [0, 2, 4].map((i) => Number.parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+}
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+function scale(color: Rgb, factor: number): Rgb {
+  return [color[0] * factor, color[1] * factor, color[2] * factor];
+}
+
+function fract(value: number): number {
+  return value - Math.floor(value);
+}
+
+// Цвет градиента в позиции 0..1; cyclic — последний цвет переходит обратно в первый (для вращения)
+function sampleGradient(colors: Rgb[], position: number, cyclic: boolean): Rgb {
+  if (colors.length === 1) return colors[0];
+  const stops = cyclic ? [...colors, colors[0]] : colors;
+  const scaled = (cyclic ? fract(position) : Math.min(1, Math.max(0, position))) * (stops.length - 1);
+  const index = Math.min(Math.floor(scaled), stops.length - 2);
+  return mix(stops[index], stops[index + 1], scaled - index);
+}
+
+// Плавный вдох-выдох: 0 → 1 → 0 за цикл
+function breathingCurve(phase: number): number {
+  return (1 - Math.cos(2 * Math.PI * fract(phase))) / 2;
+}
+
+// Пульс: быстрая атака за первые 10% цикла, затем квадратичное затухание
+function pulseCurve(phase: number): number {
+  const position = fract(phase);
+  return position < 0.1 ? position / 0.1 : Math.pow(1 - (position - 0.1) / 0.9, 2);
+}
+
+function elementColors(element: PatternSpecElement): Rgb[] {
+  const raw = element.colors && element.colors.length > 0 ? element.colors : [element.color];
+  const colors = raw.map((c) => parseHexColor(c)).filter((c): c is Rgb => c !== null);
+  return colors.length > 0 ? colors : [BLACK];
+}
+
+// Светодиоды элемента в порядке обхода; на HW 100 — всегда единственный светодиод
+function elementLeds(element: PatternSpecElement, ledCount: number): number[] {
+  if (ledCount === 1 || !element.leds || element.leds.length === 0) {
+    return Array.from({ length: ledCount }, (_, i) => i);
+  }
+  return [...new Set(element.leds)].filter((i) => Number.isInteger(i) && i >= 0 && i < ledCount);
+}
+
+// Позиция k-го светодиода элемента 0..1 с учётом направления движения
+function ledPosition(k: number, n: number, direction: PatternSpecElement['direction']): number {
+  if (direction === 'center' || direction === 'outward') {
+    const middle = (n - 1) / 2;
+    return middle === 0 ? 0 : Math.abs(k - middle) / middle;
+  }
+  return n === 1 ? 0 : k / n;
+}
+
+/**
+ * Цвета светодиодов одного элемента в момент localMs от его начала (индекс — номер светодиода)
+ */
+function renderElement(element: PatternSpecElement, localMs: number, ledCount: number): Map<number, Rgb> {
+  const leds = elementLeds(element, ledCount);
+  const n = leds.length;
+  const phase = (localMs / element.duration) * (element.speed ?? 1);
+  const intensity = Math.min(1, Math.max(0, element.intensity ?? 1));
+  const colors = elementColors(element);
+  const direction = element.direction;
+  // clockwise/center — движение «вперёд» по позиции, counterclockwise/outward — обратно
+  const shift = direction === 'counterclockwise' || direction === 'outward' ? -phase : phase;
+  const out = new Map<number, Rgb>();
+
+  leds.forEach((led, k) => {
+    let color: Rgb;
+    switch (element.type) {
+      case 'breathing':
+        color = scale(colors[0], breathingCurve(phase));
+        break;
+      case 'pulse':
+        color = scale(colors[0], pulseCurve(phase));
+        break;
+      case 'gradient':
+        if (ledCount === 1) {
+          // Один светодиод: градиент разворачивается во времени
+          color = sampleGradient(colors, phase, true);
+        } else if (direction) {
+          color = sampleGradient(colors, ledPosition(k, n, direction) - shift, true);
+        } else {
+          color = sampleGradient(colors, n === 1 ? 0 : k / (n - 1), false);
+        }
+        break;
+      case 'chase': {
+        // «Голова» проходит элемент за цикл, хвост затухает на четверть длины
+        // center/outward — две симметричные «головы», бегущие по половинам
+        const tail = Math.max(1, n / 4);
+        const symmetric = direction === 'center' || direction === 'outward';
+        const position = symmetric ? ledPosition(k, n, direction) * (n / 2) : k;
+        const span = symmetric ? Math.max(1, n / 2) : n;
+        const head = fract(shift) * span;
+        const behind = (((head - position) % span) + span) % span;
+        color = scale(colors[0], Math.max(0, 1 - behind / tail));
+        break;
+      }
+      case 'custom':
+        color = colors.length > 1 ? sampleGradient(colors, n === 1 ? fract(phase) : k / n, true) : colors[0];
+        break;
+      default:
+        color = colors[0];
+    }
+    out.set(led, scale(color, intensity));
+  });
+  return out;
+}
+
+/**
+ * Цвета всех светодиодов в момент timeMs от начала воспроизведения
+ */
+export function renderPatternFrame(spec: PatternSpec, timeMs: number): Rgb[] {
+  const ledCount = LED_COUNT[spec.hardwareVersion];
+  const leds: Rgb[] = Array.from({ length: ledCount }, () => [0, 0, 0] as Rgb);
+  if (timeMs < 0 || spec.duration <= 0) return leds;
+  if (timeMs >= spec.duration && !spec.loop) return leds;
+  const t = timeMs % spec.duration;
+
+  for (const element of spec.elements) {
+    if (element.duration <= 0 || t < element.startTime || t >= element.startTime + element.duration) continue;
+    for (const [index, color] of renderElement(element, t - element.startTime, ledCount)) {
+      leds[index] = [leds[index][0] + color[0], leds[index][1] + color[1], leds[index][2] + color[2]];
+    }
+  }
+  return leds.map((color) => color.map((c) => Math.min(255, Math.max(0, Math.round(c)))) as Rgb);
+}
+
+/**
+ * Покадровый рендер паттерна с частотой fps. Бросает PatternRenderError при недопустимых fps
+ * или слишком большом числе кадров (больше MAX_RENDER_FRAMES).
+ */
+export function renderPattern(spec: PatternSpec, options: PatternRenderOptions = {}): PatternTimeline {
+  const fps = options.fps ?? DEFAULT_RENDER_FPS;
+  const durationMs = options.durationMs ?? spec.duration;
+  if (!Number.isFinite(fps) || fps <= 0 || fps > MAX_RENDER_FPS) {
+    throw new PatternRenderError(`fps must be between 1 and ${MAX_RENDER_FPS}`);
+  }
+  if (!Number.isFinite(durationMs) || durationMs <= 0) {
+    throw new PatternRenderError('durationMs must be positive');
+  }
+  const frameCount = Math.ceil((durationMs * fps) / 1000);
+  if (frameCount > MAX_RENDER_FRAMES) {
+    throw new PatternRenderError(`Pattern render exceeds ${MAX_RENDER_FRAMES} frames`);
+  }
+
+  const frames: PatternFrame[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    const timeMs = Math.round((i * 1000) / fps);
+    frames.push({ timeMs, leds: renderPatternFrame(spec, timeMs) });
+  }
+  return {
+    hardwareVersion: spec.hardwareVersion,
+    ledCount: LED_COUNT[spec.hardwareVersion],
+    fps,
+    durationMs,
+    frames,
+  };
+}
+
+/**
+ * Бинарный формат паттерна для передачи по BLE (little-endian), версия 1:
+ * - заголовок 12 байт: 'AP', версия формата, ревизия железа (1 — HW 100, 2 — HW 200), флаги loop,
+ *   тип паттерна, длительность u32 (мс), размер палитры u8, число элементов u8
+ * - палитра: RGB по 3 байта; элементы ссылаются на цвета индексом
+ * - элемент: тип u8, маска присутствия полей u8, startTime u32, duration u32, затем по маске:
+ *   цвет (индекс), цвета (число + индексы), intensity u16 (1/1000), speed u16 (1/100),
+ *   direction u8, leds — битовая маска u16
+ * - CRC-16/CCITT-FALSE всего предыдущего
+ * Декодер возвращает каноническую форму: цвета #RRGGBB в верхнем регистре, leds по возрастанию
+ * без повторов; для спецификаций в канонической форме decode(encode(spec)) совпадает с исходной.
+ */
+
+export const BINARY_PATTERN_FORMAT_VERSION = 1;
+
+// Ограничение буфера паттерна в прошивке
+export const MAX_BINARY_PATTERN_BYTES: Record<HardwareVersion, number> = { 100: 512, 200: 2048 };
+
+const BINARY_MAGIC = [0x41, 0x50]; // 'AP'
+const BINARY_HEADER_BYTES = 12;
+const SPEC_TYPES: PatternSpec['type'][] = ['breathing', 'pulse', 'rainbow', 'fire', 'gradient', 'chase', 'custom'];
+const ELEMENT_TYPES = ['color', 'gradient', 'pulse', 'chase', 'breathing', 'custom'];
+const DIRECTIONS: NonNullable<PatternSpecElement['direction']>[] = ['clockwise', 'counterclockwise', 'center', 'outward'];
+const INTENSITY_SCALE = 1000;
+const SPEED_SCALE = 100;
+const MAX_LED_INDEX = 15;
+
+const FIELD_COLOR = 1 << 0;
+const FIELD_COLORS = 1 << 1;
+const FIELD_INTENSITY = 1 << 2;
+const FIELD_SPEED = 1 << 3;
+const FIELD_DIRECTION = 1 << 4;
+const FIELD_LEDS = 1 << 5;
+
+const FLAG_LOOP = 1 << 0;
+const FLAG_LOOP_SET = 1 << 1; // loop задан явно (false отличается от отсутствия)
+
+export class PatternEncodingError extends Error {
+  constructor(message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'PatternEncodingError';
+  }
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
 
+function le32(value: number, field: string): number[] {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw new PatternEncodingError(`${field} must be a non-negative integer`, { field, value });
+  }
+  return [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff];
+}
+
+function toHex(color: Rgb): string {
+  return `#${color.map((c) => c.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+function scaled(value: number, scale: number, field: string): number {
+  const result = Math.round(value * scale);
+  if (!Number.isFinite(result) || result < 0 || result > 0xffff) {
+    throw new PatternEncodingError(`Element ${field} is out of range`, { field, value });
+  }
+  // Значение, которое декодер не восстановит точно, не кодируем молча с округлением
+  if (result / scale !== value) {
+    throw new PatternEncodingError(`Element ${field} must be a multiple of ${1 / scale}`, { field, value });
+  }
+  return result;
+}
+
+/**
+ * Кодирует спецификацию в бинарный формат. Бросает PatternEncodingError, если спецификацию
+ * нельзя представить (неизвестный тип, цвет не hex, больше 255 цветов или элементов, leds > 15,
+ * intensity или speed точнее шага формата)
+ * или результат превышает MAX_BINARY_PATTERN_BYTES для ревизии железа.
+ */
+export function encodePatternBinary(spec: PatternSpec): Buffer {
+  const palette: string[] = [];
+  const paletteIndex = (raw: string | undefined): number => {
+    const color = parseHexColor(raw);
+    if (!color) throw new PatternEncodingError(`Invalid color: ${raw ?? '(empty)'}`, { color: raw ?? null });
+    const hex = toHex(color);
+    let index = palette.indexOf(hex);
+    if (index === -1) {
+      index = palette.push(hex) - 1;
+      if (palette.length > 255) throw new PatternEncodingError('Pattern uses more than 255 colors');
+    }
+    return index;
+  };
+
+  const specType = SPEC_TYPES.indexOf(spec.type);
+  if (specType === -1) throw new PatternEncodingError(`Unknown pattern type: ${spec.type}`);
+  if (spec.elements.length > 255) throw new PatternEncodingError('Pattern has more than 255 elements');
+
+  const body: number[] = [];
+  const u16 = (value: number) => body.push(value & 0xff, (value >>> 8) & 0xff);
+
+  for (const element of spec.elements) {
+    const type = ELEMENT_TYPES.indexOf(element.type);
+    if (type === -1) throw new PatternEncodingError(`Unknown element type: ${element.type}`);
+    const direction = element.direction === undefined ? -1 : DIRECTIONS.indexOf(element.direction);
+    if (element.direction !== undefined && direction === -1) {
+      throw new PatternEncodingError(`Unknown direction: ${element.direction}`);
+    }
+    let fields = 0;
+    if (element.color !== undefined) fields |= FIELD_COLOR;
+    if (element.colors !== undefined) fields |= FIELD_COLORS;
+    if (element.intensity !== undefined) fields |= FIELD_INTENSITY;
+    if (element.speed !== undefined) fields |= FIELD_SPEED;
+    if (direction !== -1) fields |= FIELD_DIRECTION;
+    if (element.leds !== undefined) fields |= FIELD_LEDS;
+
+    body.push(type, fields);
+    body.push(...le32(element.startTime, 'startTime'), ...le32(element.duration, 'duration'));
+    if (element.color !== undefined) body.push(paletteIndex(element.color));
+    if (element.colors !== undefined) {
+      if (element.colors.length > 255) throw new PatternEncodingError('Element has more than 255 colors');
+      body.push(element.colors.length, ...element.colors.map(paletteIndex));
+    }
+    if (element.intensity !== undefined) u16(scaled(element.intensity, INTENSITY_SCALE, 'intensity'));
+    if (element.speed !== undefined) u16(scaled(element.speed, SPEED_SCALE, 'speed'));
+    if (direction !== -1) body.push(direction);
+    if (element.leds !== undefined) {
+      let mask = 0;
+      for (const led of element.leds) {
+        if (!Number.isInteger(led) || led < 0 || led > MAX_LED_INDEX) {
+          throw new PatternEncodingError(`LED index must be between 0 and ${MAX_LED_INDEX}`, { led });
+        }
+        mask |= 1 << led;
+      }
+      u16(mask);
+    }
+  }
+
+  const header = [
+    ...BINARY_MAGIC,
+    BINARY_PATTERN_FORMAT_VERSION,
+    spec.hardwareVersion === 200 ? 2 : 1,
+    (spec.loop ? FLAG_LOOP : 0) | (spec.loop !== undefined ? FLAG_LOOP_SET : 0),
+    specType,
+    ...le32(spec.duration, 'duration'),
+    palette.length,
+    spec.elements.length,
+  ];
+  const paletteBytes = palette.flatMap((hex) => parseHexColor(hex) as Rgb);
+  const payload = Uint8Array.from([...header, ...paletteBytes, ...body]);
+  const crc = crc16(payload);
+  const blob = Buffer.concat([Buffer.from(payload), Buffer.from([crc & 0xff, crc >>> 8])]);
+
+  const limit = MAX_BINARY_PATTERN_BYTES[spec.hardwareVersion];
+  if (blob.length > limit) {
+    throw new PatternEncodingError(`Encoded pattern exceeds ${limit} bytes for hardware ${spec.hardwareVersion}`, {
+      size: blob.length,
+      limit,
+      hardwareVersion: spec.hardwareVersion,
+    });
+  }
+  return blob;
+}
+
+/**
+ * Декодирует бинарный паттерн; бросает PatternEncodingError при повреждённых данных
+ */
+export function decodePatternBinary(blob: Uint8Array): PatternSpec {
+  if (blob.length < BINARY_HEADER_BYTES + 2) throw new PatternEncodingError('Binary pattern is truncated');
+  const payload = blob.subarray(0, blob.length - 2);
+  const storedCrc = blob[blob.length - 2] | (blob[blob.length - 1] << 8);
+  if (crc16(payload) !== storedCrc) throw new PatternEncodingError('Binary pattern checksum mismatch');
+  if (payload[0] !== BINARY_MAGIC[0] || payload[1] !== BINARY_MAGIC[1]) {
+    throw new PatternEncodingError('Not a binary pattern');
+  }
+  if (payload[2] !== BINARY_PATTERN_FORMAT_VERSION) {
+    throw new PatternEncodingError(`Unsupported binary pattern version: ${payload[2]}`);
+  }
+
+  let offset = 0;
+  const need = (count: number) => {
+    if (offset + count > payload.length) throw new PatternEncodingError('Binary pattern is truncated');
+  };
+  const u8 = () => {
+    need(1);
+    return payload[offset++];
+  };
+  const u16 = () => u8() | (u8() << 8);
+  const u32 = () => u16() + u16() * 0x10000;
+
+  offset = 3;
+  const hardware = u8();
+  if (hardware !== 1 && hardware !== 2) throw new PatternEncodingError(`Unknown hardware code: ${hardware}`);
+  const flags = u8();
+  const type = SPEC_TYPES[u8()];
+  if (!type) throw new PatternEncodingError('Unknown pattern type');
+  const duration = u32();
+  const paletteSize = u8();
+  const elementCount = u8();
+  const palette: string[] = [];
+  for (let i = 0; i < paletteSize; i++) palette.push(toHex([u8(), u8(), u8()]));
+  const color = () => {
+    const hex = palette[u8()];
+    if (hex === undefined) throw new PatternEncodingError('Palette index out of range');
+    return hex;
+  };
+
+  const elements: PatternSpecElement[] = [];
+  for (let i = 0; i < elementCount; i++) {
+    const elementType = ELEMENT_TYPES[u8()];
+    if (!elementType) throw new PatternEncodingError('Unknown element type');
+    const fields = u8();
+    const element: PatternSpecElement = { type: elementType, startTime: u32(), duration: u32() };
+    if (fields & FIELD_COLOR) element.color = color();
+    if (fields & FIELD_COLORS) {
+      const count = u8();
+      element.colors = Array.from({ length: count }, color);
+    }
+    if (fields & FIELD_INTENSITY) element.intensity = u16() / INTENSITY_SCALE;
+    if (fields & FIELD_SPEED) element.speed = u16() / SPEED_SCALE;
+    if (fields & FIELD_DIRECTION) {
+      const direction = DIRECTIONS[u8()];
+      if (!direction) throw new PatternEncodingError('Unknown direction');
+      element.direction = direction;
+    }
+    if (fields & FIELD_LEDS) {
+      const mask = u16();
+      element.leds = Array.from({ length: MAX_LED_INDEX + 1 }, (_, led) => led).filter((led) => mask & (1 << led));
+    }
+    elements.push(element);
+  }
+  if (offset !== payload.length) throw new PatternEncodingError('Unexpected trailing bytes in binary pattern');
+
+  const spec: PatternSpec = { type, hardwareVersion: hardware === 2 ? 200 : 100, duration, elements };
+  if (flags & FLAG_LOOP_SET) spec.loop = Boolean(flags & FLAG_LOOP);
+  return spec;
+}
@@ -0,0 +1,148 @@
+/**
+ * Запросы на адреса, которые задают пользователи (исходящие вебхуки, ICS-фиды), без доступа к внутренней сети
+ * - isPublicHttpsUrl — синтаксическая проверка при сохранении: https, не localhost/.local, не IP-литерал
+ * - resolvePublicHttpsUrl перед каждым запросом резолвит хост (все адреса) и отклоняет частные,
+ *   loopback, link-local и прочие непубличные диапазоны
+ * - publicHttpsFetch подключается к уже проверенному адресу (повторного резолва нет, DNS rebinding не сработает)
+ *   и не следует редиректам: вызывающий проверяет каждый Location заново
+ */
+
+import { lookup } from 'dns/promises';
+import https from 'https';
+import net from 'net';
+import { Readable } from 'stream';
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export interface PublicHttpsTarget {
+  url: URL;
+  address: string;
+  family: 4 | 6;
+}
+
+export interface PublicHttpsRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+const BLOCKED_IPV4 = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], // «этот» хост
+  ['10.0.0.0', 8], // частные
+  ['100.64.0.0', 10], // CGNAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, метаданные облака
+  ['172.16.0.0', 12], // частные
+  ['192.0.0.0', 24], // IETF
+  ['192.0.2.0', 24], // документация
+  ['192.168.0.0', 16], // частные
+  ['198.18.0.0', 15], // бенчмарки
+  ['198.51.100.0', 24], // документация
+  ['203.0.113.0', 24], // документация
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // зарезервированные и broadcast
+] as const) {
+  BLOCKED_IPV4.addSubnet(prefix, bits, 'ipv4');
+}
+
+const BLOCKED_IPV6 = new net.BlockList();
+for (const [prefix, bits] of [
+  ['::', 127], // unspecified и loopback
+  ['64:ff9b::', 96], // NAT64: внутри может быть любой IPv4
+  ['100::', 64], // discard
+  ['2001::', 32], // Teredo
+  ['2001:db8::', 32], // документация
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_IPV6.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * Адрес из публичного интернета; IPv4-mapped IPv6 (::ffff:a.b.c.d) проверяется как IPv4
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+  if (net.isIPv4(address)) return !BLOCKED_IPV4.check(address, 'ipv4');
+  if (net.isIPv6(address)) return !BLOCKED_IPV6.check(address, 'ipv6');
+  return false;
+}
+
+/**
+ * Допускается только https на публичный хост (без localhost, .local и IP-адресов)
+ */
+export function isPublicHttpsUrl(raw: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return false;
+  }
+  const host = url.hostname.toLowerCase();
+  const isIpLiteral = /^[\d.]+$/.test(host) || host.includes(':') || host.startsWith('[');
+  return url.protocol === 'https:' && host !== 'localhost' && !host.endsWith('.local') && !isIpLiteral;
+}
+
+/**
+ * Проверяет ссылку и резолвит хост; все его адреса должны быть публичными.
+ * Возвращает адрес, к которому нужно подключаться (первый из ответа DNS).
+ */
+export async function resolvePublicHttpsUrl(raw: string): Promise<PublicHttpsTarget> {
+  if (!isPublicHttpsUrl(raw)) throw new UnsafeUrlError('URL must be a public https address');
+  const url = new URL(raw);
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(url.hostname, { all: true, verbatim: true });
+  } catch (error) {
+    throw new UnsafeUrlError(`Failed to resolve ${url.hostname}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (addresses.length === 0) throw new UnsafeUrlError(`Failed to resolve ${url.hostname}`);
+  if (addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new UnsafeUrlError(`${url.hostname} resolves to a non-public address`);
+  }
+  const [{ address, family }] = addresses;
+  return { url, address, family: family === 6 ? 6 : 4 };
+}
+
+// Статусы, у которых по спецификации fetch не может быть тела
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Один HTTPS-запрос к проверенному адресу без редиректов; ответ — стандартный Response.
+ * Сертификат и SNI проверяются по имени хоста из ссылки.
+ */
+export function publicHttpsFetch(target: PublicHttpsTarget, init: PublicHttpsRequestInit = {}): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(target.url, {
+      method: init.method ?? 'GET',
+      headers: init.headers,
+      signal: init.signal,
+      // Подключение только к адресу, прошедшему проверку: хост не резолвится второй раз
+      lookup: (_hostname, options, callback) => {
+        if (options.all) callback(null, [{ address: target.address, family: target.family }]);
+        else callback(null, target.address, target.family);
+      },
+    }, (incoming) => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(incoming.headers)) {
+        for (const item of Array.isArray(value) ? value : [value ?? '']) headers.append(name, item);
+      }
+      const status = incoming.statusCode ?? 502;
+      const body = NULL_BODY_STATUSES.has(status) ? null : (Readable.toWeb(incoming) as ReadableStream<Uint8Array>);
+      if (!body) incoming.resume();
+      resolve(new Response(body, { status, statusText: incoming.statusMessage, headers }));
+    });
+    request.on('error', reject);
+    request.end(init.body);
+  });
+}
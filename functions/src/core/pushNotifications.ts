@@ -17,6 +17,8 @@ const PUSH_MESSAGES: Record<SupportedLanguage, Record<string, string>> = {
     'push.practice.reminder.body': 'Take a moment to breathe and center yourself',
     'push.ota.available.title': 'Firmware update available',
     'push.ota.available.body': 'Your Amulet has a new update ready',
+    'push.rule.triggered.title': 'Your automation ran',
+    'push.rule.triggered.body': 'One of your rules has just been triggered',
   },
   ru: {
     'push.hug.received.title': 'Вы получили объятие',
@@ -27,6 +29,8 @@ const PUSH_MESSAGES: Record<SupportedLanguage, Record<string, string>> = {
     'push.practice.reminder.body': 'Найдите момент, чтобы подышать и сосредоточиться',
     'push.ota.available.title': 'Доступно обновление прошивки',
     'push.ota.available.body': 'Ваш Амулет готов к обновлению',
+    'push.rule.triggered.title': 'Сработала автоматизация',
+    'push.rule.triggered.body': 'Только что сработало одно из ваших правил',
   },
   es: {},
   fr: {},
@@ -61,7 +65,8 @@ export type NotificationEventType =
   | 'hug.received'
   | 'pair.invite'
   | 'practice.reminder'
-  | 'ota.available';
+  | 'ota.available'
+  | 'rule.triggered';
 
 export interface NotificationData {
   type: NotificationEventType;
@@ -92,6 +97,10 @@ const NOTIFICATION_TEMPLATES: Record<NotificationEventType, NotificationTemplate
     titleKey: 'push.ota.available.title',
     bodyKey: 'push.ota.available.body',
   },
+  'rule.triggered': {
+    titleKey: 'push.rule.triggered.title',
+    bodyKey: 'push.rule.triggered.body',
+  },
 };
 
 /**
@@ -331,3 +340,24 @@ export async function sendCustomNotification(
     return { delivered: false, tokensCount: 0 };
   }
 }
+
+/**
+ * Собирает уведомление без отправки: заголовок, текст и число активных токенов (для dry-run правил)
+ */
+export async function previewNotification(
+  userId: string,
+  eventType: NotificationEventType,
+  language?: string,
+  custom?: { title: string; body: string }
+): Promise<{ title: string; body: string; tokensCount: number }> {
+  const tokens = await getActiveTokens(userId);
+  if (custom) {
+    return { ...custom, tokensCount: tokens.length };
+  }
+  const template = NOTIFICATION_TEMPLATES[eventType];
+  return {
+    title: getLocalizedMessage(language || 'en', template.titleKey),
+    body: getLocalizedMessage(language || 'en', template.bodyKey),
+    tokensCount: tokens.length,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Квоты пользователя на ресурсы (лимиты из Remote Config)
+ * - rules: max_rules_per_user
+ * - patterns: max_patterns_per_user
+ * - devices: max_devices_per_user
+ * - geofences: max_geofences_per_user
+ * - calendars: max_calendars_per_user
+ * - integrations: max_integrations_per_user (коллекция webhooks)
+ * - outboundWebhooks: max_outbound_webhooks_per_user
+ *
+ * Использование считается по документам с ownerId пользователя. Проверка и запись
+ * выполняются в одной транзакции, поэтому параллельные запросы не превышают лимит.
+ */
+
+import { db } from './firebase';
+import { ApiError } from './http';
+import {
+  getMaxCalendarsPerUser,
+  getMaxDevicesPerUser,
+  getMaxGeofencesPerUser,
+  getMaxIntegrationsPerUser,
+  getMaxOutboundWebhooksPerUser,
+  getMaxPatternsPerUser,
+  getMaxRulesPerUser,
+} from './remoteConfig';
+
+export type QuotaResource = 'rules' | 'patterns' | 'devices' | 'geofences' | 'calendars' | 'integrations' | 'outboundWebhooks';
+
+export interface QuotaUsage {
+  resource: QuotaResource;
+  usage: number;
+  limit: number;
+  remaining: number;
+}
+
+const QUOTA_DEFINITIONS: Record<QuotaResource, { collection: string; getLimit: () => Promise<number> }> = {
+  rules: { collection: 'rules', getLimit: getMaxRulesPerUser },
+  patterns: { collection: 'patterns', getLimit: getMaxPatternsPerUser },
+  devices: { collection: 'devices', getLimit: getMaxDevicesPerUser },
+  geofences: { collection: 'geofences', getLimit: getMaxGeofencesPerUser },
+  calendars: { collection: 'calendars', getLimit: getMaxCalendarsPerUser },
+  integrations: { collection: 'webhooks', getLimit: getMaxIntegrationsPerUser },
+  outboundWebhooks: { collection: 'outboundWebhooks', getLimit: getMaxOutboundWebhooksPerUser },
+};
+
+export const QUOTA_RESOURCES = Object.keys(QUOTA_DEFINITIONS) as QuotaResource[];
+
+export class QuotaExceededError extends Error {
+  constructor(
+    public readonly resource: QuotaResource,
+    public readonly usage: number,
+    public readonly limit: number
+  ) {
+    super(`Quota exceeded for ${resource}: ${usage}/${limit}`);
+    this.name = 'QuotaExceededError';
+  }
+
+  toApiError(): ApiError {
+    return {
+      code: 'resource_exhausted',
+      message: `Too many ${this.resource} (max ${this.limit})`,
+      details: { resource: this.resource, usage: this.usage, limit: this.limit },
+    };
+  }
+}
+
+function usageQuery(resource: QuotaResource, userId: string) {
+  return db.collection(QUOTA_DEFINITIONS[resource].collection).where('ownerId', '==', userId).count();
+}
+
+/**
+ * Считает текущее использование ресурса (в транзакции, если она передана)
+ */
+export async function countQuotaUsage(
+  resource: QuotaResource,
+  userId: string,
+  tx?: FirebaseFirestore.Transaction
+): Promise<number> {
+  const query = usageQuery(resource, userId);
+  const snap = tx ? await tx.get(query) : await query.get();
+  return snap.data().count;
+}
+
+/**
+ * Выполняет запись нового ресурса в транзакции, если лимит не исчерпан.
+ * Бросает QuotaExceededError, если usage >= limit.
+ */
+export async function runWithinQuota<T>(
+  resource: QuotaResource,
+  userId: string,
+  write: (tx: FirebaseFirestore.Transaction) => T | Promise<T>
+): Promise<T> {
+  const limit = await QUOTA_DEFINITIONS[resource].getLimit();
+  return db.runTransaction(async (tx) => {
+    const usage = await countQuotaUsage(resource, userId, tx);
+    if (usage >= limit) {
+      throw new QuotaExceededError(resource, usage, limit);
+    }
+    return write(tx);
+  });
+}
+
+/**
+ * Использование всех квот пользователя
+ */
+export async function getUserQuotas(userId: string): Promise<QuotaUsage[]> {
+  return Promise.all(
+    QUOTA_RESOURCES.map(async (resource) => {
+      const [usage, limit] = await Promise.all([
+        countQuotaUsage(resource, userId),
+        QUOTA_DEFINITIONS[resource].getLimit(),
+      ]);
+      return { resource, usage, limit, remaining: Math.max(0, limit - usage) };
+    })
+  );
+}
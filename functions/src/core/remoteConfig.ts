@@ -20,12 +20,18 @@ const DEFAULT_VALUES = {
   max_patterns_per_user: 100,
   max_practices_per_user: 50,
   max_rules_per_user: 20,
+  max_geofences_per_user: 20,
+  max_calendars_per_user: 5,
+  max_integrations_per_user: 10,
+  max_outbound_webhooks_per_user: 10,
   session_timeout_minutes: 30,
   hug_cooldown_seconds: 60,
   pattern_share_cooldown_seconds: 300,
   webhook_timeout_seconds: 30,
+  webhook_secret_grace_hours: 24,
   outbox_retry_attempts: 5,
   outbox_retry_backoff_base_ms: 1000,
+  outbound_webhook_max_consecutive_failures: 15,
   token_retention_days: 90,
   cleanup_batch_size: 100,
   // Rate limiting параметры
@@ -51,6 +57,13 @@ const DEFAULT_VALUES = {
   telemetry_batch_size: 100,
   telemetry_flush_interval_ms: 60000,
   maintenance_mode: false,
+  rule_scheduler_catchup_minutes: 60,
+  rule_scheduler_batch_size: 100,
+  location_event_retention_hours: 24,
+  geofence_hysteresis_meters: 30,
+  geofence_cooldown_minutes: 5,
+  location_max_accuracy_meters: 200,
+  weather_provider: 'open_meteo',
   feature_flags: { advanced_patterns: true, social_features: true, analytics: false },
 } as const;
 
@@ -417,3 +430,94 @@ export async function isFeatureEnabled(feature: keyof {
   const flags = await getFeatureFlags();
   return flags[feature];
 }
+
+/**
+ * Получает окно догоняющего запуска time-правил в минутах
+ */
+export async function getRuleSchedulerCatchUpMinutes(): Promise<number> {
+  return await getConfigValue<number>('rule_scheduler_catchup_minutes');
+}
+
+/**
+ * Получает размер батча планировщика time-правил
+ */
+export async function getRuleSchedulerBatchSize(): Promise<number> {
+  return await getConfigValue<number>('rule_scheduler_batch_size');
+}
+
+/**
+ * Получает лимит геозон на пользователя
+ */
+export async function getMaxGeofencesPerUser(): Promise<number> {
+  return await getConfigValue<number>('max_geofences_per_user');
+}
+
+/**
+ * Получает срок хранения событий местоположения в часах
+ */
+export async function getLocationEventRetentionHours(): Promise<number> {
+  return await getConfigValue<number>('location_event_retention_hours');
+}
+
+/**
+ * Получает гистерезис выхода из геозоны в метрах
+ */
+export async function getGeofenceHysteresisMeters(): Promise<number> {
+  return await getConfigValue<number>('geofence_hysteresis_meters');
+}
+
+/**
+ * Получает кулдаун срабатываний геозоны в минутах
+ */
+export async function getGeofenceCooldownMinutes(): Promise<number> {
+  return await getConfigValue<number>('geofence_cooldown_minutes');
+}
+
+/**
+ * Получает максимально допустимую погрешность координат в метрах
+ */
+export async function getLocationMaxAccuracyMeters(): Promise<number> {
+  return await getConfigValue<number>('location_max_accuracy_meters');
+}
+
+/**
+ * Получить максимальное количество календарей на пользователя
+ */
+export async function getMaxCalendarsPerUser(): Promise<number> {
+  return await getConfigValue<number>('max_calendars_per_user');
+}
+
+/**
+ * Получить имя провайдера погоды для weather-правил
+ */
+export async function getWeatherProviderName(): Promise<string> {
+  return await getConfigValue<string>('weather_provider');
+}
+
+/**
+ * Получить максимальное количество webhook-интеграций на пользователя
+ */
+export async function getMaxIntegrationsPerUser(): Promise<number> {
+  return await getConfigValue<number>('max_integrations_per_user');
+}
+
+/**
+ * Получить длительность окна действия предыдущего секрета интеграции (часы)
+ */
+export async function getWebhookSecretGraceHours(): Promise<number> {
+  return await getConfigValue<number>('webhook_secret_grace_hours');
+}
+
+/**
+ * Получить максимальное количество подписок на исходящие вебхуки на пользователя
+ */
+export async function getMaxOutboundWebhooksPerUser(): Promise<number> {
+  return await getConfigValue<number>('max_outbound_webhooks_per_user');
+}
+
+/**
+ * Получить число неудачных доставок подряд, после которого подписка на исходящие вебхуки отключается
+ */
+export async function getOutboundWebhookMaxConsecutiveFailures(): Promise<number> {
+  return await getConfigValue<number>('outbound_webhook_max_consecutive_failures');
+}
@@ -0,0 +1,467 @@
+/**
+ * Исполнители действий IFTTT-правил
+ * - start_practice: создаёт сессию практики с source: 'rule'
+ * - send_hug: отправляет «объятие» с теми же проверками, что и POST /v1/hugs.send
+ * - light_device: отправляет паттерн на устройство через FCM (как /patterns/preview)
+ * - smart_home: валидирует команду (провайдеры умного дома пока не подключены)
+ * - notification: отправляет уведомление через core/pushNotifications
+ *
+ * Каждое действие валидирует свои params по отдельной схеме и возвращает структурированный результат.
+ * Строковые params могут содержать шаблоны {{payload.…}} (core/ruleTemplates), они подставляются перед проверкой.
+ * В режиме dryRun выполняются все проверки и чтения, но без записи и отправки:
+ * output описывает то, что было бы выполнено.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { getMessaging } from 'firebase-admin/messaging';
+import * as logger from 'firebase-functions/logger';
+import { z } from 'zod';
+import { db } from './firebase';
+import { checkHugSendable, sendHug } from './hugs';
+import { downLevelPatternSpec, HardwareVersion, PatternSpec } from './patterns';
+import { NotificationData, previewNotification, sendCustomNotification, sendNotification } from './pushNotifications';
+import { renderTemplateParams, templatable } from './ruleTemplates';
+import { Rule, RuleActionStep } from '../types/firestore';
+
+export type RuleActionType = RuleActionStep['type'];
+export type RuleTriggerType = Rule['trigger']['type'];
+
+export interface RuleActionContext {
+  ruleId: string;
+  triggerType: RuleTriggerType;
+  payload: Record<string, unknown>;
+  dryRun?: boolean;
+}
+
+export interface RuleActionError {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface RuleActionResult {
+  type: RuleActionType;
+  status: 'succeeded' | 'skipped' | 'failed';
+  output?: Record<string, unknown>;
+  error?: RuleActionError;
+}
+
+// Цвет light_device уходит на устройство как есть, поэтому только полная форма #RRGGBB
+const HEX_COLOR_REGEX = /^#[0-9A-Fa-f]{6}$/;
+
+// Схемы params для каждого типа действия. str оборачивает строковые поля:
+// при выполнении — как есть, при сохранении правила — с допуском шаблонов (core/ruleTemplates)
+function buildActionParamsSchemas(str: (schema: z.ZodString) => z.ZodString) {
+  const startPracticeParamsSchema = z.object({
+    practiceId: str(z.string().min(1).max(200)),
+    deviceId: str(z.string().min(1).max(200)).optional(),
+    intensity: z.number().min(0).max(1).optional(),
+    brightness: z.number().min(0).max(1).optional(),
+  });
+
+  const sendHugParamsSchema = z
+    .object({
+      toUserId: str(z.string().min(1).max(200)).optional(),
+      pairId: str(z.string().min(1).max(200)).optional(),
+      color: str(z.string().min(1).max(20)),
+      patternId: str(z.string().min(1).max(200)),
+      message: str(z.string().min(1).max(500)).optional(),
+    })
+    .refine((v) => Boolean(v.toUserId || v.pairId), {
+      message: 'Either toUserId or pairId must be provided',
+      path: ['toUserId'],
+    });
+
+  const lightDeviceParamsSchema = z
+    .object({
+      deviceId: str(z.string().min(1).max(200)),
+      patternId: str(z.string().min(1).max(200)).optional(),
+      color: str(z.string().regex(HEX_COLOR_REGEX, 'color must be #RRGGBB')).optional(),
+      intensity: z.number().min(0).max(1).optional(),
+      duration: z.number().int().min(1).max(600000).optional(),
+    })
+    .refine((v) => Boolean(v.patternId || v.color), {
+      message: 'Either patternId or color must be provided',
+      path: ['patternId'],
+    })
+    // Паттерн играет со своей длительностью из spec, duration задаёт только длительность цвета
+    .refine((v) => !(v.patternId && v.duration !== undefined), {
+      message: 'duration is only supported with color, not with patternId',
+      path: ['duration'],
+    });
+
+  const smartHomeParamsSchema = z.object({
+    provider: z.string().min(1).max(100),
+    command: str(z.string().min(1).max(100)),
+    target: str(z.string().min(1).max(200)).optional(),
+    value: z.union([str(z.string().max(200)), z.number(), z.boolean()]).optional(),
+  });
+
+  const notificationParamsSchema = z
+    .object({
+      title: str(z.string().min(1).max(200)).optional(),
+      body: str(z.string().min(1).max(1000)).optional(),
+    })
+    .refine((v) => Boolean(v.title) === Boolean(v.body), {
+      message: 'title and body must be provided together',
+      path: ['title'],
+    });
+
+  return {
+    start_practice: startPracticeParamsSchema,
+    send_hug: sendHugParamsSchema,
+    light_device: lightDeviceParamsSchema,
+    smart_home: smartHomeParamsSchema,
+    notification: notificationParamsSchema,
+  } as const;
+}
+
+export const ruleActionParamsSchemas = buildActionParamsSchemas((schema) => schema);
+
+// Схемы для сохранения правила: строковые params могут содержать шаблоны {{payload.…}}
+export const ruleActionTemplateParamsSchemas = buildActionParamsSchemas(templatable);
+
+type ActionParams<T extends RuleActionType> = z.infer<(typeof ruleActionParamsSchemas)[T]>;
+
+/**
+ * Преобразует ошибки zod в список ошибок по полям: путь через точку, индексы массивов в скобках.
+ * Для лишних ключей строгих схем ошибка выдаётся на каждый ключ.
+ */
+export function toFieldErrors(error: z.ZodError, prefix = 'params'): Array<{ field: string; message: string }> {
+  const formatPath = (path: PropertyKey[]) =>
+    path.reduce<string>((acc, key) => {
+      if (typeof key === 'number') return `${acc}[${key}]`;
+      return acc ? `${acc}.${String(key)}` : String(key);
+    }, prefix);
+
+  return error.issues.flatMap((issue) => {
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map((key) => ({ field: formatPath([...issue.path, key]), message: 'Unrecognized key' }));
+    }
+    return [{ field: formatPath(issue.path), message: issue.message }];
+  });
+}
+
+function failed(type: RuleActionType, error: RuleActionError): RuleActionResult {
+  return { type, status: 'failed', error };
+}
+
+async function startPracticeFromRule(
+  ownerId: string,
+  params: ActionParams<'start_practice'>,
+  context: RuleActionContext
+): Promise<RuleActionResult> {
+  const practiceSnap = await db.collection('practices').doc(params.practiceId).get();
+  if (!practiceSnap.exists) {
+    return failed('start_practice', { code: 'not_found', message: 'Practice not found' });
+  }
+
+  if (params.deviceId) {
+    const deviceSnap = await db.collection('devices').doc(params.deviceId).get();
+    if (!deviceSnap.exists) {
+      return failed('start_practice', { code: 'not_found', message: 'Device not found' });
+    }
+    const deviceData = deviceSnap.data() as { ownerId?: string } | undefined;
+    if (deviceData?.ownerId !== ownerId) {
+      return failed('start_practice', { code: 'permission_denied', message: 'Device does not belong to user' });
+    }
+  }
+
+  const session = {
+    ownerId,
+    practiceId: params.practiceId,
+    deviceId: params.deviceId || null,
+    status: 'started',
+    source: 'rule',
+    ruleId: context.ruleId,
+    intensity: typeof params.intensity === 'number' ? params.intensity : null,
+    brightness: typeof params.brightness === 'number' ? params.brightness : null,
+  };
+  if (context.dryRun) {
+    return { type: 'start_practice', status: 'succeeded', output: { dryRun: true, session } };
+  }
+
+  const sessionRef = db.collection('sessions').doc();
+  await sessionRef.set({
+    id: sessionRef.id,
+    ...session,
+    startedAt: FieldValue.serverTimestamp(),
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  return { type: 'start_practice', status: 'succeeded', output: { sessionId: sessionRef.id } };
+}
+
+async function sendHugFromRule(
+  ownerId: string,
+  params: ActionParams<'send_hug'>,
+  context: RuleActionContext
+): Promise<RuleActionResult> {
+  const emotion = { color: params.color, patternId: params.patternId };
+  const payload = { ruleId: context.ruleId, ...(params.message ? { message: params.message } : {}) };
+
+  if (context.dryRun) {
+    const check = await checkHugSendable({ fromUserId: ownerId, toUserId: params.toUserId, pairId: params.pairId });
+    if ('error' in check) {
+      return failed('send_hug', check.error);
+    }
+    return {
+      type: 'send_hug',
+      status: 'succeeded',
+      output: { dryRun: true, toUserId: check.toUserId, pairId: params.pairId ?? null, emotion, payload },
+    };
+  }
+
+  const result = await sendHug({
+    fromUserId: ownerId,
+    toUserId: params.toUserId,
+    pairId: params.pairId,
+    emotion,
+    payload,
+  });
+
+  if ('error' in result) {
+    return failed('send_hug', result.error);
+  }
+  return {
+    type: 'send_hug',
+    status: 'succeeded',
+    output: { hugId: result.hugId, toUserId: result.toUserId, delivered: result.delivered },
+  };
+}
+
+/**
+ * Загружает паттерн для подсветки: свой или публичный одобренный
+ */
+async function resolvePatternSpec(ownerId: string, patternId: string): Promise<PatternSpec | RuleActionError> {
+  const snap = await db.collection('patterns').doc(patternId).get();
+  if (!snap.exists) {
+    return { code: 'not_found', message: 'Pattern not found' };
+  }
+  const data = snap.data() as { ownerId?: string; public?: boolean; reviewStatus?: string; spec?: PatternSpec };
+  const isOwner = data.ownerId === ownerId;
+  if (!isOwner && (!data.public || data.reviewStatus !== 'approved')) {
+    return { code: 'permission_denied', message: 'Pattern is not accessible' };
+  }
+  if (!data.spec) {
+    return { code: 'failed_precondition', message: 'Pattern has no spec' };
+  }
+  return data.spec;
+}
+
+async function lightDeviceFromRule(
+  ownerId: string,
+  params: ActionParams<'light_device'>,
+  context: RuleActionContext
+): Promise<RuleActionResult> {
+  const deviceSnap = await db.collection('devices').doc(params.deviceId).get();
+  if (!deviceSnap.exists) {
+    return failed('light_device', { code: 'not_found', message: 'Device not found' });
+  }
+  const device = deviceSnap.data() as { ownerId?: string; hardwareVersion?: number };
+  if (device.ownerId !== ownerId) {
+    return failed('light_device', { code: 'permission_denied', message: 'Device does not belong to user' });
+  }
+  const targetHw: HardwareVersion = device.hardwareVersion === 200 ? 200 : 100;
+
+  let spec: PatternSpec;
+  if (params.patternId) {
+    const resolved = await resolvePatternSpec(ownerId, params.patternId);
+    if ('code' in resolved) {
+      return failed('light_device', resolved);
+    }
+    spec = resolved;
+  } else {
+    const duration = params.duration ?? 5000;
+    spec = {
+      type: 'custom',
+      hardwareVersion: targetHw,
+      duration,
+      loop: false,
+      elements: [
+        {
+          type: 'color',
+          startTime: 0,
+          duration,
+          color: params.color,
+          intensity: params.intensity ?? 1,
+        },
+      ],
+    };
+  }
+  const adjustedSpec = downLevelPatternSpec(spec, targetHw);
+
+  // Команду получает мобильное приложение и передаёт на амулет по BLE
+  const tokensSnap = await db
+    .collection('notificationTokens')
+    .where('userId', '==', ownerId)
+    .where('isActive', '==', true)
+    .get();
+  const tokens = tokensSnap.docs
+    .map((d) => (d.data() as { token?: string }).token)
+    .filter(Boolean) as string[];
+
+  const commandId = `light_${Date.now()}`;
+  if (context.dryRun) {
+    return {
+      type: 'light_device',
+      status: tokens.length > 0 ? 'succeeded' : 'skipped',
+      output: {
+        dryRun: true,
+        deviceId: params.deviceId,
+        hardwareVersion: targetHw,
+        spec: adjustedSpec,
+        duration: params.duration ?? null,
+        tokensCount: tokens.length,
+        ...(tokens.length === 0 ? { reason: 'no_active_tokens' } : {}),
+      },
+    };
+  }
+  if (tokens.length === 0) {
+    return {
+      type: 'light_device',
+      status: 'skipped',
+      output: { commandId, deviceId: params.deviceId, delivered: false, reason: 'no_active_tokens' },
+    };
+  }
+
+  const response = await getMessaging().sendEachForMulticast({
+    tokens,
+    data: {
+      type: 'light_device',
+      commandId,
+      ruleId: context.ruleId,
+      deviceId: params.deviceId,
+      hardwareVersion: String(targetHw),
+      spec: JSON.stringify(adjustedSpec),
+      duration: params.duration ? String(params.duration) : '',
+    },
+  });
+
+  return {
+    type: 'light_device',
+    status: 'succeeded',
+    output: { commandId, deviceId: params.deviceId, delivered: response.successCount > 0 },
+  };
+}
+
+async function controlSmartHomeFromRule(
+  ownerId: string,
+  params: ActionParams<'smart_home'>,
+  context: RuleActionContext
+): Promise<RuleActionResult> {
+  // Интеграции с провайдерами умного дома ещё нет — фиксируем команду в результате без побочных эффектов
+  if (context.dryRun) {
+    return {
+      type: 'smart_home',
+      status: 'skipped',
+      output: { dryRun: true, ...params, reason: 'provider_not_configured' },
+    };
+  }
+  logger.info('Smart home action skipped: no provider configured', {
+    ownerId,
+    ruleId: context.ruleId,
+    provider: params.provider,
+    command: params.command,
+  });
+  return {
+    type: 'smart_home',
+    status: 'skipped',
+    output: { provider: params.provider, command: params.command, reason: 'provider_not_configured' },
+  };
+}
+
+async function sendNotificationFromRule(
+  ownerId: string,
+  params: ActionParams<'notification'>,
+  context: RuleActionContext
+): Promise<RuleActionResult> {
+  const data: NotificationData = { type: 'rule.triggered', ruleId: context.ruleId, triggerType: context.triggerType };
+  const custom = params.title && params.body ? { title: params.title, body: params.body } : undefined;
+
+  // Для шаблонного уведомления нужен язык пользователя
+  let language: string | undefined;
+  if (!custom) {
+    const userSnap = await db.collection('users').doc(ownerId).get();
+    language = (userSnap.data() as { language?: string } | undefined)?.language;
+  }
+
+  if (context.dryRun) {
+    const preview = await previewNotification(ownerId, 'rule.triggered', language, custom);
+    return {
+      type: 'notification',
+      status: preview.tokensCount > 0 ? 'succeeded' : 'skipped',
+      output: { dryRun: true, title: preview.title, body: preview.body, data, tokensCount: preview.tokensCount },
+    };
+  }
+
+  const result = custom ?
+    await sendCustomNotification(ownerId, custom.title, custom.body, data) :
+    await sendNotification(ownerId, 'rule.triggered', data, language);
+
+  return {
+    type: 'notification',
+    status: result.tokensCount > 0 ? 'succeeded' : 'skipped',
+    output: { delivered: result.delivered, tokensCount: result.tokensCount },
+  };
+}
+
+/**
+ * Выполняет одно действие правила. Никогда не бросает: ошибки возвращаются в результате.
+ */
+export async function executeRuleAction(
+  rule: Pick<Rule, 'id' | 'ownerId'>,
+  action: RuleActionStep,
+  context: RuleActionContext
+): Promise<RuleActionResult> {
+  const schema = ruleActionParamsSchemas[action.type];
+  if (!schema) {
+    logger.warn('Unknown rule action type', { actionType: action.type, ruleId: rule.id });
+    return failed(action.type, { code: 'invalid_argument', message: `Unknown action type: ${action.type}` });
+  }
+
+  // Шаблоны {{payload.…}} подставляются до проверки params, ошибки шаблонов попадают в результат запуска
+  const rendered = renderTemplateParams((action.params ?? {}) as Record<string, unknown>, context.payload ?? {});
+  if ('errors' in rendered) {
+    return failed(action.type, {
+      code: 'invalid_argument',
+      message: 'Template rendering failed',
+      details: { templateErrors: rendered.errors },
+    });
+  }
+
+  const parsed = schema.safeParse(rendered.params);
+  if (!parsed.success) {
+    return failed(action.type, {
+      code: 'invalid_argument',
+      message: 'Invalid action params',
+      details: { fieldErrors: toFieldErrors(parsed.error) },
+    });
+  }
+
+  try {
+    switch (action.type) {
+      case 'start_practice':
+        return await startPracticeFromRule(rule.ownerId, parsed.data as ActionParams<'start_practice'>, context);
+      case 'send_hug':
+        return await sendHugFromRule(rule.ownerId, parsed.data as ActionParams<'send_hug'>, context);
+      case 'light_device':
+        return await lightDeviceFromRule(rule.ownerId, parsed.data as ActionParams<'light_device'>, context);
+      case 'smart_home':
+        return await controlSmartHomeFromRule(rule.ownerId, parsed.data as ActionParams<'smart_home'>, context);
+      case 'notification':
+        return await sendNotificationFromRule(rule.ownerId, parsed.data as ActionParams<'notification'>, context);
+    }
+  } catch (error) {
+    logger.error('Rule action execution failed', {
+      ruleId: rule.id,
+      actionType: action.type,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return failed(action.type, {
+      code: 'internal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Условия IFTTT-правил: проверяются после совпадения триггера, все условия объединяются через AND
+ * - time_window: локальное время в окне HH:MM–HH:MM (окно может переходить через полночь)
+ * - weekday: день недели (0 — воскресенье)
+ * - device_status / battery_level: состояние устройства владельца правила
+ * - pair_status: статус пары владельца правила
+ * - payload: сравнение поля payload события
+ *
+ * Таймзона для time_window/weekday: из условия, иначе из расписания правила, иначе из профиля пользователя, иначе UTC.
+ */
+
+import { z } from 'zod';
+import { db } from './firebase';
+import { getZonedParts, isValidTimeZone } from './cron';
+import { Rule, RuleComparisonOperator, RuleCondition, RuleConditionMatch } from '../types/firestore';
+
+const HHMM_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const comparisonOperatorSchema = z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte']);
+const timeZoneSchema = z.string().min(1).max(100).refine(isValidTimeZone, 'Invalid IANA timezone');
+
+export const ruleConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('time_window'),
+    start: z.string().regex(HHMM_REGEX, 'Expected HH:MM'),
+    end: z.string().regex(HHMM_REGEX, 'Expected HH:MM'),
+    timezone: timeZoneSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('weekday'),
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+    timezone: timeZoneSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('device_status'),
+    deviceId: z.string().min(1).max(200),
+    status: z.array(z.enum(['online', 'offline', 'charging', 'error'])).min(1),
+  }),
+  z.object({
+    type: z.literal('battery_level'),
+    deviceId: z.string().min(1).max(200),
+    operator: comparisonOperatorSchema,
+    value: z.number().min(0).max(100),
+  }),
+  z.object({
+    type: z.literal('pair_status'),
+    pairId: z.string().min(1).max(200),
+    status: z.array(z.enum(['active', 'pending', 'blocked'])).min(1),
+  }),
+  z
+    .object({
+      type: z.literal('payload'),
+      path: z.string().min(1).max(200),
+      operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists', 'not_exists']),
+      value: z.union([z.string().max(500), z.number(), z.boolean()]).optional(),
+    })
+    .refine((v) => v.operator === 'exists' || v.operator === 'not_exists' || v.value !== undefined, {
+      message: 'value is required for this operator',
+      path: ['value'],
+    }),
+]);
+
+export interface RuleConditionContext {
+  ownerId: string;
+  payload: Record<string, unknown>;
+  now: Date;
+}
+
+function compare(actual: unknown, operator: RuleComparisonOperator, expected: unknown): boolean {
+  switch (operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    default: {
+      if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+      if (operator === 'gt') return actual > expected;
+      if (operator === 'gte') return actual >= expected;
+      if (operator === 'lt') return actual < expected;
+      return actual <= expected;
+    }
+  }
+}
+
+function getByPath(obj: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((acc, key) => {
+    if (acc && typeof acc === 'object' && key in (acc as Record<string, unknown>)) {
+      return (acc as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, obj);
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Проверяет условия правила. Документы устройств, пар и профиль пользователя
+ * читаются не более одного раза за вызов.
+ */
+export async function evaluateRuleConditions(
+  rule: Pick<Rule, 'conditions' | 'schedule'>,
+  context: RuleConditionContext
+): Promise<RuleConditionMatch[]> {
+  const conditions = rule.conditions ?? [];
+  const docCache = new Map<string, Promise<FirebaseFirestore.DocumentSnapshot>>();
+  const getDoc = (collection: string, id: string) => {
+    const key = `${collection}/${id}`;
+    if (!docCache.has(key)) docCache.set(key, db.collection(collection).doc(id).get());
+    return docCache.get(key) as Promise<FirebaseFirestore.DocumentSnapshot>;
+  };
+
+  let userTimeZone: string | undefined;
+  const resolveTimeZone = async (explicit?: string): Promise<string> => {
+    if (explicit) return explicit;
+    if (rule.schedule?.timezone) return rule.schedule.timezone;
+    if (userTimeZone === undefined) {
+      const userSnap = await getDoc('users', context.ownerId);
+      const tz = (userSnap.data() as { timezone?: string } | undefined)?.timezone;
+      userTimeZone = tz && isValidTimeZone(tz) ? tz : 'UTC';
+    }
+    return userTimeZone;
+  };
+
+  const evaluateCondition = async (condition: RuleCondition, label: string): Promise<RuleConditionMatch> => {
+    switch (condition.type) {
+      case 'time_window': {
+        const timezone = await resolveTimeZone(condition.timezone);
+        const parts = getZonedParts(context.now, timezone);
+        const current = parts.hour * 60 + parts.minute;
+        const start = toMinutes(condition.start);
+        const end = toMinutes(condition.end);
+        const matched = start <= end ? current >= start && current < end : current >= start || current < end;
+        const localTime = `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`;
+        return { condition: label, matched, details: { timezone, localTime, start: condition.start, end: condition.end } };
+      }
+      case 'weekday': {
+        const timezone = await resolveTimeZone(condition.timezone);
+        const { weekday } = getZonedParts(context.now, timezone);
+        return { condition: label, matched: condition.days.includes(weekday), details: { timezone, weekday } };
+      }
+      case 'device_status':
+      case 'battery_level': {
+        const snap = await getDoc('devices', condition.deviceId);
+        const device = snap.data() as { ownerId?: string; status?: string; batteryLevel?: number } | undefined;
+        if (!snap.exists || device?.ownerId !== context.ownerId) {
+          return { condition: label, matched: false, details: { deviceId: condition.deviceId, reason: 'device_not_found' } };
+        }
+        if (condition.type === 'device_status') {
+          const matched = typeof device.status === 'string' && (condition.status as string[]).includes(device.status);
+          return { condition: label, matched, details: { deviceId: condition.deviceId, status: device.status ?? null } };
+        }
+        return {
+          condition: label,
+          matched: compare(device.batteryLevel, condition.operator, condition.value),
+          details: { deviceId: condition.deviceId, batteryLevel: device.batteryLevel ?? null },
+        };
+      }
+      case 'pair_status': {
+        const snap = await getDoc('pairs', condition.pairId);
+        const pair = snap.data() as { memberIds?: string[]; status?: string } | undefined;
+        if (!snap.exists || !pair?.memberIds?.includes(context.ownerId)) {
+          return { condition: label, matched: false, details: { pairId: condition.pairId, reason: 'pair_not_found' } };
+        }
+        const matched = typeof pair.status === 'string' && (condition.status as string[]).includes(pair.status);
+        return { condition: label, matched, details: { pairId: condition.pairId, status: pair.status ?? null } };
+      }
+      case 'payload': {
+        const actual = getByPath(context.payload, condition.path);
+        let matched: boolean;
+        if (condition.operator === 'exists') {
+          matched = actual !== undefined;
+        } else if (condition.operator === 'not_exists') {
+          matched = actual === undefined;
+        } else if (condition.operator === 'contains') {
+          matched = (typeof actual === 'string' && typeof condition.value === 'string' && actual.includes(condition.value)) ||
+            (Array.isArray(actual) && actual.includes(condition.value));
+        } else {
+          matched = compare(actual, condition.operator, condition.value);
+        }
+        return { condition: label, matched, details: { path: condition.path, actual: actual ?? null } };
+      }
+      default:
+        return { condition: label, matched: false, details: { reason: 'unknown_condition' } };
+    }
+  };
+
+  const results: RuleConditionMatch[] = [];
+  for (const [index, condition] of conditions.entries()) {
+    results.push(await evaluateCondition(condition, `conditions[${index}].${condition.type}`));
+  }
+  return results;
+}
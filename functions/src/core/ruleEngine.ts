@@ -0,0 +1,386 @@
+/**
+ * Движок IFTTT-правил: проверка условий, цепочка действий, учёт статистики, история запусков,
+ * расписание time-правил и dry-run (проверка правила на примере события без побочных эффектов).
+ * Используется вебхуками, жестами устройств, планировщиком time-правил и POST /v1/rules/:ruleId/test.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { db } from './firebase';
+import { cronMatches, nextCronOccurrence, parseCron } from './cron';
+import { executeRuleAction, RuleActionContext, RuleActionError, RuleActionResult, RuleTriggerType } from './ruleActions';
+import { evaluateRuleConditions } from './ruleConditions';
+import { Rule, RuleActionStep, RuleConditionMatch, RuleRunStatus } from '../types/firestore';
+
+/**
+ * Вычисляет ближайшее срабатывание time-правила после `after`.
+ * Для выключенных правил и других типов триггеров возвращает null.
+ */
+export function computeNextRunAt(
+  rule: Pick<Rule, 'trigger' | 'schedule' | 'enabled'>,
+  after: Date
+): Date | null {
+  if (!rule.enabled || rule.trigger?.type !== 'time' || !rule.schedule) {
+    return null;
+  }
+  return nextCronOccurrence(parseCron(rule.schedule.cron), after, rule.schedule.timezone);
+}
+
+export interface RuleRunRecord {
+  status: RuleRunStatus;
+  matchedConditions: RuleConditionMatch[];
+  actionResults?: RuleActionResult[];
+  error?: RuleActionError;
+  startedAt: Date;
+  latencyMs: number;
+}
+
+export interface RuleRunOutcome {
+  runId: string;
+  status: RuleRunStatus;
+  matchedConditions: RuleConditionMatch[];
+  actionResults: RuleActionResult[];
+}
+
+const CONDITIONS_NOT_MET: RuleActionError = { code: 'failed_precondition', message: 'Rule conditions not met' };
+
+function buildRunDoc(rule: Rule, context: RuleActionContext, record: RuleRunRecord, id: string) {
+  const actionResults = record.actionResults ?? [];
+  return {
+    id,
+    ruleId: rule.id,
+    ownerId: rule.ownerId,
+    triggerType: context.triggerType,
+    triggerPayload: context.payload,
+    matchedConditions: record.matchedConditions,
+    status: record.status,
+    actionResults,
+    error: record.error ?? actionResults.find((r) => r.status === 'failed')?.error ?? null,
+    latencyMs: record.latencyMs,
+    startedAt: record.startedAt,
+    createdAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Записывает запуск правила в rules/{ruleId}/runs без выполнения действий
+ * (например, когда срабатывание пропущено планировщиком).
+ */
+export async function recordRuleRun(
+  rule: Rule,
+  context: RuleActionContext,
+  record: RuleRunRecord
+): Promise<string> {
+  const runRef = db.collection('rules').doc(rule.id).collection('runs').doc();
+  await runRef.set(buildRunDoc(rule, context, record, runRef.id));
+  return runRef.id;
+}
+
+/**
+ * Действия правила в порядке выполнения: цепочка actions или одиночное action
+ */
+export function getRuleActions(rule: Pick<Rule, 'action' | 'actions'>): RuleActionStep[] {
+  if (rule.actions && rule.actions.length > 0) return rule.actions;
+  return rule.action ? [rule.action] : [];
+}
+
+/**
+ * Выполняет действия правила по порядку. Ошибка действия прерывает цепочку,
+ * если у шага не выставлен continueOnError.
+ */
+export async function executeRuleActions(rule: Rule, context: RuleActionContext): Promise<RuleActionResult[]> {
+  const results: RuleActionResult[] = [];
+  for (const step of getRuleActions(rule)) {
+    const result = await executeRuleAction(rule, step, context);
+    results.push(result);
+    if (result.status === 'failed' && !step.continueOnError) break;
+  }
+  return results;
+}
+
+function summarizeRunStatus(actionResults: RuleActionResult[]): RuleRunStatus {
+  if (actionResults.some((r) => r.status === 'failed')) return 'failed';
+  if (actionResults.some((r) => r.status === 'succeeded')) return 'succeeded';
+  return 'skipped';
+}
+
+/**
+ * Проверяет условия правила, выполняет цепочку действий и записывает запуск в историю.
+ * triggerConditions — результаты сопоставления триггера, которые попадут в историю вместе с условиями.
+ * triggerCount и lastTriggeredAt обновляются, если условия выполнены и хотя бы одно действие не завершилось ошибкой.
+ */
+export async function fireRule(
+  rule: Rule,
+  context: RuleActionContext,
+  triggerConditions: RuleConditionMatch[] = []
+): Promise<RuleRunOutcome> {
+  const startedAt = new Date();
+  const conditionResults = await evaluateRuleConditions(rule, {
+    ownerId: rule.ownerId,
+    payload: context.payload,
+    now: startedAt,
+  });
+  const conditionsMet = conditionResults.every((c) => c.matched);
+  const matchedConditions = [...triggerConditions, ...conditionResults];
+
+  const actionResults = conditionsMet ? await executeRuleActions(rule, context) : [];
+  const latencyMs = Date.now() - startedAt.getTime();
+  const status = conditionsMet ? summarizeRunStatus(actionResults) : 'skipped';
+
+  const ruleRef = db.collection('rules').doc(rule.id);
+  const runRef = ruleRef.collection('runs').doc();
+  const batch = db.batch();
+  batch.set(runRef, buildRunDoc(rule, context, {
+    status,
+    matchedConditions,
+    actionResults,
+    error: conditionsMet ? undefined : CONDITIONS_NOT_MET,
+    startedAt,
+    latencyMs,
+  }, runRef.id));
+
+  const fired = actionResults.some((r) => r.status !== 'failed');
+  if (fired) {
+    batch.update(ruleRef, {
+      triggerCount: FieldValue.increment(1),
+      lastTriggeredAt: FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+
+  const outcome = { runId: runRef.id, status, matchedConditions, actionResults };
+  if (!conditionsMet) {
+    logger.info('Rule skipped: conditions not met', {
+      ruleId: rule.id,
+      runId: runRef.id,
+      triggerType: context.triggerType,
+      failedConditions: conditionResults.filter((c) => !c.matched).map((c) => c.condition),
+    });
+    return outcome;
+  }
+
+  if (status === 'failed') {
+    logger.warn('Rule action failed', {
+      ruleId: rule.id,
+      runId: runRef.id,
+      triggerType: context.triggerType,
+      errors: actionResults.filter((r) => r.status === 'failed').map((r) => ({ type: r.type, error: r.error })),
+    });
+  }
+  if (fired) {
+    logger.info('Rule triggered', {
+      ruleId: rule.id,
+      runId: runRef.id,
+      triggerType: context.triggerType,
+      actions: actionResults.map((r) => `${r.type}:${r.status}`),
+      latencyMs,
+      triggerCount: (rule.triggerCount || 0) + 1,
+    });
+  }
+  return outcome;
+}
+
+export interface RuleTriggerEvaluation {
+  matched: boolean;
+  matchedConditions: RuleConditionMatch[];
+}
+
+function evaluateCalendarTrigger(params: Record<string, unknown>, event: Record<string, unknown>): RuleTriggerEvaluation {
+  const contains = (actual: unknown, expected: string) =>
+    typeof actual === 'string' && actual.toLowerCase().includes(expected.toLowerCase());
+  const checks: Array<[string, string, (actual: unknown, expected: string) => boolean]> = [
+    ['calendarId', 'calendarId', (actual, expected) => actual === expected],
+    ['eventTitle', 'title', contains],
+    ['location', 'location', contains],
+  ];
+
+  const matchedConditions: RuleConditionMatch[] = [];
+  for (const [param, field, matches] of checks) {
+    const expected = params[param];
+    if (typeof expected !== 'string') continue;
+    matchedConditions.push({
+      condition: `trigger.params.${param}`,
+      matched: matches(event[field], expected),
+      details: { expected, actual: event[field] ?? null },
+    });
+  }
+  return {
+    matched: matchedConditions.every((c) => c.matched),
+    matchedConditions,
+  };
+}
+
+function evaluateWeatherTrigger(params: Record<string, unknown>, event: Record<string, unknown>): RuleTriggerEvaluation {
+  const equals = (actual: unknown, expected: unknown) => actual === expected;
+  const above = (actual: unknown, expected: unknown) => typeof actual === 'number' && actual > (expected as number);
+  const below = (actual: unknown, expected: unknown) => typeof actual === 'number' && actual < (expected as number);
+  const checks: Array<[string, string, (actual: unknown, expected: unknown) => boolean]> = [
+    ['condition', 'condition', equals],
+    ['precipitation', 'precipitation', equals],
+    ['temperatureAbove', 'temperatureC', above],
+    ['temperatureBelow', 'temperatureC', below],
+    ['aqiAbove', 'aqi', above],
+  ];
+
+  const matchedConditions: RuleConditionMatch[] = [];
+  for (const [param, field, matches] of checks) {
+    const expected = params[param];
+    if (expected === undefined) continue;
+    matchedConditions.push({
+      condition: `trigger.params.${param}`,
+      matched: matches(event[field], expected),
+      details: { expected, actual: event[field] ?? null },
+    });
+  }
+  return {
+    matched: matchedConditions.every((c) => c.matched),
+    matchedConditions,
+  };
+}
+
+/**
+ * Проверяет триггер правила на событии.
+ * - time: совпадение cron в таймзоне правила в момент event.at (ISO, по умолчанию — now)
+ * - calendar: eventTitle и location — подстрока (без учёта регистра) в title/location события,
+ *   calendarId — точное совпадение; minutesBefore/minutesAfter проверяет планировщик
+ * - weather: condition и precipitation — совпадение, temperatureAbove/temperatureBelow/aqiAbove —
+ *   строгие пороги по temperatureC/aqi события
+ * - остальные типы: каждый параметр триггера должен совпасть с одноимённым полем события
+ *   (например, integrationKey для webhook, gesture для device_gesture)
+ */
+export function evaluateRuleTrigger(
+  rule: Pick<Rule, 'trigger' | 'schedule'>,
+  event: Record<string, unknown>,
+  now: Date = new Date()
+): RuleTriggerEvaluation {
+  if (rule.trigger.type === 'time') {
+    if (!rule.schedule) {
+      return {
+        matched: false,
+        matchedConditions: [{ condition: 'schedule', matched: false, details: { reason: 'schedule_missing' } }],
+      };
+    }
+    const at = typeof event.at === 'string' && !Number.isNaN(Date.parse(event.at)) ? new Date(event.at) : now;
+    const spec = parseCron(rule.schedule.cron);
+    const matched = cronMatches(spec, at, rule.schedule.timezone);
+    return {
+      matched,
+      matchedConditions: [{
+        condition: 'schedule.cron',
+        matched,
+        details: {
+          cron: rule.schedule.cron,
+          timezone: rule.schedule.timezone,
+          at: at.toISOString(),
+          nextRunAt: nextCronOccurrence(spec, at, rule.schedule.timezone)?.toISOString() ?? null,
+        },
+      }],
+    };
+  }
+
+  if (rule.trigger.type === 'calendar') {
+    return evaluateCalendarTrigger(rule.trigger.params || {}, event);
+  }
+  if (rule.trigger.type === 'weather') {
+    return evaluateWeatherTrigger(rule.trigger.params || {}, event);
+  }
+
+  const matchedConditions: RuleConditionMatch[] = Object.entries(rule.trigger.params || {}).map(([key, expected]) => ({
+    condition: `trigger.params.${key}`,
+    matched: event[key] === expected,
+    details: { expected, actual: event[key] ?? null },
+  }));
+  return {
+    matched: matchedConditions.every((c) => c.matched),
+    matchedConditions,
+  };
+}
+
+export interface RuleFireSummary {
+  ruleId: string;
+  runId?: string;
+  status: RuleRunStatus;
+}
+
+export interface FireMatchingRulesOptions {
+  // Правила, уже запущенные по этому событию при прошлой попытке: повторно не запускаются
+  completedRuleIds?: ReadonlySet<string>;
+  // Вызывается после каждого правила, чтобы сохранить прогресс до запуска следующего
+  onRuleFired?: (summary: RuleFireSummary) => Promise<void>;
+}
+
+/**
+ * Находит включённые правила владельца с триггером triggerType, совпадающие с событием,
+ * и запускает каждое. Ошибка одного правила не прерывает остальные.
+ */
+export async function fireMatchingRules(
+  ownerId: string,
+  triggerType: RuleTriggerType,
+  event: Record<string, unknown>,
+  payload: Record<string, unknown> = event,
+  options: FireMatchingRulesOptions = {}
+): Promise<RuleFireSummary[]> {
+  const rulesSnapshot = await db
+    .collection('rules')
+    .where('ownerId', '==', ownerId)
+    .where('trigger.type', '==', triggerType)
+    .where('enabled', '==', true)
+    .get();
+
+  const summaries: RuleFireSummary[] = [];
+  for (const doc of rulesSnapshot.docs) {
+    const rule = { id: doc.id, ...(doc.data() as Omit<Rule, 'id'>) } as Rule;
+    const evaluation = evaluateRuleTrigger(rule, event);
+    if (!evaluation.matched || options.completedRuleIds?.has(rule.id)) continue;
+    let summary: RuleFireSummary;
+    try {
+      const outcome = await fireRule(rule, { ruleId: rule.id, triggerType, payload }, evaluation.matchedConditions);
+      summary = { ruleId: rule.id, runId: outcome.runId, status: outcome.status };
+    } catch (error) {
+      logger.error('Failed to fire rule', {
+        ruleId: rule.id,
+        triggerType,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      summary = { ruleId: rule.id, status: 'failed' };
+    }
+    summaries.push(summary);
+    await options.onRuleFired?.(summary);
+  }
+  return summaries;
+}
+
+export interface RuleDryRunResult {
+  matched: boolean;
+  matchedConditions: RuleConditionMatch[];
+  payload: Record<string, unknown>;
+  actions: RuleActionResult[];
+}
+
+/**
+ * Dry-run правила: проверяет триггер и условия на примере события и разрешает цепочку действий
+ * без записи в БД и отправки уведомлений. Действия разрешаются всегда, даже если
+ * триггер или условия не совпали, чтобы можно было отладить params.
+ * Payload действия — event.payload (если это объект), иначе само событие.
+ */
+export async function dryRunRule(rule: Rule, event: Record<string, unknown>): Promise<RuleDryRunResult> {
+  const now = new Date();
+  const evaluation = evaluateRuleTrigger(rule, event, now);
+  const hasPayload = Boolean(event.payload) && typeof event.payload === 'object' && !Array.isArray(event.payload);
+  const payload = hasPayload ? (event.payload as Record<string, unknown>) : event;
+
+  const conditionResults = await evaluateRuleConditions(rule, { ownerId: rule.ownerId, payload, now });
+  const actions = await executeRuleActions(rule, {
+    ruleId: rule.id,
+    triggerType: rule.trigger.type,
+    payload,
+    dryRun: true,
+  });
+
+  return {
+    matched: evaluation.matched && conditionResults.every((c) => c.matched),
+    matchedConditions: [...evaluation.matchedConditions, ...conditionResults],
+    payload,
+    actions,
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Шаблоны в строковых params действий правил: значения подставляются из payload триггера при выполнении
+ * - `{{payload.color}}` — значение по пути (вложенность через точку, индексы массивов числом: payload.items.0)
+ * - фильтры через `|`: default:"…", truncate:N, upper, lower, trim
+ *   например `{{payload.message | truncate:140}}`, `{{payload.color | default:"#FF0000"}}`
+ * - отсутствующее значение без default — ошибка шаблона (попадает в результат запуска правила)
+ * Синтаксис проверяется при сохранении правила, значения — при выполнении.
+ */
+
+import { z } from 'zod';
+
+export interface TemplateError {
+  field: string;
+  message: string;
+}
+
+type TemplateFilter =
+  | { name: 'default'; value: string }
+  | { name: 'truncate'; length: number }
+  | { name: 'upper' | 'lower' | 'trim' };
+
+interface TemplateExpression {
+  path: string[];
+  filters: TemplateFilter[];
+}
+
+const PLACEHOLDER = /\{\{([\s\S]*?)\}\}/g;
+const PATH_SEGMENT = /^[A-Za-z0-9_-]+$/;
+const MAX_TRUNCATE_LENGTH = 10000;
+export const MAX_TEMPLATE_LENGTH = 2000;
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export function hasTemplate(value: string): boolean {
+  return value.includes('{{');
+}
+
+// Делит выражение по `|` вне кавычек
+function splitPipes(expression: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+      current += char;
+    } else if (char === '|') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (quote) throw new TemplateSyntaxError('Unterminated string in template');
+  parts.push(current);
+  return parts.map((part) => part.trim());
+}
+
+function parseFilter(raw: string): TemplateFilter {
+  const separator = raw.indexOf(':');
+  const name = (separator === -1 ? raw : raw.slice(0, separator)).trim();
+  const arg = separator === -1 ? undefined : raw.slice(separator + 1).trim();
+
+  switch (name) {
+    case 'default': {
+      if (arg === undefined || arg === '') throw new TemplateSyntaxError('Filter "default" requires a value');
+      const quoted = /^(["'])([\s\S]*)\1$/.exec(arg);
+      return { name, value: quoted ? quoted[2] : arg };
+    }
+    case 'truncate': {
+      const length = Number(arg);
+      if (!arg || !Number.isInteger(length) || length < 1 || length > MAX_TRUNCATE_LENGTH) {
+        throw new TemplateSyntaxError(`Filter "truncate" requires a length between 1 and ${MAX_TRUNCATE_LENGTH}`);
+      }
+      return { name, length };
+    }
+    case 'upper':
+    case 'lower':
+    case 'trim':
+      if (arg !== undefined) throw new TemplateSyntaxError(`Filter "${name}" takes no arguments`);
+      return { name };
+    default:
+      throw new TemplateSyntaxError(`Unknown template filter: ${name || '(empty)'}`);
+  }
+}
+
+function parseExpression(raw: string): TemplateExpression {
+  const [pathRaw, ...filtersRaw] = splitPipes(raw);
+  const path = pathRaw.split('.');
+  if (path[0] !== 'payload' || path.length < 2 || !path.slice(1).every((segment) => PATH_SEGMENT.test(segment))) {
+    throw new TemplateSyntaxError(`Invalid template path: ${pathRaw || '(empty)'} (expected payload.<field>)`);
+  }
+  return { path: path.slice(1), filters: filtersRaw.map(parseFilter) };
+}
+
+/**
+ * Разбирает все подстановки строки; бросает TemplateSyntaxError при ошибке синтаксиса
+ */
+export function parseTemplate(template: string): TemplateExpression[] {
+  const expressions: TemplateExpression[] = [];
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    expressions.push(parseExpression(match[1]));
+  }
+  // Незакрытая `{{` после последней подстановки
+  if (template.replace(PLACEHOLDER, '').includes('{{')) {
+    throw new TemplateSyntaxError('Unterminated template placeholder');
+  }
+  return expressions;
+}
+
+function lookup(payload: Record<string, unknown>, path: string[]): unknown {
+  let current: unknown = payload;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function stringify(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+function truncate(value: string, length: number): string {
+  const chars = Array.from(value);
+  return chars.length <= length ? value : `${chars.slice(0, length - 1).join('')}…`;
+}
+
+function evaluate(expression: TemplateExpression, payload: Record<string, unknown>): string {
+  let value = stringify(lookup(payload, expression.path));
+  for (const filter of expression.filters) {
+    if (filter.name === 'default') {
+      if (value === undefined || value === '') value = filter.value;
+    } else if (value !== undefined) {
+      if (filter.name === 'truncate') value = truncate(value, filter.length);
+      else if (filter.name === 'upper') value = value.toUpperCase();
+      else if (filter.name === 'lower') value = value.toLowerCase();
+      else value = value.trim();
+    }
+  }
+  if (value === undefined) {
+    throw new TemplateSyntaxError(`Missing value for payload.${expression.path.join('.')}`);
+  }
+  return value;
+}
+
+/**
+ * Подставляет значения из payload в строку шаблона
+ */
+export function renderTemplate(template: string, payload: Record<string, unknown>): string {
+  parseTemplate(template);
+  return template.replace(PLACEHOLDER, (_match, raw: string) => evaluate(parseExpression(raw), payload));
+}
+
+/**
+ * Рекурсивно подставляет значения во все строки params. Ошибки собираются по всем полям.
+ */
+export function renderTemplateParams(
+  params: Record<string, unknown>,
+  payload: Record<string, unknown>
+): { params: Record<string, unknown> } | { errors: TemplateError[] } {
+  const errors: TemplateError[] = [];
+  const walk = (value: unknown, field: string): unknown => {
+    if (typeof value === 'string') {
+      if (!hasTemplate(value)) return value;
+      try {
+        return renderTemplate(value, payload);
+      } catch (error) {
+        errors.push({ field, message: error instanceof Error ? error.message : 'Template error' });
+        return value;
+      }
+    }
+    if (Array.isArray(value)) return value.map((item, index) => walk(item, `${field}[${index}]`));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item, `${field}.${key}`)]));
+    }
+    return value;
+  };
+  const rendered = walk(params, 'params') as Record<string, unknown>;
+  return errors.length > 0 ? { errors } : { params: rendered };
+}
+
+/**
+ * Строковое поле params, допускающее шаблон: шаблон проверяется только синтаксически,
+ * обычное значение — схемой поля. Используется при сохранении правила.
+ */
+export function templatable(schema: z.ZodString) {
+  return z.string().max(MAX_TEMPLATE_LENGTH).superRefine((value, ctx) => {
+    if (hasTemplate(value)) {
+      try {
+        parseTemplate(value);
+      } catch (error) {
+        ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid template' });
+      }
+      return;
+    }
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      for (const issue of result.error.issues) ctx.addIssue({ code: 'custom', message: issue.message });
+    }
+  });
+}
@@ -0,0 +1,214 @@
+/**
+ * Валидация IFTTT-правил при сохранении
+ * - строгие схемы params для каждого типа триггера и действия (лишние ключи запрещены)
+ * - проверка ссылок: устройства, пары, паттерны, практики, получатели, геозоны и интеграции
+ *   должны существовать и принадлежать владельцу правила (или быть ему доступны)
+ *
+ * Ошибки возвращаются списком { field, message } с полным путём поля, например actions[1].params.deviceId.
+ */
+
+import { z } from 'zod';
+import { db } from './firebase';
+import { ruleActionTemplateParamsSchemas } from './ruleActions';
+import { hasTemplate } from './ruleTemplates';
+import { RuleActionStep, RuleCondition, Rule } from '../types/firestore';
+
+export interface RuleFieldError {
+  field: string;
+  message: string;
+}
+
+// Схемы params для каждого типа триггера
+export const ruleTriggerParamsSchemas = {
+  device_gesture: z.object({
+    gesture: z.enum(['single_tap', 'double_tap', 'long_press']),
+    deviceId: z.string().min(1).max(200).optional(),
+  }).strict(),
+  calendar: z
+    .object({
+      calendarId: z.string().min(1).max(200).optional(),
+      eventTitle: z.string().min(1).max(200).optional(),
+      location: z.string().min(1).max(200).optional(),
+      minutesBefore: z.number().int().min(0).max(1440).optional(),
+      minutesAfter: z.number().int().min(0).max(1440).optional(),
+    })
+    .strict()
+    .refine((v) => v.minutesBefore === undefined || v.minutesAfter === undefined, {
+      message: 'Only one of minutesBefore or minutesAfter can be provided',
+      path: ['minutesAfter'],
+    }),
+  weather: z
+    .object({
+      condition: z.enum(['clear', 'clouds', 'rain', 'snow', 'storm', 'fog']).optional(),
+      precipitation: z.boolean().optional(),
+      temperatureAbove: z.number().min(-100).max(100).optional(),
+      temperatureBelow: z.number().min(-100).max(100).optional(),
+      aqiAbove: z.number().int().min(0).max(500).optional(),
+    })
+    .strict()
+    .refine((v) => Object.keys(v).length > 0, {
+      message: 'At least one weather condition must be provided',
+      path: ['condition'],
+    }),
+  geo: z.object({
+    geofenceId: z.string().min(1).max(200),
+    event: z.enum(['enter', 'exit']),
+  }).strict(),
+  webhook: z.object({
+    integrationKey: z.string().min(1).max(200),
+  }).strict(),
+  time: z.object({}).strict(),
+} as const;
+
+export const ruleTriggerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('device_gesture'), params: ruleTriggerParamsSchemas.device_gesture }),
+  z.object({ type: z.literal('calendar'), params: ruleTriggerParamsSchemas.calendar }),
+  z.object({ type: z.literal('weather'), params: ruleTriggerParamsSchemas.weather }),
+  z.object({ type: z.literal('geo'), params: ruleTriggerParamsSchemas.geo }),
+  z.object({ type: z.literal('webhook'), params: ruleTriggerParamsSchemas.webhook }),
+  z.object({ type: z.literal('time'), params: ruleTriggerParamsSchemas.time }),
+]);
+
+// При сохранении params действий проверяются строго (строковые поля могут быть шаблонами);
+// при выполнении — после подстановки шаблонов схемами без запрета лишних ключей
+const strictActionParams = {
+  start_practice: ruleActionTemplateParamsSchemas.start_practice.strict(),
+  send_hug: ruleActionTemplateParamsSchemas.send_hug.strict(),
+  light_device: ruleActionTemplateParamsSchemas.light_device.strict(),
+  smart_home: ruleActionTemplateParamsSchemas.smart_home.strict(),
+  notification: ruleActionTemplateParamsSchemas.notification.strict(),
+};
+
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('start_practice'), params: strictActionParams.start_practice }),
+  z.object({ type: z.literal('send_hug'), params: strictActionParams.send_hug }),
+  z.object({ type: z.literal('light_device'), params: strictActionParams.light_device }),
+  z.object({ type: z.literal('smart_home'), params: strictActionParams.smart_home }),
+  z.object({ type: z.literal('notification'), params: strictActionParams.notification }),
+]);
+
+// Шаг цепочки действий
+export const ruleActionStepSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('start_practice'), params: strictActionParams.start_practice, continueOnError: z.boolean().optional() }),
+  z.object({ type: z.literal('send_hug'), params: strictActionParams.send_hug, continueOnError: z.boolean().optional() }),
+  z.object({ type: z.literal('light_device'), params: strictActionParams.light_device, continueOnError: z.boolean().optional() }),
+  z.object({ type: z.literal('smart_home'), params: strictActionParams.smart_home, continueOnError: z.boolean().optional() }),
+  z.object({ type: z.literal('notification'), params: strictActionParams.notification, continueOnError: z.boolean().optional() }),
+]);
+
+async function checkOwnedDevice(ownerId: string, deviceId: string): Promise<string | null> {
+  const snap = await db.collection('devices').doc(deviceId).get();
+  if (!snap.exists) return 'Device not found';
+  return (snap.data() as { ownerId?: string }).ownerId === ownerId ? null : 'Device does not belong to user';
+}
+
+async function checkPairMember(ownerId: string, pairId: string): Promise<string | null> {
+  const snap = await db.collection('pairs').doc(pairId).get();
+  if (!snap.exists) return 'Pair not found';
+  const members = (snap.data() as { memberIds?: string[] }).memberIds ?? [];
+  return members.includes(ownerId) ? null : 'You are not a member of this pair';
+}
+
+async function checkVisiblePattern(ownerId: string, patternId: string): Promise<string | null> {
+  const snap = await db.collection('patterns').doc(patternId).get();
+  if (!snap.exists) return 'Pattern not found';
+  const data = snap.data() as { ownerId?: string; public?: boolean; reviewStatus?: string };
+  if (data.ownerId === ownerId || (data.public && data.reviewStatus === 'approved')) return null;
+  return 'Pattern is not accessible';
+}
+
+async function checkPractice(practiceId: string): Promise<string | null> {
+  const snap = await db.collection('practices').doc(practiceId).get();
+  return snap.exists ? null : 'Practice not found';
+}
+
+async function checkUser(userId: string): Promise<string | null> {
+  const snap = await db.collection('users').doc(userId).get();
+  return snap.exists ? null : 'User not found';
+}
+
+async function checkOwnedCalendar(ownerId: string, calendarId: string): Promise<string | null> {
+  const snap = await db.collection('calendars').doc(calendarId).get();
+  if (!snap.exists) return 'Calendar not found';
+  return (snap.data() as { ownerId?: string }).ownerId === ownerId ? null : 'Calendar does not belong to user';
+}
+
+async function checkOwnedGeofence(ownerId: string, geofenceId: string): Promise<string | null> {
+  const snap = await db.collection('geofences').doc(geofenceId).get();
+  if (!snap.exists) return 'Geofence not found';
+  return (snap.data() as { ownerId?: string }).ownerId === ownerId ? null : 'Geofence does not belong to user';
+}
+
+async function checkIntegration(ownerId: string, integrationKey: string): Promise<string | null> {
+  const snap = await db.collection('webhooks').doc(integrationKey).get();
+  if (!snap.exists) return 'Integration not found';
+  const data = snap.data() as { ownerId?: string };
+  return !data.ownerId || data.ownerId === ownerId ? null : 'Integration does not belong to user';
+}
+
+/**
+ * Проверяет, что документы, на которые ссылается правило, существуют и доступны владельцу.
+ * Проверяются только переданные части правила (для PATCH — только изменяемые поля).
+ */
+export async function checkRuleReferences(
+  ownerId: string,
+  rule: Partial<Pick<Rule, 'trigger' | 'action' | 'actions' | 'conditions'>>
+): Promise<RuleFieldError[]> {
+  const checks: Array<Promise<RuleFieldError | null>> = [];
+  const add = (field: string, check: Promise<string | null>) => {
+    checks.push(check.then((message) => (message ? { field, message } : null)));
+  };
+
+  const trigger = rule.trigger;
+  if (trigger?.type === 'device_gesture' && typeof trigger.params.deviceId === 'string') {
+    add('trigger.params.deviceId', checkOwnedDevice(ownerId, trigger.params.deviceId));
+  }
+  if (trigger?.type === 'calendar' && typeof trigger.params.calendarId === 'string') {
+    add('trigger.params.calendarId', checkOwnedCalendar(ownerId, trigger.params.calendarId));
+  }
+  if (trigger?.type === 'geo' && typeof trigger.params.geofenceId === 'string') {
+    add('trigger.params.geofenceId', checkOwnedGeofence(ownerId, trigger.params.geofenceId));
+  }
+  if (trigger?.type === 'webhook' && typeof trigger.params.integrationKey === 'string') {
+    add('trigger.params.integrationKey', checkIntegration(ownerId, trigger.params.integrationKey));
+  }
+
+  const steps: Array<[string, RuleActionStep]> = [];
+  if (rule.action) steps.push(['action', rule.action]);
+  (rule.actions ?? []).forEach((step, index) => steps.push([`actions[${index}]`, step]));
+
+  // Значения-шаблоны известны только при выполнении — там их проверяют сами действия
+  const literal = (value: unknown): value is string => typeof value === 'string' && !hasTemplate(value);
+
+  for (const [prefix, step] of steps) {
+    const params = step.params as Record<string, unknown>;
+    const field = (name: string) => `${prefix}.params.${name}`;
+    switch (step.type) {
+      case 'start_practice':
+        if (literal(params.practiceId)) add(field('practiceId'), checkPractice(params.practiceId));
+        if (literal(params.deviceId)) add(field('deviceId'), checkOwnedDevice(ownerId, params.deviceId));
+        break;
+      case 'send_hug':
+        if (literal(params.pairId)) add(field('pairId'), checkPairMember(ownerId, params.pairId));
+        if (literal(params.toUserId)) add(field('toUserId'), checkUser(params.toUserId));
+        break;
+      case 'light_device':
+        if (literal(params.deviceId)) add(field('deviceId'), checkOwnedDevice(ownerId, params.deviceId));
+        if (literal(params.patternId)) add(field('patternId'), checkVisiblePattern(ownerId, params.patternId));
+        break;
+      default:
+        break;
+    }
+  }
+
+  (rule.conditions ?? []).forEach((condition: RuleCondition, index) => {
+    if (condition.type === 'device_status' || condition.type === 'battery_level') {
+      add(`conditions[${index}].deviceId`, checkOwnedDevice(ownerId, condition.deviceId));
+    } else if (condition.type === 'pair_status') {
+      add(`conditions[${index}].pairId`, checkPairMember(ownerId, condition.pairId));
+    }
+  });
+
+  const results = await Promise.all(checks);
+  return results.filter((r): r is RuleFieldError => r !== null);
+}
@@ -0,0 +1,140 @@
+/**
+ * Погода для weather-правил: интерфейс провайдера и реализации
+ * - open_meteo: Open-Meteo (текущая погода и индекс качества воздуха US AQI, без ключа)
+ * - stub: локальный провайдер с заданными условиями (тесты и эмулятор)
+ * Провайдер выбирается параметром Remote Config weather_provider.
+ */
+
+import { getWeatherProviderName } from './remoteConfig';
+
+export type WeatherCondition = 'clear' | 'clouds' | 'rain' | 'snow' | 'storm' | 'fog';
+
+export interface WeatherLocation {
+  lat: number;
+  lng: number;
+}
+
+export interface WeatherConditions {
+  condition: WeatherCondition;
+  temperatureC: number;
+  precipitation: boolean;
+  aqi: number | null;
+  observedAt: string; // ISO
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getCurrentConditions(location: WeatherLocation): Promise<WeatherConditions>;
+}
+
+export class WeatherProviderError extends Error {
+  constructor(public readonly provider: string, message: string) {
+    super(message);
+    this.name = 'WeatherProviderError';
+  }
+}
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+const PRECIPITATION_CONDITIONS: WeatherCondition[] = ['rain', 'snow', 'storm'];
+
+// Коды погоды WMO → условие правила
+export function conditionFromWmoCode(code: number): WeatherCondition {
+  if (code <= 1) return 'clear';
+  if (code <= 3) return 'clouds';
+  if (code === 45 || code === 48) return 'fog';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if (code >= 95) return 'storm';
+  return 'rain';
+}
+
+async function fetchJson(provider: string, url: string): Promise<Record<string, unknown>> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    throw new WeatherProviderError(provider, `Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (!response.ok) {
+    throw new WeatherProviderError(provider, `Provider responded with HTTP ${response.status}`);
+  }
+  return (await response.json()) as Record<string, unknown>;
+}
+
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly name = 'open_meteo';
+
+  async getCurrentConditions(location: WeatherLocation): Promise<WeatherConditions> {
+    const query = `latitude=${location.lat}&longitude=${location.lng}`;
+    const [forecast, airQuality] = await Promise.all([
+      fetchJson(this.name, `https://api.open-meteo.com/v1/forecast?${query}&current=temperature_2m,precipitation,weather_code`),
+      // AQI необязателен: без него правила с aqiAbove просто не совпадут
+      fetchJson(this.name, `https://air-quality-api.open-meteo.com/v1/air-quality?${query}&current=us_aqi`).catch(() => null),
+    ]);
+
+    const current = forecast.current as { temperature_2m?: number; precipitation?: number; weather_code?: number } | undefined;
+    if (typeof current?.temperature_2m !== 'number' || typeof current.weather_code !== 'number') {
+      throw new WeatherProviderError(this.name, 'Unexpected forecast response');
+    }
+    const condition = conditionFromWmoCode(current.weather_code);
+    const aqi = (airQuality?.current as { us_aqi?: number } | undefined)?.us_aqi;
+    return {
+      condition,
+      temperatureC: current.temperature_2m,
+      precipitation: (current.precipitation ?? 0) > 0 || PRECIPITATION_CONDITIONS.includes(condition),
+      aqi: typeof aqi === 'number' ? aqi : null,
+      observedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Локальный провайдер: возвращает условия, заданные для точки (ключ `lat,lng`), или условия по умолчанию
+ */
+export class StubWeatherProvider implements WeatherProvider {
+  readonly name = 'stub';
+  private readonly byLocation = new Map<string, Omit<WeatherConditions, 'observedAt'>>();
+
+  constructor(private defaults: Omit<WeatherConditions, 'observedAt'> = {
+    condition: 'clear',
+    temperatureC: 20,
+    precipitation: false,
+    aqi: 25,
+  }) {}
+
+  setConditions(conditions: Partial<Omit<WeatherConditions, 'observedAt'>>, location?: WeatherLocation): void {
+    if (location) {
+      this.byLocation.set(`${location.lat},${location.lng}`, { ...this.defaults, ...conditions });
+    } else {
+      this.defaults = { ...this.defaults, ...conditions };
+    }
+  }
+
+  async getCurrentConditions(location: WeatherLocation): Promise<WeatherConditions> {
+    const conditions = this.byLocation.get(`${location.lat},${location.lng}`) ?? this.defaults;
+    return { ...conditions, observedAt: new Date().toISOString() };
+  }
+}
+
+const providers = new Map<string, WeatherProvider>();
+
+/**
+ * Регистрирует (или подменяет) провайдера по имени
+ */
+export function registerWeatherProvider(provider: WeatherProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerWeatherProvider(new OpenMeteoWeatherProvider());
+registerWeatherProvider(new StubWeatherProvider());
+
+/**
+ * Провайдер из Remote Config (weather_provider)
+ */
+export async function getWeatherProvider(): Promise<WeatherProvider> {
+  const name = await getWeatherProviderName();
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new WeatherProviderError(name, `Unknown weather provider: ${name}`);
+  }
+  return provider;
+}
@@ -0,0 +1,190 @@
+/**
+ * Очередь входящих вебхуков: POST /webhooks/:integrationKey после проверки подписи
+ * сохраняет событие в webhookEvents и сразу отвечает 202, правила запускает фоновый обработчик
+ * - статусы: queued → processing → processed | failed
+ * - событие, зависшее в processing (функция упала или вышла по таймауту), забирается повторно
+ * - результат по каждому правилу (ruleId, runId, status) сохраняется в ruleRuns события сразу после его запуска;
+ *   при повторном захвате правила из ruleRuns не запускаются снова
+ * - владелец интеграции видит события через GET /v1/integrations/:integrationKey/events
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import crypto from 'crypto';
+import { db } from './firebase';
+import { fireMatchingRules, FireMatchingRulesOptions, fireRule, RuleFireSummary } from './ruleEngine';
+import { Rule, WebhookEvent } from '../types/firestore';
+
+// События удаляются TTL-политикой по expiresAt
+const EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Дольше таймаута любой функции, обрабатывающей события (плановый проход — 300 с):
+// processing старше этого срока значит, что обработчик завершился, не записав результат
+export const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+// После стольких зависших попыток событие помечается failed, чтобы не забирать его бесконечно
+export const MAX_PROCESSING_ATTEMPTS = 3;
+
+export interface InboundWebhookEvent {
+  integrationKey: string;
+  ownerId?: string;
+  payload: Record<string, unknown>;
+  signatureScheme: 'v1' | 'v2';
+  secretVersion: number;
+}
+
+/**
+ * Сохраняет проверенное событие в очередь, возвращает его ID
+ */
+export async function enqueueWebhookEvent(input: InboundWebhookEvent, now: Date = new Date()): Promise<string> {
+  const ref = db.collection('webhookEvents').doc(`whevt_${crypto.randomBytes(12).toString('hex')}`);
+  await ref.set({
+    id: ref.id,
+    integrationKey: input.integrationKey,
+    ownerId: input.ownerId ?? null,
+    status: 'queued',
+    payload: input.payload,
+    signatureScheme: input.signatureScheme,
+    secretVersion: input.secretVersion,
+    ruleRuns: [],
+    error: null,
+    receivedAt: FieldValue.serverTimestamp(),
+    processedAt: null,
+    expiresAt: new Date(now.getTime() + EVENT_RETENTION_MS),
+  });
+  return ref.id;
+}
+
+// Правила интеграций без ownerId (созданных вручную до /v1/integrations) сопоставляются только по ключу
+async function fireLegacyWebhookRules(
+  integrationKey: string,
+  payload: Record<string, unknown>,
+  options: FireMatchingRulesOptions
+): Promise<RuleFireSummary[]> {
+  const rulesSnapshot = await db
+    .collection('rules')
+    .where('enabled', '==', true)
+    .where('trigger.type', '==', 'webhook')
+    .get();
+
+  const matchingRules: Rule[] = rulesSnapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as Omit<Rule, 'id'>) }))
+    .filter((rule: Rule) => (rule.trigger?.params as Record<string, unknown> | undefined)?.integrationKey === integrationKey)
+    .filter((rule: Rule) => !options.completedRuleIds?.has(rule.id));
+
+  const summaries: RuleFireSummary[] = [];
+  for (const rule of matchingRules) {
+    let summary: RuleFireSummary;
+    try {
+      const outcome = await fireRule(rule, {
+        ruleId: rule.id,
+        triggerType: 'webhook',
+        payload,
+      }, [{ condition: 'trigger.params.integrationKey', matched: true, details: { integrationKey } }]);
+      summary = { ruleId: rule.id, runId: outcome.runId, status: outcome.status };
+    } catch (error) {
+      logger.error('Failed to execute rule action', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ruleId: rule.id,
+        integrationKey,
+      });
+      summary = { ruleId: rule.id, status: 'failed' };
+    }
+    summaries.push(summary);
+    await options.onRuleFired?.(summary);
+  }
+  return summaries;
+}
+
+// Событие можно забрать, если оно в очереди или его обработка зависла дольше PROCESSING_TIMEOUT_MS
+function isClaimable(event: WebhookEvent, now: Date): boolean {
+  if (event.status === 'queued') return true;
+  if (event.status !== 'processing') return false;
+  const startedMs = (event.processingStartedAt?.seconds ?? 0) * 1000;
+  return now.getTime() - startedMs >= PROCESSING_TIMEOUT_MS;
+}
+
+/**
+ * Забирает событие из очереди (queued → processing) и запускает подходящие правила.
+ * Зависшее processing забирается повторно; после MAX_PROCESSING_ATTEMPTS попыток событие помечается failed.
+ * Повторный вызов для уже забранного события ничего не делает и возвращает null.
+ */
+export async function processWebhookEvent(eventId: string, now: Date = new Date()): Promise<WebhookEvent['status'] | null> {
+  const ref = db.collection('webhookEvents').doc(eventId);
+  const claim = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const data = snap.data() as WebhookEvent | undefined;
+    if (!snap.exists || !data || !isClaimable(data, now)) return null;
+    const attempts = (data.processingAttempts ?? 0) + 1;
+    if (attempts > MAX_PROCESSING_ATTEMPTS) {
+      tx.set(ref, { status: 'failed', error: 'Processing timed out', processedAt: FieldValue.serverTimestamp() }, { merge: true });
+      return { event: data, timedOut: true };
+    }
+    tx.set(ref, {
+      status: 'processing',
+      processingStartedAt: FieldValue.serverTimestamp(),
+      processingAttempts: attempts,
+    }, { merge: true });
+    return { event: data, timedOut: false };
+  });
+  if (!claim) return null;
+  const { event } = claim;
+  if (claim.timedOut) {
+    logger.error('Webhook event processing timed out', { eventId, integrationKey: event.integrationKey });
+    return 'failed';
+  }
+
+  // Прогресс прошлой попытки: её правила уже запущены, повторный захват их пропускает
+  const previousRuns: RuleFireSummary[] = event.ruleRuns ?? [];
+  const progress = [...previousRuns];
+  const options: FireMatchingRulesOptions = {
+    completedRuleIds: new Set(previousRuns.map((run) => run.ruleId)),
+    onRuleFired: async (summary) => {
+      progress.push(summary);
+      await ref.set({ ruleRuns: progress }, { merge: true });
+    },
+  };
+
+  try {
+    let fired: RuleFireSummary[];
+    if (event.ownerId) {
+      fired = await fireMatchingRules(event.ownerId, 'webhook', { integrationKey: event.integrationKey }, event.payload, options);
+    } else {
+      fired = await fireLegacyWebhookRules(event.integrationKey, event.payload, options);
+    }
+    const ruleRuns = [...previousRuns, ...fired];
+    await ref.set({ status: 'processed', ruleRuns, processedAt: FieldValue.serverTimestamp() }, { merge: true });
+    logger.info('Webhook event processed', { eventId, integrationKey: event.integrationKey, rules: fired.length });
+    return 'processed';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await ref.set({ status: 'failed', error: message, processedAt: FieldValue.serverTimestamp() }, { merge: true });
+    logger.error('Webhook event processing failed', { eventId, integrationKey: event.integrationKey, error: message });
+    return 'failed';
+  }
+}
+
+/**
+ * Досылает события, которые остались в queued дольше olderThanMs (например, пропущенный триггер),
+ * и повторно забирает зависшие в processing дольше PROCESSING_TIMEOUT_MS
+ */
+export async function processStaleWebhookEvents(now: Date = new Date(), olderThanMs = 2 * 60 * 1000, limit = 100): Promise<number> {
+  const [queued, stuck] = await Promise.all([
+    db
+      .collection('webhookEvents')
+      .where('status', '==', 'queued')
+      .where('receivedAt', '<=', new Date(now.getTime() - olderThanMs))
+      .limit(limit)
+      .get(),
+    db
+      .collection('webhookEvents')
+      .where('status', '==', 'processing')
+      .where('processingStartedAt', '<=', new Date(now.getTime() - PROCESSING_TIMEOUT_MS))
+      .limit(limit)
+      .get(),
+  ]);
+  let processed = 0;
+  for (const doc of [...queued.docs, ...stuck.docs]) {
+    if (await processWebhookEvent(doc.id, now)) processed++;
+  }
+  return processed;
+}
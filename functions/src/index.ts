@@ -18,11 +18,18 @@ import { api } from './api/test';
 
 // Импорт фоновых функций
 import { processUserDeletion } from './background/deleteUser';
-import { processOutbox } from './background/outboxWorker';
+import { processOutbox, processOutboxRetries } from './background/outboxWorker';
 import { scheduledCleanup } from './background/scheduledCleanup';
 import { practiceRemindersHandler, scheduledPracticeRemindersHandler } from './background/practiceReminders';
 import { otaNotificationsHandler } from './background/otaNotifications';
 import { aggregateStats, manualStatsAggregation } from './background/statsAggregator';
+import { ruleSchedulerHandler } from './background/ruleScheduler';
+import { locationCleanupHandler } from './background/locationCleanup';
+import { calendarSchedulerHandler, calendarSyncHandler } from './background/calendarScheduler';
+import { weatherPollerHandler } from './background/weatherPoller';
+import { deviceEventsHandler } from './background/deviceEvents';
+import { webhookEventsHandler, webhookEventsSweepHandler } from './background/webhookEvents';
+import { patternPopularityHandler } from './background/patternPopularity';
 
 // For cost control, you can set the maximum number of containers that can be
 // running at the same time. This helps mitigate the impact of unexpected
@@ -41,10 +48,17 @@ export { api };
 
 // Экспорт фоновых функций
 export { processUserDeletion };
-export { processOutbox };
+export { processOutbox, processOutboxRetries };
 export { scheduledCleanup };
 export { practiceRemindersHandler, scheduledPracticeRemindersHandler };
 export { otaNotificationsHandler };
 export { aggregateStats, manualStatsAggregation };
+export { ruleSchedulerHandler };
+export { locationCleanupHandler };
+export { calendarSchedulerHandler, calendarSyncHandler };
+export { weatherPollerHandler };
+export { deviceEventsHandler };
+export { webhookEventsHandler, webhookEventsSweepHandler };
+export { patternPopularityHandler };
 
 logger.info('Amulet Backend functions loaded', {structuredData: true});
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+/**
+ * Разовое заполнение полей популярности (likeCount, ratingScore, trendingScore и т.д.) у паттернов каталога,
+ * созданных до учёта популярности. Новые и одобренные паттерны получают эти поля сразу, фоновый пересчёт
+ * каталог не сканирует. Повторный запуск безопасен: заполненные поля не меняются.
+ */
+
+import { initializeMissingPopularity } from '../core/patternPopularity';
+
+async function backfillPatternPopularity() {
+  console.log('🚀 Заполняем поля популярности паттернов каталога...');
+  try {
+    const initialized = await initializeMissingPopularity();
+    console.log(`✅ Обновлено паттернов: ${initialized}`);
+  } catch (error) {
+    console.error('❌ Ошибка при заполнении популярности:', error);
+    process.exit(1);
+  }
+}
+
+// Запуск скрипта
+if (require.main === module) {
+  backfillPatternPopularity();
+}
+
+export { backfillPatternPopularity };
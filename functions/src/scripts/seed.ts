@@ -139,6 +139,11 @@ const patterns: Omit<Pattern, 'id' | 'createdAt' | 'updatedAt'>[] = [
     description: 'Плавная пульсация для дыхательных практик',
     tags: ['breathing', 'calm', 'v1.0'],
     usageCount: 0,
+    likeCount: 0,
+    ratingCount: 0,
+    ratingAverage: null,
+    ratingScore: 3,
+    trendingScore: 0,
     sharedWith: []
   },
   {
@@ -169,6 +174,11 @@ const patterns: Omit<Pattern, 'id' | 'createdAt' | 'updatedAt'>[] = [
     description: 'Плавная пульсация от центра для дыхательных практик',
     tags: ['breathing', 'calm', 'v2.0'],
     usageCount: 0,
+    likeCount: 0,
+    ratingCount: 0,
+    ratingAverage: null,
+    ratingScore: 3,
+    trendingScore: 0,
     sharedWith: []
   },
   {
@@ -199,6 +209,11 @@ const patterns: Omit<Pattern, 'id' | 'createdAt' | 'updatedAt'>[] = [
     description: 'Плавный переход цветов по кольцу',
     tags: ['rainbow', 'colorful', 'v2.0'],
     usageCount: 0,
+    likeCount: 0,
+    ratingCount: 0,
+    ratingAverage: null,
+    ratingScore: 3,
+    trendingScore: 0,
     sharedWith: []
   },
   {
@@ -227,6 +242,11 @@ const patterns: Omit<Pattern, 'id' | 'createdAt' | 'updatedAt'>[] = [
     description: 'Мягкая пульсация для снятия стресса',
     tags: ['haptic', 'calm', 'stress-relief'],
     usageCount: 0,
+    likeCount: 0,
+    ratingCount: 0,
+    ratingAverage: null,
+    ratingScore: 3,
+    trendingScore: 0,
     sharedWith: []
   },
   {
@@ -266,6 +286,11 @@ const patterns: Omit<Pattern, 'id' | 'createdAt' | 'updatedAt'>[] = [
     description: 'Комбинированный паттерн для глубокой медитации',
     tags: ['meditation', 'combo', 'v2.0'],
     usageCount: 0,
+    likeCount: 0,
+    ratingCount: 0,
+    ratingAverage: null,
+    ratingScore: 3,
+    trendingScore: 0,
     sharedWith: []
   }
 ];
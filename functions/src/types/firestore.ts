@@ -24,7 +24,9 @@ export interface User extends BaseDocument {
     analytics: boolean;
     marketing: boolean;
     telemetry: boolean;
+    location?: boolean; // обязательно для POST /v1/location/events
   };
+  weatherLocation?: { lat: number; lng: number } | null; // точка для weather-правил
   pushTokens: string[];
   isDeleted: boolean;
   deletedAt?: Timestamp;
@@ -52,6 +54,109 @@ export interface Device extends BaseDocument {
   lastSeenAt: Timestamp;
 }
 
+// Device gesture events (devices/{deviceId}/gestureEvents/{eventId}, eventId — клиентский ID события)
+export type DeviceGesture = 'single_tap' | 'double_tap' | 'long_press';
+
+export interface DeviceGestureEvent extends BaseDocument {
+  ownerId: string;
+  deviceId: string;
+  gesture: DeviceGesture;
+  occurredAt: Timestamp;
+  status: 'processing' | 'processed' | 'failed'; // failed и зависший processing повтор обрабатывает заново
+  error?: string | null;
+  practiceId?: string | null; // практика из settings.gestures
+  sessionId?: string | null;
+  practiceError?: { code: string; message: string } | null;
+  rules?: Array<{ ruleId: string; runId?: string; status: RuleRunStatus }>;
+  processedAt?: Timestamp;
+}
+
+// Geofence Collection (пользовательские геозоны для geo-правил)
+export interface Geofence extends BaseDocument {
+  ownerId: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radiusM: number;
+}
+
+// Geofence states (geofenceStates/{ownerId}_{geofenceId}): текущее положение относительно геозоны
+export interface GeofenceState {
+  ownerId: string;
+  geofenceId: string;
+  state: 'inside' | 'outside';
+  changedAt: Timestamp;
+  lastFiredAt?: Timestamp; // последнее срабатывание правил (для кулдауна)
+}
+
+// Location events (короткое хранение, удаляются после expiresAt)
+export interface LocationEvent extends BaseDocument {
+  ownerId: string;
+  event: 'enter' | 'exit';
+  source: 'coordinates' | 'geofence';
+  lat?: number;
+  lng?: number;
+  accuracy?: number;
+  geofenceId?: string;
+  occurredAt: Timestamp;
+  transitions: Array<{
+    geofenceId: string;
+    status: 'fired' | 'unchanged' | 'cooldown';
+    rules?: Array<{ ruleId: string; runId?: string; status: RuleRunStatus }>;
+  }>;
+  expiresAt: Timestamp;
+}
+
+// Calendars Collection (ICS-календари для calendar-правил)
+export interface Calendar extends BaseDocument {
+  ownerId: string;
+  name: string;
+  source: 'url' | 'upload';
+  url?: string; // только для source = 'url', периодически синхронизируется
+  eventsCount: number;
+  lastSyncedAt?: Timestamp | null;
+  lastSyncError?: { code: string; message: string } | null;
+}
+
+// Calendar events (вхождения событий календаря, заменяются при каждой синхронизации)
+export interface CalendarEvent {
+  id: string;
+  ownerId: string;
+  calendarId: string;
+  uid: string;
+  title: string;
+  location: string | null;
+  startAt: Timestamp;
+  endAt: Timestamp;
+  allDay: boolean;
+}
+
+// Calendar firings (calendarFirings/{ruleId}_{eventId}): защита от повторного срабатывания правила
+export interface CalendarFiring {
+  ownerId: string;
+  ruleId: string;
+  eventId: string;
+  fireAt: Timestamp;
+  runId?: string;
+  expiresAt: Timestamp;
+}
+
+// Weather states (weatherStates/{ruleId}): выполнялось ли условие weather-правила при последнем опросе
+export interface WeatherState {
+  ownerId: string;
+  ruleId: string;
+  paramsKey: string; // params триггера; при изменении правила состояние сбрасывается
+  matched: boolean;
+  changedAt: Timestamp;
+  lastConditions: {
+    condition: string;
+    temperatureC: number;
+    precipitation: boolean;
+    aqi: number | null;
+    observedAt: string;
+  };
+}
+
 // Pair Collection (связи пользователей)
 export interface Pair extends BaseDocument {
   memberIds: [string, string]; // всегда ровно 2 элемента
@@ -112,8 +217,46 @@ export interface Pattern extends BaseDocument {
   title: string;
   description: string;
   tags: string[];
-  usageCount: number; // для статистики
+  usageCount: number; // использования (предпросмотр, объятия, практики); сумма шардов popularityShards
+  likeCount?: number;
+  ratingCount?: number;
+  ratingAverage?: number | null;
+  ratingScore?: number; // байесовская оценка для сортировки top_rated
+  trendingScore?: number; // активность с экспоненциальным затуханием для сортировки trending
+  popularityUpdatedAt?: Timestamp; // последний пересчёт фоновой задачей
   sharedWith: string[]; // userIds
+  currentRevision?: number; // ревизия, совпадающая с живым spec
+  latestRevision?: number; // номер последней созданной ревизии
+  pendingRevision?: number | null; // правка одобренного паттерна, ждущая модерации
+  hasPendingRevision?: boolean; // для выборки очереди модерации правок
+  allowForks?: boolean; // false — другим пользователям форк запрещён
+  forkCount?: number;
+  forkedFrom?: { // атрибуция форка: оригинал на момент копирования
+    patternId: string;
+    ownerId: string | null;
+    authorName: string | null;
+    title: string | null;
+    revision: number | null;
+  };
+}
+
+// Ревизия паттерна (patterns/{patternId}/revisions/{number}), неизменяема после записи
+export interface PatternRevision {
+  id: string; // номер ревизии строкой
+  patternId: string;
+  number: number;
+  authorId: string | null;
+  spec: PatternSpec;
+  hardwareVersion: 100 | 200;
+  // Карточка каталога на момент ревизии (нет у ревизий, созданных до её учёта)
+  kind?: 'light' | 'haptic' | 'combo';
+  title?: string;
+  description?: string;
+  tags?: string[];
+  specHash: string; // sha256 от канонического JSON spec
+  source: 'create' | 'update' | 'revert' | 'baseline';
+  revertedFrom: number | null;
+  createdAt: Timestamp;
 }
 
 // Спецификация паттерна анимации
@@ -146,6 +289,29 @@ export interface PatternElement {
   };
 }
 
+// Действие IFTTT-правила (шаг цепочки)
+export interface RuleActionStep {
+  type: 'start_practice' | 'send_hug' | 'light_device' | 'smart_home' | 'notification';
+  params: Record<string, string | number | boolean>;
+  continueOnError?: boolean; // продолжать цепочку, если действие завершилось ошибкой
+}
+
+export type RuleComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+// Условие IFTTT-правила (проверяется после совпадения триггера, все условия объединяются через AND)
+export type RuleCondition =
+  | { type: 'time_window'; start: string; end: string; timezone?: string } // HH:MM, окно может переходить через полночь
+  | { type: 'weekday'; days: number[]; timezone?: string } // 0 — воскресенье
+  | { type: 'device_status'; deviceId: string; status: Device['status'][] }
+  | { type: 'battery_level'; deviceId: string; operator: RuleComparisonOperator; value: number }
+  | { type: 'pair_status'; pairId: string; status: Pair['status'][] }
+  | {
+      type: 'payload';
+      path: string; // путь в payload события через точку
+      operator: RuleComparisonOperator | 'contains' | 'exists' | 'not_exists';
+      value?: string | number | boolean;
+    };
+
 // Rule Collection (IFTTT правила)
 export interface Rule extends BaseDocument {
   ownerId: string;
@@ -153,19 +319,54 @@ export interface Rule extends BaseDocument {
     type: 'device_gesture' | 'calendar' | 'weather' | 'geo' | 'webhook' | 'time';
     params: Record<string, string | number | boolean>;
   };
-  action: {
-    type: 'start_practice' | 'send_hug' | 'light_device' | 'smart_home' | 'notification';
-    params: Record<string, string | number | boolean>;
-  };
+  action?: RuleActionStep; // одиночное действие (исходный формат)
+  actions?: RuleActionStep[]; // упорядоченная цепочка действий; задаётся вместо action
+  conditions?: RuleCondition[];
   enabled: boolean;
   schedule?: {
     timezone: string;
     cron: string; // cron expression
   };
+  nextRunAt?: Timestamp | null; // ближайшее срабатывание для trigger.type == 'time'
+  schedulerLock?: {
+    runId: string;
+    lockedAt: Timestamp;
+    expiresAt: Timestamp;
+  };
   lastTriggeredAt?: Timestamp;
   triggerCount: number;
 }
 
+export type RuleRunStatus = 'succeeded' | 'skipped' | 'failed';
+
+// Результат проверки одного условия срабатывания правила
+export interface RuleConditionMatch {
+  condition: string;
+  matched: boolean;
+  details?: Record<string, unknown>;
+}
+
+// Rule Run Subcollection (история запусков: rules/{ruleId}/runs)
+export interface RuleRun {
+  id: string;
+  ruleId: string;
+  ownerId: string;
+  triggerType: Rule['trigger']['type'];
+  triggerPayload: Record<string, unknown>;
+  matchedConditions: RuleConditionMatch[];
+  status: RuleRunStatus;
+  actionResults: Array<{
+    type: RuleActionStep['type'];
+    status: RuleRunStatus;
+    output?: Record<string, unknown>;
+    error?: { code: string; message: string; details?: Record<string, unknown> };
+  }>;
+  error: { code: string; message: string; details?: Record<string, unknown> } | null;
+  latencyMs: number;
+  startedAt: Timestamp;
+  createdAt: Timestamp;
+}
+
 // Session Collection (сессии практик)
 export interface Session extends BaseDocument {
   ownerId: string;
@@ -181,7 +382,7 @@ export interface Session extends BaseDocument {
     rating: number; // 1-5
     comment?: string;
   };
-  source: 'manual' | 'rule' | 'reminder';
+  source: 'manual' | 'rule' | 'reminder' | 'gesture';
   intensity?: number; // 0-1
   brightness?: number; // 0-1
 }
@@ -268,13 +469,73 @@ export interface NotificationToken extends BaseDocument {
 // Webhook Collection (интеграции)
 export interface Webhook extends BaseDocument {
   integrationKey: string;
+  ownerId?: string; // нет у интеграций, созданных вручную до /v1/integrations
+  name?: string;
   secret: string;
+  secretVersion?: number; // версия текущего секрета, начиная с 1
+  secretRotatedAt?: Timestamp;
+  // Предыдущий секрет принимается до previousSecretExpiresAt (окно ротации)
+  previousSecret?: string | null;
+  previousSecretVersion?: number | null;
+  previousSecretExpiresAt?: Timestamp | null;
+  lastSecretVersion?: number; // версия секрета, которой подписан последний принятый запрос
+  usageBySecretVersion?: Record<string, number>; // v{версия} → число принятых запросов
+  // Подпись v1 (HMAC только JSON тела) — для отправителей до перехода на v2; нет поля — разрешена
+  legacySignatureEnabled?: boolean;
   isActive: boolean;
   lastUsedAt?: Timestamp;
   usageCount: number;
   allowedOrigins: string[];
 }
 
+// Входящее событие вебхука: принимается сразу (202), правила запускает фоновый обработчик
+export interface WebhookEvent {
+  id: string;
+  integrationKey: string;
+  ownerId: string | null; // null — интеграция без владельца (до /v1/integrations)
+  status: 'queued' | 'processing' | 'processed' | 'failed';
+  payload: Record<string, unknown>;
+  signatureScheme: 'v1' | 'v2';
+  secretVersion: number;
+  ruleRuns: Array<{ ruleId: string; runId?: string; status: RuleRunStatus }>;
+  error: string | null;
+  receivedAt: Timestamp;
+  processingStartedAt?: Timestamp;
+  processingAttempts?: number; // число захватов; зависшее processing забирается повторно
+  processedAt?: Timestamp | null;
+}
+
+// Исходящие вебхуки: события пользователя доставляются на его URL через outbox
+export type OutboundEventType = 'hug.received' | 'session.completed' | 'device.offline' | 'device.firmware_updated';
+
+export interface OutboundWebhook extends BaseDocument {
+  ownerId: string;
+  url: string; // только https на публичный хост
+  description?: string | null;
+  eventTypes: OutboundEventType[];
+  secret: string; // подпись X-Signature: v2=HMAC(`${timestamp}.${body}`)
+  isActive: boolean;
+  consecutiveFailures: number; // сбрасывается при успешной доставке
+  disabledReason?: 'too_many_failures' | null;
+  disabledAt?: Timestamp | null;
+  lastDeliveryAt?: Timestamp | null;
+  lastDeliveryStatus?: 'succeeded' | 'failed' | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  ownerId: string;
+  eventId: string;
+  eventType: OutboundEventType;
+  attempt: number; // 1 — первая попытка
+  status: 'succeeded' | 'failed';
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: Timestamp;
+}
+
 // Admin Collections
 export interface AdminAction extends BaseDocument {
   adminId: string;
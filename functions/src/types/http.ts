@@ -2,7 +2,7 @@
  * Типы для HTTP API
  */
 
-import { Timestamp } from './firestore';
+import { RuleCondition, Timestamp } from './firestore';
 
 // Базовые типы ответов
 export interface ApiResponse<T = unknown> {
@@ -73,6 +73,7 @@ export interface CreateUserRequest {
     analytics?: boolean;
     marketing?: boolean;
     telemetry?: boolean;
+    location?: boolean;
   };
 }
 
@@ -85,7 +86,9 @@ export interface UpdateUserRequest {
     analytics?: boolean;
     marketing?: boolean;
     telemetry?: boolean;
+    location?: boolean;
   };
+  weatherLocation?: { lat: number; lng: number } | null;
 }
 
 export interface DeleteUserRequest {
@@ -238,10 +241,13 @@ export interface CreateRuleRequest {
     type: 'device_gesture' | 'calendar' | 'weather' | 'geo' | 'webhook' | 'time';
     params: Record<string, string | number | boolean>;
   };
-  action: {
+  // Задаётся либо action, либо actions
+  action?: {
     type: 'start_practice' | 'send_hug' | 'light_device' | 'smart_home' | 'notification';
     params: Record<string, string | number | boolean>;
   };
+  actions?: Array<NonNullable<CreateRuleRequest['action']> & { continueOnError?: boolean }>;
+  conditions?: RuleCondition[];
   schedule?: {
     timezone: string;
     cron: string;
@@ -252,6 +258,8 @@ export interface CreateRuleRequest {
 export interface UpdateRuleRequest {
   trigger?: CreateRuleRequest['trigger'];
   action?: CreateRuleRequest['action'];
+  actions?: CreateRuleRequest['actions'];
+  conditions?: CreateRuleRequest['conditions'];
   schedule?: CreateRuleRequest['schedule'];
   enabled?: boolean;
 }